@@ -0,0 +1,74 @@
+/**
+ * 商品全文索引创建脚本
+ * ============================================================
+ *
+ * 【背景】
+ * 商品搜索使用 MySQL 全文索引（见 src/lib/search.ts），中文需要 ngram 分词器。
+ * schema.prisma 中声明了两个全文索引（@@fulltext），但 Prisma 无法指定分词器，
+ * db push 创建的是默认分词器的索引，中文搜不到。这个脚本按 ngram 分词器重建这两个索引。
+ *
+ * 【运行方式】
+ * 1. npx prisma db push          # 创建全文索引（默认分词器）
+ * 2. npm run db:search-index     # 按 ngram 分词器重建
+ *
+ * 【注意事项】
+ * - 幂等：索引已存在时先删除再创建，可以多次运行
+ * - Prisma 比较 schema 和数据库时不比较分词器，之后再 db push 不会把索引改回默认分词器
+ * - 创建索引时关闭停用词：默认停用词表中有 a、i、on 等单词，ngram 分词器会丢弃所有包含停用词的片段，
+ *   导致 "iphone" 这样的英文单词几乎搜不到。停用词设置在创建索引时读取，之后搜索不受数据库全局设置影响
+ * - ngram_token_size（分词长度）是数据库启动参数，这里使用默认值 2，和 search-highlight.ts 的 NGRAM_TOKEN_SIZE 一致
+ * - 商品很多时重建索引需要一段时间，期间商品表可以读不能写，建议在访问量低的时候运行
+ */
+
+import { PrismaClient } from '../src/generated/prisma/client'
+import { PrismaMariaDb } from '@prisma/adapter-mariadb'
+import 'dotenv/config'
+
+// 和种子脚本一样，独立于应用运行，需要单独创建 PrismaClient 实例
+const adapter = new PrismaMariaDb(process.env.DATABASE_URL!)
+const prisma = new PrismaClient({ adapter } as never)
+
+// 和 schema.prisma 中 @@fulltext 的 map 名称、列保持一致
+const INDEXES = [
+  { name: 'products_name_ft', columns: 'name' },
+  { name: 'products_name_description_ft', columns: 'name, description' },
+]
+
+async function main() {
+  console.log('🔍 开始创建商品全文索引...\n')
+
+  // 停用词设置是会话级别的，放在同一个事务中保证使用同一个数据库连接
+  // （ALTER TABLE 会隐式提交事务，这里的事务只用来固定连接，不能回滚）
+  await prisma.$transaction(
+    async (tx) => {
+      await tx.$executeRawUnsafe('SET SESSION innodb_ft_enable_stopword = OFF')
+
+      for (const index of INDEXES) {
+        const existing = await tx.$queryRaw<{ count: bigint }[]>`
+          SELECT COUNT(*) AS count FROM information_schema.statistics
+          WHERE table_schema = DATABASE() AND table_name = 'products' AND index_name = ${index.name}
+        `
+        if (Number(existing[0]?.count ?? 0) > 0) {
+          await tx.$executeRawUnsafe(`ALTER TABLE products DROP INDEX ${index.name}`)
+        }
+        // 索引名和列是上面写死的常量，不是用户输入，可以直接拼接
+        await tx.$executeRawUnsafe(
+          `ALTER TABLE products ADD FULLTEXT INDEX ${index.name} (${index.columns}) WITH PARSER ngram`
+        )
+        console.log(`✅ ${index.name}（${index.columns}）`)
+      }
+    },
+    { timeout: 10 * 60 * 1000 } // 重建索引可能比较慢，默认的 5 秒超时不够
+  )
+
+  console.log('\n🎉 全文索引创建完成')
+}
+
+main()
+  .catch((e) => {
+    console.error('❌ 创建索引失败:', e)
+    process.exit(1)
+  })
+  .finally(async () => {
+    await prisma.$disconnect()
+  })
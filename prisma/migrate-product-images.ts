@@ -0,0 +1,108 @@
+/**
+ * 商品图片数据迁移脚本
+ * ============================================================
+ *
+ * 【背景】
+ * 商品图片原来是 products.images 列中的 JSON 字符串（如 '["https://a.jpg","https://b.jpg"]'），
+ * 现在改存 product_images 表（见 schema.prisma 的 ProductImage）。
+ * 这个脚本把旧的 JSON 数据逐个商品转换成 ProductImage 记录。
+ *
+ * 【运行方式】
+ * 1. npx prisma db push          # 创建 product_images 表（旧的 images 列保留为 legacyImages）
+ * 2. npm run db:migrate-images   # 转换旧数据
+ *
+ * 【注意事项】
+ * - 幂等：已经有 ProductImage 记录的商品跳过，转换成功后清空旧列，多次运行不会重复创建
+ * - 每个商品单独一个事务：某个商品的 JSON 损坏时记录下来，不影响其他商品
+ * - 旧数据只有图片地址：替代文字默认使用商品名称，没有缩略图（显示时使用原图）
+ * - 全部转换完成后，可以从 schema.prisma 中删除 legacyImages 字段
+ */
+
+import { PrismaClient } from '../src/generated/prisma/client'
+import { PrismaMariaDb } from '@prisma/adapter-mariadb'
+import 'dotenv/config'
+
+// 和种子脚本一样，独立于应用运行，需要单独创建 PrismaClient 实例
+const adapter = new PrismaMariaDb(process.env.DATABASE_URL!)
+const prisma = new PrismaClient({ adapter } as never)
+
+/**
+ * 解析旧的 JSON 图片列表，只保留非空的字符串
+ * @throws Error JSON 格式不正确或不是数组时抛出
+ */
+function parseLegacyImages(value: string): string[] {
+  const parsed: unknown = JSON.parse(value)
+  if (!Array.isArray(parsed)) {
+    throw new Error('不是 JSON 数组')
+  }
+  return parsed
+    .filter((url): url is string => typeof url === 'string')
+    .map((url) => url.trim())
+    .filter(Boolean)
+}
+
+async function main() {
+  console.log('🖼️  开始迁移商品图片...\n')
+
+  const products = await prisma.product.findMany({
+    where: { legacyImages: { not: null } },
+    select: {
+      id: true,
+      name: true,
+      legacyImages: true,
+      _count: { select: { images: true } },
+    },
+  })
+
+  let migrated = 0
+  let skipped = 0
+  const failures: string[] = []
+
+  for (const product of products) {
+    // 已经有新图片记录（之前迁移过，或管理员已重新上传），只清空旧列
+    if (product._count.images > 0) {
+      await prisma.product.update({ where: { id: product.id }, data: { legacyImages: null } })
+      skipped++
+      continue
+    }
+
+    let urls: string[]
+    try {
+      urls = parseLegacyImages(product.legacyImages!)
+    } catch (error) {
+      failures.push(`#${product.id} ${product.name}：${error instanceof Error ? error.message : error}`)
+      continue
+    }
+
+    await prisma.$transaction([
+      prisma.productImage.createMany({
+        data: urls.map((url, index) => ({
+          productId: product.id,
+          url,
+          alt: product.name,
+          sortOrder: index,
+        })),
+      }),
+      prisma.product.update({ where: { id: product.id }, data: { legacyImages: null } }),
+    ])
+    migrated++
+  }
+
+  console.log(`✅ 已迁移 ${migrated} 个商品的图片`)
+  if (skipped > 0) {
+    console.log(`⏭️  跳过 ${skipped} 个已有图片记录的商品`)
+  }
+  if (failures.length > 0) {
+    console.log(`\n⚠️  以下 ${failures.length} 个商品的旧图片数据无法解析，请在后台重新上传：`)
+    failures.forEach((failure) => console.log(`   ${failure}`))
+  }
+}
+
+main()
+  .catch((e) => {
+    console.error('❌ 迁移失败:', e)
+    process.exit(1)
+  })
+  .finally(async () => {
+    await prisma.$disconnect()
+  })
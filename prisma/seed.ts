@@ -60,19 +60,30 @@ async function main() {
   console.log(`✅ 测试用户: ${user.email} (密码: user123)`)
 
   // ==================== 2. 创建商品分类 ====================
-  const categories = [
+  // 多级分类：parent 是上级分类的 slug，上级分类要排在前面先创建
+  const categories: { name: string; slug: string; parent?: string }[] = [
     { name: '电子产品', slug: 'electronics' },
     { name: '服装', slug: 'clothing' },
     { name: '图书', slug: 'books' },
     { name: '家居生活', slug: 'home' },
+    { name: '手机', slug: 'phones', parent: 'electronics' },
+    { name: '电脑', slug: 'computers', parent: 'electronics' },
+    { name: '耳机音响', slug: 'audio', parent: 'electronics' },
   ]
 
-  for (const cat of categories) {
-    await prisma.category.upsert({
+  const categoryIds: Record<string, number> = {}
+  for (const [index, { parent, ...cat }] of categories.entries()) {
+    const data = {
+      ...cat,
+      parentId: parent ? categoryIds[parent] : null,
+      sortOrder: index,
+    }
+    const category = await prisma.category.upsert({
       where: { slug: cat.slug },
-      update: { name: cat.name },
-      create: cat,
+      update: data,
+      create: data,
     })
+    categoryIds[cat.slug] = category.id
   }
   console.log(`✅ 已创建 ${categories.length} 个分类`)
 
@@ -86,31 +97,31 @@ async function main() {
       description: 'Apple 最新旗舰手机，搭载 A17 Pro 芯片，钛金属设计，48MP 主摄像头。\n\n主要特性：\n- A17 Pro 芯片，性能强劲\n- 钛金属框架，轻盈耐用\n- 48MP 主摄 + 超广角 + 长焦三摄系统\n- USB-C 接口，支持 USB 3\n- 全天候电池续航',
       price: 9999,
       stock: 50,
-      images: JSON.stringify(['https://picsum.photos/seed/iphone/800/800']),
-      categoryId: catMap['electronics'],
+      image: 'https://picsum.photos/seed/iphone/800/800',
+      categoryId: catMap['phones'],
     },
     {
       name: 'MacBook Pro 14 英寸',
       description: 'M3 Pro 芯片，18GB 统一内存，512GB 固态硬盘。Liquid Retina XDR 显示屏。\n\n适合专业用户的高性能笔记本电脑，无论是编程、设计还是视频剪辑都能轻松应对。',
       price: 14999,
       stock: 30,
-      images: JSON.stringify(['https://picsum.photos/seed/macbook/800/800']),
-      categoryId: catMap['electronics'],
+      image: 'https://picsum.photos/seed/macbook/800/800',
+      categoryId: catMap['computers'],
     },
     {
       name: 'AirPods Pro 2',
       description: '第二代 AirPods Pro，搭载 H2 芯片。\n\n- 自适应降噪\n- 个性化空间音频\n- 触控操作\n- 最长 6 小时聆听时间',
       price: 1799,
       stock: 100,
-      images: JSON.stringify(['https://picsum.photos/seed/airpods/800/800']),
-      categoryId: catMap['electronics'],
+      image: 'https://picsum.photos/seed/airpods/800/800',
+      categoryId: catMap['audio'],
     },
     {
       name: '经典款纯棉T恤',
       description: '100% 新疆长绒棉，舒适透气。\n\n- 精梳棉面料，柔软亲肤\n- 圆领设计，简约百搭\n- 多色可选\n- 机洗不变形',
       price: 99,
       stock: 200,
-      images: JSON.stringify(['https://picsum.photos/seed/tshirt/800/800']),
+      image: 'https://picsum.photos/seed/tshirt/800/800',
       categoryId: catMap['clothing'],
     },
     {
@@ -118,7 +129,7 @@ async function main() {
       description: '免烫处理，通勤必备。\n\n面料柔软，版型修身，适合日常办公和商务场合。',
       price: 259,
       stock: 80,
-      images: JSON.stringify(['https://picsum.photos/seed/shirt/800/800']),
+      image: 'https://picsum.photos/seed/shirt/800/800',
       categoryId: catMap['clothing'],
     },
     {
@@ -126,7 +137,7 @@ async function main() {
       description: '90% 白鹅绒填充，蓬松保暖。\n\n- 800+ 蓬松度\n- 防风防水面料\n- 连帽设计\n- 轻便可收纳',
       price: 899,
       stock: 60,
-      images: JSON.stringify(['https://picsum.photos/seed/jacket/800/800']),
+      image: 'https://picsum.photos/seed/jacket/800/800',
       categoryId: catMap['clothing'],
     },
     {
@@ -134,7 +145,7 @@ async function main() {
       description: '前端开发必读经典！全面介绍 JavaScript 核心概念和最佳实践。\n\n涵盖 ES6+ 新特性、DOM 编程、异步编程、模块化等核心内容。无论你是初学者还是有经验的开发者，这本书都能帮你深入理解 JavaScript。',
       price: 89,
       stock: 150,
-      images: JSON.stringify(['https://picsum.photos/seed/jsbook/800/800']),
+      image: 'https://picsum.photos/seed/jsbook/800/800',
       categoryId: catMap['books'],
     },
     {
@@ -142,7 +153,7 @@ async function main() {
       description: '从零开始学 Node.js 后端开发。\n\n通过实际项目驱动学习，包含 Express、Koa、数据库操作、API 设计、部署上线等完整知识体系。',
       price: 69,
       stock: 120,
-      images: JSON.stringify(['https://picsum.photos/seed/nodebook/800/800']),
+      image: 'https://picsum.photos/seed/nodebook/800/800',
       categoryId: catMap['books'],
     },
     {
@@ -150,7 +161,7 @@ async function main() {
       description: '极简设计，三档调光。\n\n- LED 光源，护眼不频闪\n- 触控开关\n- USB 充电口\n- 适合书桌、床头',
       price: 199,
       stock: 90,
-      images: JSON.stringify(['https://picsum.photos/seed/lamp/800/800']),
+      image: 'https://picsum.photos/seed/lamp/800/800',
       categoryId: catMap['home'],
     },
     {
@@ -158,7 +169,7 @@ async function main() {
       description: '慢回弹记忆棉，贴合颈椎曲线。\n\n改善睡眠质量，缓解颈椎压力。透气面料，四季适用。',
       price: 159,
       stock: 70,
-      images: JSON.stringify(['https://picsum.photos/seed/pillow/800/800']),
+      image: 'https://picsum.photos/seed/pillow/800/800',
       categoryId: catMap['home'],
     },
   ]
@@ -169,11 +180,90 @@ async function main() {
       where: { name: product.name },
     })
     if (!existing) {
-      await prisma.product.create({ data: product })
+      const { image, ...data } = product
+      await prisma.product.create({
+        data: { ...data, images: { create: { url: image, alt: product.name } } },
+      })
     }
   }
   console.log(`✅ 已创建 ${products.length} 个商品`)
 
+  // ==================== 3.1 为T恤创建规格（颜色 × 尺码） ====================
+  const tshirt = await prisma.product.findFirst({
+    where: { name: '经典款纯棉T恤' },
+    include: { variants: true },
+  })
+  if (tshirt && tshirt.variants.length === 0) {
+    const colors = ['黑色', '白色']
+    const sizes = ['S', 'M', 'L', 'XL']
+    await prisma.productOption.createMany({
+      data: [
+        { productId: tshirt.id, name: '颜色', values: JSON.stringify(colors), sortOrder: 0 },
+        { productId: tshirt.id, name: '尺码', values: JSON.stringify(sizes), sortOrder: 1 },
+      ],
+    })
+    const variants = colors.flatMap((color) =>
+      sizes.map((size) => ({
+        productId: tshirt.id,
+        name: `${color} / ${size}`,
+        options: JSON.stringify({ 颜色: color, 尺码: size }),
+        price: size === 'XL' ? 109 : 99, // 加大码贵 10 元
+        stock: 25,
+        image: `https://picsum.photos/seed/tshirt-${color === '黑色' ? 'black' : 'white'}/800/800`,
+      }))
+    )
+    await prisma.productVariant.createMany({ data: variants })
+    // 有规格的商品：价格为最低规格价，库存为规格库存之和
+    await prisma.product.update({
+      where: { id: tshirt.id },
+      data: { price: 99, stock: variants.reduce((sum, v) => sum + v.stock, 0) },
+    })
+    console.log(`✅ 已为T恤创建 ${variants.length} 个规格组合`)
+  }
+
+  // ==================== 3.2 分类属性和商品属性值 ====================
+  // 属性定义在分类上，对子分类的商品也生效：品牌定义在"电子产品"上，手机、电脑、耳机都可以填写
+  const attributes = [
+    { category: 'electronics', name: '品牌', type: 'ENUM' as const, options: ['Apple', '华为', '小米'] },
+    { category: 'phones', name: '存储容量', type: 'NUMBER' as const, unit: 'GB' },
+    { category: 'computers', name: '屏幕尺寸', type: 'NUMBER' as const, unit: '英寸' },
+    { category: 'computers', name: '处理器', type: 'TEXT' as const },
+  ]
+  const attributeIds: Record<string, number> = {}
+  for (const [index, { category, options, ...attribute }] of attributes.entries()) {
+    const data = {
+      ...attribute,
+      options: options ? JSON.stringify(options) : null,
+      sortOrder: index,
+    }
+    const categoryId = categoryIds[category]
+    const created = await prisma.categoryAttribute.upsert({
+      where: { categoryId_name: { categoryId, name: attribute.name } },
+      update: data,
+      create: { ...data, categoryId },
+    })
+    attributeIds[attribute.name] = created.id
+  }
+
+  const attributeValues: Record<string, Record<string, string>> = {
+    'iPhone 15 Pro Max': { 品牌: 'Apple', 存储容量: '256' },
+    'MacBook Pro 14 英寸': { 品牌: 'Apple', 屏幕尺寸: '14', 处理器: 'M3 Pro' },
+    'AirPods Pro 2': { 品牌: 'Apple' },
+  }
+  for (const [productName, values] of Object.entries(attributeValues)) {
+    const product = await prisma.product.findFirst({ where: { name: productName } })
+    if (!product) continue
+    for (const [name, value] of Object.entries(values)) {
+      const attributeId = attributeIds[name]
+      await prisma.productAttributeValue.upsert({
+        where: { productId_attributeId: { productId: product.id, attributeId } },
+        update: { value },
+        create: { productId: product.id, attributeId, value },
+      })
+    }
+  }
+  console.log(`✅ 已创建 ${attributes.length} 个分类属性`)
+
   // ==================== 4. 为测试用户创建收货地址 ====================
   const existingAddress = await prisma.address.findFirst({
     where: { userId: user.id },
@@ -194,6 +284,21 @@ async function main() {
     console.log(`✅ 已为测试用户创建收货地址`)
   }
 
+  // ==================== 5. 创建汇率（1 人民币 = rate 单位的该币种）====================
+  const exchangeRates = [
+    { currency: 'HKD', rate: 1.085 },
+    { currency: 'USD', rate: 0.1382 },
+    { currency: 'EUR', rate: 0.1275 },
+  ]
+  for (const rate of exchangeRates) {
+    await prisma.exchangeRate.upsert({
+      where: { currency: rate.currency },
+      update: {},
+      create: rate,
+    })
+  }
+  console.log(`✅ 已创建 ${exchangeRates.length} 个汇率`)
+
   console.log('\n🎉 种子数据填充完成！')
   console.log('\n📋 测试账户:')
   console.log('   管理员: admin@nextshop.com / admin123')
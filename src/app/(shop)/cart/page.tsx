@@ -12,26 +12,60 @@
  * 这里使用 useEffect + fetch 的方式获取数据（传统前端方式），
  * 因为购物车数据需要实时更新（用户操作后立即反映变化）。
  *
+ * 【勾选结算】
+ * 每个商品前有复选框，只有勾选的商品会进入订单，合计金额也只统计勾选的商品。
+ * 没勾选的商品下单后仍留在购物车里。
+ *
+ * 【促销活动】
+ * 勾选或数量变化时，按勾选的商品重新请求 GET /api/cart?selected=...，
+ * 显示每个商品的促销优惠，以及每个活动是否生效（没生效时显示原因，如"还差 20.00 元"）。
+ *
  * 【Zustand Store 的使用】
  * 通过 useCartStore 获取购物车状态和操作方法。
  * Zustand 会在状态变化时自动触发组件重新渲染。
  */
 'use client'
 
-import { useEffect } from 'react'
+import { useEffect, useState } from 'react'
 import { useSession } from 'next-auth/react'
 import { useRouter } from 'next/navigation'
 import Link from 'next/link'
 import { useCartStore } from '@/store/cart'
+import { useCurrencyStore } from '@/store/currency'
 import { formatPrice } from '@/lib/utils'
+import { compareMoney, multiplyMoney, subtractMoney } from '@/lib/money'
+import type { PromotionPricingView } from '@/lib/promotion-status'
+import { coverImageOf } from '@/lib/product-image-url'
 
 export default function CartPage() {
   const { data: session, status } = useSession()
   const router = useRouter()
 
   // 从 Zustand store 解构出状态和方法
-  const { items, loading, totalPrice, fetchCart, updateQuantity, removeItem } =
-    useCartStore()
+  const {
+    items,
+    selectedIds,
+    loading,
+    totalPrice,
+    fetchCart,
+    updateQuantity,
+    removeItem,
+    toggleSelect,
+    selectAll,
+  } = useCartStore()
+
+  // 价格按顶部导航选择的币种显示
+  const display = useCurrencyStore((state) => state.display())
+
+  const allSelected = items.length > 0 && selectedIds.length === items.length
+
+  // 勾选商品的促销计算结果（服务端计算）
+  const [pricing, setPricing] = useState<PromotionPricingView | null>(null)
+  // 勾选和数量都会影响促销，拼成字符串作为 effect 的依赖
+  const pricingKey = items
+    .filter((item) => selectedIds.includes(item.id))
+    .map((item) => `${item.id}:${item.quantity}`)
+    .join(',')
 
   // 组件挂载时获取购物车数据
   useEffect(() => {
@@ -40,6 +74,18 @@ export default function CartPage() {
     }
   }, [session, fetchCart])
 
+  // 勾选或数量变化时重新计算促销
+  useEffect(() => {
+    if (!pricingKey) return
+    const selected = pricingKey.split(',').map((entry) => entry.split(':')[0])
+    fetch(`/api/cart?selected=${selected.join(',')}`)
+      .then((res) => res.json())
+      .then((data) => setPricing(data.success ? data.data.promotions : null))
+      .catch(() => console.error('计算促销失败'))
+  }, [pricingKey])
+
+  const promotionDiscount = pricingKey && pricing ? pricing.promotionDiscount : '0'
+
   // 未登录时显示提示
   if (status === 'unauthenticated') {
     return (
@@ -84,20 +130,41 @@ export default function CartPage() {
         </div>
       ) : (
         <div className="space-y-4">
+          {/* 全选 */}
+          <label className="flex items-center gap-2 px-4 text-sm text-gray-600 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={allSelected}
+              onChange={(e) => selectAll(e.target.checked)}
+            />
+            全选
+          </label>
+
           {/* ==================== 商品列表 ==================== */}
           {items.map((item) => {
-            // 解析商品图片
-            let coverImage = '/placeholder.jpg'
-            try {
-              const imgs = JSON.parse(item.product.images)
-              if (imgs[0]) coverImage = imgs[0]
-            } catch { /* ignore */ }
+            // 该商品的促销优惠（只有勾选的商品参与计算）
+            const linePricing = selectedIds.includes(item.id)
+              ? pricing?.lines.find(
+                  (line) => line.productId === item.product.id && line.variantId === (item.variant?.id ?? null)
+                )
+              : undefined
+
+            // 选了规格且规格有图片时显示规格图片，否则显示商品封面
+            const coverImage = item.variant?.image || coverImageOf(item.product.images)
 
             return (
               <div
                 key={item.id}
                 className="flex items-center gap-4 p-4 bg-white rounded-xl border border-gray-100"
               >
+                {/* 勾选 */}
+                <input
+                  type="checkbox"
+                  checked={selectedIds.includes(item.id)}
+                  onChange={() => toggleSelect(item.id)}
+                  aria-label={`勾选 ${item.product.name}`}
+                />
+
                 {/* 商品图片 */}
                 <Link href={`/products/${item.product.id}`} className="flex-shrink-0">
                   <img
@@ -115,8 +182,19 @@ export default function CartPage() {
                   >
                     {item.product.name}
                   </Link>
+                  {item.variant && (
+                    <p className="text-xs text-gray-400 mt-0.5">{item.variant.name}</p>
+                  )}
                   <p className="text-red-500 font-bold mt-1">
-                    {formatPrice(item.product.price)}
+                    {formatPrice(item.product.price, display)}
+                    {item.product.originalPrice && (
+                      <>
+                        <span className="ml-2 text-xs text-gray-400 line-through font-normal">
+                          {formatPrice(item.product.originalPrice, display)}
+                        </span>
+                        <span className="ml-2 text-xs bg-red-500 text-white px-1.5 py-0.5 rounded font-normal">秒杀</span>
+                      </>
+                    )}
                   </p>
                 </div>
 
@@ -144,8 +222,11 @@ export default function CartPage() {
                 {/* 小计 */}
                 <div className="text-right w-24">
                   <p className="font-bold text-gray-900">
-                    {formatPrice(parseFloat(item.product.price) * item.quantity)}
+                    {formatPrice(multiplyMoney(item.product.price, item.quantity), display)}
                   </p>
+                  {linePricing && Number(linePricing.discount) > 0 && (
+                    <p className="text-xs text-red-500">促销 -{formatPrice(linePricing.discount, display)}</p>
+                  )}
                 </div>
 
                 {/* 删除按钮 */}
@@ -161,25 +242,52 @@ export default function CartPage() {
             )
           })}
 
+          {/* ==================== 促销活动 ==================== */}
+          {pricingKey && pricing && pricing.evaluations.length > 0 && (
+            <div className="bg-white rounded-xl border border-gray-100 p-6 space-y-2">
+              <h2 className="font-semibold text-gray-900">促销活动</h2>
+              {pricing.evaluations.map((evaluation) => (
+                <div key={evaluation.promotionId} className="flex justify-between text-sm">
+                  <span className={evaluation.applied ? 'text-gray-900' : 'text-gray-400'}>
+                    <span className="text-xs bg-red-50 text-red-500 px-1.5 py-0.5 rounded mr-2">
+                      {evaluation.description}
+                    </span>
+                    {evaluation.name}
+                  </span>
+                  <span className={evaluation.applied ? 'text-red-500' : 'text-gray-400'}>
+                    {evaluation.reason}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+
           {/* ==================== 结算区域 ==================== */}
           <div className="bg-white rounded-xl border border-gray-100 p-6 mt-6">
             <div className="flex justify-between items-center">
               <div>
                 <span className="text-gray-600">
-                  共 <span className="font-bold text-gray-900">{items.length}</span> 种商品
+                  已选 <span className="font-bold text-gray-900">{selectedIds.length}</span> / {items.length} 种商品
                 </span>
               </div>
               <div className="text-right">
+                {compareMoney(promotionDiscount, 0) > 0 && (
+                  <p className="text-sm text-gray-500">
+                    商品金额 {formatPrice(totalPrice(), display)}，促销 -{formatPrice(promotionDiscount, display)}
+                  </p>
+                )}
                 <p className="text-sm text-gray-500">合计</p>
                 <p className="text-2xl font-bold text-red-500">
-                  {formatPrice(totalPrice())}
+                  {formatPrice(subtractMoney(totalPrice(), promotionDiscount), display)}
                 </p>
               </div>
             </div>
             <button
               onClick={() => router.push('/checkout')}
+              disabled={selectedIds.length === 0}
               className="w-full mt-4 py-3 bg-blue-600 text-white font-medium rounded-lg
-                         hover:bg-blue-700 transition-colors"
+                         hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed
+                         transition-colors"
             >
               去结算
             </button>
@@ -8,6 +8,10 @@
  * slug 是分类的 URL 友好标识符（如 "electronics"、"clothing"）
  * 相比使用 ID（/categories/1），slug 更有语义，对 SEO 更友好
  *
+ * 【多级分类】
+ * 分类页包含所有子孙分类下的商品（"电子产品"页面也显示"手机"下的商品），
+ * 面包屑显示从顶级分类开始的完整路径，标题下方列出直接子分类。
+ *
  * 【学习重点：notFound()】
  * 当查找的分类不存在时，调用 notFound() 会：
  * 1. 返回 404 HTTP 状态码
@@ -16,6 +20,9 @@
 
 import { notFound } from 'next/navigation'
 import { prisma } from '@/lib/prisma'
+import { activeFlashSaleWhere, toFlashSaleBadge } from '@/lib/flash-sale'
+import { coverImageQuery } from '@/lib/product-image'
+import { ancestorsOf, compareCategoryOrder, descendantIdsOf } from '@/lib/category-tree'
 import ProductList from '@/components/product/ProductList'
 import Link from 'next/link'
 
@@ -55,24 +62,36 @@ export default async function CategoryPage({
     notFound()
   }
 
-  // 查询该分类下的所有上架商品
+  // 全部分类用于计算子孙分类和面包屑路径（分类数量不多，一次查出在内存中计算）
+  const categories = await prisma.category.findMany({
+    select: { id: true, parentId: true, sortOrder: true, name: true, slug: true },
+  })
+  const path = ancestorsOf(categories, category.id)
+  const children = categories
+    .filter((c) => c.parentId === category.id)
+    .sort(compareCategoryOrder)
+
+  // 查询该分类及其子孙分类下的所有上架商品
   const products = await prisma.product.findMany({
     where: {
-      categoryId: category.id,
+      categoryId: { in: descendantIdsOf(categories, category.id) },
       isActive: true,
     },
     include: {
       category: {
         select: { name: true, slug: true },
       },
+      flashSales: { where: activeFlashSaleWhere(), take: 1 }, // 进行中的秒杀活动
+      images: coverImageQuery, // 封面图
     },
     orderBy: { createdAt: 'desc' },
   })
 
   // 序列化 Decimal
-  const serializedProducts = products.map((p) => ({
+  const serializedProducts = products.map(({ flashSales, ...p }) => ({
     ...p,
     price: p.price.toString(),
+    flashSale: toFlashSaleBadge(flashSales),
   }))
 
   return (
@@ -82,14 +101,39 @@ export default async function CategoryPage({
         <Link href="/" className="hover:text-blue-600">首页</Link>
         <span className="mx-2">/</span>
         <Link href="/products" className="hover:text-blue-600">全部商品</Link>
-        <span className="mx-2">/</span>
-        <span className="text-gray-900">{category.name}</span>
+        {path.map((item) => (
+          <span key={item.id}>
+            <span className="mx-2">/</span>
+            {item.id === category.id ? (
+              <span className="text-gray-900">{item.name}</span>
+            ) : (
+              <Link href={`/categories/${item.slug}`} className="hover:text-blue-600">
+                {item.name}
+              </Link>
+            )}
+          </span>
+        ))}
       </div>
 
       {/* 分类标题 */}
       <div className="mb-8">
         <h1 className="text-3xl font-bold text-gray-900">{category.name}</h1>
         <p className="mt-2 text-gray-600">共 {products.length} 件商品</p>
+
+        {/* 子分类 */}
+        {children.length > 0 && (
+          <div className="flex flex-wrap gap-2 mt-4">
+            {children.map((child) => (
+              <Link
+                key={child.id}
+                href={`/categories/${child.slug}`}
+                className="px-3 py-1 rounded-full text-sm bg-gray-100 text-gray-700 hover:bg-blue-50 hover:text-blue-600 transition-colors"
+              >
+                {child.name}
+              </Link>
+            ))}
+          </div>
+        )}
       </div>
 
       {/* 商品列表 */}
@@ -7,18 +7,38 @@
  * 【受保护路由】
  * 通过 middleware.ts 配置，未登录用户访问此页面会被重定向到登录页。
  *
+ * 【两种结算方式】
+ * - /checkout                          → 结算购物车中勾选的商品（在购物车页勾选）
+ * - /checkout?productId=1&quantity=2   → 立即购买：只结算这一件商品，购物车保持不变
+ *   有规格的商品带上 variantId（/checkout?productId=1&variantId=5&quantity=2）
+ *
  * 【结算流程】
- * 1. 展示购物车商品清单
- * 2. 用户选择收货地址
+ * 1. 展示要结算的商品清单
+ * 2. 用户选择收货地址（切换地址时重新计算运费）
  * 3. 确认下单 → 调用订单创建 API
- * 4. 订单创建成功 → 跳转到支付页面
+ * 4. 订单创建成功 → 发起支付 → 跳转到支付渠道的支付页面
+ *
+ * 【显示币种】
+ * 金额按顶部导航选择的币种换算显示，但订单按人民币结算和支付；
+ * 下单时带上显示币种，订单记录下单时的币种和汇率。
+ *
+ * 【防止重复下单】
+ * 每次进入结算页生成一个幂等键（Idempotency-Key），下单和支付请求都带上它。
+ * 双击、网络重试导致的重复请求，服务端会直接返回第一次的结果，
+ * 不会创建第二个订单，也不会重复支付。
  */
 'use client'
 
-import { useEffect, useState } from 'react'
-import { useRouter } from 'next/navigation'
+import { useEffect, useRef, useState } from 'react'
+import { useRouter, useSearchParams } from 'next/navigation'
 import { useCartStore } from '@/store/cart'
+import { useCurrencyStore } from '@/store/currency'
 import { formatPrice } from '@/lib/utils'
+import { compareMoney, multiplyMoney, sumLineAmounts } from '@/lib/money'
+import { describeCoupon, type CouponTypeValue } from '@/lib/coupon-status'
+import type { PromotionEvaluationView } from '@/lib/promotion-status'
+import { BASE_CURRENCY, CURRENCIES } from '@/lib/currency-format'
+import { coverImageOf, type ProductImageView } from '@/lib/product-image-url'
 
 type Address = {
   id: number
@@ -31,20 +51,132 @@ type Address = {
   isDefault: boolean
 }
 
+// 券包中可用的优惠券
+type UsableCoupon = {
+  id: number
+  coupon: {
+    name: string
+    type: CouponTypeValue
+    value: string
+    minSpend: string
+    maxDiscount: string | null
+  }
+}
+
+// 结算商品（和购物车商品结构一致，立即购买时由商品信息构造）
+type CheckoutItem = {
+  id: number
+  quantity: number
+  product: {
+    id: number
+    name: string
+    price: string
+    images: ProductImageView[]
+  }
+  variant: { id: number; name: string; image: string | null } | null // 选择的规格组合
+}
+
 export default function CheckoutPage() {
   const router = useRouter()
-  const { items, totalPrice, fetchCart, clearCart } = useCartStore()
+  const searchParams = useSearchParams()
+  const { fetchCart, removeSelected, selectedItems } = useCartStore()
+  const cartItems = selectedItems() // 购物车页勾选的商品
+  const display = useCurrencyStore((state) => state.display()) // 显示币种和汇率
+
+  // 立即购买的商品和数量（URL 参数），没有 productId 表示结算购物车
+  const buyNowProductId = Number(searchParams.get('productId')) || null
+  const buyNowQuantity = Number(searchParams.get('quantity')) || 1
+  const buyNowVariantId = Number(searchParams.get('variantId')) || null
+  const [buyNowItem, setBuyNowItem] = useState<CheckoutItem | null>(null)
+
+  const items: CheckoutItem[] = buyNowProductId ? (buyNowItem ? [buyNowItem] : []) : cartItems
+  const totalPrice = sumLineAmounts(
+    items.map((item) => ({ price: item.product.price, quantity: item.quantity }))
+  )
 
   const [addresses, setAddresses] = useState<Address[]>([])
   const [selectedAddressId, setSelectedAddressId] = useState<number | null>(null)
+  // 服务端计算的结算金额（运费按收货地址计算）
+  const [quote, setQuote] = useState<{
+    promotionDiscount: string
+    promotions: PromotionEvaluationView[]
+    discountAmount: string
+    shippingFee: string
+    totalAmount: string
+  } | null>(null)
+  const [quoteError, setQuoteError] = useState('')
+  // 券包中未使用、未过期的优惠券，以及选中使用的券
+  const [coupons, setCoupons] = useState<UsableCoupon[]>([])
+  const [selectedUserCouponId, setSelectedUserCouponId] = useState<number | null>(null)
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState('')
+  // 本次结算的幂等键：重试时复用同一个 key，服务端据此识别重复请求
+  const idempotencyKeyRef = useRef<string | null>(null)
+
+  // 下单参数（创建订单和金额预览共用），序列化成字符串方便作为 effect 的依赖
+  const orderBody =
+    selectedAddressId && items.length > 0
+      ? JSON.stringify({
+          addressId: selectedAddressId,
+          buyNow: buyNowProductId
+            ? { productId: buyNowProductId, variantId: buyNowVariantId ?? undefined, quantity: buyNowQuantity }
+            : undefined,
+          cartItemIds: buyNowProductId ? undefined : items.map((item) => item.id),
+          userCouponId: selectedUserCouponId ?? undefined,
+        })
+      : null
 
-  // 获取购物车和地址数据
+  // 地址、商品或优惠券变化时，重新计算优惠、运费和应付金额
   useEffect(() => {
-    fetchCart()
+    if (!orderBody) return
+    fetch('/api/orders/preview', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: orderBody,
+    })
+      .then((res) => res.json())
+      .then((data) => {
+        setQuote(data.success ? data.data : null)
+        setQuoteError(data.success ? '' : data.message || '计算运费失败')
+      })
+      .catch(() => setQuoteError('计算运费失败'))
+  }, [orderBody])
+
+  // 获取购物车（或立即购买的商品）和地址数据
+  useEffect(() => {
+    if (!buyNowProductId) {
+      fetchCart()
+    } else {
+      fetch(`/api/products/${buyNowProductId}${buyNowVariantId ? `?variantId=${buyNowVariantId}` : ''}`)
+        .then((res) => res.json())
+        .then((data) => {
+          if (data.success) {
+            setBuyNowItem({
+              id: data.data.id,
+              quantity: buyNowQuantity,
+              product: data.data,
+              variant: data.data.variant,
+            })
+          } else {
+            setError(data.message || '商品不存在')
+          }
+        })
+        .catch(() => setError('获取商品失败'))
+    }
+    fetch('/api/user/coupons')
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.success) {
+          setCoupons(
+            data.data.filter(
+              (c: { status: string; expired: boolean }) => c.status === 'UNUSED' && !c.expired
+            )
+          )
+        }
+      })
+      .catch(() => console.error('获取优惠券失败'))
     fetchAddresses()
-  }, [fetchCart])
+  }, [fetchCart, buyNowProductId, buyNowVariantId, buyNowQuantity])
 
   const fetchAddresses = async () => {
     try {
@@ -67,20 +199,28 @@ export default function CheckoutPage() {
       setError('请选择收货地址')
       return
     }
-    if (items.length === 0) {
-      setError('购物车为空')
+    if (!orderBody) {
+      setError(buyNowProductId ? '商品不存在' : '购物车为空')
       return
     }
 
     setLoading(true)
     setError('')
 
+    if (!idempotencyKeyRef.current) {
+      idempotencyKeyRef.current = crypto.randomUUID()
+    }
+    const headers = {
+      'Content-Type': 'application/json',
+      'Idempotency-Key': idempotencyKeyRef.current,
+    }
+
     try {
-      // 1. 创建订单
+      // 1. 创建订单（带上显示币种，服务端记录下单时的汇率）
       const res = await fetch('/api/orders', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ addressId: selectedAddressId }),
+        headers,
+        body: JSON.stringify({ ...JSON.parse(orderBody), currency: display.currency }),
       })
       const data = await res.json()
 
@@ -89,21 +229,24 @@ export default function CheckoutPage() {
         return
       }
 
-      // 2. 模拟支付
+      // 订单已创建，服务端已删除结算的购物车商品，同步更新本地状态（立即购买不影响购物车）
+      if (!buyNowProductId) {
+        removeSelected()
+      }
+
+      // 2. 发起支付
       const payRes = await fetch('/api/payment', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers,
         body: JSON.stringify({ orderId: data.data.id }),
       })
       const payData = await payRes.json()
 
       if (payData.success) {
-        // 清空本地购物车状态
-        clearCart()
-        // 跳转到订单详情页
-        router.push(`/user/orders?paid=true`)
+        // 跳转到支付渠道的支付页面
+        router.push(payData.data.payUrl)
       } else {
-        // 支付失败，但订单已创建
+        // 发起支付失败，但订单已创建，可以在"我的订单"中重新支付
         router.push(`/user/orders`)
       }
     } catch {
@@ -173,11 +316,7 @@ export default function CheckoutPage() {
           <h2 className="text-lg font-semibold text-gray-900 mb-4">商品清单</h2>
           <div className="divide-y">
             {items.map((item) => {
-              let coverImage = '/placeholder.jpg'
-              try {
-                const imgs = JSON.parse(item.product.images)
-                if (imgs[0]) coverImage = imgs[0]
-              } catch { /* ignore */ }
+              const coverImage = item.variant?.image || coverImageOf(item.product.images)
 
               return (
                 <div key={item.id} className="flex items-center gap-4 py-3">
@@ -188,10 +327,11 @@ export default function CheckoutPage() {
                   />
                   <div className="flex-1">
                     <p className="text-sm font-medium text-gray-900">{item.product.name}</p>
+                    {item.variant && <p className="text-xs text-gray-400">{item.variant.name}</p>}
                     <p className="text-sm text-gray-500">x{item.quantity}</p>
                   </div>
                   <p className="font-medium text-gray-900">
-                    {formatPrice(parseFloat(item.product.price) * item.quantity)}
+                    {formatPrice(multiplyMoney(item.product.price, item.quantity), display)}
                   </p>
                 </div>
               )
@@ -199,11 +339,33 @@ export default function CheckoutPage() {
           </div>
         </section>
 
+        {/* ==================== 优惠券 ==================== */}
+        <section className="bg-white rounded-xl border p-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">优惠券</h2>
+          {coupons.length === 0 ? (
+            <p className="text-sm text-gray-500">暂无可用的优惠券</p>
+          ) : (
+            <select
+              value={selectedUserCouponId ?? ''}
+              onChange={(e) => setSelectedUserCouponId(e.target.value ? Number(e.target.value) : null)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm
+                         focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">不使用优惠券</option>
+              {coupons.map((userCoupon) => (
+                <option key={userCoupon.id} value={userCoupon.id}>
+                  {userCoupon.coupon.name}（{describeCoupon(userCoupon.coupon)}）
+                </option>
+              ))}
+            </select>
+          )}
+        </section>
+
         {/* ==================== 提交订单 ==================== */}
         <section className="bg-white rounded-xl border p-6">
-          {error && (
+          {(error || quoteError) && (
             <div className="mb-4 p-3 bg-red-50 text-red-600 rounded-lg text-sm">
-              {error}
+              {error || quoteError}
             </div>
           )}
           <div className="flex justify-between items-center">
@@ -211,15 +373,39 @@ export default function CheckoutPage() {
               <span className="text-gray-600">共 {items.length} 种商品</span>
             </div>
             <div className="text-right">
-              <p className="text-sm text-gray-500">应付金额</p>
+              <p className="text-sm text-gray-500">
+                商品金额 {formatPrice(totalPrice, display)}
+                {quote && Number(quote.promotionDiscount) > 0 && (
+                  <span className="ml-3 text-red-500">促销 -{formatPrice(quote.promotionDiscount, display)}</span>
+                )}
+                {quote && compareMoney(quote.discountAmount, 0) > 0 && (
+                  <span className="ml-3 text-red-500">优惠券 -{formatPrice(quote.discountAmount, display)}</span>
+                )}
+                <span className="ml-3">
+                  运费 {quote ? (compareMoney(quote.shippingFee, 0) > 0 ? formatPrice(quote.shippingFee, display) : '包邮') : '--'}
+                </span>
+              </p>
+              {quote?.promotions
+                .filter((promotion) => promotion.applied)
+                .map((promotion) => (
+                  <p key={promotion.promotionId} className="text-xs text-gray-400">
+                    {promotion.name}（{promotion.description}）{promotion.reason}
+                  </p>
+                ))}
+              <p className="text-sm text-gray-500 mt-1">应付金额</p>
               <p className="text-2xl font-bold text-red-500">
-                {formatPrice(totalPrice())}
+                {formatPrice(quote ? quote.totalAmount : totalPrice, display)}
               </p>
+              {display.currency !== BASE_CURRENCY && (
+                <p className="text-xs text-gray-400 mt-1">
+                  {CURRENCIES[display.currency].label}金额仅供参考，实际按人民币 {formatPrice(quote ? quote.totalAmount : totalPrice)} 支付
+                </p>
+              )}
             </div>
           </div>
           <button
             onClick={handleSubmitOrder}
-            disabled={loading || items.length === 0}
+            disabled={loading || items.length === 0 || !!quoteError}
             className="w-full mt-4 py-3 bg-red-500 text-white font-medium rounded-lg
                        hover:bg-red-600 disabled:opacity-50 disabled:cursor-not-allowed
                        transition-colors"
@@ -22,6 +22,9 @@
 
 import Link from 'next/link'
 import { prisma } from '@/lib/prisma'
+import { activeFlashSaleWhere, toFlashSaleBadge } from '@/lib/flash-sale'
+import { coverImageQuery } from '@/lib/product-image'
+import { compareCategoryOrder, descendantIdsOf } from '@/lib/category-tree'
 import ProductList from '@/components/product/ProductList'
 
 /**
@@ -45,6 +48,8 @@ export default async function HomePage() {
             slug: true,
           },
         },
+        flashSales: { where: activeFlashSaleWhere(), take: 1 }, // 进行中的秒杀活动
+        images: coverImageQuery, // 封面图
       },
       orderBy: { createdAt: 'desc' }, // 按创建时间倒序（最新的在前面）
       take: 8,                         // 限制返回 8 条
@@ -59,10 +64,22 @@ export default async function HomePage() {
     }),
   ])
 
+  // 首页只展示顶级分类，商品数包含子孙分类下的商品
+  const productCounts = new Map(categories.map((cat) => [cat.id, cat._count.products]))
+  const topCategories = categories
+    .filter((cat) => cat.parentId === null)
+    .sort(compareCategoryOrder)
+    .map((cat) => ({
+      ...cat,
+      productCount: descendantIdsOf(categories, cat.id)
+        .reduce((sum, id) => sum + (productCounts.get(id) ?? 0), 0),
+    }))
+
   // 序列化 Decimal 类型（Prisma 的 Decimal 不能直接传给客户端组件）
-  const serializedProducts = featuredProducts.map((p) => ({
+  const serializedProducts = featuredProducts.map(({ flashSales, ...p }) => ({
     ...p,
     price: p.price.toString(),
+    flashSale: toFlashSaleBadge(flashSales),
   }))
 
   return (
@@ -92,7 +109,7 @@ export default async function HomePage() {
       <section className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-16">
         <h2 className="text-2xl font-bold text-gray-900 mb-8">商品分类</h2>
         <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-          {categories.map((cat) => (
+          {topCategories.map((cat) => (
             <Link
               key={cat.id}
               href={`/categories/${cat.slug}`}
@@ -107,7 +124,7 @@ export default async function HomePage() {
                 </svg>
               </div>
               <h3 className="font-medium text-gray-900">{cat.name}</h3>
-              <p className="text-sm text-gray-500 mt-1">{cat._count.products} 件商品</p>
+              <p className="text-sm text-gray-500 mt-1">{cat.productCount} 件商品</p>
             </Link>
           ))}
         </div>
@@ -0,0 +1,86 @@
+/**
+ * 支付结果轮询组件（Client Component）
+ * ============================================================
+ *
+ * 【为什么要轮询？】
+ * 用户从支付页面返回时，支付结果不一定已经确定
+ * （比如支付渠道处理中、网络延迟、渠道超时）。
+ * 这里每隔几秒查询一次，直到拿到最终结果或达到最大次数。
+ */
+'use client'
+
+import { useEffect, useState } from 'react'
+import { formatPrice } from '@/lib/utils'
+
+type PaymentResult = {
+  paymentNo: string
+  orderId: number
+  status: 'PENDING' | 'SUCCEEDED' | 'FAILED' | 'CLOSED'
+  amount: string
+  failureReason: string | null
+}
+
+const POLL_INTERVAL_MS = 3000
+const MAX_POLLS = 10
+
+export default function PaymentStatus({ paymentNo }: { paymentNo: string }) {
+  const [result, setResult] = useState<PaymentResult | null>(null)
+  const [message, setMessage] = useState('正在确认支付结果...')
+  const [polls, setPolls] = useState(0)
+
+  useEffect(() => {
+    // 已有最终结果或超过最大次数，停止轮询
+    if ((result && result.status !== 'PENDING') || polls >= MAX_POLLS) return
+
+    const timer = setTimeout(async () => {
+      try {
+        const res = await fetch(`/api/payment/${paymentNo}`)
+        const data = await res.json()
+        if (data.success) {
+          setResult(data.data)
+          if (data.message) setMessage(data.message)
+        } else {
+          setMessage(data.message || '查询支付结果失败')
+        }
+      } catch {
+        setMessage('网络错误，正在重试...')
+      } finally {
+        setPolls((n) => n + 1)
+      }
+    }, polls === 0 ? 0 : POLL_INTERVAL_MS) // 第一次立即查询
+
+    return () => clearTimeout(timer)
+  }, [paymentNo, polls, result])
+
+  if (result?.status === 'SUCCEEDED') {
+    return (
+      <div>
+        <p className="text-5xl">✅</p>
+        <h1 className="text-2xl font-bold text-gray-900 mt-4">支付成功</h1>
+        <p className="text-gray-500 mt-2">实付 {formatPrice(result.amount)}</p>
+      </div>
+    )
+  }
+
+  if (result?.status === 'FAILED' || result?.status === 'CLOSED') {
+    return (
+      <div>
+        <p className="text-5xl">❌</p>
+        <h1 className="text-2xl font-bold text-gray-900 mt-4">支付未完成</h1>
+        <p className="text-gray-500 mt-2">{result.failureReason || '支付已关闭'}，可以在“我的订单”中重新支付</p>
+      </div>
+    )
+  }
+
+  return (
+    <div>
+      <p className="text-5xl">⏳</p>
+      <h1 className="text-2xl font-bold text-gray-900 mt-4">
+        {polls >= MAX_POLLS ? '支付结果确认中' : '请稍候'}
+      </h1>
+      <p className="text-gray-500 mt-2">
+        {polls >= MAX_POLLS ? '暂未收到支付结果，请稍后在“我的订单”中查看' : message}
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,36 @@
+/**
+ * 支付结果页面
+ * ============================================================
+ *
+ * 【路由】/payment/result?paymentNo=PAYxxx
+ *
+ * 用户在支付渠道页面完成操作后会被带回这里（支付时传给渠道的 returnUrl）。
+ * 页面本身是 Server Component，只负责读取 URL 参数；
+ * 轮询支付结果的交互逻辑在 PaymentStatus（Client Component）中。
+ */
+
+import Link from 'next/link'
+import PaymentStatus from './PaymentStatus'
+
+export default async function PaymentResultPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ paymentNo?: string }>
+}) {
+  const { paymentNo } = await searchParams
+
+  return (
+    <div className="max-w-lg mx-auto px-4 py-16">
+      <div className="bg-white rounded-xl border p-8 text-center">
+        {paymentNo ? (
+          <PaymentStatus paymentNo={paymentNo} />
+        ) : (
+          <p className="text-gray-500">缺少支付单号</p>
+        )}
+        <Link href="/user/orders" className="inline-block mt-6 text-blue-600 hover:text-blue-500">
+          查看我的订单 →
+        </Link>
+      </div>
+    </div>
+  )
+}
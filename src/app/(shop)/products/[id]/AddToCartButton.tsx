@@ -14,6 +14,14 @@
  *
  * 父组件（Server）将数据通过 props 传递给子组件（Client），
  * 这是 Next.js App Router 推荐的"组合模式"。
+ *
+ * 【立即购买】
+ * 不加入购物车，带着商品和数量直接跳转到结算页（/checkout?productId=1&quantity=2），
+ * 只结算这一件商品，购物车里原有的商品不受影响。
+ *
+ * 【规格选择】
+ * 有规格的商品（如 T 恤的颜色、尺码）要先选齐每个规格项，确定规格组合（SKU）后才能购买，
+ * 价格、库存以选中的规格组合为准。某个规格值和已选的值组合起来没有库存时，按钮置灰。
  */
 'use client'
 
@@ -21,22 +29,80 @@ import { useState } from 'react'
 import { useSession } from 'next-auth/react'
 import { useRouter } from 'next/navigation'
 import { formatPrice } from '@/lib/utils'
+import { multiplyMoney } from '@/lib/money'
+import {
+  findVariant,
+  type ProductOptionView,
+  type ProductVariantView,
+} from '@/lib/variant-options'
 
 type AddToCartButtonProps = {
   productId: number
   stock: number
   price: string
+  options?: ProductOptionView[]    // 规格项（没有规格的商品为空）
+  variants?: ProductVariantView[]  // 在售的规格组合
+  salePrice?: string | null        // 秒杀价（秒杀中所有规格都按秒杀价出售）
 }
 
-export default function AddToCartButton({ productId, stock, price }: AddToCartButtonProps) {
+export default function AddToCartButton({
+  productId,
+  stock,
+  price,
+  options = [],
+  variants = [],
+  salePrice = null,
+}: AddToCartButtonProps) {
   const { data: session } = useSession()
   const router = useRouter()
   const [quantity, setQuantity] = useState(1)
   const [loading, setLoading] = useState(false)
   const [message, setMessage] = useState('')
+  const [selection, setSelection] = useState<Record<string, string>>({})
+
+  // 有规格的商品以选中的规格组合为准，没选齐之前不能购买
+  const hasVariants = variants.length > 0
+  const variant = hasVariants ? findVariant(variants, selection) : undefined
+  const currentStock = hasVariants ? variant?.stock ?? 0 : stock
+  const currentPrice = salePrice ?? variant?.price ?? price
 
   // 是否可以购买
-  const canBuy = stock > 0
+  const canBuy = hasVariants ? !!variant && variant.stock > 0 : stock > 0
+
+  /**
+   * 某个规格值和其他已选的值组合起来是否还有库存
+   */
+  const isValueAvailable = (optionName: string, value: string) =>
+    variants.some(
+      (v) =>
+        v.stock > 0 &&
+        Object.entries({ ...selection, [optionName]: value }).every(([name, val]) => v.options[name] === val)
+    )
+
+  const handleSelect = (optionName: string, value: string) => {
+    setSelection((prev) => {
+      const next = { ...prev }
+      if (next[optionName] === value) {
+        delete next[optionName] // 再次点击取消选择
+      } else {
+        next[optionName] = value
+      }
+      return next
+    })
+    setQuantity(1)
+  }
+
+  /**
+   * 立即购买：跳转到结算页，只结算当前商品
+   */
+  const handleBuyNow = () => {
+    if (!session) {
+      router.push(`/login?callbackUrl=/products/${productId}`)
+      return
+    }
+    const variantParam = variant ? `&variantId=${variant.id}` : ''
+    router.push(`/checkout?productId=${productId}${variantParam}&quantity=${quantity}`)
+  }
 
   /**
    * 处理加入购物车
@@ -56,7 +122,7 @@ export default function AddToCartButton({ productId, stock, price }: AddToCartBu
       const response = await fetch('/api/cart', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ productId, quantity }),
+        body: JSON.stringify({ productId, variantId: variant?.id, quantity }),
       })
 
       const data = await response.json()
@@ -77,6 +143,45 @@ export default function AddToCartButton({ productId, stock, price }: AddToCartBu
 
   return (
     <div className="space-y-4">
+      {/* 规格选择器 */}
+      {options.map((option) => (
+        <div key={option.name} className="flex items-start space-x-4">
+          <span className="text-sm text-gray-600 pt-1.5">{option.name}：</span>
+          <div className="flex flex-wrap gap-2">
+            {option.values.map((value) => {
+              const selected = selection[option.name] === value
+              return (
+                <button
+                  key={value}
+                  onClick={() => handleSelect(option.name, value)}
+                  disabled={!isValueAvailable(option.name, value)}
+                  className={`px-3 py-1.5 text-sm border rounded-lg transition-colors
+                             disabled:opacity-40 disabled:cursor-not-allowed disabled:line-through ${
+                    selected ? 'border-blue-600 text-blue-600 bg-blue-50' : 'hover:border-gray-400'
+                  }`}
+                >
+                  {value}
+                </button>
+              )
+            })}
+          </div>
+        </div>
+      ))}
+
+      {/* 选中的规格组合 */}
+      {hasVariants && (
+        <div className="flex items-center space-x-3 text-sm text-gray-500">
+          {variant?.image && (
+            <img src={variant.image} alt={variant.name} className="w-12 h-12 object-cover rounded-lg" />
+          )}
+          <span>
+            {variant
+              ? `已选：${variant.name} · ${formatPrice(currentPrice)} · 库存 ${variant.stock} 件`
+              : `请选择${options.map((option) => option.name).join('、')}`}
+          </span>
+        </div>
+      )}
+
       {/* 数量选择器 */}
       <div className="flex items-center space-x-4">
         <span className="text-sm text-gray-600">数量：</span>
@@ -90,16 +195,16 @@ export default function AddToCartButton({ productId, stock, price }: AddToCartBu
           </button>
           <span className="px-4 py-2 min-w-[3rem] text-center">{quantity}</span>
           <button
-            onClick={() => setQuantity(Math.min(stock, quantity + 1))}
+            onClick={() => setQuantity(Math.min(currentStock, quantity + 1))}
             className="px-3 py-2 text-gray-600 hover:bg-gray-50 transition-colors"
-            disabled={quantity >= stock}
+            disabled={quantity >= currentStock}
           >
             +
           </button>
         </div>
         {/* 小计 */}
         <span className="text-sm text-gray-500">
-          小计：{formatPrice(parseFloat(price) * quantity)}
+          小计：{formatPrice(multiplyMoney(currentPrice, quantity))}
         </span>
       </div>
 
@@ -112,13 +217,16 @@ export default function AddToCartButton({ productId, stock, price }: AddToCartBu
                      hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed
                      transition-colors"
         >
-          {loading ? '添加中...' : canBuy ? '加入购物车' : '暂时缺货'}
+          {loading
+            ? '添加中...'
+            : canBuy
+              ? '加入购物车'
+              : hasVariants && !variant
+                ? '请选择规格'
+                : '暂时缺货'}
         </button>
         <button
-          onClick={async () => {
-            await handleAddToCart()
-            if (canBuy) router.push('/cart')
-          }}
+          onClick={handleBuyNow}
           disabled={!canBuy || loading}
           className="flex-1 py-3 px-6 bg-orange-500 text-white font-medium rounded-lg
                      hover:bg-orange-600 disabled:opacity-50 disabled:cursor-not-allowed
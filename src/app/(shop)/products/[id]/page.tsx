@@ -21,9 +21,18 @@
  * - 混合使用 Server Component 和 Client Component
  */
 
+import Link from 'next/link'
 import { notFound } from 'next/navigation'
 import { prisma } from '@/lib/prisma'
 import { formatPrice } from '@/lib/utils'
+import { activeFlashSaleWhere, toFlashSaleBadge } from '@/lib/flash-sale'
+import { toOptionViews, toVariantView } from '@/lib/variant'
+import { coverImageQuery, productImagesQuery } from '@/lib/product-image'
+import { coverImageOf } from '@/lib/product-image-url'
+import { getCategoryPath } from '@/lib/category'
+import { getProductSpecs } from '@/lib/product-attribute'
+import { formatAttributeValue } from '@/lib/product-attribute-filter'
+import FlashSaleCountdown from '@/components/product/FlashSaleCountdown'
 import AddToCartButton from './AddToCartButton'
 
 // 动态渲染：需要实时获取商品数据
@@ -67,11 +76,14 @@ export default async function ProductDetailPage({
 }) {
   const { id } = await params
 
-  // 查询商品详情，包含分类信息
+  // 查询商品详情，包含进行中的秒杀活动和在售的规格（分类路径在下面单独查询）
   const product = await prisma.product.findUnique({
     where: { id: parseInt(id) },
     include: {
-      category: true,
+      flashSales: { where: activeFlashSaleWhere(), take: 1 },
+      options: true,
+      variants: { where: { isActive: true }, orderBy: { id: 'asc' } },
+      images: productImagesQuery,
     },
   })
 
@@ -81,13 +93,22 @@ export default async function ProductDetailPage({
     notFound()
   }
 
-  // 解析商品图片
-  let images: string[] = []
-  try {
-    images = JSON.parse(product.images)
-  } catch {
-    images = []
-  }
+  // 秒杀中且活动库存没抢光时，按秒杀价出售
+  const flashSale = toFlashSaleBadge(product.flashSales)
+  const onSale = flashSale !== null && flashSale.remainingStock > 0
+  const price = onSale ? flashSale.salePrice : product.price.toString()
+
+  // 规格组合价格不同时，商品价格是最低的规格价，显示"起"
+  const variants = product.variants.map(toVariantView)
+  const priceVaries = !onSale && new Set(variants.map((variant) => variant.price)).size > 1
+
+  const images = product.images
+
+  // 面包屑：从顶级分类到商品所属分类的完整路径
+  const categoryPath = await getCategoryPath(product.categoryId)
+
+  // 规格参数：分类路径上各级分类定义的属性
+  const specs = await getProductSpecs(product.id, categoryPath.map((category) => category.id))
 
   // 同分类推荐商品
   const relatedProducts = await prisma.product.findMany({
@@ -99,6 +120,7 @@ export default async function ProductDetailPage({
     take: 4,
     include: {
       category: { select: { name: true, slug: true } },
+      images: coverImageQuery,
     },
   })
 
@@ -108,22 +130,22 @@ export default async function ProductDetailPage({
       <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
         {/* 左侧：商品图片 */}
         <div className="space-y-4">
-          {/* 主图 */}
+          {/* 主图（原图） */}
           <div className="aspect-square bg-gray-100 rounded-xl overflow-hidden">
             <img
-              src={images[0] || '/placeholder.jpg'}
-              alt={product.name}
+              src={coverImageOf(images, true)}
+              alt={images[0]?.alt || product.name}
               className="w-full h-full object-cover"
             />
           </div>
           {/* 缩略图列表 */}
           {images.length > 1 && (
             <div className="grid grid-cols-4 gap-2">
-              {images.slice(0, 4).map((img, index) => (
+              {images.slice(0, 4).map((image, index) => (
                 <div key={index} className="aspect-square bg-gray-100 rounded-lg overflow-hidden">
                   <img
-                    src={img}
-                    alt={`${product.name} - ${index + 1}`}
+                    src={image.thumbnailUrl || image.url}
+                    alt={image.alt || `${product.name} - ${index + 1}`}
                     className="w-full h-full object-cover"
                   />
                 </div>
@@ -136,11 +158,15 @@ export default async function ProductDetailPage({
         <div className="space-y-6">
           {/* 分类面包屑 */}
           <div className="text-sm text-gray-500">
-            <a href="/" className="hover:text-blue-600">首页</a>
-            <span className="mx-2">/</span>
-            <a href={`/categories/${product.category.slug}`} className="hover:text-blue-600">
-              {product.category.name}
-            </a>
+            <Link href="/" className="hover:text-blue-600">首页</Link>
+            {categoryPath.map((category) => (
+              <span key={category.id}>
+                <span className="mx-2">/</span>
+                <Link href={`/categories/${category.slug}`} className="hover:text-blue-600">
+                  {category.name}
+                </Link>
+              </span>
+            ))}
             <span className="mx-2">/</span>
             <span className="text-gray-900">{product.name}</span>
           </div>
@@ -150,11 +176,30 @@ export default async function ProductDetailPage({
             {product.name}
           </h1>
 
+          {/* 秒杀活动 */}
+          {flashSale && (
+            <div className="flex items-center justify-between px-4 py-2 bg-red-500 text-white rounded-lg">
+              <span className="font-semibold">限时秒杀</span>
+              <span className="text-sm">
+                {onSale
+                  ? `剩余 ${flashSale.remainingStock} 件 · 每人限购 ${flashSale.perUserLimit} 件 · `
+                  : '秒杀已抢光 · '}
+                <FlashSaleCountdown endsAt={flashSale.endsAt} />
+              </span>
+            </div>
+          )}
+
           {/* 价格 */}
           <div className="flex items-baseline space-x-2">
             <span className="text-3xl font-bold text-red-500">
-              {formatPrice(product.price.toString())}
+              {formatPrice(price)}
             </span>
+            {priceVaries && <span className="text-sm text-gray-500">起</span>}
+            {onSale && (
+              <span className="text-lg text-gray-400 line-through">
+                {formatPrice(product.price.toString())}
+              </span>
+            )}
           </div>
 
           {/* 库存状态 */}
@@ -172,7 +217,10 @@ export default async function ProductDetailPage({
           <AddToCartButton
             productId={product.id}
             stock={product.stock}
-            price={product.price.toString()}
+            price={price}
+            options={toOptionViews(product.options)}
+            variants={variants}
+            salePrice={onSale ? flashSale.salePrice : null}
           />
 
           {/* 商品描述 */}
@@ -182,6 +230,27 @@ export default async function ProductDetailPage({
               {product.description}
             </div>
           </div>
+
+          {/* 规格参数 */}
+          {specs.length > 0 && (
+            <div className="border-t pt-6">
+              <h2 className="text-lg font-semibold text-gray-900 mb-3">规格参数</h2>
+              <table className="w-full text-sm border rounded-lg overflow-hidden">
+                <tbody className="divide-y">
+                  {specs.map((spec) => (
+                    <tr key={spec.id}>
+                      <th className="w-1/3 px-4 py-2 text-left font-normal text-gray-500 bg-gray-50">
+                        {spec.name}
+                      </th>
+                      <td className="px-4 py-2 text-gray-900">
+                        {formatAttributeValue(spec.value, spec.unit)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
         </div>
       </div>
 
@@ -195,8 +264,8 @@ export default async function ProductDetailPage({
                 <div className="bg-white rounded-xl overflow-hidden shadow-sm hover:shadow-md transition-shadow border">
                   <div className="aspect-square bg-gray-100">
                     <img
-                      src={(() => { try { return JSON.parse(p.images)[0] } catch { return '/placeholder.jpg' } })()}
-                      alt={p.name}
+                      src={coverImageOf(p.images)}
+                      alt={p.images[0]?.alt || p.name}
                       className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-300"
                     />
                   </div>
@@ -18,15 +18,47 @@
  * - gte/lte: 大于等于/小于等于
  * - in: 包含在列表中
  * - AND/OR: 组合条件
+ *
+ * 【关键词搜索】
+ * 使用 MySQL 全文索引按相关度搜索（lib/search.ts），返回按相关度排好序的商品 ID，
+ * 再作为 id in [...] 条件和分类、属性筛选组合。有关键词时默认按"相关度"排序，
+ * 商品名称和描述摘要中匹配的部分高亮显示。
+ *
+ * 【多级分类筛选】
+ * 选择某个分类时，子孙分类下的商品也一起显示（categoryId in [分类及其子孙分类]），
+ * 左侧分类树由 CategoryTree 组件显示，可以展开/收起子分类。
+ *
+ * 【属性筛选（Faceted Search）】
+ * 选择分类后，左侧显示该分类适用的属性（如 品牌、存储容量）和各个值的商品数，
+ * 筛选条件和关键词、分类一样放在 URL 中（attr_属性ID=值），
+ * 翻页、排序、搜索时保留，切换分类时清空（不同分类的属性不同）。
  */
 
 import Link from 'next/link'
 import { prisma } from '@/lib/prisma'
+import { activeFlashSaleWhere, toFlashSaleBadge } from '@/lib/flash-sale'
+import { coverImageQuery } from '@/lib/product-image'
+import { ancestorsOf, buildCategoryTree, descendantIdsOf } from '@/lib/category-tree'
+import { attributeFiltersWhere, getAttributeFacets } from '@/lib/product-attribute'
+import { orderByRelevance, searchProducts } from '@/lib/search'
+import { searchSnippet } from '@/lib/search-highlight'
+import {
+  formatAttributeValue,
+  parseAttributeFilters,
+  toAttributeQuery,
+  toggleAttributeFilter,
+} from '@/lib/product-attribute-filter'
+import type { Prisma } from '@/generated/prisma/client'
 import ProductList from '@/components/product/ProductList'
+import CategoryTree from '@/components/product/CategoryTree'
 
 // 动态渲染：页面包含数据库查询和搜索参数
 export const dynamic = 'force-dynamic'
 
+// 允许的排序字段（sortBy 直接用作 orderBy 的字段名，不能接受任意值）
+// relevance 不是数据库字段，按搜索结果的相关度排序，只在有关键词时可用
+const SORT_FIELDS = ['relevance', 'createdAt', 'price', 'name']
+
 // Next.js 15+ 的 searchParams 是 Promise 类型
 type Props = {
   searchParams: Promise<{
@@ -35,6 +67,7 @@ type Props = {
     page?: string
     sortBy?: string
     sortOrder?: string
+    [attribute: string]: string | string[] | undefined // 属性筛选：attr_属性ID
   }>
 }
 
@@ -45,52 +78,96 @@ export default async function ProductsPage({ searchParams }: Props) {
   const categoryId = params.categoryId ? parseInt(params.categoryId) : undefined
   const page = parseInt(params.page || '1')
   const pageSize = 12
-  const sortBy = params.sortBy || 'createdAt'
-  const sortOrder = (params.sortOrder || 'desc') as 'asc' | 'desc'
+  // 有关键词时默认按相关度排序，否则按最新排序
+  const defaultSortBy = keyword ? 'relevance' : 'createdAt'
+  const sortBy = params.sortBy && SORT_FIELDS.includes(params.sortBy)
+    && (keyword || params.sortBy !== 'relevance')
+    ? params.sortBy
+    : defaultSortBy
+  const sortOrder = params.sortOrder === 'asc' ? 'asc' : 'desc'
+  const attributeFilters = parseAttributeFilters(params)
+  // 属性筛选条件的查询参数，翻页、排序时拼接在链接后面
+  const attributeQuery = toAttributeQuery(attributeFilters)
+
+  // 获取所有分类（用于筛选侧边栏和子孙分类筛选）
+  const categories = await prisma.category.findMany({
+    select: { id: true, parentId: true, sortOrder: true, name: true },
+  })
+
+  // 关键词搜索：全文索引按相关度返回匹配的商品 ID
+  const search = keyword ? await searchProducts(keyword) : null
 
   // ---- 构建查询条件 ----
   // Prisma 的 where 条件是一个对象，可以动态构建
-  const where = {
+  const baseWhere: Prisma.ProductWhereInput = {
     isActive: true, // 只显示上架商品
-    // 关键词搜索：在商品名称和描述中模糊匹配
-    ...(keyword && {
-      OR: [
-        { name: { contains: keyword } },        // 名称包含关键词
-        { description: { contains: keyword } }, // 描述包含关键词
-      ],
-    }),
-    // 分类筛选
-    ...(categoryId && { categoryId }),
+    ...(search && { id: { in: search.ids } }),
+    // 分类筛选：包含子孙分类
+    ...(categoryId && { categoryId: { in: descendantIdsOf(categories, categoryId) } }),
+  }
+  // 属性筛选：每个属性一个条件，同时满足
+  const where: Prisma.ProductWhereInput = {
+    ...baseWhere,
+    AND: attributeFiltersWhere(attributeFilters),
   }
 
-  // ---- 并行查询：商品列表 + 总数 ----
-  // Promise.all 让两个查询同时执行，比串行查询更快
-  const [products, total] = await Promise.all([
-    prisma.product.findMany({
-      where,
-      include: {
-        category: {
-          select: { name: true, slug: true },
-        },
-      },
-      orderBy: { [sortBy]: sortOrder }, // 动态排序字段
-      skip: (page - 1) * pageSize,      // 跳过前 N 条（分页）
-      take: pageSize,                    // 取 N 条
-    }),
-    prisma.product.count({ where }),     // 统计总数（用于计算总页数）
-  ])
+  const include = {
+    category: {
+      select: { name: true, slug: true },
+    },
+    flashSales: { where: activeFlashSaleWhere(), take: 1 }, // 进行中的秒杀活动
+    images: coverImageQuery, // 封面图
+  } satisfies Prisma.ProductInclude
+
+  let products
+  let total
+  if (search && sortBy === 'relevance') {
+    // ---- 按相关度排序 ----
+    // 数据库不知道相关度，先查出满足全部条件的商品 ID，按搜索结果的顺序分页，再查询这一页的商品
+    const matched = await prisma.product.findMany({ where, select: { id: true } })
+    const pageIds = orderByRelevance(matched, search)
+      .slice((page - 1) * pageSize, page * pageSize)
+      .map((product) => product.id)
+    products = orderByRelevance(
+      await prisma.product.findMany({ where: { id: { in: pageIds } }, include }),
+      search
+    )
+    total = matched.length
+  } else {
+    // ---- 并行查询：商品列表 + 总数 ----
+    // Promise.all 让两个查询同时执行，比串行查询更快
+    ;[products, total] = await Promise.all([
+      prisma.product.findMany({
+        where,
+        include,
+        orderBy: { [sortBy]: sortOrder }, // 动态排序字段
+        skip: (page - 1) * pageSize,      // 跳过前 N 条（分页）
+        take: pageSize,                    // 取 N 条
+      }),
+      prisma.product.count({ where }),     // 统计总数（用于计算总页数）
+    ])
+  }
 
   const totalPages = Math.ceil(total / pageSize)
 
-  // 获取所有分类（用于筛选侧边栏）
-  const categories = await prisma.category.findMany({
-    orderBy: { name: 'asc' },
-  })
+  // 属性筛选项：所选分类的上级分类、自身和子孙分类定义的可筛选属性
+  const facets = categoryId
+    ? await getAttributeFacets(
+        [
+          ...ancestorsOf(categories, categoryId).map((category) => category.id),
+          ...descendantIdsOf(categories, categoryId).slice(1), // 第一个是分类自身
+        ],
+        baseWhere,
+        attributeFilters
+      )
+    : []
 
   // 序列化价格
-  const serializedProducts = products.map((p) => ({
+  const serializedProducts = products.map(({ flashSales, ...p }) => ({
     ...p,
     price: p.price.toString(),
+    flashSale: toFlashSaleBadge(flashSales),
+    snippet: keyword ? searchSnippet(p.description, keyword) : null, // 描述中匹配的位置附近
   }))
 
   return (
@@ -100,32 +177,69 @@ export default async function ProductsPage({ searchParams }: Props) {
         <aside className="hidden md:block w-64 flex-shrink-0">
           <div className="bg-white rounded-xl border p-6 sticky top-20">
             <h3 className="font-semibold text-gray-900 mb-4">商品分类</h3>
-            <ul className="space-y-2">
-              <li>
-                <Link
-                  href="/products"
-                  className={`block px-3 py-2 rounded-lg text-sm transition-colors ${
-                    !categoryId ? 'bg-blue-50 text-blue-600 font-medium' : 'text-gray-700 hover:bg-gray-50'
-                  }`}
-                >
-                  全部分类
-                </Link>
-              </li>
-              {categories.map((cat) => (
-                <li key={cat.id}>
-                  <Link
-                    href={`/products?categoryId=${cat.id}${keyword ? `&keyword=${keyword}` : ''}`}
-                    className={`block px-3 py-2 rounded-lg text-sm transition-colors ${
-                      categoryId === cat.id
-                        ? 'bg-blue-50 text-blue-600 font-medium'
-                        : 'text-gray-700 hover:bg-gray-50'
-                    }`}
-                  >
-                    {cat.name}
-                  </Link>
-                </li>
-              ))}
-            </ul>
+            <Link
+              href="/products"
+              className={`block px-3 py-2 mb-1 rounded-lg text-sm transition-colors ${
+                !categoryId ? 'bg-blue-50 text-blue-600 font-medium' : 'text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              全部分类
+            </Link>
+            <CategoryTree
+              categories={buildCategoryTree(categories)}
+              selectedId={categoryId}
+              keyword={keyword}
+            />
+
+            {/* 属性筛选：点击选中 / 取消，同一属性可以多选 */}
+            {facets.length > 0 && (
+              <div className="mt-6 pt-6 border-t space-y-5">
+                <div className="flex items-center justify-between">
+                  <h3 className="font-semibold text-gray-900">筛选</h3>
+                  {attributeQuery && (
+                    <Link
+                      href={`/products?categoryId=${categoryId}${keyword ? `&keyword=${keyword}` : ''}&sortBy=${sortBy}&sortOrder=${sortOrder}`}
+                      className="text-xs text-gray-500 hover:text-blue-600"
+                    >
+                      清除筛选
+                    </Link>
+                  )}
+                </div>
+                {facets.map(({ attribute, values }) => (
+                  <div key={attribute.id}>
+                    <h4 className="text-sm font-medium text-gray-700 mb-2">{attribute.name}</h4>
+                    <ul className="space-y-1">
+                      {values.map(({ value, count, selected }) => (
+                        <li key={value}>
+                          <Link
+                            href={`/products?categoryId=${categoryId}${keyword ? `&keyword=${keyword}` : ''}&sortBy=${sortBy}&sortOrder=${sortOrder}${toAttributeQuery(toggleAttributeFilter(attributeFilters, attribute.id, value))}`}
+                            className={`flex items-center justify-between px-2 py-1 rounded text-sm transition-colors ${
+                              selected
+                                ? 'bg-blue-50 text-blue-600 font-medium'
+                                : count === 0
+                                  ? 'text-gray-300'
+                                  : 'text-gray-700 hover:bg-gray-50'
+                            }`}
+                          >
+                            <span className="flex items-center">
+                              <span
+                                className={`w-3.5 h-3.5 mr-2 border rounded-sm flex items-center justify-center text-[10px] ${
+                                  selected ? 'bg-blue-600 border-blue-600 text-white' : 'border-gray-300'
+                                }`}
+                              >
+                                {selected && '✓'}
+                              </span>
+                              {formatAttributeValue(value, attribute.unit)}
+                            </span>
+                            <span className="text-xs text-gray-400">{count}</span>
+                          </Link>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                ))}
+              </div>
+            )}
           </div>
         </aside>
 
@@ -144,6 +258,11 @@ export default async function ProductsPage({ searchParams }: Props) {
                            focus:ring-2 focus:ring-blue-500 focus:border-transparent"
               />
               {categoryId && <input type="hidden" name="categoryId" value={categoryId} />}
+              {Object.entries(attributeFilters).map(([id, values]) =>
+                values.map((value) => (
+                  <input key={`${id}-${value}`} type="hidden" name={`attr_${id}`} value={value} />
+                ))
+              )}
               <button
                 type="submit"
                 className="px-4 py-2 bg-blue-600 text-white rounded-r-lg hover:bg-blue-700 transition-colors"
@@ -156,6 +275,7 @@ export default async function ProductsPage({ searchParams }: Props) {
             <div className="flex items-center space-x-2 text-sm text-gray-600">
               <span>排序：</span>
               {[
+                ...(keyword ? [{ label: '相关度', value: 'relevance-desc' }] : []),
                 { label: '最新', value: 'createdAt-desc' },
                 { label: '价格低→高', value: 'price-asc' },
                 { label: '价格高→低', value: 'price-desc' },
@@ -165,7 +285,7 @@ export default async function ProductsPage({ searchParams }: Props) {
                 return (
                   <Link
                     key={option.value}
-                    href={`/products?sortBy=${field}&sortOrder=${order}${keyword ? `&keyword=${keyword}` : ''}${categoryId ? `&categoryId=${categoryId}` : ''}`}
+                    href={`/products?sortBy=${field}&sortOrder=${order}${keyword ? `&keyword=${keyword}` : ''}${categoryId ? `&categoryId=${categoryId}` : ''}${attributeQuery}`}
                     className={`px-3 py-1 rounded-full transition-colors ${
                       isActive
                         ? 'bg-blue-600 text-white'
@@ -186,7 +306,7 @@ export default async function ProductsPage({ searchParams }: Props) {
           </p>
 
           {/* 商品列表 */}
-          <ProductList products={serializedProducts} />
+          <ProductList products={serializedProducts} keyword={keyword} />
 
           {/* ==================== 分页 ==================== */}
           {totalPages > 1 && (
@@ -194,7 +314,7 @@ export default async function ProductsPage({ searchParams }: Props) {
               {/* 上一页 */}
               {page > 1 && (
                 <Link
-                  href={`/products?page=${page - 1}${keyword ? `&keyword=${keyword}` : ''}${categoryId ? `&categoryId=${categoryId}` : ''}&sortBy=${sortBy}&sortOrder=${sortOrder}`}
+                  href={`/products?page=${page - 1}${keyword ? `&keyword=${keyword}` : ''}${categoryId ? `&categoryId=${categoryId}` : ''}&sortBy=${sortBy}&sortOrder=${sortOrder}${attributeQuery}`}
                   className="px-4 py-2 border rounded-lg hover:bg-gray-50 text-sm"
                 >
                   上一页
@@ -205,7 +325,7 @@ export default async function ProductsPage({ searchParams }: Props) {
               {Array.from({ length: totalPages }, (_, i) => i + 1).map((p) => (
                 <Link
                   key={p}
-                  href={`/products?page=${p}${keyword ? `&keyword=${keyword}` : ''}${categoryId ? `&categoryId=${categoryId}` : ''}&sortBy=${sortBy}&sortOrder=${sortOrder}`}
+                  href={`/products?page=${p}${keyword ? `&keyword=${keyword}` : ''}${categoryId ? `&categoryId=${categoryId}` : ''}&sortBy=${sortBy}&sortOrder=${sortOrder}${attributeQuery}`}
                   className={`px-4 py-2 rounded-lg text-sm ${
                     p === page
                       ? 'bg-blue-600 text-white'
@@ -219,7 +339,7 @@ export default async function ProductsPage({ searchParams }: Props) {
               {/* 下一页 */}
               {page < totalPages && (
                 <Link
-                  href={`/products?page=${page + 1}${keyword ? `&keyword=${keyword}` : ''}${categoryId ? `&categoryId=${categoryId}` : ''}&sortBy=${sortBy}&sortOrder=${sortOrder}`}
+                  href={`/products?page=${page + 1}${keyword ? `&keyword=${keyword}` : ''}${categoryId ? `&categoryId=${categoryId}` : ''}&sortBy=${sortBy}&sortOrder=${sortOrder}${attributeQuery}`}
                   className="px-4 py-2 border rounded-lg hover:bg-gray-50 text-sm"
                 >
                   下一页
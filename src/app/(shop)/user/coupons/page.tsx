@@ -0,0 +1,187 @@
+/**
+ * 我的优惠券页面
+ * ============================================================
+ *
+ * 【路由】/user/coupons
+ *
+ * 上半部分是领券中心：可以领取的优惠券，点击"领取"放入券包；
+ * 下半部分是券包：已领取的优惠券及其状态（未使用 / 已使用 / 已过期）。
+ * 券包中的券在结算页选择使用，订单取消后券会退回券包。
+ */
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import {
+  COUPON_SCOPE_LABELS,
+  USER_COUPON_STATUS_LABELS,
+  describeCoupon,
+  type CouponScopeValue,
+  type CouponTypeValue,
+  type UserCouponStatusValue,
+} from '@/lib/coupon-status'
+
+type Coupon = {
+  id: number
+  name: string
+  type: CouponTypeValue
+  value: string
+  maxDiscount: string | null
+  minSpend: string
+  scope: CouponScopeValue
+  startsAt: string
+  endsAt: string
+  totalLimit: number | null
+  perUserLimit: number
+  claimedCount: number
+  categories: { id: number; name: string }[]
+  products: { id: number; name: string }[]
+}
+
+type UserCoupon = {
+  id: number
+  status: UserCouponStatusValue
+  expired: boolean
+  claimedAt: string
+  coupon: Coupon
+  order: { id: number; orderNo: string } | null
+}
+
+/**
+ * 适用范围的说明，如 "指定分类：手机、电脑"
+ */
+function scopeText(coupon: Coupon): string {
+  const names =
+    coupon.scope === 'CATEGORY'
+      ? coupon.categories.map((c) => c.name)
+      : coupon.scope === 'PRODUCT'
+        ? coupon.products.map((p) => p.name)
+        : []
+  return names.length > 0
+    ? `${COUPON_SCOPE_LABELS[coupon.scope]}：${names.join('、')}`
+    : COUPON_SCOPE_LABELS[coupon.scope]
+}
+
+export default function CouponsPage() {
+  const [claimable, setClaimable] = useState<(Coupon & { claimedByMe: number })[]>([])
+  const [myCoupons, setMyCoupons] = useState<UserCoupon[]>([])
+  const [loading, setLoading] = useState(true)
+  const [version, setVersion] = useState(0) // 自增后重新获取数据
+
+  useEffect(() => {
+    Promise.all([
+      fetch('/api/coupons').then((res) => res.json()),
+      fetch('/api/user/coupons').then((res) => res.json()),
+    ])
+      .then(([claimableData, myData]) => {
+        if (claimableData.success) setClaimable(claimableData.data)
+        if (myData.success) setMyCoupons(myData.data)
+      })
+      .catch(() => console.error('获取优惠券失败'))
+      .finally(() => setLoading(false))
+  }, [version])
+
+  const handleClaim = async (couponId: number) => {
+    try {
+      const res = await fetch(`/api/coupons/${couponId}/claim`, { method: 'POST' })
+      const data = await res.json()
+      if (data.success) {
+        setVersion((v) => v + 1)
+      } else {
+        alert(data.message || '领取失败')
+      }
+    } catch {
+      alert('领取失败')
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="space-y-4">
+        {[1, 2].map((i) => (
+          <div key={i} className="h-24 bg-gray-100 rounded-xl animate-pulse" />
+        ))}
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-8">
+      {/* ==================== 领券中心 ==================== */}
+      <section>
+        <h1 className="text-2xl font-bold text-gray-900 mb-6">领券中心</h1>
+        {claimable.length === 0 ? (
+          <div className="text-center py-8 bg-white rounded-xl border text-gray-500">暂无可领取的优惠券</div>
+        ) : (
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            {claimable.map((coupon) => {
+              const soldOut = coupon.totalLimit !== null && coupon.claimedCount >= coupon.totalLimit
+              const reachedLimit = coupon.claimedByMe >= coupon.perUserLimit
+              return (
+                <div key={coupon.id} className="flex items-center justify-between bg-white rounded-xl border border-red-100 p-4">
+                  <div>
+                    <p className="text-lg font-bold text-red-500">{describeCoupon(coupon)}</p>
+                    <p className="text-sm text-gray-900">{coupon.name}</p>
+                    <p className="text-xs text-gray-400 mt-1">
+                      {scopeText(coupon)} · {new Date(coupon.endsAt).toLocaleDateString('zh-CN')} 前有效
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => handleClaim(coupon.id)}
+                    disabled={soldOut || reachedLimit}
+                    className="px-4 py-1.5 bg-red-500 text-white text-sm rounded-full hover:bg-red-600
+                               disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors"
+                  >
+                    {soldOut ? '已领完' : reachedLimit ? '已领取' : '领取'}
+                  </button>
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </section>
+
+      {/* ==================== 我的优惠券 ==================== */}
+      <section>
+        <h2 className="text-xl font-bold text-gray-900 mb-4">我的优惠券</h2>
+        {myCoupons.length === 0 ? (
+          <div className="text-center py-8 bg-white rounded-xl border text-gray-500">券包里还没有优惠券</div>
+        ) : (
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            {myCoupons.map((userCoupon) => {
+              const usable = userCoupon.status === 'UNUSED' && !userCoupon.expired
+              const label = userCoupon.status === 'UNUSED' && userCoupon.expired
+                ? '已过期'
+                : USER_COUPON_STATUS_LABELS[userCoupon.status]
+              return (
+                <div
+                  key={userCoupon.id}
+                  className={`bg-white rounded-xl border p-4 ${usable ? 'border-red-100' : 'opacity-60'}`}
+                >
+                  <div className="flex items-center justify-between">
+                    <p className={`text-lg font-bold ${usable ? 'text-red-500' : 'text-gray-500'}`}>
+                      {describeCoupon(userCoupon.coupon)}
+                    </p>
+                    <span className="text-xs text-gray-500">{label}</span>
+                  </div>
+                  <p className="text-sm text-gray-900">{userCoupon.coupon.name}</p>
+                  <p className="text-xs text-gray-400 mt-1">
+                    {scopeText(userCoupon.coupon)} · {new Date(userCoupon.coupon.endsAt).toLocaleDateString('zh-CN')} 前有效
+                  </p>
+                  {userCoupon.order && (
+                    <p className="text-xs text-gray-400 mt-1">
+                      用于订单{' '}
+                      <Link href={`/user/orders/${userCoupon.order.id}`} className="text-blue-600 hover:text-blue-500">
+                        {userCoupon.order.orderNo}
+                      </Link>
+                    </p>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </section>
+    </div>
+  )
+}
@@ -17,6 +17,8 @@ import { usePathname } from 'next/navigation'
 const menuItems = [
   { href: '/user/profile', label: '个人信息', icon: '👤' },
   { href: '/user/orders', label: '我的订单', icon: '📦' },
+  { href: '/user/orders/after-sales', label: '我的售后', icon: '🔁' },
+  { href: '/user/coupons', label: '我的优惠券', icon: '🎟️' },
 ]
 
 export default function UserLayout({
@@ -0,0 +1,293 @@
+/**
+ * 申请售后页面
+ * ============================================================
+ *
+ * 【路由】/user/orders/:id/after-sale?itemId=xx
+ *
+ * 选择订单中的一个商品，填写售后类型、数量、退款金额、原因和凭证图片。
+ * 退款金额默认按实付金额（扣除促销和优惠券）分摊到申请数量的部分全额退款，也可以申请部分退款。
+ */
+'use client'
+
+import { use, useEffect, useState } from 'react'
+import Link from 'next/link'
+import { useRouter, useSearchParams } from 'next/navigation'
+import { formatPrice } from '@/lib/utils'
+import { afterSaleSchema } from '@/lib/validators'
+import {
+  AFTER_SALE_TYPE_LABELS,
+  MAX_AFTER_SALE_IMAGES,
+  canApplyAfterSale,
+  maxRefundAmount,
+  type AfterSaleTypeValue,
+  type AfterSaleUsage,
+} from '@/lib/after-sale-status'
+import type { OrderStatusValue } from '@/lib/order-status'
+import type { ProductImageView } from '@/lib/product-image-url'
+
+type AfterSaleItem = {
+  id: number
+  quantity: number
+  price: string
+  paidAmount: string
+  used: AfterSaleUsage
+  variantName: string | null
+  availableQuantity: number
+  product: { id: number; name: string; images: ProductImageView[] }
+}
+
+type AfterSaleOrder = {
+  id: number
+  orderNo: string
+  status: OrderStatusValue
+  items: AfterSaleItem[]
+}
+
+const afterSaleTypes: AfterSaleTypeValue[] = ['REFUND_ONLY', 'RETURN_REFUND']
+
+export default function ApplyAfterSalePage({
+  params,
+}: {
+  params: Promise<{ id: string }>
+}) {
+  // 客户端组件中用 React.use() 读取 params Promise
+  const { id } = use(params)
+  const router = useRouter()
+  const searchParams = useSearchParams()
+
+  const [order, setOrder] = useState<AfterSaleOrder | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState('')
+
+  // 表单
+  const [itemId, setItemId] = useState<number | null>(Number(searchParams.get('itemId')) || null)
+  const [type, setType] = useState<AfterSaleTypeValue>('REFUND_ONLY')
+  const [quantity, setQuantity] = useState(1)
+  const [amount, setAmount] = useState('') // 留空表示全额退款
+  const [reason, setReason] = useState('')
+  const [images, setImages] = useState<string[]>([''])
+
+  useEffect(() => {
+    fetch(`/api/orders/${id}/after-sales`)
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.success) {
+          setOrder(data.data)
+        } else {
+          setError(data.message || '获取订单失败')
+        }
+      })
+      .catch(() => setError('获取订单失败'))
+      .finally(() => setLoading(false))
+  }, [id])
+
+  const selectedItem = order?.items.find((item) => item.id === itemId)
+  const maxAmount = selectedItem
+    ? maxRefundAmount(selectedItem.paidAmount, selectedItem.quantity, selectedItem.used, quantity)
+    : '0.00'
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+
+    const payload = {
+      orderItemId: itemId ?? 0,
+      type,
+      quantity,
+      amount: amount ? Number(amount) : undefined,
+      reason,
+      images: images.map((url) => url.trim()).filter(Boolean),
+    }
+
+    // 前端先校验一遍，提升体验（后端还会再校验）
+    const result = afterSaleSchema.safeParse(payload)
+    if (!result.success) {
+      setError(result.error.issues[0]?.message || '请检查填写内容')
+      return
+    }
+
+    setSubmitting(true)
+    try {
+      const res = await fetch(`/api/orders/${id}/after-sales`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(result.data),
+      })
+      const data = await res.json()
+      if (data.success) {
+        router.push('/user/orders/after-sales')
+      } else {
+        setError(data.message || '提交失败')
+      }
+    } catch {
+      setError('提交失败，请重试')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  if (loading) {
+    return <div className="h-96 bg-gray-100 rounded-xl animate-pulse" />
+  }
+
+  if (!order) {
+    return (
+      <div className="text-center py-16 bg-white rounded-xl border">
+        <p className="text-gray-500 mb-4">{error || '订单不存在'}</p>
+        <Link href="/user/orders" className="text-blue-600 hover:text-blue-500">
+          ← 返回我的订单
+        </Link>
+      </div>
+    )
+  }
+
+  return (
+    <div>
+      <Link href="/user/orders" className="text-sm text-gray-500 hover:text-blue-600">
+        ← 返回我的订单
+      </Link>
+      <h1 className="text-2xl font-bold text-gray-900 mt-2 mb-6">申请售后</h1>
+
+      <form onSubmit={handleSubmit} className="bg-white rounded-xl border p-6 space-y-6">
+        <p className="text-sm text-gray-500">订单号：{order.orderNo}</p>
+
+        {/* ==================== 选择商品 ==================== */}
+        <div>
+          <h2 className="text-sm font-medium text-gray-700 mb-2">售后商品</h2>
+          <div className="space-y-2">
+            {order.items.map((item) => (
+              <label
+                key={item.id}
+                className={`flex items-center gap-3 p-3 border rounded-lg ${
+                  item.availableQuantity > 0 ? 'cursor-pointer' : 'opacity-50 cursor-not-allowed'
+                } ${itemId === item.id ? 'border-blue-500 bg-blue-50' : ''}`}
+              >
+                <input
+                  type="radio"
+                  name="item"
+                  checked={itemId === item.id}
+                  disabled={item.availableQuantity <= 0}
+                  onChange={() => {
+                    setItemId(item.id)
+                    setQuantity(1)
+                    setAmount('')
+                  }}
+                />
+                <span className="flex-1 text-sm text-gray-900">
+                  {item.product.name}
+                  {item.variantName && <span className="ml-2 text-xs text-gray-400">{item.variantName}</span>}
+                </span>
+                <span className="text-sm text-gray-500">
+                  {formatPrice(item.price)} x {item.quantity}
+                  {item.availableQuantity < item.quantity && `（可申请 ${item.availableQuantity} 件）`}
+                </span>
+              </label>
+            ))}
+          </div>
+        </div>
+
+        {/* ==================== 售后类型 ==================== */}
+        <div>
+          <h2 className="text-sm font-medium text-gray-700 mb-2">售后类型</h2>
+          <div className="flex gap-3">
+            {afterSaleTypes.map((t) => (
+              <button
+                key={t}
+                type="button"
+                disabled={!canApplyAfterSale(order.status, t)}
+                onClick={() => setType(t)}
+                className={`px-4 py-2 border rounded-lg text-sm disabled:opacity-50 disabled:cursor-not-allowed ${
+                  type === t ? 'border-blue-500 bg-blue-50 text-blue-600' : 'text-gray-700'
+                }`}
+              >
+                {AFTER_SALE_TYPE_LABELS[t]}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {selectedItem && (
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">数量</label>
+              <input
+                type="number"
+                min={1}
+                max={selectedItem.availableQuantity}
+                value={quantity}
+                onChange={(e) => setQuantity(Math.max(1, Math.min(selectedItem.availableQuantity, Number(e.target.value) || 1)))}
+                className="w-full px-3 py-2 border rounded-lg text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                退款金额（最多 {formatPrice(maxAmount)}）
+              </label>
+              <input
+                type="number"
+                step="0.01"
+                min={0.01}
+                max={maxAmount}
+                value={amount}
+                placeholder={maxAmount}
+                onChange={(e) => setAmount(e.target.value)}
+                className="w-full px-3 py-2 border rounded-lg text-sm"
+              />
+            </div>
+          </div>
+        )}
+
+        {/* ==================== 原因和凭证 ==================== */}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">申请原因</label>
+          <textarea
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            rows={4}
+            maxLength={500}
+            placeholder="请描述遇到的问题"
+            className="w-full px-3 py-2 border rounded-lg text-sm"
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            凭证图片（选填，最多 {MAX_AFTER_SALE_IMAGES} 张，填写图片链接）
+          </label>
+          <div className="space-y-2">
+            {images.map((url, index) => (
+              <input
+                key={index}
+                type="url"
+                value={url}
+                placeholder="https://..."
+                onChange={(e) => setImages(images.map((u, i) => (i === index ? e.target.value : u)))}
+                className="w-full px-3 py-2 border rounded-lg text-sm"
+              />
+            ))}
+          </div>
+          {images.length < MAX_AFTER_SALE_IMAGES && (
+            <button
+              type="button"
+              onClick={() => setImages([...images, ''])}
+              className="mt-2 text-sm text-blue-600 hover:text-blue-500"
+            >
+              + 添加图片
+            </button>
+          )}
+        </div>
+
+        {error && <p className="text-sm text-red-500">{error}</p>}
+
+        <button
+          type="submit"
+          disabled={submitting || !selectedItem}
+          className="w-full py-3 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 disabled:opacity-50 transition-colors"
+        >
+          {submitting ? '提交中...' : '提交申请'}
+        </button>
+      </form>
+    </div>
+  )
+}
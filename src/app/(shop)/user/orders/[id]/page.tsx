@@ -0,0 +1,468 @@
+/**
+ * 订单详情页面
+ * ============================================================
+ *
+ * 【路由】/user/orders/:id
+ *
+ * 展示单个订单的完整信息：
+ * - 收货地址（下单时的快照，之后修改地址簿不影响）
+ * - 商品清单（下单时的单价快照）
+ * - 下单时选择的显示币种和汇率（订单按人民币结算，外币金额仅供参考）
+ * - 支付记录、物流信息、状态时间线
+ *
+ * 页面底部的操作按钮由订单当前状态决定：
+ * - 待付款：立即支付、取消订单
+ * - 已付款：取消订单、申请售后
+ * - 已发货：确认收货（分批发货时全部发出后才显示）、申请售后
+ * - 已完成：申请售后、再次购买
+ * - 已取消：再次购买
+ */
+'use client'
+
+import { use, useEffect, useRef, useState } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { formatPrice } from '@/lib/utils'
+import { compareMoney, multiplyMoney } from '@/lib/money'
+import { BASE_CURRENCY, CURRENCIES, isCurrencyCode } from '@/lib/currency-format'
+import { coverImageOf, type ProductImageView } from '@/lib/product-image-url'
+import { useCartStore } from '@/store/cart'
+import {
+  ORDER_STATUS_LABELS,
+  canTransitionOrder,
+  type OrderStatusValue,
+} from '@/lib/order-status'
+import {
+  AFTER_SALE_STATUS_LABELS,
+  AFTER_SALE_TYPE_LABELS,
+  isAfterSaleOpen,
+  type AfterSaleStatusValue,
+  type AfterSaleTypeValue,
+} from '@/lib/after-sale-status'
+import OrderTimeline, { type OrderTimelineEntry } from '@/components/order/OrderTimeline'
+import PaymentCountdown from '@/components/order/PaymentCountdown'
+import ShipmentTracking, { type ShipmentTrackingEntry } from '@/components/order/ShipmentTracking'
+import type { AddressSnapshot } from '@/types'
+
+// 支付状态映射
+const paymentStatusLabels: Record<string, string> = {
+  PENDING: '待支付',
+  SUCCEEDED: '支付成功',
+  FAILED: '支付失败',
+  CLOSED: '已关闭',
+}
+
+type OrderDetail = {
+  id: number
+  orderNo: string
+  totalAmount: string
+  goodsAmount: string
+  promotionDiscount: string
+  discountAmount: string
+  promotions: {
+    id: number
+    name: string
+    description: string
+    discountAmount: string
+  }[]
+  shippingFee: string
+  displayCurrency: string  // 下单时的显示币种
+  exchangeRate: string     // 下单时的汇率（1 人民币 = exchangeRate 单位的显示币种）
+  status: OrderStatusValue
+  address: string
+  paymentDeadline: string | null
+  afterSaleDeadline: string | null
+  fullyShipped: boolean // 全部商品已发出（分批发货还有商品没发出时不能确认收货）
+  createdAt: string
+  items: {
+    id: number
+    quantity: number
+    price: string
+    variantId: number | null
+    variantName: string | null
+    product: { id: number; name: string; images: ProductImageView[] }
+  }[]
+  payments: {
+    paymentNo: string
+    provider: string
+    status: string
+    amount: string
+    refundedAmount: string
+    pendingRefundAmount: string
+    paidAt: string | null
+    createdAt: string
+  }[]
+  afterSales: {
+    id: number
+    orderItemId: number
+    type: AfterSaleTypeValue
+    status: AfterSaleStatusValue
+    quantity: number
+    amount: string
+  }[]
+  statusHistory: OrderTimelineEntry[]
+  shipments: ShipmentTrackingEntry[]
+}
+
+export default function OrderDetailPage({
+  params,
+}: {
+  params: Promise<{ id: string }>
+}) {
+  // 客户端组件中用 React.use() 读取 params Promise
+  const { id } = use(params)
+  const router = useRouter()
+  const addItem = useCartStore((state) => state.addItem)
+
+  const [order, setOrder] = useState<OrderDetail | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [acting, setActing] = useState(false) // 正在执行操作，防止重复点击
+  const payKeyRef = useRef<string | null>(null) // 本次支付的幂等键（Idempotency-Key）
+  const [version, setVersion] = useState(0) // 加 1 即重新获取订单
+
+  useEffect(() => {
+    fetch(`/api/orders/${id}`)
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.success) setOrder(data.data)
+      })
+      .catch(() => console.error('获取订单详情失败'))
+      .finally(() => setLoading(false))
+  }, [id, version])
+
+  const refreshOrder = () => setVersion((v) => v + 1)
+
+  /**
+   * 调用订单操作接口（取消、确认收货），成功后刷新订单
+   */
+  const runAction = async (url: string, confirmMessage: string) => {
+    if (!confirm(confirmMessage)) return
+
+    setActing(true)
+    try {
+      const res = await fetch(url, { method: 'POST' })
+      const data = await res.json()
+      if (data.success) {
+        refreshOrder()
+      } else {
+        alert(data.message || '操作失败')
+      }
+    } catch {
+      alert('操作失败')
+    } finally {
+      setActing(false)
+    }
+  }
+
+  // 立即支付
+  const handlePay = async () => {
+    // 和结算页一样带上幂等键：双击、网络重试发出的重复请求不会重复发起支付
+    // 请求结束后清空，下次点击"立即支付"是一次新的支付
+    if (!payKeyRef.current) {
+      payKeyRef.current = crypto.randomUUID()
+    }
+
+    setActing(true)
+    try {
+      const res = await fetch('/api/payment', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Idempotency-Key': payKeyRef.current,
+        },
+        body: JSON.stringify({ orderId: Number(id) }),
+      })
+      const data = await res.json()
+      if (data.success) {
+        router.push(data.data.payUrl) // 跳转到支付页面
+      } else {
+        alert(data.message || '发起支付失败')
+      }
+    } catch {
+      alert('发起支付失败')
+    } finally {
+      payKeyRef.current = null
+      setActing(false)
+    }
+  }
+
+  // 再次购买：把订单中的商品重新加入购物车
+  const handleBuyAgain = async () => {
+    if (!order) return
+
+    setActing(true)
+    const results = await Promise.all(
+      order.items.map((item) => addItem(item.product.id, item.quantity, item.variantId))
+    )
+    setActing(false)
+
+    if (results.some((ok) => !ok)) {
+      alert('部分商品已下架或库存不足，未能加入购物车')
+    }
+    router.push('/cart')
+  }
+
+  if (loading) {
+    return (
+      <div className="space-y-4">
+        {[1, 2, 3].map((i) => (
+          <div key={i} className="h-40 bg-gray-100 rounded-xl animate-pulse" />
+        ))}
+      </div>
+    )
+  }
+
+  if (!order) {
+    return (
+      <div className="text-center py-16 bg-white rounded-xl border">
+        <p className="text-gray-500 mb-4">订单不存在</p>
+        <Link href="/user/orders" className="text-blue-600 hover:text-blue-500">
+          ← 返回我的订单
+        </Link>
+      </div>
+    )
+  }
+
+  // 解析地址快照
+  let address: AddressSnapshot | null = null
+  try {
+    address = JSON.parse(order.address)
+  } catch {
+    address = null
+  }
+
+  const canApplyAfterSale = isAfterSaleOpen(order.status, order.afterSaleDeadline)
+
+  return (
+    <div>
+      <Link href="/user/orders" className="text-sm text-gray-500 hover:text-blue-600">
+        ← 返回我的订单
+      </Link>
+
+      <div className="flex items-center justify-between mt-2 mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">订单详情</h1>
+          <p className="text-sm text-gray-500 mt-1">
+            订单号：{order.orderNo} · {new Date(order.createdAt).toLocaleString('zh-CN')}
+          </p>
+        </div>
+        <div className="flex items-center space-x-4">
+          <span className="text-sm px-3 py-1 rounded-full bg-blue-50 text-blue-600">
+            {ORDER_STATUS_LABELS[order.status]}
+          </span>
+          {order.status === 'PENDING' && order.paymentDeadline && (
+            <PaymentCountdown deadline={order.paymentDeadline} onExpire={refreshOrder} />
+          )}
+        </div>
+      </div>
+
+      <div className="space-y-6">
+        {/* ==================== 收货地址 ==================== */}
+        <section className="bg-white rounded-xl border p-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-3">收货地址</h2>
+          {address ? (
+            <p className="text-sm text-gray-600">
+              {address.name} {address.phone}
+              <br />
+              {address.province} {address.city} {address.district} {address.detail}
+            </p>
+          ) : (
+            <p className="text-sm text-gray-400">地址信息解析失败</p>
+          )}
+        </section>
+
+        {/* ==================== 商品清单 ==================== */}
+        <section className="bg-white rounded-xl border p-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-3">商品清单</h2>
+          <div className="divide-y">
+            {order.items.map((item) => {
+              const coverImage = coverImageOf(item.product.images)
+
+              const afterSales = order.afterSales.filter((a) => a.orderItemId === item.id)
+
+              return (
+                <div key={item.id} className="flex items-center gap-4 py-3">
+                  <Link href={`/products/${item.product.id}`}>
+                    <img
+                      src={coverImage}
+                      alt={item.product.name}
+                      className="w-16 h-16 object-cover rounded-lg"
+                    />
+                  </Link>
+                  <div className="flex-1 min-w-0">
+                    <Link
+                      href={`/products/${item.product.id}`}
+                      className="text-sm text-gray-900 hover:text-blue-600 line-clamp-1"
+                    >
+                      {item.product.name}
+                    </Link>
+                    {item.variantName && (
+                      <p className="text-xs text-gray-400">{item.variantName}</p>
+                    )}
+                    <p className="text-sm text-gray-500">
+                      {formatPrice(item.price)} x {item.quantity}
+                    </p>
+                    {afterSales.map((afterSale) => (
+                      <p key={afterSale.id} className="text-xs text-orange-500">
+                        {AFTER_SALE_TYPE_LABELS[afterSale.type]} {afterSale.quantity} 件 ·{' '}
+                        {AFTER_SALE_STATUS_LABELS[afterSale.status]}
+                      </p>
+                    ))}
+                  </div>
+                  <div className="text-right">
+                    <p className="text-sm font-medium text-gray-900">
+                      {formatPrice(multiplyMoney(item.price, item.quantity))}
+                    </p>
+                    {canApplyAfterSale && (
+                      <Link
+                        href={`/user/orders/${order.id}/after-sale?itemId=${item.id}`}
+                        className="text-xs text-blue-600 hover:text-blue-500"
+                      >
+                        申请售后
+                      </Link>
+                    )}
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+          <p className="text-right mt-4 text-sm">
+            {canApplyAfterSale && order.afterSaleDeadline && (
+              <span className="text-xs text-gray-400 mr-4">
+                售后截止：{new Date(order.afterSaleDeadline).toLocaleString('zh-CN')}
+              </span>
+            )}
+            <span className="text-gray-500 mr-4">
+              商品 {formatPrice(order.goodsAmount)}
+              {Number(order.promotionDiscount) > 0 && `，促销 -${formatPrice(order.promotionDiscount)}`}
+              {compareMoney(order.discountAmount, 0) > 0 && `，优惠券 -${formatPrice(order.discountAmount)}`}
+              ，运费 {formatPrice(order.shippingFee)}
+            </span>
+            合计：<span className="text-lg font-bold text-red-500">{formatPrice(order.totalAmount)}</span>
+          </p>
+          {order.displayCurrency !== BASE_CURRENCY && isCurrencyCode(order.displayCurrency) && (
+            <p className="text-right mt-1 text-xs text-gray-400">
+              下单币种：{CURRENCIES[order.displayCurrency].label}（1 {BASE_CURRENCY} = {order.exchangeRate} {order.displayCurrency}），
+              约 {formatPrice(order.totalAmount, { currency: order.displayCurrency, rate: order.exchangeRate })}
+            </p>
+          )}
+          {order.promotions.length > 0 && (
+            <div className="text-right mt-2 space-y-1 text-xs text-gray-500">
+              {order.promotions.map((promotion) => (
+                <p key={promotion.id}>
+                  {promotion.name}（{promotion.description}）：-{formatPrice(promotion.discountAmount)}
+                </p>
+              ))}
+            </div>
+          )}
+        </section>
+
+        {/* ==================== 支付信息 ==================== */}
+        {order.payments.length > 0 && (
+          <section className="bg-white rounded-xl border p-6">
+            <h2 className="text-lg font-semibold text-gray-900 mb-3">支付信息</h2>
+            <table className="w-full text-sm">
+              <thead className="text-gray-500">
+                <tr>
+                  <th className="py-2 text-left">支付单号</th>
+                  <th className="py-2 text-left">状态</th>
+                  <th className="py-2 text-right">金额</th>
+                  <th className="py-2 text-right">时间</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {order.payments.map((payment) => (
+                  <tr key={payment.paymentNo}>
+                    <td className="py-2 text-gray-600">{payment.paymentNo}</td>
+                    <td className="py-2">
+                      {paymentStatusLabels[payment.status] ?? payment.status}
+                      {compareMoney(payment.refundedAmount, 0) > 0 && (
+                        <span className="text-xs text-orange-500 ml-1">
+                          （已退款 {formatPrice(payment.refundedAmount)}）
+                        </span>
+                      )}
+                      {compareMoney(payment.pendingRefundAmount, 0) > 0 && (
+                        <span className="text-xs text-orange-500 ml-1">
+                          （退款中 {formatPrice(payment.pendingRefundAmount)}）
+                        </span>
+                      )}
+                    </td>
+                    <td className="py-2 text-right">{formatPrice(payment.amount)}</td>
+                    <td className="py-2 text-right text-gray-500">
+                      {new Date(payment.paidAt ?? payment.createdAt).toLocaleString('zh-CN')}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </section>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          {/* ==================== 物流信息 ==================== */}
+          <section className="bg-white rounded-xl border p-6">
+            <h2 className="text-lg font-semibold text-gray-900 mb-3">物流信息</h2>
+            <ShipmentTracking shipments={order.shipments} />
+          </section>
+
+          {/* ==================== 订单进度 ==================== */}
+          <section className="bg-white rounded-xl border p-6">
+            <h2 className="text-lg font-semibold text-gray-900 mb-3">订单进度</h2>
+            <OrderTimeline entries={order.statusHistory} />
+          </section>
+        </div>
+
+        {/* ==================== 操作按钮 ==================== */}
+        <div className="flex justify-end space-x-3">
+          {canTransitionOrder(order.status, 'CANCELLED') && (
+            <button
+              disabled={acting}
+              onClick={() => runAction(`/api/orders/${order.id}/cancel`, '确定要取消该订单吗？')}
+              className="px-4 py-2 border text-gray-600 text-sm rounded-lg hover:bg-gray-50 disabled:opacity-50 transition-colors"
+            >
+              取消订单
+            </button>
+          )}
+          {canApplyAfterSale && (
+            <Link
+              href={`/user/orders/${order.id}/after-sale`}
+              className="px-4 py-2 border text-gray-600 text-sm rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              申请售后
+            </Link>
+          )}
+          {(order.status === 'COMPLETED' || order.status === 'CANCELLED') && (
+            <button
+              disabled={acting}
+              onClick={handleBuyAgain}
+              className="px-4 py-2 border border-blue-600 text-blue-600 text-sm rounded-lg hover:bg-blue-50 disabled:opacity-50 transition-colors"
+            >
+              再次购买
+            </button>
+          )}
+          {order.status === 'SHIPPED' && !order.fullyShipped && (
+            <span className="px-4 py-2 text-sm text-gray-400">部分商品已发货，全部发出后可确认收货</span>
+          )}
+          {order.status === 'SHIPPED' && order.fullyShipped && (
+            <button
+              disabled={acting}
+              onClick={() => runAction(`/api/orders/${order.id}/confirm`, '确认已经收到商品了吗？')}
+              className="px-4 py-2 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+            >
+              确认收货
+            </button>
+          )}
+          {order.status === 'PENDING' && (
+            <button
+              disabled={acting}
+              onClick={handlePay}
+              className="px-4 py-2 bg-red-500 text-white text-sm rounded-lg hover:bg-red-600 disabled:opacity-50 transition-colors"
+            >
+              立即支付
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,128 @@
+/**
+ * 我的售后页面
+ * ============================================================
+ *
+ * 【路由】/user/orders/after-sales
+ *
+ * 展示当前用户的所有售后申请及处理进度。
+ * 被拒绝的申请会显示管理员填写的拒绝原因。
+ */
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { formatPrice } from '@/lib/utils'
+import {
+  AFTER_SALE_STATUS_LABELS,
+  AFTER_SALE_TYPE_LABELS,
+  type AfterSaleStatusValue,
+  type AfterSaleTypeValue,
+} from '@/lib/after-sale-status'
+
+// 售后状态颜色
+const statusColors: Record<AfterSaleStatusValue, string> = {
+  PENDING: 'text-orange-500 bg-orange-50',
+  APPROVED: 'text-blue-500 bg-blue-50',
+  REJECTED: 'text-gray-500 bg-gray-50',
+  REFUNDED: 'text-green-500 bg-green-50',
+}
+
+type AfterSale = {
+  id: number
+  type: AfterSaleTypeValue
+  status: AfterSaleStatusValue
+  quantity: number
+  amount: string
+  reason: string
+  adminNote: string | null
+  createdAt: string
+  refundedAt: string | null
+  order: { id: number; orderNo: string }
+  orderItem: {
+    price: string
+    product: { id: number; name: string }
+  }
+  images: { id: number; url: string }[]
+}
+
+export default function AfterSalesPage() {
+  const [afterSales, setAfterSales] = useState<AfterSale[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    fetch('/api/after-sales')
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.success) setAfterSales(data.data)
+      })
+      .catch(() => console.error('获取售后列表失败'))
+      .finally(() => setLoading(false))
+  }, [])
+
+  if (loading) {
+    return (
+      <div className="space-y-4">
+        {[1, 2].map((i) => (
+          <div key={i} className="h-32 bg-gray-100 rounded-xl animate-pulse" />
+        ))}
+      </div>
+    )
+  }
+
+  return (
+    <div>
+      <h1 className="text-2xl font-bold text-gray-900 mb-6">我的售后</h1>
+
+      {afterSales.length === 0 ? (
+        <div className="text-center py-16 bg-white rounded-xl border">
+          <p className="text-gray-500 mb-4">暂无售后申请</p>
+          <Link href="/user/orders" className="text-blue-600 hover:text-blue-500">
+            去我的订单申请 →
+          </Link>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {afterSales.map((afterSale) => (
+            <div key={afterSale.id} className="bg-white rounded-xl border overflow-hidden">
+              <div className="flex justify-between items-center px-6 py-3 bg-gray-50 border-b">
+                <div className="flex items-center space-x-4 text-sm text-gray-500">
+                  <span>订单号：{afterSale.order.orderNo}</span>
+                  <span>{new Date(afterSale.createdAt).toLocaleString('zh-CN')}</span>
+                </div>
+                <span className={`text-xs px-2 py-1 rounded-full font-medium ${statusColors[afterSale.status]}`}>
+                  {AFTER_SALE_STATUS_LABELS[afterSale.status]}
+                </span>
+              </div>
+
+              <div className="px-6 py-4 space-y-2 text-sm">
+                <p className="text-gray-900">
+                  {afterSale.orderItem.product.name}
+                  <span className="text-gray-500">
+                    {' '}· {AFTER_SALE_TYPE_LABELS[afterSale.type]} · {afterSale.quantity} 件
+                  </span>
+                </p>
+                <p className="text-gray-600">原因：{afterSale.reason}</p>
+                {afterSale.images.length > 0 && (
+                  <div className="flex gap-2">
+                    {afterSale.images.map((image) => (
+                      <a key={image.id} href={image.url} target="_blank" rel="noreferrer">
+                        <img src={image.url} alt="凭证" className="w-16 h-16 object-cover rounded-lg border" />
+                      </a>
+                    ))}
+                  </div>
+                )}
+                {afterSale.adminNote && (
+                  <p className="text-gray-600">处理说明：{afterSale.adminNote}</p>
+                )}
+              </div>
+
+              <div className="px-6 py-3 border-t flex justify-end text-sm">
+                退款金额：<span className="font-bold text-red-500">{formatPrice(afterSale.amount)}</span>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -4,13 +4,26 @@
  *
  * 【路由】/user/orders
  *
- * 展示当前用户的所有订单列表，支持查看订单详情。
+ * 展示当前用户的所有订单列表，点击订单号进入订单详情（/user/orders/:id）。
+ * 待付款、已付款（未发货）的订单可以由用户主动取消，取消后库存自动归还。
+ * 点击"订单进度"可以展开订单的状态时间线和物流轨迹。
+ * 待付款订单显示支付倒计时，超时后订单会被系统自动取消。
+ * 已发货的订单可以确认收货；超过一定天数未确认的，系统会自动确认收货。
+ * 已付款、已发货的订单，以及售后期限内的已完成订单可以申请售后（退款/退货）。
  */
 'use client'
 
 import { useEffect, useState } from 'react'
 import Link from 'next/link'
+import { useRouter } from 'next/navigation'
 import { formatPrice } from '@/lib/utils'
+import OrderTimeline, { type OrderTimelineEntry } from '@/components/order/OrderTimeline'
+import PaymentCountdown from '@/components/order/PaymentCountdown'
+import ShipmentTracking, { type ShipmentTrackingEntry } from '@/components/order/ShipmentTracking'
+import { getCarrierLabel } from '@/lib/shipment-status'
+import { isAfterSaleOpen } from '@/lib/after-sale-status'
+import type { OrderStatusValue } from '@/lib/order-status'
+import { coverImageOf, type ProductImageView } from '@/lib/product-image-url'
 
 // 订单状态映射
 const statusMap: Record<string, { label: string; color: string }> = {
@@ -25,10 +38,11 @@ type OrderItem = {
   id: number
   quantity: number
   price: string
+  variantName: string | null // 规格名称快照
   product: {
     id: number
     name: string
-    images: string
+    images: ProductImageView[]
   }
 }
 
@@ -36,14 +50,21 @@ type Order = {
   id: number
   orderNo: string
   totalAmount: string
-  status: string
+  status: OrderStatusValue
+  paymentDeadline: string | null
+  afterSaleDeadline: string | null
+  fullyShipped: boolean // 全部商品已发出（分批发货还有商品没发出时不能确认收货）
   createdAt: string
   items: OrderItem[]
+  statusHistory: OrderTimelineEntry[]
+  shipments: ShipmentTrackingEntry[]
 }
 
 export default function OrdersPage() {
+  const router = useRouter()
   const [orders, setOrders] = useState<Order[]>([])
   const [loading, setLoading] = useState(true)
+  const [expandedOrderId, setExpandedOrderId] = useState<number | null>(null) // 展开时间线的订单
 
   useEffect(() => {
     fetchOrders()
@@ -63,6 +84,40 @@ export default function OrdersPage() {
     }
   }
 
+  // 取消订单
+  const handleCancel = async (orderId: number) => {
+    if (!confirm('确定要取消该订单吗？')) return
+
+    try {
+      const res = await fetch(`/api/orders/${orderId}/cancel`, { method: 'POST' })
+      const data = await res.json()
+      if (data.success) {
+        fetchOrders() // 刷新订单列表
+      } else {
+        alert(data.message || '取消失败')
+      }
+    } catch {
+      alert('取消失败')
+    }
+  }
+
+  // 确认收货
+  const handleConfirm = async (orderId: number) => {
+    if (!confirm('确认已经收到商品了吗？')) return
+
+    try {
+      const res = await fetch(`/api/orders/${orderId}/confirm`, { method: 'POST' })
+      const data = await res.json()
+      if (data.success) {
+        fetchOrders() // 刷新订单列表
+      } else {
+        alert(data.message || '确认收货失败')
+      }
+    } catch {
+      alert('确认收货失败')
+    }
+  }
+
   if (loading) {
     return (
       <div className="space-y-4">
@@ -94,7 +149,9 @@ export default function OrdersPage() {
                 {/* 订单头部 */}
                 <div className="flex justify-between items-center px-6 py-3 bg-gray-50 border-b">
                   <div className="flex items-center space-x-4 text-sm text-gray-500">
-                    <span>订单号：{order.orderNo}</span>
+                    <Link href={`/user/orders/${order.id}`} className="hover:text-blue-600">
+                      订单号：{order.orderNo}
+                    </Link>
                     <span>{new Date(order.createdAt).toLocaleString('zh-CN')}</span>
                   </div>
                   <span className={`text-xs px-2 py-1 rounded-full font-medium ${status.color}`}>
@@ -105,11 +162,7 @@ export default function OrdersPage() {
                 {/* 订单商品 */}
                 <div className="px-6 py-4">
                   {order.items.map((item) => {
-                    let coverImage = '/placeholder.jpg'
-                    try {
-                      const imgs = JSON.parse(item.product.images)
-                      if (imgs[0]) coverImage = imgs[0]
-                    } catch { /* ignore */ }
+                    const coverImage = coverImageOf(item.product.images)
 
                     return (
                       <div key={item.id} className="flex items-center gap-4 py-2">
@@ -127,6 +180,9 @@ export default function OrdersPage() {
                           >
                             {item.product.name}
                           </Link>
+                          {item.variantName && (
+                            <p className="text-xs text-gray-400">{item.variantName}</p>
+                          )}
                           <p className="text-sm text-gray-500">
                             {formatPrice(item.price)} x {item.quantity}
                           </p>
@@ -136,15 +192,73 @@ export default function OrdersPage() {
                   })}
                 </div>
 
+                {/* 物流摘要：每个包裹显示最新一条轨迹 */}
+                {order.shipments.length > 0 && (
+                  <div className="px-6 py-3 border-t space-y-1">
+                    {order.shipments.map((shipment) => (
+                      <p key={shipment.id} className="text-sm text-gray-600 line-clamp-1">
+                        🚚 {getCarrierLabel(shipment.carrier)} {shipment.trackingNo}
+                        <span className="text-gray-400 ml-2">
+                          {shipment.events[0]?.description ?? '等待揽收'}
+                        </span>
+                      </p>
+                    ))}
+                  </div>
+                )}
+
+                {/* 订单进度（状态时间线 + 物流轨迹） */}
+                {expandedOrderId === order.id && (
+                  <div className="px-6 py-4 border-t bg-gray-50 grid grid-cols-1 md:grid-cols-2 gap-6">
+                    <OrderTimeline entries={order.statusHistory} />
+                    {order.shipments.length > 0 && <ShipmentTracking shipments={order.shipments} />}
+                  </div>
+                )}
+
                 {/* 订单底部 */}
                 <div className="px-6 py-3 border-t flex justify-between items-center">
-                  <span className="text-sm text-gray-500">
-                    共 {order.items.reduce((sum, item) => sum + item.quantity, 0)} 件商品
-                  </span>
+                  <div className="flex items-center space-x-4 text-sm text-gray-500">
+                    <span>共 {order.items.reduce((sum, item) => sum + item.quantity, 0)} 件商品</span>
+                    <button
+                      onClick={() => setExpandedOrderId(expandedOrderId === order.id ? null : order.id)}
+                      className="text-blue-600 hover:text-blue-500"
+                    >
+                      {expandedOrderId === order.id ? '收起进度' : '订单进度'}
+                    </button>
+                  </div>
                   <div className="flex items-center space-x-4">
+                    {order.status === 'PENDING' && order.paymentDeadline && (
+                      <PaymentCountdown deadline={order.paymentDeadline} onExpire={fetchOrders} />
+                    )}
                     <span className="text-sm">
                       合计：<span className="text-lg font-bold text-red-500">{formatPrice(order.totalAmount)}</span>
                     </span>
+                    {isAfterSaleOpen(order.status, order.afterSaleDeadline) && (
+                      <Link
+                        href={`/user/orders/${order.id}/after-sale`}
+                        className="px-4 py-1.5 border text-gray-600 text-sm rounded-lg hover:bg-gray-50 transition-colors"
+                      >
+                        申请售后
+                      </Link>
+                    )}
+                    {(order.status === 'PENDING' || order.status === 'PAID') && (
+                      <button
+                        onClick={() => handleCancel(order.id)}
+                        className="px-4 py-1.5 border text-gray-600 text-sm rounded-lg hover:bg-gray-50 transition-colors"
+                      >
+                        取消订单
+                      </button>
+                    )}
+                    {order.status === 'SHIPPED' && !order.fullyShipped && (
+                      <span className="px-4 py-1.5 text-sm text-gray-400">部分商品已发货</span>
+                    )}
+                    {order.status === 'SHIPPED' && order.fullyShipped && (
+                      <button
+                        onClick={() => handleConfirm(order.id)}
+                        className="px-4 py-1.5 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 transition-colors"
+                      >
+                        确认收货
+                      </button>
+                    )}
                     {order.status === 'PENDING' && (
                       <button
                         onClick={async () => {
@@ -155,7 +269,9 @@ export default function OrdersPage() {
                           })
                           const data = await res.json()
                           if (data.success) {
-                            fetchOrders() // 刷新订单列表
+                            router.push(data.data.payUrl) // 跳转到支付页面
+                          } else {
+                            alert(data.message || '发起支付失败')
                           }
                         }}
                         className="px-4 py-1.5 bg-red-500 text-white text-sm rounded-lg hover:bg-red-600 transition-colors"
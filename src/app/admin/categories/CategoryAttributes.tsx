@@ -0,0 +1,264 @@
+/**
+ * 分类属性管理组件
+ * ============================================================
+ *
+ * 列出分类适用的全部属性：上级分类定义的属性只读显示（需要到上级分类中修改），
+ * 本分类定义的属性可以新增、编辑、删除。
+ *
+ * 【属性类型】
+ * - 文本：商品表单中自由填写
+ * - 数字：只能填写数字，可以设置单位（如 GB、英寸）
+ * - 枚举：从可选值中选择（可选值用逗号分隔），适合做筛选条件（如 品牌）
+ *
+ * 已有商品填写的属性不能修改类型，枚举类型不能删除正在使用的可选值。
+ */
+'use client'
+
+import { useEffect, useState } from 'react'
+import {
+  ATTRIBUTE_TYPE_LABELS,
+  type AttributeTypeValue,
+  type CategoryAttributeView,
+} from '@/lib/product-attribute-filter'
+
+type Props = {
+  categoryId: number
+  ancestorNames: Record<number, string> // 分类路径上各分类的名称（标注继承的属性）
+}
+
+const emptyForm = {
+  name: '',
+  type: 'ENUM' as AttributeTypeValue,
+  unit: '',
+  options: '', // 可选值，逗号分隔
+  isFilterable: true,
+  sortOrder: '0',
+}
+
+export default function CategoryAttributes({ categoryId, ancestorNames }: Props) {
+  const [attributes, setAttributes] = useState<CategoryAttributeView[]>([])
+  const [loading, setLoading] = useState(true)
+  const [version, setVersion] = useState(0) // 自增后重新获取列表
+  const [showForm, setShowForm] = useState(false)
+  const [editing, setEditing] = useState<CategoryAttributeView | null>(null)
+  const [formData, setFormData] = useState(emptyForm)
+
+  useEffect(() => {
+    fetch(`/api/admin/categories/${categoryId}/attributes`)
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.success) {
+          setAttributes(data.data)
+        }
+      })
+      .catch(() => console.error('获取分类属性失败'))
+      .finally(() => setLoading(false))
+  }, [categoryId, version])
+
+  const resetForm = () => {
+    setShowForm(false)
+    setEditing(null)
+    setFormData(emptyForm)
+  }
+
+  const handleEdit = (attribute: CategoryAttributeView) => {
+    setEditing(attribute)
+    setFormData({
+      name: attribute.name,
+      type: attribute.type,
+      unit: attribute.unit ?? '',
+      options: attribute.options.join(','),
+      isFilterable: attribute.isFilterable,
+      sortOrder: String(attribute.sortOrder),
+    })
+    setShowForm(true)
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    try {
+      const url = editing
+        ? `/api/admin/categories/${categoryId}/attributes/${editing.id}`
+        : `/api/admin/categories/${categoryId}/attributes`
+      const res = await fetch(url, {
+        method: editing ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: formData.name,
+          type: formData.type,
+          unit: formData.unit || undefined,
+          // 中英文逗号都可以分隔
+          options: formData.options.split(/[,，]/).map((v) => v.trim()).filter(Boolean),
+          isFilterable: formData.isFilterable,
+          sortOrder: parseInt(formData.sortOrder) || 0,
+        }),
+      })
+      const data = await res.json()
+      if (data.success) {
+        resetForm()
+        setVersion((v) => v + 1)
+      } else {
+        alert(data.message || '保存失败')
+      }
+    } catch {
+      alert('保存失败')
+    }
+  }
+
+  const handleDelete = async (attribute: CategoryAttributeView) => {
+    if (!confirm(`确定要删除属性"${attribute.name}"吗？商品已填写的该属性值会一并删除。`)) return
+    try {
+      const res = await fetch(`/api/admin/categories/${categoryId}/attributes/${attribute.id}`, {
+        method: 'DELETE',
+      })
+      const data = await res.json()
+      if (data.success) {
+        setVersion((v) => v + 1)
+      } else {
+        alert(data.message || '删除失败')
+      }
+    } catch {
+      alert('删除失败')
+    }
+  }
+
+  return (
+    <div>
+      <div className="flex justify-end mb-4">
+        <button
+          onClick={() => { resetForm(); setShowForm(true) }}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm"
+        >
+          + 新增属性
+        </button>
+      </div>
+
+      {/* 新增/编辑表单 */}
+      {showForm && (
+        <form onSubmit={handleSubmit} className="bg-white rounded-xl border p-6 mb-6 max-w-lg space-y-4">
+          <h3 className="font-semibold">{editing ? '编辑属性' : '新增属性'}</h3>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">属性名</label>
+            <input
+              type="text" required
+              value={formData.name}
+              onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+              className="w-full px-4 py-2 border rounded-lg"
+              placeholder="如：品牌、存储容量"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">类型</label>
+            <select
+              value={formData.type}
+              onChange={(e) => setFormData({ ...formData, type: e.target.value as AttributeTypeValue })}
+              className="w-full px-4 py-2 border rounded-lg"
+            >
+              {(Object.keys(ATTRIBUTE_TYPE_LABELS) as AttributeTypeValue[]).map((type) => (
+                <option key={type} value={type}>{ATTRIBUTE_TYPE_LABELS[type]}</option>
+              ))}
+            </select>
+          </div>
+          {formData.type === 'ENUM' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">可选值（逗号分隔）</label>
+              <input
+                type="text" required
+                value={formData.options}
+                onChange={(e) => setFormData({ ...formData, options: e.target.value })}
+                className="w-full px-4 py-2 border rounded-lg"
+                placeholder="如：Apple,华为,小米"
+              />
+            </div>
+          )}
+          {formData.type === 'NUMBER' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">单位（可选）</label>
+              <input
+                type="text"
+                value={formData.unit}
+                onChange={(e) => setFormData({ ...formData, unit: e.target.value })}
+                className="w-full px-4 py-2 border rounded-lg"
+                placeholder="如：GB、英寸"
+              />
+            </div>
+          )}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">排序（数字越小越靠前）</label>
+            <input
+              type="number" min={0}
+              value={formData.sortOrder}
+              onChange={(e) => setFormData({ ...formData, sortOrder: e.target.value })}
+              className="w-full px-4 py-2 border rounded-lg"
+            />
+          </div>
+          <label className="flex items-center space-x-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={formData.isFilterable}
+              onChange={(e) => setFormData({ ...formData, isFilterable: e.target.checked })}
+            />
+            <span>在商品列表中作为筛选条件</span>
+          </label>
+          <div className="flex space-x-2">
+            <button type="submit" className="px-4 py-2 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700">
+              {editing ? '保存' : '创建'}
+            </button>
+            <button type="button" onClick={resetForm} className="px-4 py-2 border text-sm rounded-lg hover:bg-gray-50">
+              取消
+            </button>
+          </div>
+        </form>
+      )}
+
+      {/* 属性列表 */}
+      <div className="bg-white rounded-xl shadow-sm border overflow-hidden">
+        {loading ? (
+          <div className="p-8 text-center text-gray-500">加载中...</div>
+        ) : (
+          <table className="w-full">
+            <thead className="bg-gray-50 text-sm text-gray-500">
+              <tr>
+                <th className="px-6 py-3 text-left">属性名</th>
+                <th className="px-6 py-3 text-left">类型</th>
+                <th className="px-6 py-3 text-left">可选值 / 单位</th>
+                <th className="px-6 py-3 text-left">筛选</th>
+                <th className="px-6 py-3 text-left">操作</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {attributes.map((attribute) => {
+                const inherited = attribute.categoryId !== categoryId
+                return (
+                  <tr key={attribute.id} className={inherited ? 'bg-gray-50' : 'hover:bg-gray-50'}>
+                    <td className="px-6 py-4 text-sm font-medium">{attribute.name}</td>
+                    <td className="px-6 py-4 text-sm text-gray-600">{ATTRIBUTE_TYPE_LABELS[attribute.type]}</td>
+                    <td className="px-6 py-4 text-sm text-gray-500">
+                      {attribute.type === 'ENUM' ? attribute.options.join(' / ') : attribute.unit || '-'}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-600">{attribute.isFilterable ? '是' : '否'}</td>
+                    <td className="px-6 py-4 text-sm">
+                      {inherited ? (
+                        <span className="text-gray-400">继承自「{ancestorNames[attribute.categoryId]}」</span>
+                      ) : (
+                        <div className="flex items-center space-x-2">
+                          <button onClick={() => handleEdit(attribute)} className="text-blue-600 hover:text-blue-500">编辑</button>
+                          <button onClick={() => handleDelete(attribute)} className="text-red-500 hover:text-red-400">删除</button>
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                )
+              })}
+              {attributes.length === 0 && (
+                <tr>
+                  <td colSpan={5} className="px-6 py-8 text-center text-gray-500">暂无属性</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,46 @@
+/**
+ * 后台 - 分类属性页面
+ * ============================================================
+ *
+ * 【路由】/admin/categories/:id/attributes
+ *
+ * 为分类定义商品属性（如 品牌、存储容量），对该分类及其子孙分类的商品生效。
+ * 分类路径通过 Server Component 查询，属性的增删改由 CategoryAttributes 组件完成。
+ */
+
+import Link from 'next/link'
+import { notFound } from 'next/navigation'
+import { getCategoryPath } from '@/lib/category'
+import CategoryAttributes from '../../CategoryAttributes'
+
+// 动态渲染
+export const dynamic = 'force-dynamic'
+
+export default async function CategoryAttributesPage({
+  params,
+}: {
+  params: Promise<{ id: string }>
+}) {
+  const { id } = await params
+  const path = await getCategoryPath(parseInt(id))
+  const category = path[path.length - 1]
+
+  if (!category) {
+    notFound()
+  }
+
+  return (
+    <div>
+      <div className="text-sm text-gray-500 mb-2">
+        <Link href="/admin/categories" className="hover:text-blue-600">分类管理</Link>
+        <span className="mx-2">/</span>
+        {path.map((item) => item.name).join(' > ')}
+      </div>
+      <h1 className="text-2xl font-bold text-gray-900 mb-6">「{category.name}」的商品属性</h1>
+      <CategoryAttributes
+        categoryId={category.id}
+        ancestorNames={Object.fromEntries(path.map((item) => [item.id, item.name]))}
+      />
+    </div>
+  )
+}
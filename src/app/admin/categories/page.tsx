@@ -4,46 +4,87 @@
  *
  * 【路由】/admin/categories
  *
- * 管理员可以在这里管理商品分类（增删改）。
- * 使用了 Server Component（表格） + Client Component（操作按钮 + 表单）的混合模式。
+ * 管理员可以在这里管理商品分类（增删改），分类按层级显示成树。
+ *
+ * 【拖拽调整层级】
+ * 使用浏览器原生的拖放 API（draggable + onDragOver + onDrop）：
+ * - 拖到某一行的上边缘 / 下边缘：移到该分类的前面 / 后面（成为它的同级分类）
+ * - 拖到某一行的中间：成为该分类的最后一个子分类
+ * - 拖到表格下方的区域：移为顶级分类
+ * 不能拖到自身或自己的子分类下（onDragOver 不调用 preventDefault，浏览器显示禁止放置）。
+ *
+ * 【删除】
+ * 分类下有子分类或商品时，需要先选择把它们移到哪里，再确认删除。
+ *
+ * 【商品属性】
+ * 点击"属性"进入 /admin/categories/:id/attributes，为分类定义商品属性（如 品牌、存储容量）。
  */
 'use client'
 
 import { useEffect, useState } from 'react'
+import Link from 'next/link'
 import { useRouter } from 'next/navigation'
+import {
+  buildCategoryTree,
+  compareCategoryOrder,
+  descendantIdsOf,
+  flattenCategoryTree,
+} from '@/lib/category-tree'
 
 type Category = {
   id: number
   name: string
   slug: string
   image: string | null
-  _count?: { products: number }
+  parentId: number | null
+  sortOrder: number
+  _count: { products: number; children: number }
+}
+
+// 放置位置：目标分类的前面、里面（作为子分类）、后面
+type DropPosition = 'before' | 'inside' | 'after'
+
+type DropTarget = { id: number; position: DropPosition } | 'root'
+
+// 删除表单：子分类的新上级分类（'root' 表示移为顶级分类）和商品的新分类
+type DeleteForm = {
+  childrenParentId: string
+  productsCategoryId: string
 }
 
+const emptyForm = { name: '', slug: '', image: '', parentId: '' }
+
 export default function AdminCategoriesPage() {
   const router = useRouter()
   const [categories, setCategories] = useState<Category[]>([])
   const [loading, setLoading] = useState(true)
+  const [version, setVersion] = useState(0) // 自增后重新获取列表
   const [showForm, setShowForm] = useState(false)
   const [editing, setEditing] = useState<Category | null>(null)
-  const [formData, setFormData] = useState({ name: '', slug: '', image: '' })
+  const [formData, setFormData] = useState(emptyForm)
+  const [dragging, setDragging] = useState<number | null>(null)
+  const [dropTarget, setDropTarget] = useState<DropTarget | null>(null)
+  const [deleting, setDeleting] = useState<Category | null>(null)
+  const [deleteForm, setDeleteForm] = useState<DeleteForm>({ childrenParentId: '', productsCategoryId: '' })
 
   useEffect(() => {
-    fetchCategories()
-  }, [])
+    fetch('/api/admin/categories')
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.success) {
+          setCategories(data.data)
+        }
+      })
+      .catch(() => console.error('获取分类失败'))
+      .finally(() => setLoading(false))
+  }, [version])
 
-  const fetchCategories = async () => {
-    try {
-      const res = await fetch('/api/admin/categories')
-      const data = await res.json()
-      if (data.success) {
-        setCategories(data.data)
-      }
-    } catch {
-      console.error('获取分类失败')
-    } finally {
-      setLoading(false)
-    }
+  // 按树的顺序展开，带层级（用于缩进显示和下拉框）
+  const rows = flattenCategoryTree(buildCategoryTree(categories))
+
+  const refresh = () => {
+    setVersion((v) => v + 1)
+    router.refresh()
   }
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -57,14 +98,18 @@ export default function AdminCategoriesPage() {
       const res = await fetch(url, {
         method,
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(formData),
+        body: JSON.stringify({
+          name: formData.name,
+          slug: formData.slug,
+          image: formData.image,
+          parentId: formData.parentId ? parseInt(formData.parentId) : null,
+        }),
       })
       const data = await res.json()
 
       if (data.success) {
-        fetchCategories()
         resetForm()
-        router.refresh()
+        refresh()
       } else {
         alert(data.message || '操作失败')
       }
@@ -73,13 +118,81 @@ export default function AdminCategoriesPage() {
     }
   }
 
-  const handleDelete = async (id: number) => {
-    if (!confirm('确定要删除此分类吗？')) return
+  // ---- 拖拽移动 ----
+
+  // 被拖动的分类及其子分类，不能作为放置目标
+  const invalidTargets = dragging ? descendantIdsOf(categories, dragging) : []
+
+  const siblingsOf = (parentId: number | null) =>
+    categories
+      .filter((c) => c.parentId === parentId && c.id !== dragging)
+      .sort(compareCategoryOrder)
+
+  const handleDragOver = (e: React.DragEvent<HTMLElement>, cat: Category) => {
+    if (!dragging || invalidTargets.includes(cat.id)) return
+    e.preventDefault()
+    // 按鼠标在这一行中的高度判断放置位置：上 1/4、中间、下 1/4
+    const rect = e.currentTarget.getBoundingClientRect()
+    const offset = (e.clientY - rect.top) / rect.height
+    const position: DropPosition = offset < 0.25 ? 'before' : offset > 0.75 ? 'after' : 'inside'
+    if (dropTarget === 'root' || dropTarget?.id !== cat.id || dropTarget.position !== position) {
+      setDropTarget({ id: cat.id, position })
+    }
+  }
+
+  const moveTo = async (parentId: number | null, index: number) => {
+    const id = dragging
+    setDragging(null)
+    setDropTarget(null)
+    if (!id) return
+
+    try {
+      const res = await fetch(`/api/admin/categories/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ parentId, index }),
+      })
+      const data = await res.json()
+      if (data.success) {
+        refresh()
+      } else {
+        alert(data.message || '移动失败')
+      }
+    } catch {
+      alert('移动失败')
+    }
+  }
+
+  const handleDrop = (e: React.DragEvent<HTMLElement>, cat: Category) => {
+    e.preventDefault()
+    if (dropTarget === null || dropTarget === 'root' || dropTarget.id !== cat.id) return
+
+    if (dropTarget.position === 'inside') {
+      moveTo(cat.id, siblingsOf(cat.id).length)
+    } else {
+      const index = siblingsOf(cat.parentId).findIndex((c) => c.id === cat.id)
+      moveTo(cat.parentId, dropTarget.position === 'before' ? index : index + 1)
+    }
+  }
+
+  const handleDropToRoot = (e: React.DragEvent<HTMLElement>) => {
+    e.preventDefault()
+    moveTo(null, siblingsOf(null).length)
+  }
+
+  // ---- 删除 ----
+
+  const submitDelete = async (id: number, body: object) => {
     try {
-      const res = await fetch(`/api/admin/categories/${id}`, { method: 'DELETE' })
+      const res = await fetch(`/api/admin/categories/${id}`, {
+        method: 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      })
       const data = await res.json()
       if (data.success) {
-        fetchCategories()
+        setDeleting(null)
+        refresh()
       } else {
         alert(data.message || '删除失败')
       }
@@ -88,16 +201,58 @@ export default function AdminCategoriesPage() {
     }
   }
 
+  const handleDelete = async (cat: Category) => {
+    // 有子分类或商品时，先选择迁移目标
+    if (cat._count.children > 0 || cat._count.products > 0) {
+      setDeleting(cat)
+      setDeleteForm({ childrenParentId: '', productsCategoryId: '' })
+      return
+    }
+    if (!confirm('确定要删除此分类吗？')) return
+    await submitDelete(cat.id, {})
+  }
+
+  const handleConfirmDelete = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!deleting) return
+    await submitDelete(deleting.id, {
+      ...(deleting._count.children > 0 && {
+        childrenParentId:
+          deleteForm.childrenParentId === 'root' ? null : parseInt(deleteForm.childrenParentId),
+      }),
+      ...(deleting._count.products > 0 && {
+        productsCategoryId: parseInt(deleteForm.productsCategoryId),
+      }),
+    })
+  }
+
   const handleEdit = (cat: Category) => {
     setEditing(cat)
-    setFormData({ name: cat.name, slug: cat.slug, image: cat.image || '' })
+    setFormData({ name: cat.name, slug: cat.slug, image: cat.image || '', parentId: '' })
+    setShowForm(true)
+  }
+
+  const handleAddChild = (cat: Category) => {
+    setEditing(null)
+    setFormData({ ...emptyForm, parentId: String(cat.id) })
     setShowForm(true)
   }
 
   const resetForm = () => {
     setShowForm(false)
     setEditing(null)
-    setFormData({ name: '', slug: '', image: '' })
+    setFormData(emptyForm)
+  }
+
+  // 被删除分类的子分类不能移到它自己或它的子孙分类下
+  const deletingSubtree = deleting ? descendantIdsOf(categories, deleting.id) : []
+
+  // 拖拽放置位置的提示样式
+  const dropClass = (cat: Category) => {
+    if (dropTarget === null || dropTarget === 'root' || dropTarget.id !== cat.id) return ''
+    if (dropTarget.position === 'before') return 'border-t-2 border-t-blue-500'
+    if (dropTarget.position === 'after') return 'border-b-2 border-b-blue-500'
+    return 'bg-blue-50'
   }
 
   return (
@@ -116,6 +271,24 @@ export default function AdminCategoriesPage() {
       {showForm && (
         <form onSubmit={handleSubmit} className="bg-white rounded-xl border p-6 mb-6 max-w-lg space-y-4">
           <h3 className="font-semibold">{editing ? '编辑分类' : '新增分类'}</h3>
+          {/* 上级分类只在新增时选择，之后通过拖拽调整 */}
+          {!editing && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">上级分类</label>
+              <select
+                value={formData.parentId}
+                onChange={(e) => setFormData({ ...formData, parentId: e.target.value })}
+                className="w-full px-4 py-2 border rounded-lg"
+              >
+                <option value="">无（顶级分类）</option>
+                {rows.map((cat) => (
+                  <option key={cat.id} value={cat.id}>
+                    {'\u3000'.repeat(cat.depth)}{cat.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">分类名称</label>
             <input
@@ -157,7 +330,71 @@ export default function AdminCategoriesPage() {
         </form>
       )}
 
-      {/* 分类列表 */}
+      {/* 删除确认：选择子分类和商品的迁移目标 */}
+      {deleting && (
+        <form onSubmit={handleConfirmDelete} className="bg-white rounded-xl border border-red-200 p-6 mb-6 max-w-lg space-y-4">
+          <h3 className="font-semibold">删除分类「{deleting.name}」</h3>
+          {deleting._count.children > 0 && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                {deleting._count.children} 个子分类（连同其下级分类）移动到
+              </label>
+              <select
+                required
+                value={deleteForm.childrenParentId}
+                onChange={(e) => setDeleteForm({ ...deleteForm, childrenParentId: e.target.value })}
+                className="w-full px-4 py-2 border rounded-lg"
+              >
+                <option value="">请选择</option>
+                <option value="root">顶级分类</option>
+                {rows
+                  .filter((cat) => !deletingSubtree.includes(cat.id))
+                  .map((cat) => (
+                    <option key={cat.id} value={cat.id}>
+                      {'\u3000'.repeat(cat.depth)}{cat.name}
+                    </option>
+                  ))}
+              </select>
+            </div>
+          )}
+          {deleting._count.products > 0 && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                {deleting._count.products} 个商品移动到
+              </label>
+              <select
+                required
+                value={deleteForm.productsCategoryId}
+                onChange={(e) => setDeleteForm({ ...deleteForm, productsCategoryId: e.target.value })}
+                className="w-full px-4 py-2 border rounded-lg"
+              >
+                <option value="">请选择</option>
+                {rows
+                  .filter((cat) => cat.id !== deleting.id)
+                  .map((cat) => (
+                    <option key={cat.id} value={cat.id}>
+                      {'\u3000'.repeat(cat.depth)}{cat.name}
+                    </option>
+                  ))}
+              </select>
+            </div>
+          )}
+          <div className="flex space-x-2">
+            <button type="submit" className="px-4 py-2 bg-red-600 text-white text-sm rounded-lg hover:bg-red-700">
+              确认删除
+            </button>
+            <button type="button" onClick={() => setDeleting(null)} className="px-4 py-2 border text-sm rounded-lg hover:bg-gray-50">
+              取消
+            </button>
+          </div>
+        </form>
+      )}
+
+      <p className="text-sm text-gray-500 mb-2">
+        拖动分类可以调整层级和顺序：拖到某一行的上下边缘排在它前后，拖到中间成为它的子分类。
+      </p>
+
+      {/* 分类树 */}
       <div className="bg-white rounded-xl shadow-sm border overflow-hidden">
         {loading ? (
           <div className="p-8 text-center text-gray-500">加载中...</div>
@@ -173,21 +410,41 @@ export default function AdminCategoriesPage() {
               </tr>
             </thead>
             <tbody className="divide-y">
-              {categories.map((cat) => (
-                <tr key={cat.id} className="hover:bg-gray-50">
+              {rows.map((cat) => (
+                <tr
+                  key={cat.id}
+                  draggable
+                  onDragStart={(e) => {
+                    e.dataTransfer.effectAllowed = 'move'
+                    e.dataTransfer.setData('text/plain', String(cat.id)) // Firefox 需要设置数据才能拖动
+                    setDragging(cat.id)
+                  }}
+                  onDragOver={(e) => handleDragOver(e, cat)}
+                  onDrop={(e) => handleDrop(e, cat)}
+                  onDragEnd={() => { setDragging(null); setDropTarget(null) }}
+                  className={`hover:bg-gray-50 ${dragging === cat.id ? 'opacity-50' : ''} ${dropClass(cat)}`}
+                >
                   <td className="px-6 py-4 text-sm">{cat.id}</td>
-                  <td className="px-6 py-4 text-sm font-medium">{cat.name}</td>
+                  <td className="px-6 py-4 text-sm font-medium">
+                    <span style={{ paddingLeft: cat.depth * 20 }} className="inline-flex items-center">
+                      <span className="mr-2 text-gray-300 cursor-move select-none">⋮⋮</span>
+                      {cat.depth > 0 && <span className="mr-1 text-gray-300">└</span>}
+                      {cat.name}
+                    </span>
+                  </td>
                   <td className="px-6 py-4 text-sm text-gray-500 font-mono">{cat.slug}</td>
-                  <td className="px-6 py-4 text-sm text-gray-600">{cat._count?.products ?? 0}</td>
+                  <td className="px-6 py-4 text-sm text-gray-600">{cat._count.products}</td>
                   <td className="px-6 py-4">
                     <div className="flex items-center space-x-2 text-sm">
+                      <button onClick={() => handleAddChild(cat)} className="text-green-600 hover:text-green-500">添加子分类</button>
+                      <Link href={`/admin/categories/${cat.id}/attributes`} className="text-purple-600 hover:text-purple-500">属性</Link>
                       <button onClick={() => handleEdit(cat)} className="text-blue-600 hover:text-blue-500">编辑</button>
-                      <button onClick={() => handleDelete(cat.id)} className="text-red-500 hover:text-red-400">删除</button>
+                      <button onClick={() => handleDelete(cat)} className="text-red-500 hover:text-red-400">删除</button>
                     </div>
                   </td>
                 </tr>
               ))}
-              {categories.length === 0 && (
+              {rows.length === 0 && (
                 <tr>
                   <td colSpan={5} className="px-6 py-8 text-center text-gray-500">暂无分类</td>
                 </tr>
@@ -195,6 +452,22 @@ export default function AdminCategoriesPage() {
             </tbody>
           </table>
         )}
+
+        {/* 拖到这里移为顶级分类 */}
+        {dragging && (
+          <div
+            onDragOver={(e) => {
+              e.preventDefault()
+              if (dropTarget !== 'root') setDropTarget('root')
+            }}
+            onDrop={handleDropToRoot}
+            className={`m-4 p-4 border-2 border-dashed rounded-lg text-center text-sm ${
+              dropTarget === 'root' ? 'border-blue-500 bg-blue-50 text-blue-600' : 'text-gray-400'
+            }`}
+          >
+            拖到这里移为顶级分类（排在最后）
+          </div>
+        )}
       </div>
     </div>
   )
@@ -0,0 +1,390 @@
+/**
+ * 后台 - 优惠券页面
+ * ============================================================
+ *
+ * 【路由】/admin/coupons
+ *
+ * 管理员在这里创建优惠券：满减券 / 折扣券、使用门槛、适用范围（全场 / 指定分类 / 指定商品）、
+ * 有效期、发放总量和每人限领张数，并可以随时停用或重新启用。
+ * 已创建的优惠券不能修改金额规则（用户可能已经领取），需要调整时停用后重新创建。
+ */
+'use client'
+
+import { useEffect, useState } from 'react'
+import {
+  COUPON_SCOPE_LABELS,
+  COUPON_TYPE_LABELS,
+  describeCoupon,
+  type CouponScopeValue,
+  type CouponTypeValue,
+} from '@/lib/coupon-status'
+
+type Coupon = {
+  id: number
+  name: string
+  type: CouponTypeValue
+  value: string
+  maxDiscount: string | null
+  minSpend: string
+  scope: CouponScopeValue
+  startsAt: string
+  endsAt: string
+  totalLimit: number | null
+  perUserLimit: number
+  claimedCount: number
+  usedCount: number
+  isActive: boolean
+  categories: { id: number; name: string }[]
+  products: { id: number; name: string }[]
+}
+
+type Category = {
+  id: number
+  name: string
+}
+
+const emptyForm = {
+  name: '',
+  type: 'FIXED_AMOUNT' as CouponTypeValue,
+  value: '',
+  maxDiscount: '',
+  minSpend: '0',
+  scope: 'ALL' as CouponScopeValue,
+  categoryIds: [] as number[],
+  productIds: '', // 商品 ID，用逗号分隔
+  startsAt: '',
+  endsAt: '',
+  totalLimit: '',
+  perUserLimit: '1',
+}
+
+export default function AdminCouponsPage() {
+  const [coupons, setCoupons] = useState<Coupon[]>([])
+  const [categories, setCategories] = useState<Category[]>([])
+  const [loading, setLoading] = useState(true)
+  const [version, setVersion] = useState(0) // 自增后重新获取列表
+  const [showForm, setShowForm] = useState(false)
+  const [formData, setFormData] = useState(emptyForm)
+
+  useEffect(() => {
+    fetch('/api/admin/coupons')
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.success) setCoupons(data.data)
+      })
+      .catch(() => console.error('获取优惠券失败'))
+      .finally(() => setLoading(false))
+  }, [version])
+
+  // 分类列表（选择适用分类用）
+  useEffect(() => {
+    fetch('/api/admin/categories')
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.success) setCategories(data.data)
+      })
+      .catch(() => console.error('获取分类失败'))
+  }, [])
+
+  const refresh = () => setVersion((v) => v + 1)
+
+  const resetForm = () => {
+    setShowForm(false)
+    setFormData(emptyForm)
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const payload = {
+      name: formData.name,
+      type: formData.type,
+      value: parseFloat(formData.value),
+      maxDiscount: formData.maxDiscount ? parseFloat(formData.maxDiscount) : null,
+      minSpend: parseFloat(formData.minSpend) || 0,
+      scope: formData.scope,
+      categoryIds: formData.categoryIds,
+      productIds: formData.productIds
+        .split(/[,，、\s]+/)
+        .map((id) => parseInt(id))
+        .filter((id) => id > 0),
+      // datetime-local 的值是本地时间，转成 ISO 字符串提交
+      startsAt: formData.startsAt ? new Date(formData.startsAt).toISOString() : '',
+      endsAt: formData.endsAt ? new Date(formData.endsAt).toISOString() : '',
+      totalLimit: formData.totalLimit ? parseInt(formData.totalLimit) : null,
+      perUserLimit: parseInt(formData.perUserLimit) || 1,
+    }
+
+    try {
+      const res = await fetch('/api/admin/coupons', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+      })
+      const data = await res.json()
+
+      if (data.success) {
+        refresh()
+        resetForm()
+      } else {
+        alert(data.message || '创建失败')
+      }
+    } catch {
+      alert('创建失败')
+    }
+  }
+
+  const handleToggle = async (coupon: Coupon) => {
+    try {
+      const res = await fetch(`/api/admin/coupons/${coupon.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ isActive: !coupon.isActive }),
+      })
+      const data = await res.json()
+      if (data.success) {
+        refresh()
+      } else {
+        alert(data.message || '操作失败')
+      }
+    } catch {
+      alert('操作失败')
+    }
+  }
+
+  const toggleCategory = (id: number) => {
+    setFormData({
+      ...formData,
+      categoryIds: formData.categoryIds.includes(id)
+        ? formData.categoryIds.filter((c) => c !== id)
+        : [...formData.categoryIds, id],
+    })
+  }
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-bold text-gray-900">优惠券</h1>
+        <button
+          onClick={() => { resetForm(); setShowForm(true) }}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm"
+        >
+          + 新增优惠券
+        </button>
+      </div>
+
+      {/* 新增表单 */}
+      {showForm && (
+        <form onSubmit={handleSubmit} className="bg-white rounded-xl border p-6 mb-6 space-y-4">
+          <h3 className="font-semibold">新增优惠券</h3>
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">名称</label>
+              <input
+                type="text" required
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                className="w-full px-4 py-2 border rounded-lg"
+                placeholder="如：新人专享券"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">类型</label>
+              <select
+                value={formData.type}
+                onChange={(e) => setFormData({ ...formData, type: e.target.value as CouponTypeValue })}
+                className="w-full px-4 py-2 border rounded-lg"
+              >
+                {Object.entries(COUPON_TYPE_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                {formData.type === 'FIXED_AMOUNT' ? '减免金额 (元)' : '减免百分比 (%)'}
+              </label>
+              <input
+                type="number" step="0.01" min="0.01" required
+                value={formData.value}
+                onChange={(e) => setFormData({ ...formData, value: e.target.value })}
+                className="w-full px-4 py-2 border rounded-lg"
+                placeholder={formData.type === 'FIXED_AMOUNT' ? '如：20' : '如：15 表示 8.5 折'}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">使用门槛 (元)</label>
+              <input
+                type="number" step="0.01" min="0"
+                value={formData.minSpend}
+                onChange={(e) => setFormData({ ...formData, minSpend: e.target.value })}
+                className="w-full px-4 py-2 border rounded-lg"
+                placeholder="0 表示无门槛"
+              />
+            </div>
+            {formData.type === 'PERCENTAGE' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">最多减 (元，可选)</label>
+                <input
+                  type="number" step="0.01" min="0.01"
+                  value={formData.maxDiscount}
+                  onChange={(e) => setFormData({ ...formData, maxDiscount: e.target.value })}
+                  className="w-full px-4 py-2 border rounded-lg"
+                />
+              </div>
+            )}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">适用范围</label>
+              <select
+                value={formData.scope}
+                onChange={(e) => setFormData({ ...formData, scope: e.target.value as CouponScopeValue })}
+                className="w-full px-4 py-2 border rounded-lg"
+              >
+                {Object.entries(COUPON_SCOPE_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">开始时间</label>
+              <input
+                type="datetime-local" required
+                value={formData.startsAt}
+                onChange={(e) => setFormData({ ...formData, startsAt: e.target.value })}
+                className="w-full px-4 py-2 border rounded-lg"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">结束时间</label>
+              <input
+                type="datetime-local" required
+                value={formData.endsAt}
+                onChange={(e) => setFormData({ ...formData, endsAt: e.target.value })}
+                className="w-full px-4 py-2 border rounded-lg"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">发放总量 (可选)</label>
+              <input
+                type="number" min="1"
+                value={formData.totalLimit}
+                onChange={(e) => setFormData({ ...formData, totalLimit: e.target.value })}
+                className="w-full px-4 py-2 border rounded-lg"
+                placeholder="留空表示不限量"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">每人限领</label>
+              <input
+                type="number" min="1" required
+                value={formData.perUserLimit}
+                onChange={(e) => setFormData({ ...formData, perUserLimit: e.target.value })}
+                className="w-full px-4 py-2 border rounded-lg"
+              />
+            </div>
+          </div>
+
+          {/* 适用分类 / 商品 */}
+          {formData.scope === 'CATEGORY' && (
+            <div>
+              <p className="text-sm font-medium text-gray-700 mb-2">适用分类<span className="ml-1 text-xs font-normal text-gray-400">（包括子分类）</span></p>
+              <div className="flex flex-wrap gap-4">
+                {categories.map((category) => (
+                  <label key={category.id} className="flex items-center space-x-2 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={formData.categoryIds.includes(category.id)}
+                      onChange={() => toggleCategory(category.id)}
+                      className="rounded"
+                    />
+                    <span>{category.name}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+          {formData.scope === 'PRODUCT' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">适用商品 ID</label>
+              <input
+                type="text"
+                value={formData.productIds}
+                onChange={(e) => setFormData({ ...formData, productIds: e.target.value })}
+                className="w-full px-4 py-2 border rounded-lg"
+                placeholder="商品 ID，用逗号分隔，如：1，2，3"
+              />
+            </div>
+          )}
+
+          <div className="flex space-x-2">
+            <button type="submit" className="px-4 py-2 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700">
+              创建
+            </button>
+            <button type="button" onClick={resetForm} className="px-4 py-2 border text-sm rounded-lg hover:bg-gray-50">
+              取消
+            </button>
+          </div>
+        </form>
+      )}
+
+      {/* 优惠券列表 */}
+      <div className="bg-white rounded-xl shadow-sm border overflow-hidden">
+        <table className="w-full">
+          <thead className="bg-gray-50 border-b">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">名称</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">优惠</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">适用范围</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">有效期</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">领取 / 使用</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">操作</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y">
+            {loading ? (
+              <tr><td colSpan={6} className="px-6 py-8 text-center text-gray-500">加载中...</td></tr>
+            ) : coupons.length === 0 ? (
+              <tr><td colSpan={6} className="px-6 py-8 text-center text-gray-500">暂无优惠券</td></tr>
+            ) : (
+              coupons.map((coupon) => (
+                <tr key={coupon.id} className="hover:bg-gray-50 text-sm">
+                  <td className="px-6 py-4">
+                    <p className="font-medium">{coupon.name}</p>
+                    <p className="text-xs text-gray-500">{COUPON_TYPE_LABELS[coupon.type]}</p>
+                  </td>
+                  <td className="px-6 py-4 text-red-500">{describeCoupon(coupon)}</td>
+                  <td className="px-6 py-4 text-gray-600">
+                    {COUPON_SCOPE_LABELS[coupon.scope]}
+                    {coupon.scope === 'CATEGORY' && (
+                      <p className="text-xs text-gray-400">{coupon.categories.map((c) => c.name).join('、')}</p>
+                    )}
+                    {coupon.scope === 'PRODUCT' && (
+                      <p className="text-xs text-gray-400">{coupon.products.map((p) => p.name).join('、')}</p>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 text-xs text-gray-500">
+                    {new Date(coupon.startsAt).toLocaleString('zh-CN')}
+                    <br />
+                    至 {new Date(coupon.endsAt).toLocaleString('zh-CN')}
+                  </td>
+                  <td className="px-6 py-4 text-gray-600">
+                    {coupon.claimedCount}
+                    {coupon.totalLimit !== null && ` / ${coupon.totalLimit}`} 领取，{coupon.usedCount} 使用
+                    <p className="text-xs text-gray-400">每人限领 {coupon.perUserLimit} 张</p>
+                  </td>
+                  <td className="px-6 py-4">
+                    <button
+                      onClick={() => handleToggle(coupon)}
+                      className={coupon.isActive ? 'text-red-500 hover:text-red-400' : 'text-blue-600 hover:text-blue-500'}
+                    >
+                      {coupon.isActive ? '停用' : '启用'}
+                    </button>
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,156 @@
+/**
+ * 后台 - 汇率页面
+ * ============================================================
+ *
+ * 【路由】/admin/exchange-rates
+ *
+ * 管理员在这里设置各币种的汇率（1 人民币 = 多少该币种）并启用，
+ * 启用后前台顶部导航可以选择该币种显示价格。
+ * 商品价格和订单金额仍然是人民币，已下单的订单保留下单时的汇率。
+ */
+'use client'
+
+import { useEffect, useState } from 'react'
+import { formatPrice } from '@/lib/utils'
+import { BASE_CURRENCY, CURRENCIES, type CurrencyCode } from '@/lib/currency-format'
+
+type ExchangeRate = {
+  currency: CurrencyCode
+  rate: string | null      // 还没设置过时为 null
+  isActive: boolean
+  updatedAt: string | null
+}
+
+// 表单中的汇率（输入框的值是字符串）
+type RateForm = {
+  rate: string
+  isActive: boolean
+}
+
+export default function AdminExchangeRatesPage() {
+  const [rates, setRates] = useState<ExchangeRate[]>([])
+  const [forms, setForms] = useState<Record<string, RateForm>>({})
+  const [loading, setLoading] = useState(true)
+  const [version, setVersion] = useState(0) // 自增后重新获取列表
+
+  useEffect(() => {
+    fetch('/api/admin/exchange-rates')
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.success) {
+          const list: ExchangeRate[] = data.data
+          setRates(list)
+          setForms(
+            Object.fromEntries(
+              list.map((rate) => [rate.currency, { rate: rate.rate ?? '', isActive: rate.isActive }])
+            )
+          )
+        }
+      })
+      .catch(() => console.error('获取汇率失败'))
+      .finally(() => setLoading(false))
+  }, [version])
+
+  const updateForm = (currency: CurrencyCode, patch: Partial<RateForm>) => {
+    setForms((prev) => ({ ...prev, [currency]: { ...prev[currency], ...patch } }))
+  }
+
+  const handleSave = async (currency: CurrencyCode) => {
+    const form = forms[currency]
+    try {
+      const res = await fetch(`/api/admin/exchange-rates/${currency}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ rate: parseFloat(form.rate), isActive: form.isActive }),
+      })
+      const data = await res.json()
+      if (data.success) {
+        setVersion((v) => v + 1)
+      } else {
+        alert(data.message || '保存失败')
+      }
+    } catch {
+      alert('保存失败')
+    }
+  }
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-bold text-gray-900">汇率</h1>
+        <p className="text-sm text-gray-500">基准币种：{CURRENCIES[BASE_CURRENCY].label}（{BASE_CURRENCY}）</p>
+      </div>
+
+      <div className="bg-white rounded-xl border overflow-hidden">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50 text-gray-600">
+            <tr>
+              <th className="px-6 py-3 text-left font-medium">币种</th>
+              <th className="px-6 py-3 text-left font-medium">汇率（1 {BASE_CURRENCY} =）</th>
+              <th className="px-6 py-3 text-left font-medium">示例：{formatPrice(100)}</th>
+              <th className="px-6 py-3 text-left font-medium">启用</th>
+              <th className="px-6 py-3 text-left font-medium">更新时间</th>
+              <th className="px-6 py-3 text-right font-medium">操作</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y">
+            {loading ? (
+              <tr>
+                <td colSpan={6} className="px-6 py-8 text-center text-gray-500">加载中...</td>
+              </tr>
+            ) : (
+              rates.map((rate) => {
+                const form = forms[rate.currency]
+                const valid = Number(form.rate) > 0
+                return (
+                  <tr key={rate.currency}>
+                    <td className="px-6 py-4">
+                      {CURRENCIES[rate.currency].label}
+                      <span className="ml-2 text-gray-400">{rate.currency}</span>
+                    </td>
+                    <td className="px-6 py-4">
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.000001"
+                        value={form.rate}
+                        onChange={(e) => updateForm(rate.currency, { rate: e.target.value })}
+                        placeholder="未设置"
+                        className="w-32 px-3 py-2 border rounded-lg"
+                      />
+                      <span className="ml-2 text-gray-500">{rate.currency}</span>
+                    </td>
+                    <td className="px-6 py-4 text-gray-600">
+                      {valid ? formatPrice(100, { currency: rate.currency, rate: form.rate }) : '--'}
+                    </td>
+                    <td className="px-6 py-4">
+                      <input
+                        type="checkbox"
+                        checked={form.isActive}
+                        onChange={(e) => updateForm(rate.currency, { isActive: e.target.checked })}
+                        className="rounded"
+                      />
+                    </td>
+                    <td className="px-6 py-4 text-gray-500">
+                      {rate.updatedAt ? new Date(rate.updatedAt).toLocaleString('zh-CN') : '--'}
+                    </td>
+                    <td className="px-6 py-4 text-right">
+                      <button
+                        onClick={() => handleSave(rate.currency)}
+                        disabled={!valid}
+                        className="px-3 py-1 bg-blue-600 text-white rounded-lg hover:bg-blue-700
+                                   disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        保存
+                      </button>
+                    </td>
+                  </tr>
+                )
+              })
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
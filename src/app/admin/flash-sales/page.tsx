@@ -0,0 +1,285 @@
+/**
+ * 后台 - 秒杀活动页面
+ * ============================================================
+ *
+ * 【路由】/admin/flash-sales
+ *
+ * 管理员在这里创建限时秒杀：选择商品，设置秒杀价、活动库存、每人限购件数和活动时间。
+ * 活动期间商品按秒杀价出售，活动库存卖完后恢复原价；同一商品的活动时间不能重叠。
+ */
+'use client'
+
+import { useEffect, useState } from 'react'
+import { formatPrice } from '@/lib/utils'
+
+type FlashSale = {
+  id: number
+  salePrice: string
+  saleStock: number
+  remainingStock: number
+  perUserLimit: number
+  startsAt: string
+  endsAt: string
+  isActive: boolean
+  product: { id: number; name: string; price: string }
+}
+
+type ProductOption = {
+  id: number
+  name: string
+  price: string
+}
+
+const emptyForm = {
+  productId: '',
+  salePrice: '',
+  saleStock: '',
+  perUserLimit: '1',
+  startsAt: '',
+  endsAt: '',
+}
+
+/**
+ * 活动当前的状态文字
+ */
+function saleStatus(sale: FlashSale, now: number): string {
+  if (!sale.isActive) return '已停用'
+  if (new Date(sale.startsAt).getTime() > now) return '未开始'
+  if (new Date(sale.endsAt).getTime() <= now) return '已结束'
+  return sale.remainingStock > 0 ? '进行中' : '已抢光'
+}
+
+export default function AdminFlashSalesPage() {
+  const [flashSales, setFlashSales] = useState<FlashSale[]>([])
+  const [products, setProducts] = useState<ProductOption[]>([])
+  const [loading, setLoading] = useState(true)
+  const [version, setVersion] = useState(0) // 自增后重新获取列表
+  const [loadedAt, setLoadedAt] = useState(0) // 列表获取的时间，用于计算活动状态
+  const [showForm, setShowForm] = useState(false)
+  const [formData, setFormData] = useState(emptyForm)
+
+  useEffect(() => {
+    fetch('/api/admin/flash-sales')
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.success) {
+          setFlashSales(data.data)
+          setLoadedAt(Date.now())
+        }
+      })
+      .catch(() => console.error('获取秒杀活动失败'))
+      .finally(() => setLoading(false))
+  }, [version])
+
+  // 商品列表（选择秒杀商品用）
+  useEffect(() => {
+    fetch('/api/admin/products')
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.success) setProducts(data.data)
+      })
+      .catch(() => console.error('获取商品失败'))
+  }, [])
+
+  const refresh = () => setVersion((v) => v + 1)
+
+  const resetForm = () => {
+    setShowForm(false)
+    setFormData(emptyForm)
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const payload = {
+      productId: parseInt(formData.productId),
+      salePrice: parseFloat(formData.salePrice),
+      saleStock: parseInt(formData.saleStock),
+      perUserLimit: parseInt(formData.perUserLimit),
+      // datetime-local 的值是本地时间，转成 ISO 字符串提交
+      startsAt: formData.startsAt ? new Date(formData.startsAt).toISOString() : '',
+      endsAt: formData.endsAt ? new Date(formData.endsAt).toISOString() : '',
+    }
+
+    try {
+      const res = await fetch('/api/admin/flash-sales', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+      })
+      const data = await res.json()
+
+      if (data.success) {
+        refresh()
+        resetForm()
+      } else {
+        alert(data.message || '创建失败')
+      }
+    } catch {
+      alert('创建失败')
+    }
+  }
+
+  const handleToggle = async (sale: FlashSale) => {
+    try {
+      const res = await fetch(`/api/admin/flash-sales/${sale.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ isActive: !sale.isActive }),
+      })
+      const data = await res.json()
+      if (data.success) {
+        refresh()
+      } else {
+        alert(data.message || '操作失败')
+      }
+    } catch {
+      alert('操作失败')
+    }
+  }
+
+  const selectedProduct = products.find((p) => p.id === parseInt(formData.productId))
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-bold text-gray-900">秒杀活动</h1>
+        <button
+          onClick={() => { resetForm(); setShowForm(true) }}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm"
+        >
+          + 新增秒杀
+        </button>
+      </div>
+
+      {/* 新增表单 */}
+      {showForm && (
+        <form onSubmit={handleSubmit} className="bg-white rounded-xl border p-6 mb-6 space-y-4">
+          <h3 className="font-semibold">新增秒杀活动</h3>
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">商品</label>
+              <select
+                required
+                value={formData.productId}
+                onChange={(e) => setFormData({ ...formData, productId: e.target.value })}
+                className="w-full px-4 py-2 border rounded-lg"
+              >
+                <option value="">请选择商品</option>
+                {products.map((product) => (
+                  <option key={product.id} value={product.id}>{product.name}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                秒杀价 (元){selectedProduct && `，原价 ${formatPrice(selectedProduct.price)}`}
+              </label>
+              <input
+                type="number" step="0.01" min="0.01" required
+                value={formData.salePrice}
+                onChange={(e) => setFormData({ ...formData, salePrice: e.target.value })}
+                className="w-full px-4 py-2 border rounded-lg"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">活动库存 (件)</label>
+              <input
+                type="number" min="1" required
+                value={formData.saleStock}
+                onChange={(e) => setFormData({ ...formData, saleStock: e.target.value })}
+                className="w-full px-4 py-2 border rounded-lg"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">每人限购 (件)</label>
+              <input
+                type="number" min="1" required
+                value={formData.perUserLimit}
+                onChange={(e) => setFormData({ ...formData, perUserLimit: e.target.value })}
+                className="w-full px-4 py-2 border rounded-lg"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">开始时间</label>
+              <input
+                type="datetime-local" required
+                value={formData.startsAt}
+                onChange={(e) => setFormData({ ...formData, startsAt: e.target.value })}
+                className="w-full px-4 py-2 border rounded-lg"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">结束时间</label>
+              <input
+                type="datetime-local" required
+                value={formData.endsAt}
+                onChange={(e) => setFormData({ ...formData, endsAt: e.target.value })}
+                className="w-full px-4 py-2 border rounded-lg"
+              />
+            </div>
+          </div>
+
+          <div className="flex space-x-2">
+            <button type="submit" className="px-4 py-2 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700">
+              创建
+            </button>
+            <button type="button" onClick={resetForm} className="px-4 py-2 border text-sm rounded-lg hover:bg-gray-50">
+              取消
+            </button>
+          </div>
+        </form>
+      )}
+
+      {/* 活动列表 */}
+      <div className="bg-white rounded-xl shadow-sm border overflow-hidden">
+        <table className="w-full">
+          <thead className="bg-gray-50 border-b">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">商品</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">秒杀价</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">库存（已售 / 总量）</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">活动时间</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">状态</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">操作</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y">
+            {loading ? (
+              <tr><td colSpan={6} className="px-6 py-8 text-center text-gray-500">加载中...</td></tr>
+            ) : flashSales.length === 0 ? (
+              <tr><td colSpan={6} className="px-6 py-8 text-center text-gray-500">暂无秒杀活动</td></tr>
+            ) : (
+              flashSales.map((sale) => (
+                <tr key={sale.id} className="hover:bg-gray-50 text-sm">
+                  <td className="px-6 py-4 font-medium">{sale.product.name}</td>
+                  <td className="px-6 py-4">
+                    <span className="text-red-500">{formatPrice(sale.salePrice)}</span>
+                    <span className="ml-2 text-xs text-gray-400 line-through">{formatPrice(sale.product.price)}</span>
+                  </td>
+                  <td className="px-6 py-4 text-gray-600">
+                    {sale.saleStock - sale.remainingStock} / {sale.saleStock}
+                    <p className="text-xs text-gray-400">每人限购 {sale.perUserLimit} 件</p>
+                  </td>
+                  <td className="px-6 py-4 text-xs text-gray-500">
+                    {new Date(sale.startsAt).toLocaleString('zh-CN')}
+                    <br />
+                    至 {new Date(sale.endsAt).toLocaleString('zh-CN')}
+                  </td>
+                  <td className="px-6 py-4 text-gray-600">{saleStatus(sale, loadedAt)}</td>
+                  <td className="px-6 py-4">
+                    <button
+                      onClick={() => handleToggle(sale)}
+                      className={sale.isActive ? 'text-red-500 hover:text-red-400' : 'text-blue-600 hover:text-blue-500'}
+                    >
+                      {sale.isActive ? '停用' : '启用'}
+                    </button>
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,77 @@
+/**
+ * 售后审核操作组件
+ * ============================================================
+ *
+ * - 待审核：同意（可调低退款金额）/ 拒绝（必须填写原因）
+ * - 退款中：上次退款失败时，可以重试退款
+ */
+'use client'
+
+import { useRouter } from 'next/navigation'
+import type { AfterSaleStatusValue } from '@/lib/after-sale-status'
+
+type Props = {
+  afterSaleId: number
+  status: AfterSaleStatusValue
+  amount: string
+}
+
+export default function AfterSaleActions({ afterSaleId, status, amount }: Props) {
+  const router = useRouter()
+
+  const review = async (body: { action: string; amount?: number; note?: string }) => {
+    try {
+      const res = await fetch(`/api/admin/after-sales/${afterSaleId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      })
+      const data = await res.json()
+      if (!data.success) {
+        alert(data.message || '操作失败')
+      }
+      // 退款失败时售后单也已变为"退款中"，同样需要刷新
+      router.refresh()
+    } catch {
+      alert('操作失败')
+    }
+  }
+
+  const handleApprove = () => {
+    const input = prompt('同意售后，退款金额（可调低）：', amount)
+    if (input === null) return
+    review({ action: 'approve', amount: Number(input) })
+  }
+
+  const handleReject = () => {
+    const note = prompt('请填写拒绝原因：')
+    if (!note) return
+    review({ action: 'reject', note })
+  }
+
+  if (status === 'PENDING') {
+    return (
+      <div className="flex items-center space-x-2">
+        <button onClick={handleApprove} className="text-sm text-blue-600 hover:text-blue-500">
+          同意
+        </button>
+        <button onClick={handleReject} className="text-sm text-red-600 hover:text-red-500">
+          拒绝
+        </button>
+      </div>
+    )
+  }
+
+  if (status === 'APPROVED') {
+    return (
+      <button
+        onClick={() => review({ action: 'refund' })}
+        className="text-sm text-blue-600 hover:text-blue-500"
+      >
+        重试退款
+      </button>
+    )
+  }
+
+  return <span className="text-xs text-gray-400">—</span>
+}
@@ -4,30 +4,38 @@
  *
  * 管理员可以更新订单状态的流转：
  * PENDING → CANCELLED（取消）
- * PAID → SHIPPED（发货）
+ * PAID → SHIPPED（发货）/ CANCELLED（取消）
  * SHIPPED → COMPLETED（完成）
+ *
+ * 可流转的状态来自 lib/order-status.ts 中的共享状态机，
+ * 这里只决定"显示哪些按钮"，真正的校验在服务端 transitionOrder() 中。
+ *
+ * 发货需要填写快递公司和单号，所以"发货"不直接改状态，
+ * 而是跳转到订单详情页的发货表单。
  */
 'use client'
 
+import Link from 'next/link'
 import { useRouter } from 'next/navigation'
+import { ORDER_STATUS_TRANSITIONS, type OrderStatusValue } from '@/lib/order-status'
 
 type Props = {
   orderId: number
   currentStatus: string
 }
 
-// 定义状态流转规则
-const statusTransitions: Record<string, { next: string; label: string }[]> = {
-  PENDING: [{ next: 'CANCELLED', label: '取消' }],
-  PAID: [{ next: 'SHIPPED', label: '发货' }],
-  SHIPPED: [{ next: 'COMPLETED', label: '完成' }],
-  COMPLETED: [],
-  CANCELLED: [],
+// 管理员可执行的操作按钮（付款由用户完成，后台不提供"标记付款"按钮）
+const actionLabels: Partial<Record<OrderStatusValue, string>> = {
+  SHIPPED: '发货',
+  COMPLETED: '完成',
+  CANCELLED: '取消',
 }
 
 export default function OrderStatusActions({ orderId, currentStatus }: Props) {
   const router = useRouter()
-  const actions = statusTransitions[currentStatus] || []
+  const actions = (ORDER_STATUS_TRANSITIONS[currentStatus as OrderStatusValue] || [])
+    .filter((next) => actionLabels[next])
+    .map((next) => ({ next, label: actionLabels[next]! }))
 
   const handleStatusChange = async (newStatus: string) => {
     const confirmMsg = `确定要将订单状态更新为 ${newStatus} 吗？`
@@ -56,15 +64,25 @@ export default function OrderStatusActions({ orderId, currentStatus }: Props) {
 
   return (
     <div className="flex items-center space-x-2">
-      {actions.map((action) => (
-        <button
-          key={action.next}
-          onClick={() => handleStatusChange(action.next)}
-          className="text-sm text-blue-600 hover:text-blue-500"
-        >
-          {action.label}
-        </button>
-      ))}
+      {actions.map((action) =>
+        action.next === 'SHIPPED' ? (
+          <Link
+            key={action.next}
+            href={`/admin/orders/${orderId}#shipment`}
+            className="text-sm text-blue-600 hover:text-blue-500"
+          >
+            {action.label}
+          </Link>
+        ) : (
+          <button
+            key={action.next}
+            onClick={() => handleStatusChange(action.next)}
+            className="text-sm text-blue-600 hover:text-blue-500"
+          >
+            {action.label}
+          </button>
+        )
+      )}
     </div>
   )
 }
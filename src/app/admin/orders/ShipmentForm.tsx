@@ -0,0 +1,131 @@
+/**
+ * 发货表单组件
+ * ============================================================
+ *
+ * 填写快递公司、快递单号，并选择本次发出的商品数量（默认全部未发货商品）。
+ * 把某个商品的数量改为 0 就表示这次不发它，实现分批发货。
+ */
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { CARRIER_LABELS } from '@/lib/shipment-status'
+
+type Props = {
+  orderId: number
+  items: {
+    id: number
+    name: string
+    remaining: number // 未发货数量
+  }[]
+}
+
+export default function ShipmentForm({ orderId, items }: Props) {
+  const router = useRouter()
+  const [carrier, setCarrier] = useState('')
+  const [trackingNo, setTrackingNo] = useState('')
+  const [quantities, setQuantities] = useState<Record<number, number>>(
+    Object.fromEntries(items.map((item) => [item.id, item.remaining]))
+  )
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState('')
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+    setSubmitting(true)
+
+    try {
+      const res = await fetch(`/api/admin/orders/${orderId}/shipments`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          carrier,
+          trackingNo,
+          items: items
+            .filter((item) => quantities[item.id] > 0)
+            .map((item) => ({ orderItemId: item.id, quantity: quantities[item.id] })),
+        }),
+      })
+      const data = await res.json()
+      if (data.success) {
+        setTrackingNo('')
+        router.refresh()
+      } else {
+        setError(data.message || '发货失败')
+      }
+    } catch {
+      setError('发货失败')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <select
+          value={carrier}
+          onChange={(e) => setCarrier(e.target.value)}
+          className="px-3 py-2 border rounded-lg text-sm"
+        >
+          <option value="">选择快递公司</option>
+          {Object.entries(CARRIER_LABELS).map(([code, label]) => (
+            <option key={code} value={code}>
+              {label}
+            </option>
+          ))}
+        </select>
+        <input
+          value={trackingNo}
+          onChange={(e) => setTrackingNo(e.target.value)}
+          placeholder="快递单号"
+          className="px-3 py-2 border rounded-lg text-sm"
+        />
+      </div>
+
+      <table className="w-full text-sm">
+        <thead className="text-gray-500">
+          <tr>
+            <th className="py-2 text-left">商品</th>
+            <th className="py-2 text-right">未发货</th>
+            <th className="py-2 text-right">本次发货</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y">
+          {items.map((item) => (
+            <tr key={item.id}>
+              <td className="py-2">{item.name}</td>
+              <td className="py-2 text-right">{item.remaining}</td>
+              <td className="py-2 text-right">
+                <input
+                  type="number"
+                  min={0}
+                  max={item.remaining}
+                  value={quantities[item.id]}
+                  onChange={(e) =>
+                    setQuantities({
+                      ...quantities,
+                      [item.id]: Math.max(0, Math.min(item.remaining, Number(e.target.value) || 0)),
+                    })
+                  }
+                  className="w-20 px-2 py-1 border rounded text-right"
+                />
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {error && <p className="text-sm text-red-500">{error}</p>}
+
+      <button
+        type="submit"
+        disabled={submitting}
+        className="px-4 py-2 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+      >
+        {submitting ? '提交中...' : '确认发货'}
+      </button>
+    </form>
+  )
+}
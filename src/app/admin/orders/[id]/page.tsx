@@ -0,0 +1,264 @@
+/**
+ * 后台 - 订单详情页面
+ * ============================================================
+ *
+ * 【路由】/admin/orders/:id
+ *
+ * 展示订单的商品清单、收货地址快照和状态时间线，
+ * 管理员可以在这里直接进行发货、完成、取消等操作。
+ * 发货时填写快递公司和单号，支持分批发货（每次选择部分商品）。
+ * 订单的售后申请也在这里展示，可以直接审核。
+ */
+
+import Link from 'next/link'
+import { notFound } from 'next/navigation'
+import { prisma } from '@/lib/prisma'
+import { formatPrice } from '@/lib/utils'
+import { multiplyMoney } from '@/lib/money'
+import { BASE_CURRENCY, CURRENCIES, isCurrencyCode } from '@/lib/currency-format'
+import type { AddressSnapshot } from '@/types'
+import { ORDER_STATUS_LABELS } from '@/lib/order-status'
+import { AFTER_SALE_STATUS_LABELS, AFTER_SALE_TYPE_LABELS } from '@/lib/after-sale-status'
+import OrderTimeline from '@/components/order/OrderTimeline'
+import ShipmentTracking from '@/components/order/ShipmentTracking'
+import OrderStatusActions from '../OrderStatusActions'
+import AfterSaleActions from '../AfterSaleActions'
+import ShipmentForm from '../ShipmentForm'
+
+// 动态渲染
+export const dynamic = 'force-dynamic'
+
+export default async function AdminOrderDetailPage({
+  params,
+}: {
+  params: Promise<{ id: string }>
+}) {
+  const { id } = await params
+
+  const order = await prisma.order.findUnique({
+    where: { id: parseInt(id) },
+    include: {
+      user: { select: { name: true, email: true } },
+      items: {
+        include: {
+          product: { select: { id: true, name: true } },
+        },
+      },
+      promotions: { orderBy: { id: 'asc' } },
+      statusHistory: {
+        include: {
+          operator: { select: { name: true } },
+        },
+        orderBy: { createdAt: 'asc' },
+      },
+      shipments: {
+        include: {
+          items: {
+            include: {
+              orderItem: { select: { product: { select: { name: true } } } },
+            },
+          },
+          events: { orderBy: { occurredAt: 'desc' } },
+        },
+        orderBy: { shippedAt: 'asc' },
+      },
+      afterSales: {
+        include: {
+          orderItem: {
+            include: { product: { select: { name: true } } },
+          },
+        },
+        orderBy: { createdAt: 'desc' },
+      },
+    },
+  })
+
+  if (!order) {
+    notFound()
+  }
+
+  // 解析地址快照
+  let address: AddressSnapshot | null = null
+  try {
+    address = JSON.parse(order.address)
+  } catch {
+    address = null
+  }
+
+  // 每个商品项还未发货的数量
+  const shippedQuantities = new Map<number, number>()
+  for (const shipment of order.shipments) {
+    for (const item of shipment.items) {
+      shippedQuantities.set(item.orderItemId, (shippedQuantities.get(item.orderItemId) ?? 0) + item.quantity)
+    }
+  }
+  const unshippedItems = order.items
+    .map((item) => ({
+      id: item.id,
+      name: item.variantName ? `${item.product.name}（${item.variantName}）` : item.product.name,
+      remaining: item.quantity - (shippedQuantities.get(item.id) ?? 0),
+    }))
+    .filter((item) => item.remaining > 0)
+  const canShip = (order.status === 'PAID' || order.status === 'SHIPPED') && unshippedItems.length > 0
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <Link href="/admin/orders" className="text-sm text-gray-500 hover:text-blue-600">
+            ← 返回订单列表
+          </Link>
+          <h1 className="text-2xl font-bold text-gray-900 mt-2">订单 {order.orderNo}</h1>
+        </div>
+        <div className="flex items-center space-x-4">
+          <span className="text-sm px-3 py-1 rounded-full bg-blue-50 text-blue-600">
+            {ORDER_STATUS_LABELS[order.status]}
+          </span>
+          <OrderStatusActions orderId={order.id} currentStatus={order.status} />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 space-y-6">
+          {/* ==================== 商品清单 ==================== */}
+          <section className="bg-white rounded-xl shadow-sm border p-6">
+            <h2 className="text-lg font-semibold text-gray-900 mb-4">商品清单</h2>
+            <table className="w-full text-sm">
+              <thead className="text-gray-500">
+                <tr>
+                  <th className="py-2 text-left">商品</th>
+                  <th className="py-2 text-right">单价（快照）</th>
+                  <th className="py-2 text-right">数量</th>
+                  <th className="py-2 text-right">小计</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {order.items.map((item) => (
+                  <tr key={item.id}>
+                    <td className="py-2">
+                      {item.product.name}
+                      {item.variantName && (
+                        <span className="ml-2 text-xs text-gray-400">{item.variantName}</span>
+                      )}
+                    </td>
+                    <td className="py-2 text-right">{formatPrice(item.price.toString())}</td>
+                    <td className="py-2 text-right">{item.quantity}</td>
+                    <td className="py-2 text-right">
+                      {formatPrice(multiplyMoney(item.price, item.quantity))}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="text-right mt-4">
+              <span className="text-sm text-gray-500 mr-4">
+                商品 {formatPrice(order.goodsAmount.toString())}
+                {order.promotionDiscount.greaterThan(0) && `，促销 -${formatPrice(order.promotionDiscount.toString())}`}
+                {order.discountAmount.greaterThan(0) && `，优惠券 -${formatPrice(order.discountAmount.toString())}`}
+                ，运费 {formatPrice(order.shippingFee.toString())}
+              </span>
+              合计：<span className="text-lg font-bold text-red-500">{formatPrice(order.totalAmount.toString())}</span>
+            </p>
+            {order.displayCurrency !== BASE_CURRENCY && isCurrencyCode(order.displayCurrency) && (
+              <p className="text-right mt-1 text-xs text-gray-400">
+                下单币种：{CURRENCIES[order.displayCurrency].label}（汇率 {order.exchangeRate.toString()}），
+                约 {formatPrice(order.totalAmount.toString(), {
+                  currency: order.displayCurrency,
+                  rate: order.exchangeRate.toString(),
+                })}
+              </p>
+            )}
+            {order.promotions.length > 0 && (
+              <div className="text-right mt-2 space-y-1 text-xs text-gray-500">
+                {order.promotions.map((promotion) => (
+                  <p key={promotion.id}>
+                    {promotion.name}（{promotion.description}）：-{formatPrice(promotion.discountAmount.toString())}
+                  </p>
+                ))}
+              </div>
+            )}
+          </section>
+
+          {/* ==================== 发货与物流 ==================== */}
+          {(canShip || order.shipments.length > 0) && (
+            <section id="shipment" className="bg-white rounded-xl shadow-sm border p-6">
+              <h2 className="text-lg font-semibold text-gray-900 mb-4">
+                发货与物流
+                {order.status === 'SHIPPED' && canShip && (
+                  <span className="ml-2 text-sm font-normal text-orange-500">部分发货</span>
+                )}
+              </h2>
+              {canShip && (
+                <div className="mb-6">
+                  <ShipmentForm orderId={order.id} items={unshippedItems} />
+                </div>
+              )}
+              <ShipmentTracking shipments={order.shipments} />
+            </section>
+          )}
+
+          {/* ==================== 售后申请 ==================== */}
+          {order.afterSales.length > 0 && (
+            <section className="bg-white rounded-xl shadow-sm border p-6">
+              <h2 className="text-lg font-semibold text-gray-900 mb-4">售后申请</h2>
+              <table className="w-full text-sm">
+                <thead className="text-gray-500">
+                  <tr>
+                    <th className="py-2 text-left">商品</th>
+                    <th className="py-2 text-left">类型</th>
+                    <th className="py-2 text-right">数量</th>
+                    <th className="py-2 text-right">退款金额</th>
+                    <th className="py-2 text-right">状态</th>
+                    <th className="py-2 text-right">操作</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {order.afterSales.map((afterSale) => (
+                    <tr key={afterSale.id}>
+                      <td className="py-2">
+                        {afterSale.orderItem.product.name}
+                        <p className="text-xs text-gray-400">{afterSale.reason}</p>
+                      </td>
+                      <td className="py-2">{AFTER_SALE_TYPE_LABELS[afterSale.type]}</td>
+                      <td className="py-2 text-right">{afterSale.quantity}</td>
+                      <td className="py-2 text-right">{formatPrice(afterSale.amount.toString())}</td>
+                      <td className="py-2 text-right">{AFTER_SALE_STATUS_LABELS[afterSale.status]}</td>
+                      <td className="py-2 text-right">
+                        <AfterSaleActions
+                          afterSaleId={afterSale.id}
+                          status={afterSale.status}
+                          amount={afterSale.amount.toFixed(2)}
+                        />
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </section>
+          )}
+
+          {/* ==================== 买家与收货地址 ==================== */}
+          <section className="bg-white rounded-xl shadow-sm border p-6">
+            <h2 className="text-lg font-semibold text-gray-900 mb-4">买家信息</h2>
+            <p className="text-sm text-gray-900">{order.user.name}（{order.user.email}）</p>
+            {address ? (
+              <p className="text-sm text-gray-600 mt-2">
+                {address.name} {address.phone}
+                <br />
+                {address.province} {address.city} {address.district} {address.detail}
+              </p>
+            ) : (
+              <p className="text-sm text-gray-400 mt-2">地址信息解析失败</p>
+            )}
+          </section>
+        </div>
+
+        {/* ==================== 状态时间线 ==================== */}
+        <section className="bg-white rounded-xl shadow-sm border p-6 h-fit">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">订单进度</h2>
+          <OrderTimeline entries={order.statusHistory} />
+        </section>
+      </div>
+    </div>
+  )
+}
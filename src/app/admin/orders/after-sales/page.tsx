@@ -0,0 +1,149 @@
+/**
+ * 后台 - 售后管理页面
+ * ============================================================
+ *
+ * 【路由】/admin/orders/after-sales?status=PENDING
+ *
+ * 管理员审核用户的售后申请：同意后自动退款（退货退款还会归还库存），
+ * 拒绝时需要填写原因。可以按售后状态筛选。
+ */
+
+import Link from 'next/link'
+import { prisma } from '@/lib/prisma'
+import { formatPrice } from '@/lib/utils'
+import {
+  AFTER_SALE_STATUS_LABELS,
+  AFTER_SALE_TYPE_LABELS,
+  type AfterSaleStatusValue,
+} from '@/lib/after-sale-status'
+import AfterSaleActions from '../AfterSaleActions'
+
+// 动态渲染
+export const dynamic = 'force-dynamic'
+
+const statuses = Object.keys(AFTER_SALE_STATUS_LABELS) as AfterSaleStatusValue[]
+
+export default async function AdminAfterSalesPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ status?: string }>
+}) {
+  const { status } = await searchParams
+  const currentStatus = statuses.find((s) => s === status)
+
+  const afterSales = await prisma.afterSale.findMany({
+    where: currentStatus ? { status: currentStatus } : undefined,
+    include: {
+      user: { select: { name: true, email: true } },
+      order: { select: { id: true, orderNo: true } },
+      orderItem: {
+        include: { product: { select: { name: true } } },
+      },
+      images: true,
+    },
+    orderBy: { createdAt: 'desc' },
+  })
+
+  return (
+    <div>
+      <Link href="/admin/orders" className="text-sm text-gray-500 hover:text-blue-600">
+        ← 返回订单列表
+      </Link>
+      <h1 className="text-2xl font-bold text-gray-900 mt-2 mb-6">售后管理</h1>
+
+      {/* 状态筛选 */}
+      <div className="flex space-x-2 mb-4">
+        <Link
+          href="/admin/orders/after-sales"
+          className={`px-3 py-1.5 rounded-lg text-sm ${!currentStatus ? 'bg-blue-600 text-white' : 'bg-white border text-gray-600'}`}
+        >
+          全部
+        </Link>
+        {statuses.map((s) => (
+          <Link
+            key={s}
+            href={`/admin/orders/after-sales?status=${s}`}
+            className={`px-3 py-1.5 rounded-lg text-sm ${currentStatus === s ? 'bg-blue-600 text-white' : 'bg-white border text-gray-600'}`}
+          >
+            {AFTER_SALE_STATUS_LABELS[s]}
+          </Link>
+        ))}
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50 text-sm text-gray-500">
+              <tr>
+                <th className="px-6 py-3 text-left">订单号</th>
+                <th className="px-6 py-3 text-left">用户</th>
+                <th className="px-6 py-3 text-left">商品</th>
+                <th className="px-6 py-3 text-left">类型</th>
+                <th className="px-6 py-3 text-left">原因</th>
+                <th className="px-6 py-3 text-left">退款金额</th>
+                <th className="px-6 py-3 text-left">状态</th>
+                <th className="px-6 py-3 text-left">操作</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {afterSales.map((afterSale) => (
+                <tr key={afterSale.id} className="hover:bg-gray-50 align-top">
+                  <td className="px-6 py-4 text-sm font-medium">
+                    <Link href={`/admin/orders/${afterSale.order.id}`} className="text-blue-600 hover:text-blue-500">
+                      {afterSale.order.orderNo}
+                    </Link>
+                    <p className="text-xs text-gray-400 mt-1">
+                      {new Date(afterSale.createdAt).toLocaleString('zh-CN')}
+                    </p>
+                  </td>
+                  <td className="px-6 py-4">
+                    <p className="text-sm font-medium text-gray-900">{afterSale.user.name}</p>
+                    <p className="text-xs text-gray-500">{afterSale.user.email}</p>
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-600">
+                    {afterSale.orderItem.product.name}
+                    <p className="text-xs text-gray-400">
+                      {formatPrice(afterSale.orderItem.price.toString())} x {afterSale.quantity}
+                    </p>
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-600">{AFTER_SALE_TYPE_LABELS[afterSale.type]}</td>
+                  <td className="px-6 py-4 text-sm text-gray-600 max-w-xs">
+                    <p className="line-clamp-3">{afterSale.reason}</p>
+                    {afterSale.images.length > 0 && (
+                      <div className="flex gap-1 mt-2">
+                        {afterSale.images.map((image) => (
+                          <a key={image.id} href={image.url} target="_blank" rel="noreferrer">
+                            <img src={image.url} alt="凭证" className="w-10 h-10 object-cover rounded border" />
+                          </a>
+                        ))}
+                      </div>
+                    )}
+                    {afterSale.adminNote && (
+                      <p className="text-xs text-gray-400 mt-1">备注：{afterSale.adminNote}</p>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 text-sm font-medium text-red-500">
+                    {formatPrice(afterSale.amount.toString())}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-600">{AFTER_SALE_STATUS_LABELS[afterSale.status]}</td>
+                  <td className="px-6 py-4">
+                    <AfterSaleActions
+                      afterSaleId={afterSale.id}
+                      status={afterSale.status}
+                      amount={afterSale.amount.toFixed(2)}
+                    />
+                  </td>
+                </tr>
+              ))}
+              {afterSales.length === 0 && (
+                <tr>
+                  <td colSpan={8} className="px-6 py-8 text-center text-gray-500">暂无售后申请</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -5,8 +5,11 @@
  * 【路由】/admin/orders
  *
  * 管理员可以查看所有用户的订单，并更新订单状态（如：发货、完成）。
+ * 点击订单号进入订单详情，查看商品、收货地址和状态时间线。
+ * 右上角进入售后管理（审核用户的退款/退货申请）和物流轨迹导入。
  */
 
+import Link from 'next/link'
 import { prisma } from '@/lib/prisma'
 import { formatPrice } from '@/lib/utils'
 import OrderStatusActions from './OrderStatusActions'
@@ -31,9 +34,22 @@ export default async function AdminOrdersPage() {
     orderBy: { createdAt: 'desc' },
   })
 
+  // 待审核的售后数量
+  const pendingAfterSales = await prisma.afterSale.count({ where: { status: 'PENDING' } })
+
   return (
     <div>
-      <h1 className="text-2xl font-bold text-gray-900 mb-6">订单管理</h1>
+      <div className="flex items-center justify-between mb-6">
+        <h1 className="text-2xl font-bold text-gray-900">订单管理</h1>
+        <div className="flex items-center space-x-4">
+          <Link href="/admin/orders/tracking" className="text-sm text-blue-600 hover:text-blue-500">
+            导入物流轨迹 →
+          </Link>
+          <Link href="/admin/orders/after-sales" className="text-sm text-blue-600 hover:text-blue-500">
+            售后管理{pendingAfterSales > 0 && `（${pendingAfterSales} 条待审核）`} →
+          </Link>
+        </div>
+      </div>
 
       <div className="bg-white rounded-xl shadow-sm border overflow-hidden">
         <div className="overflow-x-auto">
@@ -54,7 +70,11 @@ export default async function AdminOrdersPage() {
                 const status = statusMap[order.status] || statusMap.PENDING
                 return (
                   <tr key={order.id} className="hover:bg-gray-50">
-                    <td className="px-6 py-4 text-sm font-medium">{order.orderNo}</td>
+                    <td className="px-6 py-4 text-sm font-medium">
+                      <Link href={`/admin/orders/${order.id}`} className="text-blue-600 hover:text-blue-500">
+                        {order.orderNo}
+                      </Link>
+                    </td>
                     <td className="px-6 py-4">
                       <div>
                         <p className="text-sm font-medium text-gray-900">{order.user.name}</p>
@@ -0,0 +1,83 @@
+/**
+ * 物流轨迹导入表单（Client Component）
+ * ============================================================
+ *
+ * 支持直接粘贴 CSV 文本，或选择本地 CSV 文件（读取后填入文本框，可以先检查再提交）。
+ */
+'use client'
+
+import { useState } from 'react'
+import { CARRIER_LABELS, SHIPMENT_EVENT_STATUS_LABELS } from '@/lib/shipment-status'
+
+const CSV_TEMPLATE = `carrier,trackingNo,status,description,location,occurredAt
+SF,SF1234567890,IN_TRANSIT,"快件已到达【深圳转运中心】",深圳,2024-01-01 12:00:00`
+
+export default function TrackingImportForm() {
+  const [csv, setCsv] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+  const [message, setMessage] = useState<{ success: boolean; text: string } | null>(null)
+
+  // 读取本地文件内容
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (file) setCsv(await file.text())
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setMessage(null)
+    setSubmitting(true)
+
+    try {
+      const res = await fetch('/api/admin/shipments/events', {
+        method: 'POST',
+        headers: { 'Content-Type': 'text/csv' },
+        body: csv,
+      })
+      const data = await res.json()
+      setMessage({
+        success: data.success,
+        text: data.success && data.data.unknown.length > 0
+          ? `${data.message}：${data.data.unknown.join('、')}`
+          : data.message,
+      })
+    } catch {
+      setMessage({ success: false, text: '导入失败' })
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="text-sm text-gray-500 space-y-1">
+        <p>CSV 第一行为表头，格式如下：</p>
+        <pre className="bg-gray-50 rounded-lg p-3 text-xs overflow-x-auto">{CSV_TEMPLATE}</pre>
+        <p>快递公司编码：{Object.entries(CARRIER_LABELS).map(([code, label]) => `${code}（${label}）`).join('、')}</p>
+        <p>轨迹状态：{Object.entries(SHIPMENT_EVENT_STATUS_LABELS).map(([code, label]) => `${code}（${label}）`).join('、')}</p>
+      </div>
+
+      <input type="file" accept=".csv,text/csv" onChange={handleFile} className="text-sm" />
+
+      <textarea
+        value={csv}
+        onChange={(e) => setCsv(e.target.value)}
+        rows={12}
+        placeholder={CSV_TEMPLATE}
+        className="w-full px-3 py-2 border rounded-lg text-sm font-mono"
+      />
+
+      {message && (
+        <p className={`text-sm ${message.success ? 'text-green-600' : 'text-red-500'}`}>{message.text}</p>
+      )}
+
+      <button
+        type="submit"
+        disabled={submitting || !csv.trim()}
+        className="px-4 py-2 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+      >
+        {submitting ? '导入中...' : '导入'}
+      </button>
+    </form>
+  )
+}
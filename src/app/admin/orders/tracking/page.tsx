@@ -0,0 +1,28 @@
+/**
+ * 后台 - 物流轨迹导入页面
+ * ============================================================
+ *
+ * 【路由】/admin/orders/tracking
+ *
+ * 从快递公司后台导出物流轨迹 CSV，粘贴或选择文件后导入。
+ * 导入的轨迹会按"快递公司 + 快递单号"关联到对应的包裹，
+ * 用户在"我的订单"中就能看到最新的物流进度。
+ */
+
+import Link from 'next/link'
+import TrackingImportForm from './TrackingImportForm'
+
+export default function AdminTrackingImportPage() {
+  return (
+    <div>
+      <Link href="/admin/orders" className="text-sm text-gray-500 hover:text-blue-600">
+        ← 返回订单列表
+      </Link>
+      <h1 className="text-2xl font-bold text-gray-900 mt-2 mb-6">导入物流轨迹</h1>
+
+      <div className="bg-white rounded-xl shadow-sm border p-6">
+        <TrackingImportForm />
+      </div>
+    </div>
+  )
+}
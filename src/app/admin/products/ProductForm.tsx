@@ -7,15 +7,47 @@
  * 通过 initialData 是否存在来区分模式：
  * - initialData 存在 → 编辑模式（PATCH 请求）
  * - initialData 不存在 → 新增模式（POST 请求）
+ *
+ * 【规格矩阵】
+ * 填写规格项（如 颜色：黑色,白色；尺码：S,M,L）后点击"生成规格组合"，
+ * 按所有可选值的组合生成规格矩阵，再逐行填写价格、库存、商家编码和图片。
+ * 不需要的组合可以删除；重新生成时已填写的行会保留。
+ * 有规格的商品价格和库存由规格组合汇总（最低价、库存之和），不能单独填写。
+ *
+ * 【商品图片】
+ * 选择图片后立即上传（POST /api/admin/uploads），服务端生成缩略图并返回地址；
+ * 也可以直接填写外部图片链接。图片可以调整顺序（第一张是封面）、填写替代文字，
+ * 随商品一起提交保存。
+ *
+ * 【商品属性】
+ * 选择分类后，显示该分类及其上级分类定义的属性（如 品牌、存储容量），
+ * 枚举类型从可选值中选择，数字类型填写数字（单位显示在输入框后面）。
+ * 切换分类时已填写的值保留在表单中，但只提交新分类适用的属性。
  */
 'use client'
 
 import { useState } from 'react'
 import { useRouter } from 'next/navigation'
+import {
+  combineOptions,
+  variantNameOf,
+  type ProductOptionView,
+  type ProductVariantView,
+} from '@/lib/variant-options'
+import {
+  MAX_PRODUCT_IMAGES,
+  MAX_PRODUCT_IMAGE_SIZE,
+  PRODUCT_IMAGE_TYPES,
+  type ProductImageView,
+} from '@/lib/product-image-url'
+import { ancestorsOf, buildCategoryTree, flattenCategoryTree } from '@/lib/category-tree'
+import type { CategoryAttributeView } from '@/lib/product-attribute-filter'
 
 type Category = {
   id: number
   name: string
+  parentId: number | null
+  sortOrder: number
 }
 
 type ProductData = {
@@ -24,17 +56,49 @@ type ProductData = {
   description: string
   price: number
   stock: number
-  images: string
+  weight: number
+  images: ProductImageView[]
   categoryId: number
   isActive: boolean
+  options: ProductOptionView[]
+  variants: ProductVariantView[]
+  attributes: { attributeId: number; value: string }[]
+}
+
+// 表单中的规格项（可选值用逗号分隔）
+type OptionRow = {
+  name: string
+  values: string
+}
+
+// 表单中的规格组合
+type VariantRow = {
+  options: Record<string, string>
+  price: string
+  stock: string
+  sku: string
+  image: string
+}
+
+/**
+ * 解析规格项：去掉空的规格名和可选值（中英文逗号都可以分隔）
+ */
+function parseOptions(rows: OptionRow[]): ProductOptionView[] {
+  return rows
+    .map((row) => ({
+      name: row.name.trim(),
+      values: row.values.split(/[,，]/).map((v) => v.trim()).filter(Boolean),
+    }))
+    .filter((option) => option.name && option.values.length > 0)
 }
 
 type Props = {
   categories: Category[]
+  attributes: CategoryAttributeView[] // 全部分类的属性定义，按所选分类筛选
   initialData?: ProductData  // 编辑模式时传入
 }
 
-export default function ProductForm({ categories, initialData }: Props) {
+export default function ProductForm({ categories, attributes, initialData }: Props) {
   const router = useRouter()
   const isEditing = !!initialData
 
@@ -43,28 +107,167 @@ export default function ProductForm({ categories, initialData }: Props) {
     description: initialData?.description || '',
     price: initialData?.price?.toString() || '',
     stock: initialData?.stock?.toString() || '0',
-    images: initialData?.images || '[]',
+    weight: initialData?.weight?.toString() || '0',
     categoryId: initialData?.categoryId?.toString() || '',
     isActive: initialData?.isActive ?? true,
   })
 
+  const [optionRows, setOptionRows] = useState<OptionRow[]>(
+    initialData?.options.map((option) => ({ name: option.name, values: option.values.join(',') })) ?? []
+  )
+  const [variantRows, setVariantRows] = useState<VariantRow[]>(
+    initialData?.variants.map((variant) => ({
+      options: variant.options,
+      price: variant.price,
+      stock: variant.stock.toString(),
+      sku: variant.sku ?? '',
+      image: variant.image ?? '',
+    })) ?? []
+  )
+
+  // 属性值：属性 ID → 值
+  const [attributeValues, setAttributeValues] = useState<Record<number, string>>(
+    Object.fromEntries(initialData?.attributes.map((a) => [a.attributeId, a.value]) ?? [])
+  )
+
+  const [images, setImages] = useState<ProductImageView[]>(initialData?.images ?? [])
+  const [imageUrl, setImageUrl] = useState('') // 手动填写的外部图片链接
+  const [uploading, setUploading] = useState(false)
+
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState('')
 
+  const options = parseOptions(optionRows)
+  const hasVariants = variantRows.length > 0
+
+  // 所选分类适用的属性：从顶级分类到所选分类，每一级定义的属性
+  const categoryPath = formData.categoryId
+    ? ancestorsOf(categories, parseInt(formData.categoryId)).map((c) => c.id)
+    : []
+  const categoryAttributes = categoryPath.flatMap((categoryId) =>
+    attributes.filter((attribute) => attribute.categoryId === categoryId)
+  )
+
+  const updateOptionRow = (index: number, row: Partial<OptionRow>) => {
+    setOptionRows(optionRows.map((r, i) => (i === index ? { ...r, ...row } : r)))
+  }
+
+  const updateVariantRow = (index: number, row: Partial<VariantRow>) => {
+    setVariantRows(variantRows.map((r, i) => (i === index ? { ...r, ...row } : r)))
+  }
+
+  /**
+   * 上传选中的图片（逐张上传，某张失败时提示并继续上传后面的）
+   */
+  const uploadImages = async (files: File[]) => {
+    const remaining = MAX_PRODUCT_IMAGES - images.length
+    if (files.length > remaining) {
+      setError(`最多${MAX_PRODUCT_IMAGES}张商品图片，还可以上传${remaining}张`)
+      files = files.slice(0, remaining)
+    } else {
+      setError('')
+    }
+
+    setUploading(true)
+    const uploaded: ProductImageView[] = []
+    for (const file of files) {
+      // 先在浏览器检查大小，太大的文件不用白白上传
+      if (file.size > MAX_PRODUCT_IMAGE_SIZE) {
+        setError(`${file.name} 超过 ${MAX_PRODUCT_IMAGE_SIZE / 1024 / 1024}MB`)
+        continue
+      }
+      try {
+        const body = new FormData()
+        body.append('file', file)
+        const res = await fetch('/api/admin/uploads', { method: 'POST', body })
+        const data = await res.json()
+        if (data.success) {
+          uploaded.push({ ...data.data, alt: '' })
+        } else {
+          setError(`${file.name}：${data.message || '上传失败'}`)
+        }
+      } catch {
+        setError(`${file.name}：上传失败，请重试`)
+      }
+    }
+    setImages((prev) => [...prev, ...uploaded])
+    setUploading(false)
+  }
+
+  const addImageUrl = () => {
+    const url = imageUrl.trim()
+    if (!url || images.length >= MAX_PRODUCT_IMAGES) return
+    if (images.some((image) => image.url === url)) {
+      setImageUrl('')
+      return
+    }
+    setImages([...images, { url, thumbnailUrl: null, alt: '' }])
+    setImageUrl('')
+  }
+
+  const updateImage = (index: number, image: Partial<ProductImageView>) => {
+    setImages(images.map((img, i) => (i === index ? { ...img, ...image } : img)))
+  }
+
+  // 调整图片顺序：offset 为 -1 上移，1 下移
+  const moveImage = (index: number, offset: number) => {
+    const target = index + offset
+    if (target < 0 || target >= images.length) return
+    const next = [...images]
+    ;[next[index], next[target]] = [next[target], next[index]]
+    setImages(next)
+  }
+
+  /**
+   * 按规格项生成规格矩阵，名称相同的行保留已填写的价格和库存
+   */
+  const generateVariants = () => {
+    const existing = new Map(variantRows.map((row) => [variantNameOf(options, row.options), row]))
+    setVariantRows(
+      options.length === 0
+        ? []
+        : combineOptions(options).map((combination) => ({
+            price: formData.price,
+            stock: '0',
+            sku: '',
+            image: '',
+            ...existing.get(variantNameOf(options, combination)),
+            options: combination,
+          }))
+    )
+  }
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     setLoading(true)
     setError('')
 
     try {
+      const variants = variantRows.map((row) => ({
+        options: row.options,
+        price: parseFloat(row.price),
+        stock: parseInt(row.stock),
+        sku: row.sku || undefined,
+        image: row.image || undefined,
+      }))
+
       const payload = {
         name: formData.name,
         description: formData.description,
-        price: parseFloat(formData.price),
-        stock: parseInt(formData.stock),
-        images: formData.images,
+        // 有规格时价格、库存由规格组合汇总（服务端保存规格时也会重新计算）
+        price: hasVariants ? Math.min(...variants.map((v) => v.price)) : parseFloat(formData.price),
+        stock: hasVariants ? variants.reduce((sum, v) => sum + v.stock, 0) : parseInt(formData.stock),
+        weight: parseInt(formData.weight) || 0,
+        images,
         categoryId: parseInt(formData.categoryId),
         isActive: formData.isActive,
+        // 没有规格组合时传空数组，取消商品的规格
+        options: hasVariants ? options : [],
+        variants,
+        attributes: categoryAttributes.map((attribute) => ({
+          attributeId: attribute.id,
+          value: attributeValues[attribute.id] ?? '',
+        })),
       }
 
       const url = isEditing
@@ -94,7 +297,7 @@ export default function ProductForm({ categories, initialData }: Props) {
   }
 
   return (
-    <form onSubmit={handleSubmit} className="max-w-2xl bg-white rounded-xl border p-6 space-y-5">
+    <form onSubmit={handleSubmit} className="max-w-3xl bg-white rounded-xl border p-6 space-y-5">
       {error && (
         <div className="p-3 bg-red-50 text-red-600 rounded-lg text-sm">{error}</div>
       )}
@@ -133,7 +336,8 @@ export default function ProductForm({ categories, initialData }: Props) {
             type="number"
             step="0.01"
             min="0"
-            required
+            required={!hasVariants}
+            disabled={hasVariants}
             value={formData.price}
             onChange={(e) => setFormData({ ...formData, price: e.target.value })}
             className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
@@ -145,7 +349,8 @@ export default function ProductForm({ categories, initialData }: Props) {
           <input
             type="number"
             min="0"
-            required
+            required={!hasVariants}
+            disabled={hasVariants}
             value={formData.stock}
             onChange={(e) => setFormData({ ...formData, stock: e.target.value })}
             className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
@@ -154,6 +359,142 @@ export default function ProductForm({ categories, initialData }: Props) {
         </div>
       </div>
 
+      {hasVariants && (
+        <p className="text-xs text-gray-400 -mt-3">有规格的商品按规格组合的价格和库存出售，这里由规格汇总</p>
+      )}
+
+      {/* 商品规格 */}
+      <div className="border rounded-lg p-4 space-y-3">
+        <div className="flex items-center justify-between">
+          <label className="text-sm font-medium text-gray-700">商品规格</label>
+          <button
+            type="button"
+            onClick={() => setOptionRows([...optionRows, { name: '', values: '' }])}
+            disabled={optionRows.length >= 3}
+            className="text-sm text-blue-600 hover:text-blue-500 disabled:opacity-50"
+          >
+            + 添加规格项
+          </button>
+        </div>
+
+        {optionRows.map((row, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <input
+              type="text"
+              value={row.name}
+              onChange={(e) => updateOptionRow(index, { name: e.target.value })}
+              className="w-28 px-3 py-1.5 border rounded-lg text-sm"
+              placeholder="规格名，如 颜色"
+            />
+            <input
+              type="text"
+              value={row.values}
+              onChange={(e) => updateOptionRow(index, { values: e.target.value })}
+              className="flex-1 px-3 py-1.5 border rounded-lg text-sm"
+              placeholder="可选值，用逗号分隔，如 黑色,白色"
+            />
+            <button
+              type="button"
+              onClick={() => setOptionRows(optionRows.filter((_, i) => i !== index))}
+              className="text-sm text-red-500 hover:text-red-400"
+            >
+              删除
+            </button>
+          </div>
+        ))}
+
+        {(optionRows.length > 0 || hasVariants) && (
+          <button
+            type="button"
+            onClick={generateVariants}
+            className="px-3 py-1.5 text-sm border rounded-lg hover:bg-gray-50"
+          >
+            生成规格组合
+          </button>
+        )}
+
+        {/* 规格矩阵 */}
+        {hasVariants && (
+          <table className="w-full text-sm">
+            <thead className="text-gray-500">
+              <tr>
+                <th className="py-1 text-left">规格</th>
+                <th className="py-1 text-left">价格 (元)</th>
+                <th className="py-1 text-left">库存</th>
+                <th className="py-1 text-left">商家编码</th>
+                <th className="py-1 text-left">图片 URL</th>
+                <th className="py-1" />
+              </tr>
+            </thead>
+            <tbody>
+              {variantRows.map((row, index) => (
+                <tr key={variantNameOf(options, row.options) || index}>
+                  <td className="py-1 pr-2 whitespace-nowrap">{variantNameOf(options, row.options)}</td>
+                  <td className="py-1 pr-2">
+                    <input
+                      type="number" step="0.01" min="0.01" required
+                      value={row.price}
+                      onChange={(e) => updateVariantRow(index, { price: e.target.value })}
+                      className="w-24 px-2 py-1 border rounded"
+                    />
+                  </td>
+                  <td className="py-1 pr-2">
+                    <input
+                      type="number" min="0" required
+                      value={row.stock}
+                      onChange={(e) => updateVariantRow(index, { stock: e.target.value })}
+                      className="w-20 px-2 py-1 border rounded"
+                    />
+                  </td>
+                  <td className="py-1 pr-2">
+                    <input
+                      type="text"
+                      value={row.sku}
+                      onChange={(e) => updateVariantRow(index, { sku: e.target.value })}
+                      className="w-28 px-2 py-1 border rounded"
+                    />
+                  </td>
+                  <td className="py-1 pr-2">
+                    <input
+                      type="text"
+                      value={row.image}
+                      onChange={(e) => updateVariantRow(index, { image: e.target.value })}
+                      className="w-full px-2 py-1 border rounded"
+                    />
+                  </td>
+                  <td className="py-1 text-right">
+                    <button
+                      type="button"
+                      onClick={() => setVariantRows(variantRows.filter((_, i) => i !== index))}
+                      className="text-red-500 hover:text-red-400"
+                    >
+                      删除
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+        <p className="text-xs text-gray-400">
+          修改规格项后需重新生成规格组合；删除全部规格组合即取消规格，商品按上面的价格和库存出售
+        </p>
+      </div>
+
+      {/* 重量（按重量计算运费时使用） */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">重量 (克)</label>
+        <input
+          type="number"
+          min="0"
+          value={formData.weight}
+          onChange={(e) => setFormData({ ...formData, weight: e.target.value })}
+          className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          placeholder="0"
+        />
+        <p className="text-xs text-gray-400 mt-1">运费模板按重量计费时使用</p>
+      </div>
+
       {/* 商品分类 */}
       <div>
         <label className="block text-sm font-medium text-gray-700 mb-1">商品分类 *</label>
@@ -164,28 +505,155 @@ export default function ProductForm({ categories, initialData }: Props) {
           className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
         >
           <option value="">请选择分类</option>
-          {categories.map((cat) => (
+          {/* 按分类树的顺序显示，子分类缩进 */}
+          {flattenCategoryTree(buildCategoryTree(categories)).map((cat) => (
             <option key={cat.id} value={cat.id}>
-              {cat.name}
+              {'\u3000'.repeat(cat.depth)}{cat.name}
             </option>
           ))}
         </select>
       </div>
 
+      {/* 商品属性（按所选分类显示） */}
+      {categoryAttributes.length > 0 && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">商品属性</label>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            {categoryAttributes.map((attribute) => {
+              const value = attributeValues[attribute.id] ?? ''
+              const setValue = (next: string) =>
+                setAttributeValues({ ...attributeValues, [attribute.id]: next })
+              return (
+                <div key={attribute.id}>
+                  <label className="block text-xs text-gray-500 mb-1">{attribute.name}</label>
+                  {attribute.type === 'ENUM' ? (
+                    <select
+                      value={value}
+                      onChange={(e) => setValue(e.target.value)}
+                      className="w-full px-3 py-2 border rounded-lg text-sm"
+                    >
+                      <option value="">未填写</option>
+                      {attribute.options.map((option) => (
+                        <option key={option} value={option}>{option}</option>
+                      ))}
+                    </select>
+                  ) : (
+                    <div className="flex items-center">
+                      <input
+                        type={attribute.type === 'NUMBER' ? 'number' : 'text'}
+                        step="any"
+                        value={value}
+                        onChange={(e) => setValue(e.target.value)}
+                        className="w-full px-3 py-2 border rounded-lg text-sm"
+                        placeholder="未填写"
+                      />
+                      {attribute.unit && (
+                        <span className="ml-2 text-sm text-gray-500 whitespace-nowrap">{attribute.unit}</span>
+                      )}
+                    </div>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+        </div>
+      )}
+
       {/* 商品图片 */}
       <div>
         <label className="block text-sm font-medium text-gray-700 mb-1">
-          商品图片 (JSON 数组格式)
+          商品图片 *（第一张是封面，最多 {MAX_PRODUCT_IMAGES} 张）
         </label>
-        <textarea
-          rows={2}
-          value={formData.images}
-          onChange={(e) => setFormData({ ...formData, images: e.target.value })}
-          className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent font-mono text-sm"
-          placeholder='["https://example.com/image1.jpg", "https://example.com/image2.jpg"]'
-        />
+
+        {images.length > 0 && (
+          <ul className="space-y-2 mb-3">
+            {images.map((image, index) => (
+              <li key={image.url} className="flex items-center gap-3 border rounded-lg p-2">
+                <img
+                  src={image.thumbnailUrl || image.url}
+                  alt={image.alt}
+                  className="w-16 h-16 rounded object-cover bg-gray-100 flex-shrink-0"
+                />
+                <div className="flex-1 min-w-0 space-y-1">
+                  <p className="text-xs text-gray-400 truncate">
+                    {index === 0 && <span className="text-blue-600 mr-1">[封面]</span>}
+                    {image.url}
+                  </p>
+                  <input
+                    type="text"
+                    value={image.alt}
+                    maxLength={100}
+                    onChange={(e) => updateImage(index, { alt: e.target.value })}
+                    className="w-full px-2 py-1 border rounded text-sm"
+                    placeholder="图片描述（替代文字），如 黑色款正面"
+                  />
+                </div>
+                <div className="flex flex-col text-xs space-y-1">
+                  <button
+                    type="button"
+                    onClick={() => moveImage(index, -1)}
+                    disabled={index === 0}
+                    className="text-gray-600 hover:text-blue-600 disabled:opacity-30"
+                  >
+                    上移
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => moveImage(index, 1)}
+                    disabled={index === images.length - 1}
+                    className="text-gray-600 hover:text-blue-600 disabled:opacity-30"
+                  >
+                    下移
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setImages(images.filter((_, i) => i !== index))}
+                    className="text-red-500 hover:text-red-400"
+                  >
+                    删除
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="flex items-center gap-2">
+          <label
+            className={`px-3 py-1.5 text-sm border rounded-lg hover:bg-gray-50 cursor-pointer ${
+              uploading || images.length >= MAX_PRODUCT_IMAGES ? 'opacity-50 pointer-events-none' : ''
+            }`}
+          >
+            {uploading ? '上传中...' : '上传图片'}
+            <input
+              type="file"
+              multiple
+              accept={PRODUCT_IMAGE_TYPES.join(',')}
+              className="hidden"
+              onChange={(e) => {
+                uploadImages(Array.from(e.target.files ?? []))
+                e.target.value = '' // 清空后可以再次选择同一张图片
+              }}
+            />
+          </label>
+          <input
+            type="text"
+            value={imageUrl}
+            onChange={(e) => setImageUrl(e.target.value)}
+            className="flex-1 px-3 py-1.5 border rounded-lg text-sm"
+            placeholder="或填写图片链接，如 https://example.com/image.jpg"
+          />
+          <button
+            type="button"
+            onClick={addImageUrl}
+            disabled={!imageUrl.trim() || images.length >= MAX_PRODUCT_IMAGES}
+            className="px-3 py-1.5 text-sm border rounded-lg hover:bg-gray-50 disabled:opacity-50"
+          >
+            添加
+          </button>
+        </div>
         <p className="text-xs text-gray-400 mt-1">
-          输入 JSON 格式的图片 URL 数组，例如：[&quot;https://example.com/img.jpg&quot;]
+          支持 JPG、PNG、WebP、GIF，单张不超过 {MAX_PRODUCT_IMAGE_SIZE / 1024 / 1024}MB，上传后自动生成缩略图
         </p>
       </div>
 
@@ -204,7 +672,7 @@ export default function ProductForm({ categories, initialData }: Props) {
       <div className="flex space-x-3 pt-2">
         <button
           type="submit"
-          disabled={loading}
+          disabled={loading || uploading}
           className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700
                      disabled:opacity-50 transition-colors"
         >
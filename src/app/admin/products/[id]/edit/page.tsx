@@ -9,6 +9,9 @@
 
 import { notFound } from 'next/navigation'
 import { prisma } from '@/lib/prisma'
+import { toOptionViews, toVariantView } from '@/lib/variant'
+import { productImagesQuery } from '@/lib/product-image'
+import { getAllCategoryAttributes } from '@/lib/product-attribute'
 import ProductForm from '../../ProductForm'
 
 // 动态渲染
@@ -21,13 +24,20 @@ export default async function EditProductPage({
 }) {
   const { id } = await params
 
-  const [product, categories] = await Promise.all([
+  const [product, categories, attributes] = await Promise.all([
     prisma.product.findUnique({
       where: { id: parseInt(id) },
+      include: {
+        options: true,
+        variants: { where: { isActive: true }, orderBy: { id: 'asc' } },
+        images: productImagesQuery,
+        attributeValues: { select: { attributeId: true, value: true } },
+      },
     }),
     prisma.category.findMany({
       orderBy: { name: 'asc' },
     }),
+    getAllCategoryAttributes(),
   ])
 
   if (!product) {
@@ -41,15 +51,19 @@ export default async function EditProductPage({
     description: product.description,
     price: Number(product.price),
     stock: product.stock,
+    weight: product.weight,
     images: product.images,
     categoryId: product.categoryId,
     isActive: product.isActive,
+    options: toOptionViews(product.options),
+    variants: product.variants.map(toVariantView),
+    attributes: product.attributeValues,
   }
 
   return (
     <div>
       <h1 className="text-2xl font-bold text-gray-900 mb-6">编辑商品</h1>
-      <ProductForm categories={categories} initialData={productData} />
+      <ProductForm categories={categories} attributes={attributes} initialData={productData} />
     </div>
   )
 }
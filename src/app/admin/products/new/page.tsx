@@ -11,6 +11,7 @@
  */
 
 import { prisma } from '@/lib/prisma'
+import { getAllCategoryAttributes } from '@/lib/product-attribute'
 import ProductForm from '../ProductForm'
 
 // 动态渲染
@@ -18,15 +19,18 @@ export const dynamic = 'force-dynamic'
 
 export default async function NewProductPage() {
   // Server Component 中直接获取分类列表
-  const categories = await prisma.category.findMany({
-    orderBy: { name: 'asc' },
-  })
+  const [categories, attributes] = await Promise.all([
+    prisma.category.findMany({
+      orderBy: { name: 'asc' },
+    }),
+    getAllCategoryAttributes(), // 分类属性，表单按所选分类显示
+  ])
 
   return (
     <div>
       <h1 className="text-2xl font-bold text-gray-900 mb-6">新增商品</h1>
       {/* 将分类列表通过 props 传递给 Client Component */}
-      <ProductForm categories={categories} />
+      <ProductForm categories={categories} attributes={attributes} />
     </div>
   )
 }
@@ -14,6 +14,8 @@
 import Link from 'next/link'
 import { prisma } from '@/lib/prisma'
 import { formatPrice } from '@/lib/utils'
+import { coverImageQuery } from '@/lib/product-image'
+import { coverImageOf } from '@/lib/product-image-url'
 import ProductActions from './ProductActions'
 
 // 动态渲染
@@ -24,6 +26,7 @@ export default async function AdminProductsPage() {
   const products = await prisma.product.findMany({
     include: {
       category: { select: { name: true } },
+      images: coverImageQuery,
     },
     orderBy: { createdAt: 'desc' },
   })
@@ -63,7 +66,7 @@ export default async function AdminProductsPage() {
                   <td className="px-6 py-4">
                     <div className="flex items-center space-x-3">
                       <img
-                        src={(() => { try { return JSON.parse(product.images)[0] } catch { return '/placeholder.jpg' } })()}
+                        src={coverImageOf(product.images)}
                         alt={product.name}
                         className="w-10 h-10 rounded object-cover"
                       />
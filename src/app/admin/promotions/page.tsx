@@ -0,0 +1,403 @@
+/**
+ * 后台 - 促销活动页面
+ * ============================================================
+ *
+ * 【路由】/admin/promotions
+ *
+ * 管理员在这里创建自动生效的促销活动（用户不需要领取或输入任何代码）：
+ * - 满减：如全场满 300 减 50
+ * - 分类折扣：如图书分类 8 折
+ * - 买 X 送 Y：如指定商品买 2 送 1
+ * 同一商品命中多个商品级活动时只取优惠最大的一个；多个满减活动也只取优惠最大的一个。
+ */
+'use client'
+
+import { useEffect, useState } from 'react'
+import {
+  PROMOTION_TYPE_LABELS,
+  describePromotion,
+  type PromotionTypeValue,
+} from '@/lib/promotion-status'
+
+type Promotion = {
+  id: number
+  name: string
+  type: PromotionTypeValue
+  threshold: string | null
+  amount: string | null
+  percentOff: string | null
+  buyQuantity: number | null
+  freeQuantity: number | null
+  startsAt: string
+  endsAt: string
+  isActive: boolean
+  orderCount: number
+  categories: { id: number; name: string }[]
+  products: { id: number; name: string }[]
+}
+
+type Category = {
+  id: number
+  name: string
+}
+
+const emptyForm = {
+  name: '',
+  type: 'SPEND_AND_SAVE' as PromotionTypeValue,
+  threshold: '',
+  amount: '',
+  percentOff: '',
+  buyQuantity: '2',
+  freeQuantity: '1',
+  categoryIds: [] as number[],
+  productIds: '', // 商品 ID，用逗号分隔
+  startsAt: '',
+  endsAt: '',
+}
+
+export default function AdminPromotionsPage() {
+  const [promotions, setPromotions] = useState<Promotion[]>([])
+  const [categories, setCategories] = useState<Category[]>([])
+  const [loading, setLoading] = useState(true)
+  const [version, setVersion] = useState(0) // 自增后重新获取列表
+  const [showForm, setShowForm] = useState(false)
+  const [formData, setFormData] = useState(emptyForm)
+
+  useEffect(() => {
+    fetch('/api/admin/promotions')
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.success) setPromotions(data.data)
+      })
+      .catch(() => console.error('获取促销活动失败'))
+      .finally(() => setLoading(false))
+  }, [version])
+
+  // 分类列表（选择分类折扣的适用分类用）
+  useEffect(() => {
+    fetch('/api/admin/categories')
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.success) setCategories(data.data)
+      })
+      .catch(() => console.error('获取分类失败'))
+  }, [])
+
+  const refresh = () => setVersion((v) => v + 1)
+
+  const resetForm = () => {
+    setShowForm(false)
+    setFormData(emptyForm)
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const payload = {
+      name: formData.name,
+      type: formData.type,
+      threshold: formData.threshold ? parseFloat(formData.threshold) : undefined,
+      amount: formData.amount ? parseFloat(formData.amount) : undefined,
+      percentOff: formData.percentOff ? parseFloat(formData.percentOff) : undefined,
+      buyQuantity: parseInt(formData.buyQuantity) || undefined,
+      freeQuantity: parseInt(formData.freeQuantity) || undefined,
+      categoryIds: formData.categoryIds,
+      productIds: formData.productIds
+        .split(/[,，、\s]+/)
+        .map((id) => parseInt(id))
+        .filter((id) => id > 0),
+      // datetime-local 的值是本地时间，转成 ISO 字符串提交
+      startsAt: formData.startsAt ? new Date(formData.startsAt).toISOString() : '',
+      endsAt: formData.endsAt ? new Date(formData.endsAt).toISOString() : '',
+    }
+
+    try {
+      const res = await fetch('/api/admin/promotions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+      })
+      const data = await res.json()
+
+      if (data.success) {
+        refresh()
+        resetForm()
+      } else {
+        alert(data.message || '创建失败')
+      }
+    } catch {
+      alert('创建失败')
+    }
+  }
+
+  const handleToggle = async (promotion: Promotion) => {
+    try {
+      const res = await fetch(`/api/admin/promotions/${promotion.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ isActive: !promotion.isActive }),
+      })
+      const data = await res.json()
+      if (data.success) {
+        refresh()
+      } else {
+        alert(data.message || '操作失败')
+      }
+    } catch {
+      alert('操作失败')
+    }
+  }
+
+  const handleDelete = async (id: number) => {
+    if (!confirm('确定要删除此促销活动吗？已下单的订单不受影响。')) return
+    try {
+      const res = await fetch(`/api/admin/promotions/${id}`, { method: 'DELETE' })
+      const data = await res.json()
+      if (data.success) {
+        refresh()
+      } else {
+        alert(data.message || '删除失败')
+      }
+    } catch {
+      alert('删除失败')
+    }
+  }
+
+  const toggleCategory = (id: number) => {
+    setFormData({
+      ...formData,
+      categoryIds: formData.categoryIds.includes(id)
+        ? formData.categoryIds.filter((c) => c !== id)
+        : [...formData.categoryIds, id],
+    })
+  }
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-bold text-gray-900">促销活动</h1>
+        <button
+          onClick={() => { resetForm(); setShowForm(true) }}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm"
+        >
+          + 新增活动
+        </button>
+      </div>
+
+      {/* 新增表单 */}
+      {showForm && (
+        <form onSubmit={handleSubmit} className="bg-white rounded-xl border p-6 mb-6 space-y-4">
+          <h3 className="font-semibold">新增促销活动</h3>
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">活动名称</label>
+              <input
+                type="text" required
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                className="w-full px-4 py-2 border rounded-lg"
+                placeholder="如：全场满300减50"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">活动类型</label>
+              <select
+                value={formData.type}
+                onChange={(e) => setFormData({ ...formData, type: e.target.value as PromotionTypeValue })}
+                className="w-full px-4 py-2 border rounded-lg"
+              >
+                {Object.entries(PROMOTION_TYPE_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </div>
+            <div />
+
+            {/* 满减 */}
+            {formData.type === 'SPEND_AND_SAVE' && (
+              <>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">满 (元)</label>
+                  <input
+                    type="number" step="0.01" min="0.01" required
+                    value={formData.threshold}
+                    onChange={(e) => setFormData({ ...formData, threshold: e.target.value })}
+                    className="w-full px-4 py-2 border rounded-lg"
+                    placeholder="如：300"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">减 (元)</label>
+                  <input
+                    type="number" step="0.01" min="0.01" required
+                    value={formData.amount}
+                    onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+                    className="w-full px-4 py-2 border rounded-lg"
+                    placeholder="如：50"
+                  />
+                </div>
+                <div />
+              </>
+            )}
+
+            {/* 分类折扣 */}
+            {formData.type === 'CATEGORY_DISCOUNT' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">减免百分比 (%)</label>
+                <input
+                  type="number" step="0.01" min="1" max="99" required
+                  value={formData.percentOff}
+                  onChange={(e) => setFormData({ ...formData, percentOff: e.target.value })}
+                  className="w-full px-4 py-2 border rounded-lg"
+                  placeholder="如：20 表示 8 折"
+                />
+              </div>
+            )}
+
+            {/* 买 X 送 Y */}
+            {formData.type === 'BUY_X_GET_Y' && (
+              <>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">买 (件)</label>
+                  <input
+                    type="number" min="1" required
+                    value={formData.buyQuantity}
+                    onChange={(e) => setFormData({ ...formData, buyQuantity: e.target.value })}
+                    className="w-full px-4 py-2 border rounded-lg"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">送 (件)</label>
+                  <input
+                    type="number" min="1" required
+                    value={formData.freeQuantity}
+                    onChange={(e) => setFormData({ ...formData, freeQuantity: e.target.value })}
+                    className="w-full px-4 py-2 border rounded-lg"
+                  />
+                </div>
+                <div />
+              </>
+            )}
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">开始时间</label>
+              <input
+                type="datetime-local" required
+                value={formData.startsAt}
+                onChange={(e) => setFormData({ ...formData, startsAt: e.target.value })}
+                className="w-full px-4 py-2 border rounded-lg"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">结束时间</label>
+              <input
+                type="datetime-local" required
+                value={formData.endsAt}
+                onChange={(e) => setFormData({ ...formData, endsAt: e.target.value })}
+                className="w-full px-4 py-2 border rounded-lg"
+              />
+            </div>
+          </div>
+
+          {/* 适用分类 / 商品 */}
+          {formData.type === 'CATEGORY_DISCOUNT' && (
+            <div>
+              <p className="text-sm font-medium text-gray-700 mb-2">适用分类<span className="ml-1 text-xs font-normal text-gray-400">（包括子分类）</span></p>
+              <div className="flex flex-wrap gap-4">
+                {categories.map((category) => (
+                  <label key={category.id} className="flex items-center space-x-2 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={formData.categoryIds.includes(category.id)}
+                      onChange={() => toggleCategory(category.id)}
+                      className="rounded"
+                    />
+                    <span>{category.name}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+          {formData.type === 'BUY_X_GET_Y' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">适用商品 ID</label>
+              <input
+                type="text"
+                value={formData.productIds}
+                onChange={(e) => setFormData({ ...formData, productIds: e.target.value })}
+                className="w-full px-4 py-2 border rounded-lg"
+                placeholder="商品 ID，用逗号分隔，如：1，2，3"
+              />
+            </div>
+          )}
+
+          <div className="flex space-x-2">
+            <button type="submit" className="px-4 py-2 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700">
+              创建
+            </button>
+            <button type="button" onClick={resetForm} className="px-4 py-2 border text-sm rounded-lg hover:bg-gray-50">
+              取消
+            </button>
+          </div>
+        </form>
+      )}
+
+      {/* 活动列表 */}
+      <div className="bg-white rounded-xl shadow-sm border overflow-hidden">
+        <table className="w-full">
+          <thead className="bg-gray-50 border-b">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">名称</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">规则</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">适用范围</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">活动时间</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">参与订单</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">操作</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y">
+            {loading ? (
+              <tr><td colSpan={6} className="px-6 py-8 text-center text-gray-500">加载中...</td></tr>
+            ) : promotions.length === 0 ? (
+              <tr><td colSpan={6} className="px-6 py-8 text-center text-gray-500">暂无促销活动</td></tr>
+            ) : (
+              promotions.map((promotion) => (
+                <tr key={promotion.id} className="hover:bg-gray-50 text-sm">
+                  <td className="px-6 py-4">
+                    <p className="font-medium">{promotion.name}</p>
+                    <p className="text-xs text-gray-500">
+                      {PROMOTION_TYPE_LABELS[promotion.type]}
+                      {!promotion.isActive && <span className="ml-2 text-gray-400">已停用</span>}
+                    </p>
+                  </td>
+                  <td className="px-6 py-4 text-red-500">{describePromotion(promotion)}</td>
+                  <td className="px-6 py-4 text-gray-600">
+                    {promotion.type === 'SPEND_AND_SAVE' && '全场'}
+                    {promotion.type === 'CATEGORY_DISCOUNT' && promotion.categories.map((c) => c.name).join('、')}
+                    {promotion.type === 'BUY_X_GET_Y' && promotion.products.map((p) => p.name).join('、')}
+                  </td>
+                  <td className="px-6 py-4 text-xs text-gray-500">
+                    {new Date(promotion.startsAt).toLocaleString('zh-CN')}
+                    <br />
+                    至 {new Date(promotion.endsAt).toLocaleString('zh-CN')}
+                  </td>
+                  <td className="px-6 py-4 text-gray-600">{promotion.orderCount}</td>
+                  <td className="px-6 py-4 space-x-3">
+                    <button
+                      onClick={() => handleToggle(promotion)}
+                      className={promotion.isActive ? 'text-red-500 hover:text-red-400' : 'text-blue-600 hover:text-blue-500'}
+                    >
+                      {promotion.isActive ? '停用' : '启用'}
+                    </button>
+                    <button onClick={() => handleDelete(promotion.id)} className="text-red-500 hover:text-red-400">
+                      删除
+                    </button>
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,372 @@
+/**
+ * 后台 - 运费模板页面
+ * ============================================================
+ *
+ * 【路由】/admin/shipping
+ *
+ * 管理员在这里配置运费模板：计费方式（按重量 / 按件数）、包邮门槛，
+ * 以及按省份设置的首重（首件）和续重（续件）运费。
+ * 同一时间只有一个模板启用，下单时按启用的模板计算运费；没有启用的模板时全场包邮。
+ */
+'use client'
+
+import { useEffect, useState } from 'react'
+import { formatPrice } from '@/lib/utils'
+import {
+  SHIPPING_CHARGE_TYPE_LABELS,
+  SHIPPING_UNIT_LABELS,
+  type ShippingChargeTypeValue,
+} from '@/lib/shipping-format'
+
+type ShippingRule = {
+  id: number
+  provinces: string[]
+  firstUnit: number
+  firstFee: string
+  additionalUnit: number
+  additionalFee: string
+}
+
+type ShippingTemplate = {
+  id: number
+  name: string
+  chargeType: ShippingChargeTypeValue
+  freeThreshold: string | null
+  isActive: boolean
+  rules: ShippingRule[]
+}
+
+// 表单中的规则（输入框的值都是字符串，省份用逗号分隔）
+type RuleForm = {
+  provinces: string
+  firstUnit: string
+  firstFee: string
+  additionalUnit: string
+  additionalFee: string
+}
+
+const emptyRule: RuleForm = {
+  provinces: '',
+  firstUnit: '1',
+  firstFee: '0',
+  additionalUnit: '1',
+  additionalFee: '0',
+}
+
+const emptyForm = {
+  name: '',
+  chargeType: 'ITEM_COUNT' as ShippingChargeTypeValue,
+  freeThreshold: '',
+  isActive: false,
+  rules: [emptyRule],
+}
+
+export default function AdminShippingPage() {
+  const [templates, setTemplates] = useState<ShippingTemplate[]>([])
+  const [loading, setLoading] = useState(true)
+  const [version, setVersion] = useState(0) // 自增后重新获取列表
+  const [showForm, setShowForm] = useState(false)
+  const [editing, setEditing] = useState<ShippingTemplate | null>(null)
+  const [formData, setFormData] = useState(emptyForm)
+
+  useEffect(() => {
+    fetch('/api/admin/shipping-templates')
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.success) setTemplates(data.data)
+      })
+      .catch(() => console.error('获取运费模板失败'))
+      .finally(() => setLoading(false))
+  }, [version])
+
+  const refresh = () => setVersion((v) => v + 1)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const payload = {
+      name: formData.name,
+      chargeType: formData.chargeType,
+      freeThreshold: formData.freeThreshold ? parseFloat(formData.freeThreshold) : null,
+      isActive: formData.isActive,
+      rules: formData.rules.map((rule) => ({
+        provinces: rule.provinces
+          .split(/[,，、\s]+/)
+          .map((p) => p.trim())
+          .filter(Boolean),
+        firstUnit: parseInt(rule.firstUnit),
+        firstFee: parseFloat(rule.firstFee),
+        additionalUnit: parseInt(rule.additionalUnit),
+        additionalFee: parseFloat(rule.additionalFee),
+      })),
+    }
+
+    try {
+      const url = editing
+        ? `/api/admin/shipping-templates/${editing.id}`
+        : '/api/admin/shipping-templates'
+      const res = await fetch(url, {
+        method: editing ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+      })
+      const data = await res.json()
+
+      if (data.success) {
+        refresh()
+        resetForm()
+      } else {
+        alert(data.message || '操作失败')
+      }
+    } catch {
+      alert('操作失败')
+    }
+  }
+
+  const handleDelete = async (id: number) => {
+    if (!confirm('确定要删除此运费模板吗？')) return
+    try {
+      const res = await fetch(`/api/admin/shipping-templates/${id}`, { method: 'DELETE' })
+      const data = await res.json()
+      if (data.success) {
+        refresh()
+      } else {
+        alert(data.message || '删除失败')
+      }
+    } catch {
+      alert('删除失败')
+    }
+  }
+
+  const handleEdit = (template: ShippingTemplate) => {
+    setEditing(template)
+    setFormData({
+      name: template.name,
+      chargeType: template.chargeType,
+      freeThreshold: template.freeThreshold ?? '',
+      isActive: template.isActive,
+      rules: template.rules.map((rule) => ({
+        provinces: rule.provinces.join('，'),
+        firstUnit: String(rule.firstUnit),
+        firstFee: rule.firstFee,
+        additionalUnit: String(rule.additionalUnit),
+        additionalFee: rule.additionalFee,
+      })),
+    })
+    setShowForm(true)
+  }
+
+  const resetForm = () => {
+    setShowForm(false)
+    setEditing(null)
+    setFormData(emptyForm)
+  }
+
+  const updateRule = (index: number, patch: Partial<RuleForm>) => {
+    setFormData({
+      ...formData,
+      rules: formData.rules.map((rule, i) => (i === index ? { ...rule, ...patch } : rule)),
+    })
+  }
+
+  const unit = SHIPPING_UNIT_LABELS[formData.chargeType]
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-bold text-gray-900">运费模板</h1>
+        <button
+          onClick={() => { resetForm(); setShowForm(true) }}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm"
+        >
+          + 新增模板
+        </button>
+      </div>
+
+      {/* 新增/编辑表单 */}
+      {showForm && (
+        <form onSubmit={handleSubmit} className="bg-white rounded-xl border p-6 mb-6 space-y-4">
+          <h3 className="font-semibold">{editing ? '编辑运费模板' : '新增运费模板'}</h3>
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">模板名称</label>
+              <input
+                type="text" required
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                className="w-full px-4 py-2 border rounded-lg"
+                placeholder="如：默认运费"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">计费方式</label>
+              <select
+                value={formData.chargeType}
+                onChange={(e) =>
+                  setFormData({ ...formData, chargeType: e.target.value as ShippingChargeTypeValue })
+                }
+                className="w-full px-4 py-2 border rounded-lg"
+              >
+                {Object.entries(SHIPPING_CHARGE_TYPE_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">包邮门槛 (元，可选)</label>
+              <input
+                type="number" step="0.01" min="0"
+                value={formData.freeThreshold}
+                onChange={(e) => setFormData({ ...formData, freeThreshold: e.target.value })}
+                className="w-full px-4 py-2 border rounded-lg"
+                placeholder="商品金额满多少包邮"
+              />
+            </div>
+          </div>
+
+          {/* 运费规则 */}
+          <div>
+            <p className="text-sm font-medium text-gray-700 mb-2">
+              运费规则（省份留空为默认规则，适用于其他省份；没有默认规则时，未列出的省份不配送）
+            </p>
+            <div className="space-y-2">
+              {formData.rules.map((rule, index) => (
+                <div key={index} className="flex items-center gap-2 text-sm">
+                  <input
+                    type="text"
+                    value={rule.provinces}
+                    onChange={(e) => updateRule(index, { provinces: e.target.value })}
+                    className="flex-1 px-3 py-2 border rounded-lg"
+                    placeholder="省份，用逗号分隔，如：新疆，西藏"
+                  />
+                  <span>首</span>
+                  <input
+                    type="number" min="1" required
+                    value={rule.firstUnit}
+                    onChange={(e) => updateRule(index, { firstUnit: e.target.value })}
+                    className="w-20 px-2 py-2 border rounded-lg"
+                  />
+                  <span>{unit}</span>
+                  <input
+                    type="number" step="0.01" min="0" required
+                    value={rule.firstFee}
+                    onChange={(e) => updateRule(index, { firstFee: e.target.value })}
+                    className="w-20 px-2 py-2 border rounded-lg"
+                  />
+                  <span>元，续</span>
+                  <input
+                    type="number" min="1" required
+                    value={rule.additionalUnit}
+                    onChange={(e) => updateRule(index, { additionalUnit: e.target.value })}
+                    className="w-20 px-2 py-2 border rounded-lg"
+                  />
+                  <span>{unit}</span>
+                  <input
+                    type="number" step="0.01" min="0" required
+                    value={rule.additionalFee}
+                    onChange={(e) => updateRule(index, { additionalFee: e.target.value })}
+                    className="w-20 px-2 py-2 border rounded-lg"
+                  />
+                  <span>元</span>
+                  <button
+                    type="button"
+                    onClick={() =>
+                      setFormData({ ...formData, rules: formData.rules.filter((_, i) => i !== index) })
+                    }
+                    disabled={formData.rules.length <= 1}
+                    className="text-red-500 hover:text-red-400 disabled:opacity-30"
+                  >
+                    删除
+                  </button>
+                </div>
+              ))}
+            </div>
+            <button
+              type="button"
+              onClick={() => setFormData({ ...formData, rules: [...formData.rules, emptyRule] })}
+              className="mt-2 text-sm text-blue-600 hover:text-blue-500"
+            >
+              + 添加规则
+            </button>
+          </div>
+
+          <label className="flex items-center space-x-2">
+            <input
+              type="checkbox"
+              checked={formData.isActive}
+              onChange={(e) => setFormData({ ...formData, isActive: e.target.checked })}
+              className="rounded"
+            />
+            <span className="text-sm text-gray-700">启用（会停用其他模板）</span>
+          </label>
+
+          <div className="flex space-x-2">
+            <button type="submit" className="px-4 py-2 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700">
+              {editing ? '保存' : '创建'}
+            </button>
+            <button type="button" onClick={resetForm} className="px-4 py-2 border text-sm rounded-lg hover:bg-gray-50">
+              取消
+            </button>
+          </div>
+        </form>
+      )}
+
+      {/* 模板列表 */}
+      <div className="space-y-4">
+        {loading ? (
+          <div className="bg-white rounded-xl border p-8 text-center text-gray-500">加载中...</div>
+        ) : templates.length === 0 ? (
+          <div className="bg-white rounded-xl border p-8 text-center text-gray-500">
+            暂无运费模板，当前全场包邮
+          </div>
+        ) : (
+          templates.map((template) => (
+            <div key={template.id} className="bg-white rounded-xl shadow-sm border p-6">
+              <div className="flex justify-between items-center mb-3">
+                <div className="flex items-center gap-2">
+                  <h3 className="font-semibold">{template.name}</h3>
+                  <span className="text-xs bg-gray-100 text-gray-600 px-2 py-0.5 rounded">
+                    {SHIPPING_CHARGE_TYPE_LABELS[template.chargeType]}
+                  </span>
+                  {template.isActive && (
+                    <span className="text-xs bg-green-100 text-green-700 px-2 py-0.5 rounded">已启用</span>
+                  )}
+                  {template.freeThreshold && (
+                    <span className="text-xs text-gray-500">满 {formatPrice(template.freeThreshold)} 包邮</span>
+                  )}
+                </div>
+                <div className="flex items-center space-x-2 text-sm">
+                  <button onClick={() => handleEdit(template)} className="text-blue-600 hover:text-blue-500">编辑</button>
+                  <button onClick={() => handleDelete(template.id)} className="text-red-500 hover:text-red-400">删除</button>
+                </div>
+              </div>
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 text-gray-500">
+                  <tr>
+                    <th className="px-4 py-2 text-left">适用省份</th>
+                    <th className="px-4 py-2 text-left">{template.chargeType === 'WEIGHT' ? '首重' : '首件'}</th>
+                    <th className="px-4 py-2 text-left">{template.chargeType === 'WEIGHT' ? '续重' : '续件'}</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {template.rules.map((rule) => (
+                    <tr key={rule.id}>
+                      <td className="px-4 py-2">
+                        {rule.provinces.length > 0 ? rule.provinces.join('、') : '默认（其他省份）'}
+                      </td>
+                      <td className="px-4 py-2">
+                        {rule.firstUnit} {SHIPPING_UNIT_LABELS[template.chargeType]} / {formatPrice(rule.firstFee)}
+                      </td>
+                      <td className="px-4 py-2">
+                        每 {rule.additionalUnit} {SHIPPING_UNIT_LABELS[template.chargeType]} / {formatPrice(rule.additionalFee)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  )
+}
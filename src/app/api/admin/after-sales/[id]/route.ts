@@ -0,0 +1,86 @@
+/**
+ * 管理后台 - 售后审核 API
+ * ============================================================
+ *
+ * 【路由】PATCH /api/admin/after-sales/:id
+ *
+ * 请求体 { action, amount?, note? }：
+ * - approve：同意，退货退款的商品归还库存，然后通过支付渠道退款
+ * - reject：拒绝（note 必填，会展示给用户）
+ * - refund：退款失败后重试
+ *
+ * 同意后如果退款失败（支付渠道超时等），售后单会停留在"退款中"，
+ * 接口返回 502 和失败原因，管理员稍后可以重试退款。
+ */
+
+import { NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { reviewAfterSaleSchema } from '@/lib/validators'
+import { PaymentProviderError } from '@/lib/payment'
+import {
+  approveAfterSale,
+  rejectAfterSale,
+  refundAfterSale,
+  AfterSaleError,
+} from '@/lib/after-sale'
+
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await auth()
+  if (!session?.user || session.user.role !== 'ADMIN') {
+    return NextResponse.json(
+      { success: false, message: '无权限' },
+      { status: 403 }
+    )
+  }
+
+  try {
+    const { id } = await params
+    const body = await request.json()
+    const result = reviewAfterSaleSchema.safeParse(body)
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, message: result.error.issues[0]?.message },
+        { status: 400 }
+      )
+    }
+
+    const { action, amount, note } = result.data
+    const afterSaleId = parseInt(id)
+    const options = { adminId: session.user.id, note }
+
+    const afterSale =
+      action === 'approve'
+        ? await approveAfterSale(afterSaleId, { ...options, amount })
+        : action === 'reject'
+          ? await rejectAfterSale(afterSaleId, options)
+          : await refundAfterSale(afterSaleId)
+
+    return NextResponse.json({
+      success: true,
+      message: action === 'reject' ? '已拒绝售后申请' : '退款成功',
+      data: { ...afterSale, amount: afterSale.amount.toString() },
+    })
+  } catch (error) {
+    if (error instanceof AfterSaleError) {
+      return NextResponse.json(
+        { success: false, message: error.message },
+        { status: 400 }
+      )
+    }
+    if (error instanceof PaymentProviderError) {
+      return NextResponse.json(
+        { success: false, message: `退款失败：${error.message}，请稍后重试退款` },
+        { status: 502 }
+      )
+    }
+    console.error('处理售后失败:', error)
+    return NextResponse.json(
+      { success: false, message: '处理售后失败' },
+      { status: 500 }
+    )
+  }
+}
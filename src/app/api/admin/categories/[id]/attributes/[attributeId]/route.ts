@@ -0,0 +1,80 @@
+/**
+ * 管理后台 - 分类属性单项操作 API
+ * ============================================================
+ *
+ * 【路由】
+ * PUT    /api/admin/categories/:id/attributes/:attributeId → 修改属性定义
+ * DELETE /api/admin/categories/:id/attributes/:attributeId → 删除属性（商品的该属性值一并删除）
+ */
+
+import { NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { categoryAttributeSchema } from '@/lib/validators'
+import {
+  deleteCategoryAttribute,
+  updateCategoryAttribute,
+  ProductAttributeError,
+} from '@/lib/product-attribute'
+
+async function checkAdmin() {
+  const session = await auth()
+  if (!session?.user || session.user.role !== 'ADMIN') return null
+  return session
+}
+
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ id: string; attributeId: string }> }
+) {
+  if (!(await checkAdmin())) {
+    return NextResponse.json({ success: false, message: '无权限' }, { status: 403 })
+  }
+
+  try {
+    const { id, attributeId } = await params
+    const body = await request.json()
+    const result = categoryAttributeSchema.safeParse(body)
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, message: result.error.issues[0]?.message },
+        { status: 400 }
+      )
+    }
+
+    const attribute = await updateCategoryAttribute(
+      parseInt(id),
+      parseInt(attributeId),
+      result.data
+    )
+
+    return NextResponse.json({ success: true, message: '更新成功', data: attribute })
+  } catch (error) {
+    if (error instanceof ProductAttributeError) {
+      return NextResponse.json({ success: false, message: error.message }, { status: 400 })
+    }
+    console.error('更新分类属性失败:', error)
+    return NextResponse.json({ success: false, message: '更新失败' }, { status: 500 })
+  }
+}
+
+export async function DELETE(
+  _request: Request,
+  { params }: { params: Promise<{ id: string; attributeId: string }> }
+) {
+  if (!(await checkAdmin())) {
+    return NextResponse.json({ success: false, message: '无权限' }, { status: 403 })
+  }
+
+  try {
+    const { id, attributeId } = await params
+    await deleteCategoryAttribute(parseInt(id), parseInt(attributeId))
+    return NextResponse.json({ success: true, message: '删除成功' })
+  } catch (error) {
+    if (error instanceof ProductAttributeError) {
+      return NextResponse.json({ success: false, message: error.message }, { status: 400 })
+    }
+    console.error('删除分类属性失败:', error)
+    return NextResponse.json({ success: false, message: '删除失败' }, { status: 500 })
+  }
+}
@@ -0,0 +1,76 @@
+/**
+ * 管理后台 - 分类属性 API
+ * ============================================================
+ *
+ * 【路由】
+ * GET  /api/admin/categories/:id/attributes → 分类适用的全部属性（含上级分类定义的属性）
+ * POST /api/admin/categories/:id/attributes → 为分类定义属性
+ *
+ * 返回的属性带 categoryId，不等于当前分类的是从上级分类继承的属性，
+ * 需要到上级分类中修改。
+ */
+
+import { NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { categoryAttributeSchema } from '@/lib/validators'
+import {
+  createCategoryAttribute,
+  getCategoryAttributes,
+  ProductAttributeError,
+} from '@/lib/product-attribute'
+
+async function checkAdmin() {
+  const session = await auth()
+  if (!session?.user || session.user.role !== 'ADMIN') return null
+  return session
+}
+
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  if (!(await checkAdmin())) {
+    return NextResponse.json({ success: false, message: '无权限' }, { status: 403 })
+  }
+
+  try {
+    const { id } = await params
+    const attributes = await getCategoryAttributes(parseInt(id))
+    return NextResponse.json({ success: true, data: attributes })
+  } catch (error) {
+    console.error('获取分类属性失败:', error)
+    return NextResponse.json({ success: false, message: '获取失败' }, { status: 500 })
+  }
+}
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  if (!(await checkAdmin())) {
+    return NextResponse.json({ success: false, message: '无权限' }, { status: 403 })
+  }
+
+  try {
+    const { id } = await params
+    const body = await request.json()
+    const result = categoryAttributeSchema.safeParse(body)
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, message: result.error.issues[0]?.message },
+        { status: 400 }
+      )
+    }
+
+    const attribute = await createCategoryAttribute(parseInt(id), result.data)
+
+    return NextResponse.json({ success: true, message: '创建成功', data: attribute })
+  } catch (error) {
+    if (error instanceof ProductAttributeError) {
+      return NextResponse.json({ success: false, message: error.message }, { status: 400 })
+    }
+    console.error('创建分类属性失败:', error)
+    return NextResponse.json({ success: false, message: '创建失败' }, { status: 500 })
+  }
+}
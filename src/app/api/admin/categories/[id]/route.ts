@@ -3,14 +3,24 @@
  * ============================================================
  *
  * 【路由】
- * PUT    /api/admin/categories/:id → 更新分类
+ * PUT    /api/admin/categories/:id → 更新分类（名称、标识、图片）
+ * PATCH  /api/admin/categories/:id → 移动分类，请求体 { parentId, index }（后台拖拽）
  * DELETE /api/admin/categories/:id → 删除分类
+ *
+ * 删除有子分类或商品的分类时，请求体需要指定迁移目标：
+ * { childrenParentId?: number | null, productsCategoryId?: number }
+ * 没有指定时返回 400 和需要迁移的数量，页面据此让管理员选择。
  */
 
 import { NextResponse } from 'next/server'
 import { auth } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
-import { categorySchema } from '@/lib/validators'
+import {
+  categorySchema,
+  deleteCategorySchema,
+  moveCategorySchema,
+} from '@/lib/validators'
+import { deleteCategory, moveCategory, CategoryError } from '@/lib/category'
 
 async function checkAdmin() {
   const session = await auth()
@@ -65,8 +75,8 @@ export async function PUT(
   }
 }
 
-export async function DELETE(
-  _request: Request,
+export async function PATCH(
+  request: Request,
   { params }: { params: Promise<{ id: string }> }
 ) {
   if (!(await checkAdmin())) {
@@ -75,25 +85,56 @@ export async function DELETE(
 
   try {
     const { id } = await params
+    const body = await request.json()
+    const result = moveCategorySchema.safeParse(body)
 
-    // 检查分类下是否有商品
-    const productCount = await prisma.product.count({
-      where: { categoryId: parseInt(id) },
-    })
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, message: result.error.issues[0]?.message },
+        { status: 400 }
+      )
+    }
+
+    await moveCategory(parseInt(id), result.data)
+
+    return NextResponse.json({ success: true, message: '移动成功' })
+  } catch (error) {
+    if (error instanceof CategoryError) {
+      return NextResponse.json({ success: false, message: error.message }, { status: 400 })
+    }
+    console.error('移动分类失败:', error)
+    return NextResponse.json({ success: false, message: '移动失败' }, { status: 500 })
+  }
+}
 
-    if (productCount > 0) {
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  if (!(await checkAdmin())) {
+    return NextResponse.json({ success: false, message: '无权限' }, { status: 403 })
+  }
+
+  try {
+    const { id } = await params
+    // 空分类直接删除，可以不带请求体
+    const text = await request.text()
+    const result = deleteCategorySchema.safeParse(text ? JSON.parse(text) : {})
+
+    if (!result.success) {
       return NextResponse.json(
-        { success: false, message: `该分类下还有 ${productCount} 个商品，请先移除或迁移商品` },
+        { success: false, message: result.error.issues[0]?.message },
         { status: 400 }
       )
     }
 
-    await prisma.category.delete({
-      where: { id: parseInt(id) },
-    })
+    await deleteCategory(parseInt(id), result.data)
 
     return NextResponse.json({ success: true, message: '删除成功' })
   } catch (error) {
+    if (error instanceof CategoryError) {
+      return NextResponse.json({ success: false, message: error.message }, { status: 400 })
+    }
     console.error('删除分类失败:', error)
     return NextResponse.json({ success: false, message: '删除失败' }, { status: 500 })
   }
@@ -3,14 +3,15 @@
  * ============================================================
  *
  * 【路由】
- * GET  /api/admin/categories → 获取所有分类（含商品计数）
- * POST /api/admin/categories → 创建新分类
+ * GET  /api/admin/categories → 获取所有分类（扁平列表，含商品和子分类计数，由页面组装成树）
+ * POST /api/admin/categories → 创建新分类（可选 parentId 作为子分类，排在同级最后）
  */
 
 import { NextResponse } from 'next/server'
 import { auth } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
 import { categorySchema } from '@/lib/validators'
+import { createCategory, CategoryError } from '@/lib/category'
 
 async function checkAdmin() {
   const session = await auth()
@@ -25,8 +26,8 @@ export async function GET() {
 
   try {
     const categories = await prisma.category.findMany({
-      include: { _count: { select: { products: true } } },
-      orderBy: { id: 'asc' },
+      include: { _count: { select: { products: true, children: true } } },
+      orderBy: [{ sortOrder: 'asc' }, { id: 'asc' }],
     })
     return NextResponse.json({ success: true, data: categories })
   } catch (error) {
@@ -62,16 +63,13 @@ export async function POST(request: Request) {
       )
     }
 
-    const category = await prisma.category.create({
-      data: {
-        name: result.data.name,
-        slug: result.data.slug,
-        image: result.data.image || null,
-      },
-    })
+    const category = await createCategory(result.data)
 
     return NextResponse.json({ success: true, message: '创建成功', data: category })
   } catch (error) {
+    if (error instanceof CategoryError) {
+      return NextResponse.json({ success: false, message: error.message }, { status: 400 })
+    }
     console.error('创建分类失败:', error)
     return NextResponse.json({ success: false, message: '创建失败' }, { status: 500 })
   }
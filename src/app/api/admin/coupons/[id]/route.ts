@@ -0,0 +1,49 @@
+/**
+ * 管理后台 - 优惠券单项操作 API
+ * ============================================================
+ *
+ * 【路由】
+ * PATCH /api/admin/coupons/:id → 启用 / 停用优惠券
+ *
+ * 优惠券被领取后，用户券包里的券引用着它，所以不提供删除和修改优惠规则，
+ * 只能停用：停用后不能再领取，已领取的券也不能再使用。
+ */
+
+import { NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { serializeCoupon } from '@/lib/coupon'
+
+async function checkAdmin() {
+  const session = await auth()
+  if (!session?.user || session.user.role !== 'ADMIN') return null
+  return session
+}
+
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  if (!(await checkAdmin())) {
+    return NextResponse.json({ success: false, message: '无权限' }, { status: 403 })
+  }
+
+  try {
+    const { id } = await params
+    const body = await request.json()
+
+    if (typeof body.isActive !== 'boolean') {
+      return NextResponse.json({ success: false, message: '无效的状态' }, { status: 400 })
+    }
+
+    const coupon = await prisma.coupon.update({
+      where: { id: parseInt(id) },
+      data: { isActive: body.isActive },
+    })
+
+    return NextResponse.json({ success: true, message: '更新成功', data: serializeCoupon(coupon) })
+  } catch (error) {
+    console.error('更新优惠券失败:', error)
+    return NextResponse.json({ success: false, message: '更新失败' }, { status: 500 })
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * 管理后台 - 优惠券 API
+ * ============================================================
+ *
+ * 【路由】
+ * GET  /api/admin/coupons → 获取所有优惠券（含领取、使用数量）
+ * POST /api/admin/coupons → 创建优惠券
+ */
+
+import { NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { createCoupon, serializeCoupon } from '@/lib/coupon'
+import { couponSchema } from '@/lib/validators'
+
+async function checkAdmin() {
+  const session = await auth()
+  if (!session?.user || session.user.role !== 'ADMIN') return null
+  return session
+}
+
+export async function GET() {
+  if (!(await checkAdmin())) {
+    return NextResponse.json({ success: false, message: '无权限' }, { status: 403 })
+  }
+
+  try {
+    const coupons = await prisma.coupon.findMany({
+      include: {
+        categories: { select: { id: true, name: true } },
+        products: { select: { id: true, name: true } },
+        _count: { select: { userCoupons: { where: { status: 'USED' } } } },
+      },
+      orderBy: { id: 'desc' },
+    })
+
+    const serialized = coupons.map(({ _count, ...coupon }) => ({
+      ...serializeCoupon(coupon),
+      usedCount: _count.userCoupons, // 已使用的张数
+    }))
+
+    return NextResponse.json({ success: true, data: serialized })
+  } catch (error) {
+    console.error('获取优惠券失败:', error)
+    return NextResponse.json({ success: false, message: '获取失败' }, { status: 500 })
+  }
+}
+
+export async function POST(request: Request) {
+  if (!(await checkAdmin())) {
+    return NextResponse.json({ success: false, message: '无权限' }, { status: 403 })
+  }
+
+  try {
+    const body = await request.json()
+    const result = couponSchema.safeParse(body)
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, message: result.error.issues[0]?.message },
+        { status: 400 }
+      )
+    }
+
+    const coupon = await createCoupon(result.data)
+
+    return NextResponse.json({ success: true, message: '创建成功', data: serializeCoupon(coupon) })
+  } catch (error) {
+    console.error('创建优惠券失败:', error)
+    return NextResponse.json({ success: false, message: '创建失败' }, { status: 500 })
+  }
+}
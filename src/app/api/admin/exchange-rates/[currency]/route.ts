@@ -0,0 +1,68 @@
+/**
+ * 管理后台 - 单个币种的汇率 API
+ * ============================================================
+ *
+ * 【路由】
+ * PUT /api/admin/exchange-rates/HKD → 设置港币的汇率和启用状态（第一次设置时创建）
+ *
+ * 修改汇率只影响之后的价格显示和新订单，已下单的订单保留下单时的汇率快照。
+ */
+
+import { NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { saveExchangeRate, serializeExchangeRate } from '@/lib/currency'
+import { BASE_CURRENCY, isCurrencyCode } from '@/lib/currency-format'
+import { exchangeRateSchema } from '@/lib/validators'
+
+async function checkAdmin() {
+  const session = await auth()
+  if (!session?.user || session.user.role !== 'ADMIN') {
+    return null
+  }
+  return session
+}
+
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ currency: string }> }
+) {
+  if (!(await checkAdmin())) {
+    return NextResponse.json(
+      { success: false, message: '无权限' },
+      { status: 403 }
+    )
+  }
+
+  try {
+    const { currency } = await params
+    if (!isCurrencyCode(currency) || currency === BASE_CURRENCY) {
+      return NextResponse.json(
+        { success: false, message: '不支持的币种' },
+        { status: 400 }
+      )
+    }
+
+    const body = await request.json()
+    const result = exchangeRateSchema.safeParse(body)
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, message: result.error.issues[0]?.message },
+        { status: 400 }
+      )
+    }
+
+    const rate = await saveExchangeRate(currency, result.data)
+
+    return NextResponse.json({
+      success: true,
+      message: '保存成功',
+      data: serializeExchangeRate(rate),
+    })
+  } catch (error) {
+    console.error('保存汇率失败:', error)
+    return NextResponse.json(
+      { success: false, message: '保存失败' },
+      { status: 500 }
+    )
+  }
+}
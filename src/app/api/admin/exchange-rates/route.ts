@@ -0,0 +1,50 @@
+/**
+ * 管理后台 - 汇率 API
+ * ============================================================
+ *
+ * 【路由】
+ * GET /api/admin/exchange-rates → 获取所有支持的币种及其汇率（还没设置的币种 rate 为 null）
+ */
+
+import { NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { serializeExchangeRate } from '@/lib/currency'
+import { BASE_CURRENCY, CURRENCY_CODES } from '@/lib/currency-format'
+
+async function checkAdmin() {
+  const session = await auth()
+  if (!session?.user || session.user.role !== 'ADMIN') {
+    return null
+  }
+  return session
+}
+
+export async function GET() {
+  if (!(await checkAdmin())) {
+    return NextResponse.json(
+      { success: false, message: '无权限' },
+      { status: 403 }
+    )
+  }
+
+  try {
+    const rates = await prisma.exchangeRate.findMany()
+
+    // 基准币种（人民币）不需要汇率，其余支持的币种都列出来
+    const data = CURRENCY_CODES.filter((currency) => currency !== BASE_CURRENCY).map((currency) => {
+      const rate = rates.find((r) => r.currency === currency)
+      return rate
+        ? serializeExchangeRate(rate)
+        : { id: null, currency, rate: null, isActive: false, updatedAt: null }
+    })
+
+    return NextResponse.json({ success: true, data })
+  } catch (error) {
+    console.error('获取汇率失败:', error)
+    return NextResponse.json(
+      { success: false, message: '获取失败' },
+      { status: 500 }
+    )
+  }
+}
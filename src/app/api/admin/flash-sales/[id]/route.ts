@@ -0,0 +1,48 @@
+/**
+ * 管理后台 - 秒杀活动单项操作 API
+ * ============================================================
+ *
+ * 【路由】
+ * PATCH /api/admin/flash-sales/:id → 启用 / 停用秒杀活动
+ *
+ * 秒杀订单的商品项关联着活动（统计每人限购、取消时归还活动库存），
+ * 所以不提供删除，只能停用：停用后商品立即恢复原价。
+ */
+
+import { NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { FlashSaleError, serializeFlashSale, setFlashSaleActive } from '@/lib/flash-sale'
+
+async function checkAdmin() {
+  const session = await auth()
+  if (!session?.user || session.user.role !== 'ADMIN') return null
+  return session
+}
+
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  if (!(await checkAdmin())) {
+    return NextResponse.json({ success: false, message: '无权限' }, { status: 403 })
+  }
+
+  try {
+    const { id } = await params
+    const body = await request.json()
+
+    if (typeof body.isActive !== 'boolean') {
+      return NextResponse.json({ success: false, message: '无效的状态' }, { status: 400 })
+    }
+
+    const flashSale = await setFlashSaleActive(parseInt(id), body.isActive)
+
+    return NextResponse.json({ success: true, message: '更新成功', data: serializeFlashSale(flashSale) })
+  } catch (error) {
+    if (error instanceof FlashSaleError) {
+      return NextResponse.json({ success: false, message: error.message }, { status: 400 })
+    }
+    console.error('更新秒杀活动失败:', error)
+    return NextResponse.json({ success: false, message: '更新失败' }, { status: 500 })
+  }
+}
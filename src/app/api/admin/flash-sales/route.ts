@@ -0,0 +1,73 @@
+/**
+ * 管理后台 - 秒杀活动 API
+ * ============================================================
+ *
+ * 【路由】
+ * GET  /api/admin/flash-sales → 获取所有秒杀活动（含商品信息）
+ * POST /api/admin/flash-sales → 创建秒杀活动
+ */
+
+import { NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { createFlashSale, FlashSaleError, serializeFlashSale } from '@/lib/flash-sale'
+import { flashSaleSchema } from '@/lib/validators'
+
+async function checkAdmin() {
+  const session = await auth()
+  if (!session?.user || session.user.role !== 'ADMIN') return null
+  return session
+}
+
+export async function GET() {
+  if (!(await checkAdmin())) {
+    return NextResponse.json({ success: false, message: '无权限' }, { status: 403 })
+  }
+
+  try {
+    const flashSales = await prisma.flashSale.findMany({
+      include: {
+        product: { select: { id: true, name: true, price: true } },
+      },
+      orderBy: { startsAt: 'desc' },
+    })
+
+    const serialized = flashSales.map((flashSale) => ({
+      ...serializeFlashSale(flashSale),
+      product: { ...flashSale.product, price: flashSale.product.price.toString() },
+    }))
+
+    return NextResponse.json({ success: true, data: serialized })
+  } catch (error) {
+    console.error('获取秒杀活动失败:', error)
+    return NextResponse.json({ success: false, message: '获取失败' }, { status: 500 })
+  }
+}
+
+export async function POST(request: Request) {
+  if (!(await checkAdmin())) {
+    return NextResponse.json({ success: false, message: '无权限' }, { status: 403 })
+  }
+
+  try {
+    const body = await request.json()
+    const result = flashSaleSchema.safeParse(body)
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, message: result.error.issues[0]?.message },
+        { status: 400 }
+      )
+    }
+
+    const flashSale = await createFlashSale(result.data)
+
+    return NextResponse.json({ success: true, message: '创建成功', data: serializeFlashSale(flashSale) })
+  } catch (error) {
+    if (error instanceof FlashSaleError) {
+      return NextResponse.json({ success: false, message: error.message }, { status: 400 })
+    }
+    console.error('创建秒杀活动失败:', error)
+    return NextResponse.json({ success: false, message: '创建失败' }, { status: 500 })
+  }
+}
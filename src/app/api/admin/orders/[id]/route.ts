@@ -4,12 +4,18 @@
  *
  * 【路由】PATCH /api/admin/orders/:id
  *
- * 管理员可以更新订单的状态（发货、完成、取消等）。
+ * 管理员可以更新订单的状态（完成、取消等）。
+ * 发货需要填写快递信息，请使用 POST /api/admin/orders/:id/shipments。
+ * 不能手动改为"已付款"：订单只有在支付渠道确认到账后才会变为已付款（见 lib/payment）。
+ * 所有变更都经过 transitionOrder()：
+ * - 非法流转（如 COMPLETED → PENDING）会被拒绝
+ * - 取消时自动归还库存，已付款的订单自动全额退款
+ * - 自动记录状态历史（操作者为当前管理员）
  */
 
 import { NextResponse } from 'next/server'
 import { auth } from '@/lib/auth'
-import { prisma } from '@/lib/prisma'
+import { transitionOrder, OrderActionError } from '@/lib/order'
 
 export async function PATCH(
   request: Request,
@@ -26,7 +32,7 @@ export async function PATCH(
   try {
     const { id } = await params
     const body = await request.json()
-    const { status } = body
+    const { status, note } = body
 
     // 验证状态值是否合法
     const validStatuses = ['PENDING', 'PAID', 'SHIPPED', 'COMPLETED', 'CANCELLED']
@@ -37,9 +43,25 @@ export async function PATCH(
       )
     }
 
-    const order = await prisma.order.update({
-      where: { id: parseInt(id) },
-      data: { status },
+    // 已付款只能由支付渠道的结果触发，管理员不能手动标记
+    if (status === 'PAID') {
+      return NextResponse.json(
+        { success: false, message: '订单需要通过支付渠道完成支付，不能手动标记为已付款' },
+        { status: 400 }
+      )
+    }
+
+    // 发货必须带上快递公司和单号，不能只改状态
+    if (status === 'SHIPPED') {
+      return NextResponse.json(
+        { success: false, message: '发货请填写快递公司和快递单号' },
+        { status: 400 }
+      )
+    }
+
+    const order = await transitionOrder(parseInt(id), status, {
+      operator: { type: 'ADMIN', userId: session.user.id },
+      note: typeof note === 'string' ? note : undefined,
     })
 
     return NextResponse.json({
@@ -48,6 +70,12 @@ export async function PATCH(
       data: { ...order, totalAmount: order.totalAmount.toString() },
     })
   } catch (error) {
+    if (error instanceof OrderActionError) {
+      return NextResponse.json(
+        { success: false, message: error.message },
+        { status: 400 }
+      )
+    }
     console.error('更新订单状态失败:', error)
     return NextResponse.json(
       { success: false, message: '更新失败' },
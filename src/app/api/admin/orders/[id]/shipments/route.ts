@@ -0,0 +1,66 @@
+/**
+ * 管理后台 - 订单发货 API
+ * ============================================================
+ *
+ * 【路由】POST /api/admin/orders/:id/shipments
+ *
+ * 请求体 { carrier, trackingNo, items? }：
+ * - carrier：快递公司编码（见 lib/shipment-status.ts）
+ * - trackingNo：快递单号
+ * - items：本次发货的商品 [{ orderItemId, quantity }]，不传则发出全部未发货商品
+ *
+ * 支持分批发货：同一订单可以多次调用，每次生成一个包裹。
+ * 第一个包裹发出时订单变为"已发货"。
+ */
+
+import { NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { createShipmentSchema } from '@/lib/validators'
+import { createShipment } from '@/lib/shipment'
+import { OrderActionError } from '@/lib/order'
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await auth()
+  if (!session?.user || session.user.role !== 'ADMIN') {
+    return NextResponse.json(
+      { success: false, message: '无权限' },
+      { status: 403 }
+    )
+  }
+
+  try {
+    const { id } = await params
+    const body = await request.json()
+    const result = createShipmentSchema.safeParse(body)
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, message: result.error.issues[0]?.message },
+        { status: 400 }
+      )
+    }
+
+    const shipment = await createShipment(parseInt(id), result.data, session.user.id)
+
+    return NextResponse.json({
+      success: true,
+      message: '发货成功',
+      data: shipment,
+    })
+  } catch (error) {
+    if (error instanceof OrderActionError) {
+      return NextResponse.json(
+        { success: false, message: error.message },
+        { status: 400 }
+      )
+    }
+    console.error('发货失败:', error)
+    return NextResponse.json(
+      { success: false, message: '发货失败' },
+      { status: 500 }
+    )
+  }
+}
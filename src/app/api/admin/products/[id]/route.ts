@@ -3,13 +3,22 @@
  * ============================================================
  *
  * 【路由】
- * PATCH  /api/admin/products/:id → 更新商品信息
+ * PATCH  /api/admin/products/:id → 更新商品信息（带上 options、variants 时同时保存规格，带上 images 时整体替换图片，
+ *                                    带上 attributes 时整体替换属性值）
  * DELETE /api/admin/products/:id → 删除商品
  */
 
 import { NextResponse } from 'next/server'
 import { auth } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
+import {
+  productAttributesSchema,
+  productSchema,
+  productVariantsSchema,
+} from '@/lib/validators'
+import { saveProductVariants, ProductVariantError } from '@/lib/variant'
+import { saveProductAttributes, ProductAttributeError } from '@/lib/product-attribute'
+import { saveProductImages } from '@/lib/product-image'
 
 async function checkAdmin() {
   const session = await auth()
@@ -40,13 +49,59 @@ export async function PATCH(
     if (body.description !== undefined) updateData.description = body.description
     if (body.price !== undefined) updateData.price = body.price
     if (body.stock !== undefined) updateData.stock = body.stock
-    if (body.images !== undefined) updateData.images = body.images
+    if (body.weight !== undefined) updateData.weight = body.weight
     if (body.categoryId !== undefined) updateData.categoryId = body.categoryId
     if (body.isActive !== undefined) updateData.isActive = body.isActive
 
-    const product = await prisma.product.update({
-      where: { id: parseInt(id) },
-      data: updateData,
+    // 图片：按提交的顺序整体替换
+    const imagesResult = body.images === undefined
+      ? null
+      : productSchema.shape.images.safeParse(body.images)
+    if (imagesResult && !imagesResult.success) {
+      return NextResponse.json(
+        { success: false, message: imagesResult.error.issues[0]?.message },
+        { status: 400 }
+      )
+    }
+
+    // 规格：options 传空数组表示取消规格
+    const variantsResult = body.options === undefined
+      ? null
+      : productVariantsSchema.safeParse({ options: body.options, variants: body.variants ?? [] })
+    if (variantsResult && !variantsResult.success) {
+      return NextResponse.json(
+        { success: false, message: variantsResult.error.issues[0]?.message },
+        { status: 400 }
+      )
+    }
+
+    // 属性值：按提交的值整体替换（没有传 attributes 时不修改）
+    const attributesResult = body.attributes === undefined
+      ? null
+      : productAttributesSchema.safeParse(body.attributes)
+    if (attributesResult && !attributesResult.success) {
+      return NextResponse.json(
+        { success: false, message: attributesResult.error.issues[0]?.message },
+        { status: 400 }
+      )
+    }
+
+    const product = await prisma.$transaction(async (tx) => {
+      const updated = await tx.product.update({
+        where: { id: parseInt(id) },
+        data: updateData,
+      })
+      if (imagesResult) {
+        await saveProductImages(tx, updated.id, imagesResult.data)
+      }
+      // 在分类更新之后保存，按新的分类校验属性
+      if (attributesResult) {
+        await saveProductAttributes(tx, updated.id, attributesResult.data)
+      }
+      if (!variantsResult) return updated
+      // 有规格时价格、库存由规格组合汇总，覆盖上面传入的值
+      await saveProductVariants(tx, updated.id, variantsResult.data)
+      return tx.product.findUniqueOrThrow({ where: { id: updated.id } })
     })
 
     return NextResponse.json({
@@ -55,6 +110,12 @@ export async function PATCH(
       data: { ...product, price: product.price.toString() },
     })
   } catch (error) {
+    if (error instanceof ProductVariantError || error instanceof ProductAttributeError) {
+      return NextResponse.json(
+        { success: false, message: error.message },
+        { status: 400 }
+      )
+    }
     console.error('更新商品失败:', error)
     return NextResponse.json(
       { success: false, message: '更新失败' },
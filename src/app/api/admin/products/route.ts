@@ -4,7 +4,10 @@
  *
  * 【路由】
  * GET  /api/admin/products → 获取所有商品（含下架）
- * POST /api/admin/products → 创建新商品
+ * POST /api/admin/products → 创建新商品（可以同时带上规格：options 规格项、variants 规格组合；
+ *                             属性值：attributes）
+ *
+ * 商品图片先通过 POST /api/admin/uploads 上传，创建商品时提交图片地址列表（images）。
  *
  * 【权限检查】
  * 所有管理员 API 都需要验证用户角色是否为 ADMIN。
@@ -15,7 +18,14 @@
 import { NextResponse } from 'next/server'
 import { auth } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
-import { productSchema } from '@/lib/validators'
+import {
+  productAttributesSchema,
+  productSchema,
+  productVariantsSchema,
+} from '@/lib/validators'
+import { saveProductVariants, ProductVariantError } from '@/lib/variant'
+import { saveProductAttributes, ProductAttributeError } from '@/lib/product-attribute'
+import { coverImageQuery, saveProductImages } from '@/lib/product-image'
 
 /**
  * 通用的管理员权限检查函数
@@ -41,6 +51,7 @@ export async function GET() {
     const products = await prisma.product.findMany({
       include: {
         category: { select: { name: true } },
+        images: coverImageQuery,
       },
       orderBy: { createdAt: 'desc' },
     })
@@ -79,11 +90,44 @@ export async function POST(request: Request) {
       )
     }
 
-    const product = await prisma.product.create({
-      data: {
-        ...result.data,
-        isActive: result.data.isActive ?? true,
-      },
+    // 规格是可选的：没有传 options 的商品按自身的价格和库存出售
+    const variantsResult = body.options === undefined
+      ? null
+      : productVariantsSchema.safeParse({ options: body.options, variants: body.variants ?? [] })
+    if (variantsResult && !variantsResult.success) {
+      return NextResponse.json(
+        { success: false, message: variantsResult.error.issues[0]?.message },
+        { status: 400 }
+      )
+    }
+
+    // 属性值是可选的，按商品所在分类适用的属性校验
+    const attributesResult = body.attributes === undefined
+      ? null
+      : productAttributesSchema.safeParse(body.attributes)
+    if (attributesResult && !attributesResult.success) {
+      return NextResponse.json(
+        { success: false, message: attributesResult.error.issues[0]?.message },
+        { status: 400 }
+      )
+    }
+
+    const { images, ...data } = result.data
+    const product = await prisma.$transaction(async (tx) => {
+      const created = await tx.product.create({
+        data: {
+          ...data,
+          isActive: data.isActive ?? true,
+        },
+      })
+      await saveProductImages(tx, created.id, images)
+      if (attributesResult) {
+        await saveProductAttributes(tx, created.id, attributesResult.data)
+      }
+      if (!variantsResult) return created
+      // 有规格时价格、库存由规格组合汇总
+      await saveProductVariants(tx, created.id, variantsResult.data)
+      return tx.product.findUniqueOrThrow({ where: { id: created.id } })
     })
 
     return NextResponse.json({
@@ -92,6 +136,12 @@ export async function POST(request: Request) {
       data: { ...product, price: product.price.toString() },
     })
   } catch (error) {
+    if (error instanceof ProductVariantError || error instanceof ProductAttributeError) {
+      return NextResponse.json(
+        { success: false, message: error.message },
+        { status: 400 }
+      )
+    }
     console.error('创建商品失败:', error)
     return NextResponse.json(
       { success: false, message: '创建失败' },
@@ -0,0 +1,67 @@
+/**
+ * 管理后台 - 促销活动单项操作 API
+ * ============================================================
+ *
+ * 【路由】
+ * PATCH  /api/admin/promotions/:id → 启用 / 停用促销活动
+ * DELETE /api/admin/promotions/:id → 删除促销活动
+ *
+ * 订单里保存的是促销快照（OrderPromotion），删除活动不影响已下单的订单。
+ */
+
+import { NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { serializePromotion } from '@/lib/promotion'
+
+async function checkAdmin() {
+  const session = await auth()
+  if (!session?.user || session.user.role !== 'ADMIN') return null
+  return session
+}
+
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  if (!(await checkAdmin())) {
+    return NextResponse.json({ success: false, message: '无权限' }, { status: 403 })
+  }
+
+  try {
+    const { id } = await params
+    const body = await request.json()
+
+    if (typeof body.isActive !== 'boolean') {
+      return NextResponse.json({ success: false, message: '无效的状态' }, { status: 400 })
+    }
+
+    const promotion = await prisma.promotion.update({
+      where: { id: parseInt(id) },
+      data: { isActive: body.isActive },
+    })
+
+    return NextResponse.json({ success: true, message: '更新成功', data: serializePromotion(promotion) })
+  } catch (error) {
+    console.error('更新促销活动失败:', error)
+    return NextResponse.json({ success: false, message: '更新失败' }, { status: 500 })
+  }
+}
+
+export async function DELETE(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  if (!(await checkAdmin())) {
+    return NextResponse.json({ success: false, message: '无权限' }, { status: 403 })
+  }
+
+  try {
+    const { id } = await params
+    await prisma.promotion.delete({ where: { id: parseInt(id) } })
+    return NextResponse.json({ success: true, message: '删除成功' })
+  } catch (error) {
+    console.error('删除促销活动失败:', error)
+    return NextResponse.json({ success: false, message: '删除失败' }, { status: 500 })
+  }
+}
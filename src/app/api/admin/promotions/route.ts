@@ -0,0 +1,72 @@
+/**
+ * 管理后台 - 促销活动 API
+ * ============================================================
+ *
+ * 【路由】
+ * GET  /api/admin/promotions → 获取所有促销活动（含参与订单数）
+ * POST /api/admin/promotions → 创建促销活动
+ */
+
+import { NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { createPromotion, serializePromotion } from '@/lib/promotion'
+import { promotionSchema } from '@/lib/validators'
+
+async function checkAdmin() {
+  const session = await auth()
+  if (!session?.user || session.user.role !== 'ADMIN') return null
+  return session
+}
+
+export async function GET() {
+  if (!(await checkAdmin())) {
+    return NextResponse.json({ success: false, message: '无权限' }, { status: 403 })
+  }
+
+  try {
+    const promotions = await prisma.promotion.findMany({
+      include: {
+        categories: { select: { id: true, name: true } },
+        products: { select: { id: true, name: true } },
+        _count: { select: { orderPromotions: true } },
+      },
+      orderBy: { id: 'desc' },
+    })
+
+    const serialized = promotions.map(({ _count, ...promotion }) => ({
+      ...serializePromotion(promotion),
+      orderCount: _count.orderPromotions, // 享受过该活动的订单数
+    }))
+
+    return NextResponse.json({ success: true, data: serialized })
+  } catch (error) {
+    console.error('获取促销活动失败:', error)
+    return NextResponse.json({ success: false, message: '获取失败' }, { status: 500 })
+  }
+}
+
+export async function POST(request: Request) {
+  if (!(await checkAdmin())) {
+    return NextResponse.json({ success: false, message: '无权限' }, { status: 403 })
+  }
+
+  try {
+    const body = await request.json()
+    const result = promotionSchema.safeParse(body)
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, message: result.error.issues[0]?.message },
+        { status: 400 }
+      )
+    }
+
+    const promotion = await createPromotion(result.data)
+
+    return NextResponse.json({ success: true, message: '创建成功', data: serializePromotion(promotion) })
+  } catch (error) {
+    console.error('创建促销活动失败:', error)
+    return NextResponse.json({ success: false, message: '创建失败' }, { status: 500 })
+  }
+}
@@ -0,0 +1,95 @@
+/**
+ * 管理后台 - 物流轨迹导入 API
+ * ============================================================
+ *
+ * 【路由】POST /api/admin/shipments/events
+ *
+ * 支持两种格式（根据 Content-Type 区分）：
+ * - application/json：{ events: [{ carrier, trackingNo, status, description, location?, occurredAt }] }
+ *   适合对接快递公司的推送或其他系统调用
+ * - text/csv：表头为 carrier,trackingNo,status,description,location,occurredAt 的 CSV 文本
+ *   适合从快递公司后台导出后批量导入
+ *
+ * 任意一行校验失败时整批都不导入，并返回出错的行号，修正后重新提交即可
+ * （已导入过的轨迹会被自动跳过，重复提交是安全的）。
+ */
+
+import { NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { trackingEventSchema, type TrackingEventInput } from '@/lib/validators'
+import { ingestTrackingEvents, parseTrackingCsv } from '@/lib/shipment'
+
+// 单次最多导入的轨迹条数
+const MAX_EVENTS = 1000
+
+export async function POST(request: Request) {
+  const session = await auth()
+  if (!session?.user || session.user.role !== 'ADMIN') {
+    return NextResponse.json(
+      { success: false, message: '无权限' },
+      { status: 403 }
+    )
+  }
+
+  try {
+    const isCsv = request.headers.get('content-type')?.includes('text/csv')
+    const rows: unknown[] = isCsv
+      ? parseTrackingCsv(await request.text())
+      : ((await request.json()).events ?? [])
+
+    if (!Array.isArray(rows) || rows.length === 0) {
+      return NextResponse.json(
+        { success: false, message: '没有可导入的物流轨迹' },
+        { status: 400 }
+      )
+    }
+
+    if (rows.length > MAX_EVENTS) {
+      return NextResponse.json(
+        { success: false, message: `单次最多导入 ${MAX_EVENTS} 条` },
+        { status: 400 }
+      )
+    }
+
+    // 逐行校验，收集所有错误一次性返回
+    const events: TrackingEventInput[] = []
+    const errors: string[] = []
+    rows.forEach((row, index) => {
+      // CSV 中的空单元格视为未填写
+      const cleaned =
+        isCsv && row && typeof row === 'object'
+          ? Object.fromEntries(Object.entries(row).filter(([, value]) => value !== ''))
+          : row
+      const result = trackingEventSchema.safeParse(cleaned)
+      if (result.success) {
+        events.push(result.data)
+      } else {
+        // CSV 第 1 行是表头，数据从第 2 行开始
+        const line = isCsv ? index + 2 : index + 1
+        errors.push(`第 ${line} 行：${result.error.issues[0]?.message}`)
+      }
+    })
+
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { success: false, message: errors.slice(0, 10).join('；'), data: { errors } },
+        { status: 400 }
+      )
+    }
+
+    const summary = await ingestTrackingEvents(events)
+
+    return NextResponse.json({
+      success: true,
+      message: `导入 ${summary.imported} 条，跳过重复 ${summary.duplicates} 条` +
+        (summary.unknown.length > 0 ? `，${summary.unknown.length} 个单号未找到` : ''),
+      data: summary,
+    })
+  } catch (error) {
+    console.error('导入物流轨迹失败:', error)
+    return NextResponse.json(
+      { success: false, message: '导入物流轨迹失败' },
+      { status: 500 }
+    )
+  }
+}
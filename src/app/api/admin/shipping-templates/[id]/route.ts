@@ -0,0 +1,86 @@
+/**
+ * 管理后台 - 运费模板单项操作 API
+ * ============================================================
+ *
+ * 【路由】
+ * PUT    /api/admin/shipping-templates/:id → 更新运费模板（规则整体替换）
+ * DELETE /api/admin/shipping-templates/:id → 删除运费模板
+ *
+ * 已下单的订单记录的是下单时算好的运费（Order.shippingFee），
+ * 修改或删除模板不会影响历史订单。
+ */
+
+import { NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { saveShippingTemplate, serializeShippingTemplate } from '@/lib/shipping'
+import { shippingTemplateSchema } from '@/lib/validators'
+
+async function checkAdmin() {
+  const session = await auth()
+  if (!session?.user || session.user.role !== 'ADMIN') return null
+  return session
+}
+
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  if (!(await checkAdmin())) {
+    return NextResponse.json({ success: false, message: '无权限' }, { status: 403 })
+  }
+
+  try {
+    const { id } = await params
+    const body = await request.json()
+    const result = shippingTemplateSchema.safeParse(body)
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, message: result.error.issues[0]?.message },
+        { status: 400 }
+      )
+    }
+
+    const existing = await prisma.shippingTemplate.findUnique({
+      where: { id: parseInt(id) },
+    })
+    if (!existing) {
+      return NextResponse.json({ success: false, message: '运费模板不存在' }, { status: 404 })
+    }
+
+    const template = await saveShippingTemplate(result.data, existing.id)
+
+    return NextResponse.json({
+      success: true,
+      message: '更新成功',
+      data: serializeShippingTemplate(template),
+    })
+  } catch (error) {
+    console.error('更新运费模板失败:', error)
+    return NextResponse.json({ success: false, message: '更新失败' }, { status: 500 })
+  }
+}
+
+export async function DELETE(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  if (!(await checkAdmin())) {
+    return NextResponse.json({ success: false, message: '无权限' }, { status: 403 })
+  }
+
+  try {
+    const { id } = await params
+
+    // 规则随模板级联删除（onDelete: Cascade）
+    await prisma.shippingTemplate.delete({
+      where: { id: parseInt(id) },
+    })
+
+    return NextResponse.json({ success: true, message: '删除成功' })
+  } catch (error) {
+    console.error('删除运费模板失败:', error)
+    return NextResponse.json({ success: false, message: '删除失败' }, { status: 500 })
+  }
+}
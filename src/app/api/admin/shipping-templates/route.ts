@@ -0,0 +1,66 @@
+/**
+ * 管理后台 - 运费模板 API
+ * ============================================================
+ *
+ * 【路由】
+ * GET  /api/admin/shipping-templates → 获取所有运费模板（含规则）
+ * POST /api/admin/shipping-templates → 创建运费模板
+ */
+
+import { NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { saveShippingTemplate, serializeShippingTemplate } from '@/lib/shipping'
+import { shippingTemplateSchema } from '@/lib/validators'
+
+async function checkAdmin() {
+  const session = await auth()
+  if (!session?.user || session.user.role !== 'ADMIN') return null
+  return session
+}
+
+export async function GET() {
+  if (!(await checkAdmin())) {
+    return NextResponse.json({ success: false, message: '无权限' }, { status: 403 })
+  }
+
+  try {
+    const templates = await prisma.shippingTemplate.findMany({
+      include: { rules: { orderBy: { id: 'asc' } } },
+      orderBy: { id: 'asc' },
+    })
+    return NextResponse.json({ success: true, data: templates.map(serializeShippingTemplate) })
+  } catch (error) {
+    console.error('获取运费模板失败:', error)
+    return NextResponse.json({ success: false, message: '获取失败' }, { status: 500 })
+  }
+}
+
+export async function POST(request: Request) {
+  if (!(await checkAdmin())) {
+    return NextResponse.json({ success: false, message: '无权限' }, { status: 403 })
+  }
+
+  try {
+    const body = await request.json()
+    const result = shippingTemplateSchema.safeParse(body)
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, message: result.error.issues[0]?.message },
+        { status: 400 }
+      )
+    }
+
+    const template = await saveShippingTemplate(result.data)
+
+    return NextResponse.json({
+      success: true,
+      message: '创建成功',
+      data: serializeShippingTemplate(template),
+    })
+  } catch (error) {
+    console.error('创建运费模板失败:', error)
+    return NextResponse.json({ success: false, message: '创建失败' }, { status: 500 })
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * 管理后台 - 图片上传 API
+ * ============================================================
+ *
+ * 【路由】POST /api/admin/uploads
+ *
+ * 请求体为 multipart/form-data，字段 file 是要上传的图片（JPG / PNG / WebP / GIF，不超过 5MB）。
+ * 返回原图和缩略图的地址，后台商品表单把它们和替代文字一起随商品提交。
+ *
+ * 【浏览器端怎么上传？】
+ * const formData = new FormData()
+ * formData.append('file', file)
+ * fetch('/api/admin/uploads', { method: 'POST', body: formData })
+ * 不要手动设置 Content-Type，浏览器会自动带上 multipart 的分隔符（boundary）。
+ */
+
+import { NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { uploadProductImage, ProductImageError } from '@/lib/product-image'
+
+async function checkAdmin() {
+  const session = await auth()
+  if (!session?.user || session.user.role !== 'ADMIN') {
+    return null
+  }
+  return session
+}
+
+export async function POST(request: Request) {
+  if (!(await checkAdmin())) {
+    return NextResponse.json(
+      { success: false, message: '无权限' },
+      { status: 403 }
+    )
+  }
+
+  try {
+    // 不是 multipart/form-data 时 formData() 会抛出错误
+    const formData = await request.formData().catch(() => null)
+    const file = formData?.get('file')
+    if (!(file instanceof File)) {
+      return NextResponse.json(
+        { success: false, message: '请选择要上传的图片' },
+        { status: 400 }
+      )
+    }
+
+    const image = await uploadProductImage(file)
+
+    return NextResponse.json({
+      success: true,
+      message: '上传成功',
+      data: image,
+    })
+  } catch (error) {
+    if (error instanceof ProductImageError) {
+      return NextResponse.json(
+        { success: false, message: error.message },
+        { status: 400 }
+      )
+    }
+    console.error('上传图片失败:', error)
+    return NextResponse.json(
+      { success: false, message: '上传失败' },
+      { status: 500 }
+    )
+  }
+}
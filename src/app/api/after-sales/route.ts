@@ -0,0 +1,57 @@
+/**
+ * 我的售后 API
+ * ============================================================
+ *
+ * 【路由】GET /api/after-sales
+ *
+ * 获取当前用户的所有售后申请，按申请时间倒序。
+ */
+
+import { NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { coverImageQuery } from '@/lib/product-image'
+
+export async function GET() {
+  const session = await auth()
+  if (!session?.user) {
+    return NextResponse.json(
+      { success: false, message: '请先登录' },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const afterSales = await prisma.afterSale.findMany({
+      where: { userId: session.user.id },
+      include: {
+        order: { select: { id: true, orderNo: true } },
+        orderItem: {
+          include: {
+            product: { select: { id: true, name: true, images: coverImageQuery } },
+          },
+        },
+        images: { select: { id: true, url: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+    })
+
+    // Decimal 转为字符串
+    const serialized = afterSales.map((afterSale) => ({
+      ...afterSale,
+      amount: afterSale.amount.toString(),
+      orderItem: {
+        ...afterSale.orderItem,
+        price: afterSale.orderItem.price.toString(),
+      },
+    }))
+
+    return NextResponse.json({ success: true, data: serialized })
+  } catch (error) {
+    console.error('获取售后列表失败:', error)
+    return NextResponse.json(
+      { success: false, message: '获取售后列表失败' },
+      { status: 500 }
+    )
+  }
+}
@@ -55,7 +55,7 @@ export async function PATCH(
         id: parseInt(id),
         userId: session.user.id, // 确保只能修改自己的购物车
       },
-      include: { product: true },
+      include: { product: true, variant: true },
     })
 
     if (!cartItem) {
@@ -65,8 +65,8 @@ export async function PATCH(
       )
     }
 
-    // 检查库存
-    if (result.data.quantity > cartItem.product.stock) {
+    // 检查库存（有规格的商品以规格组合的库存为准）
+    if (result.data.quantity > (cartItem.variant ?? cartItem.product).stock) {
       return NextResponse.json(
         { success: false, message: '库存不足' },
         { status: 400 }
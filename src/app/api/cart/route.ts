@@ -3,7 +3,8 @@
  * ============================================================
  *
  * 【路由】
- * GET  /api/cart → 获取当前用户的购物车列表
+ * GET  /api/cart → 获取当前用户的购物车列表，以及促销活动的优惠
+ *                   （?selected=1,2,3 只按勾选的购物车项计算促销，不传则按全部商品计算）
  * POST /api/cart → 添加商品到购物车
  *
  * 【认证检查】
@@ -17,7 +18,11 @@
 import { NextResponse } from 'next/server'
 import { auth } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
+import { applyFlashSales } from '@/lib/flash-sale'
+import { calculatePromotions, serializePricing } from '@/lib/promotion'
+import { applyVariants, findPurchasableVariant, ProductVariantError } from '@/lib/variant'
 import { addToCartSchema } from '@/lib/validators'
+import { coverImageQuery } from '@/lib/product-image'
 
 /**
  * GET /api/cart - 获取购物车列表
@@ -26,7 +31,7 @@ import { addToCartSchema } from '@/lib/validators'
  * include 让你在一次查询中获取关联表的数据，
  * 类似 SQL 的 JOIN 查询。
  */
-export async function GET() {
+export async function GET(request: Request) {
   // 1. 验证登录状态
   const session = await auth()
   if (!session?.user) {
@@ -47,7 +52,18 @@ export async function GET() {
             name: true,
             price: true,
             stock: true,
-            images: true,
+            images: coverImageQuery,
+            isActive: true,
+            categoryId: true,
+          },
+        },
+        variant: {
+          select: {
+            id: true,
+            name: true,
+            price: true,
+            stock: true,
+            image: true,
             isActive: true,
           },
         },
@@ -55,16 +71,34 @@ export async function GET() {
       orderBy: { id: 'desc' }, // 最新添加的排在前面
     })
 
-    // 3. 序列化 Decimal 类型
-    const serialized = cartItems.map((item) => ({
+    // 3. 有规格的商品按规格组合的价格和库存、秒杀商品按秒杀价计算，
+    //    再计算勾选商品的促销优惠（和结算、下单使用同一个计算引擎）
+    const variantItems = applyVariants(cartItems)
+    const pricedItems = await applyFlashSales(variantItems)
+    const selectedParam = new URL(request.url).searchParams.get('selected')
+    const selectedIds = selectedParam === null
+      ? null
+      : new Set(selectedParam.split(',').map(Number).filter(Boolean))
+    const promotions = await calculatePromotions(
+      pricedItems.filter((item) => !selectedIds || selectedIds.has(item.id))
+    )
+
+    // 4. 序列化 Decimal 类型
+    const serialized = pricedItems.map((item, index) => ({
       ...item,
       product: {
         ...item.product,
         price: item.product.price.toString(),
+        // 秒杀商品返回原价，购物车页显示划线价
+        originalPrice: item.flashSaleId ? variantItems[index].product.price.toString() : null,
       },
+      variant: item.variant && { ...item.variant, price: item.variant.price.toString() },
     }))
 
-    return NextResponse.json({ success: true, data: serialized })
+    return NextResponse.json({
+      success: true,
+      data: { items: serialized, promotions: serializePricing(promotions) },
+    })
   } catch (error) {
     console.error('获取购物车失败:', error)
     return NextResponse.json(
@@ -77,11 +111,12 @@ export async function GET() {
 /**
  * POST /api/cart - 添加商品到购物车
  *
- * 【Prisma upsert 操作】
- * upsert = update + insert
- * - 如果记录已存在（同一用户、同一商品）→ 更新数量
+ * 【为什么不用 Prisma upsert？】
+ * upsert = update + insert，需要按唯一索引查找记录：
+ * - 如果记录已存在（同一用户、同一商品、同一规格）→ 更新数量
  * - 如果记录不存在 → 创建新记录
- * 这避免了先查询再决定是创建还是更新的两步操作。
+ * 但联合唯一索引 [userId, productId, variantId] 中 variantId 可以为空，
+ * Prisma 不能用空值按唯一索引查找，所以这里先查再决定是更新还是创建。
  */
 export async function POST(request: Request) {
   // 1. 验证登录
@@ -104,7 +139,7 @@ export async function POST(request: Request) {
       )
     }
 
-    const { productId, quantity } = result.data
+    const { productId, variantId, quantity } = result.data
 
     // 3. 检查商品是否存在且有库存
     const product = await prisma.product.findUnique({
@@ -118,32 +153,46 @@ export async function POST(request: Request) {
       )
     }
 
-    if (product.stock < quantity) {
+    // 有规格的商品必须选择规格，库存以规格组合的为准
+    const variant = await findPurchasableVariant(productId, variantId)
+    if ((variant ?? product).stock < quantity) {
       return NextResponse.json(
         { success: false, message: '库存不足' },
         { status: 400 }
       )
     }
 
-    // 4. 添加/更新购物车（upsert）
-    const cartItem = await prisma.cartItem.upsert({
-      where: {
-        // 使用联合唯一索引查找
-        userId_productId: {
+    // 4. 添加/更新购物车
+    // 【为什么要加锁？】
+    // 联合唯一约束 (userId, productId, variantId) 对 variantId 为 NULL 的行不起作用（MySQL 中 NULL 互不相等），
+    // 用户快速连点两次"加入购物车"时，两个请求都查不到已有记录，会各自创建一行。
+    // 这里先锁住用户这一行，同一用户的加购请求在事务中排队执行，后到的请求能查到前一个请求创建的记录。
+    const cartItem = await prisma.$transaction(async (tx) => {
+      await tx.$queryRaw`SELECT id FROM users WHERE id = ${session.user.id} FOR UPDATE`
+
+      const existing = await tx.cartItem.findFirst({
+        where: {
           userId: session.user.id,
           productId,
+          variantId: variant?.id ?? null,
         },
-      },
-      // 如果已存在 → 增加数量
-      update: {
-        quantity: { increment: quantity }, // increment 是 Prisma 的原子操作
-      },
-      // 如果不存在 → 创建新记录
-      create: {
-        userId: session.user.id,
-        productId,
-        quantity,
-      },
+      })
+
+      return existing
+        // 如果已存在 → 增加数量
+        ? tx.cartItem.update({
+            where: { id: existing.id },
+            data: { quantity: { increment: quantity } }, // increment 是 Prisma 的原子操作
+          })
+        // 如果不存在 → 创建新记录
+        : tx.cartItem.create({
+            data: {
+              userId: session.user.id,
+              productId,
+              variantId: variant?.id,
+              quantity,
+            },
+          })
     })
 
     return NextResponse.json({
@@ -152,6 +201,12 @@ export async function POST(request: Request) {
       data: cartItem,
     })
   } catch (error) {
+    if (error instanceof ProductVariantError) {
+      return NextResponse.json(
+        { success: false, message: error.message },
+        { status: 400 }
+      )
+    }
     console.error('添加购物车失败:', error)
     return NextResponse.json(
       { success: false, message: '操作失败' },
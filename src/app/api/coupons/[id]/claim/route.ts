@@ -0,0 +1,45 @@
+/**
+ * 领取优惠券 API
+ * ============================================================
+ *
+ * 【路由】
+ * POST /api/coupons/:id/claim → 领取优惠券到券包
+ *
+ * 发放总量、每人限领的检查都在 claimCoupon() 中（事务 + 行锁）。
+ */
+
+import { NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { claimCoupon, CouponError } from '@/lib/coupon'
+
+export async function POST(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await auth()
+  if (!session?.user) {
+    return NextResponse.json(
+      { success: false, message: '请先登录' },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const { id } = await params
+    const userCoupon = await claimCoupon(session.user.id, parseInt(id))
+
+    return NextResponse.json({ success: true, message: '领取成功', data: userCoupon })
+  } catch (error) {
+    if (error instanceof CouponError) {
+      return NextResponse.json(
+        { success: false, message: error.message },
+        { status: 400 }
+      )
+    }
+    console.error('领取优惠券失败:', error)
+    return NextResponse.json(
+      { success: false, message: '领取优惠券失败' },
+      { status: 500 }
+    )
+  }
+}
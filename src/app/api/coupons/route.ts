@@ -0,0 +1,55 @@
+/**
+ * 领券中心 API
+ * ============================================================
+ *
+ * 【路由】
+ * GET /api/coupons → 获取当前可以领取的优惠券
+ *
+ * 只返回已启用、在有效期内的优惠券；已领完的券也会返回（显示"已领完"），
+ * 同时返回当前用户已领取的张数，页面据此判断能否继续领取。
+ */
+
+import { NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { serializeCoupon } from '@/lib/coupon'
+
+export async function GET() {
+  const session = await auth()
+  if (!session?.user) {
+    return NextResponse.json(
+      { success: false, message: '请先登录' },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const now = new Date()
+    const coupons = await prisma.coupon.findMany({
+      where: {
+        isActive: true,
+        startsAt: { lte: now },
+        endsAt: { gt: now },
+      },
+      include: {
+        categories: { select: { id: true, name: true } },
+        products: { select: { id: true, name: true } },
+        _count: { select: { userCoupons: { where: { userId: session.user.id } } } },
+      },
+      orderBy: { endsAt: 'asc' }, // 快过期的排在前面
+    })
+
+    const serialized = coupons.map(({ _count, ...coupon }) => ({
+      ...serializeCoupon(coupon),
+      claimedByMe: _count.userCoupons, // 当前用户已领取的张数
+    }))
+
+    return NextResponse.json({ success: true, data: serialized })
+  } catch (error) {
+    console.error('获取优惠券失败:', error)
+    return NextResponse.json(
+      { success: false, message: '获取优惠券失败' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * 定时任务 - 自动确认收货
+ * ============================================================
+ *
+ * 【路由】GET /api/cron/complete-orders
+ *
+ * 扫描全部商品发出超过 ORDER_AUTO_COMPLETE_DAYS 天（默认 10 天）仍未确认收货的订单，
+ * 由系统自动确认收货（订单变为"已完成"，并记录完成时间）。
+ *
+ * 【如何定时调用？】
+ * 与 /api/cron/expire-orders 相同，由外部调度器定期请求，建议每小时执行一次：
+ *   0 * * * * curl -H "Authorization: Bearer $CRON_SECRET" http://localhost:3000/api/cron/complete-orders
+ *
+ * 【安全】
+ * 调用方需要在请求头中带上环境变量 CRON_SECRET 作为 Bearer Token。
+ */
+
+import { NextResponse } from 'next/server'
+import { autoCompleteShippedOrders } from '@/lib/order'
+
+export async function GET(request: Request) {
+  const secret = process.env.CRON_SECRET
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json(
+      { success: false, message: '无权限' },
+      { status: 403 }
+    )
+  }
+
+  try {
+    const completed = await autoCompleteShippedOrders()
+
+    return NextResponse.json({
+      success: true,
+      message: `已自动确认收货 ${completed} 个订单`,
+      data: { completed },
+    })
+  } catch (error) {
+    console.error('自动确认收货失败:', error)
+    return NextResponse.json(
+      { success: false, message: '自动确认收货失败' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * 定时任务 - 取消超时未支付订单
+ * ============================================================
+ *
+ * 【路由】GET /api/cron/expire-orders
+ *
+ * 【为什么需要这个接口？】
+ * 下单时库存已经被扣减（预占），如果用户一直不付款，
+ * 这部分库存就永远卖不出去。这个接口扫描所有超过支付截止时间的
+ * PENDING 订单，自动取消并归还库存。
+ *
+ * 【如何定时调用？】
+ * Next.js 本身没有定时任务，需要外部调度器定期请求这个接口，例如：
+ * - Vercel Cron Jobs（在 vercel.json 中配置）
+ * - Linux crontab：* * * * * curl -H "Authorization: Bearer $CRON_SECRET" http://localhost:3000/api/cron/expire-orders
+ * 建议每分钟执行一次。
+ *
+ * 【安全】
+ * 这个接口不需要用户登录，但必须防止被任何人随意调用。
+ * 调用方需要在请求头中带上环境变量 CRON_SECRET 作为 Bearer Token。
+ * 未配置 CRON_SECRET 时接口直接拒绝所有请求。
+ */
+
+import { NextResponse } from 'next/server'
+import { expireUnpaidOrders } from '@/lib/order'
+
+export async function GET(request: Request) {
+  const secret = process.env.CRON_SECRET
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json(
+      { success: false, message: '无权限' },
+      { status: 403 }
+    )
+  }
+
+  try {
+    const cancelled = await expireUnpaidOrders()
+
+    return NextResponse.json({
+      success: true,
+      message: `已取消 ${cancelled} 个超时订单`,
+      data: { cancelled },
+    })
+  } catch (error) {
+    console.error('取消超时订单失败:', error)
+    return NextResponse.json(
+      { success: false, message: '取消超时订单失败' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * 定时任务 - 重试失败的退款
+ * ============================================================
+ *
+ * 【路由】GET /api/cron/retry-refunds
+ *
+ * 取消已付款的订单等场景，退款在数据库事务提交后才调用支付渠道。
+ * 渠道超时或出错时，待退款金额保留在支付记录上（Payment.pendingRefundAmount），
+ * 这个接口扫描所有还有待退款金额的支付记录，重新发起退款。
+ *
+ * 【如何定时调用？】
+ * 与 /api/cron/expire-orders 相同，由外部调度器定期请求，建议每 10 分钟执行一次：
+ *   0,10,20,30,40,50 * * * * curl -H "Authorization: Bearer $CRON_SECRET" http://localhost:3000/api/cron/retry-refunds
+ *
+ * 【安全】
+ * 调用方需要在请求头中带上环境变量 CRON_SECRET 作为 Bearer Token。
+ */
+
+import { NextResponse } from 'next/server'
+import { retryPendingRefunds } from '@/lib/payment'
+
+export async function GET(request: Request) {
+  const secret = process.env.CRON_SECRET
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json(
+      { success: false, message: '无权限' },
+      { status: 403 }
+    )
+  }
+
+  try {
+    const refunded = await retryPendingRefunds()
+
+    return NextResponse.json({
+      success: true,
+      message: `已完成 ${refunded} 笔待退款`,
+      data: { refunded },
+    })
+  } catch (error) {
+    console.error('重试退款失败:', error)
+    return NextResponse.json(
+      { success: false, message: '重试退款失败' },
+      { status: 500 }
+    )
+  }
+}
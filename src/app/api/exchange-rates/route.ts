@@ -0,0 +1,25 @@
+/**
+ * 汇率 API
+ * ============================================================
+ *
+ * 【路由】
+ * GET /api/exchange-rates → 获取前台可以选择的币种和汇率（人民币排在第一个）
+ *
+ * 汇率是公开信息，不需要登录；顶部导航的币种选择器和价格组件使用它换算显示价格。
+ */
+
+import { NextResponse } from 'next/server'
+import { getActiveExchangeRates } from '@/lib/currency'
+
+export async function GET() {
+  try {
+    const rates = await getActiveExchangeRates()
+    return NextResponse.json({ success: true, data: rates })
+  } catch (error) {
+    console.error('获取汇率失败:', error)
+    return NextResponse.json(
+      { success: false, message: '获取汇率失败' },
+      { status: 500 }
+    )
+  }
+}
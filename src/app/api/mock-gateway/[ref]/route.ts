@@ -0,0 +1,101 @@
+/**
+ * 模拟支付网关 API
+ * ============================================================
+ *
+ * 【路由】
+ * GET  /api/mock-gateway/:ref → 获取模拟交易信息（收银台页面展示）
+ * POST /api/mock-gateway/:ref → 在收银台上完成交易（成功 / 失败 / 超时），
+ *                               并向我方发送支付结果回调
+ *
+ * 【注意】
+ * 这些接口扮演的是"第三方支付公司"的角色，不属于我们的业务系统，
+ * 所以不需要登录。仅在模拟网关启用时可用（见 lib/payment/mock.ts）。
+ */
+
+import { NextResponse } from 'next/server'
+import {
+  completeMockTransaction,
+  getMockTransaction,
+  isMockGatewayEnabled,
+  sendMockCallback,
+  type MockOutcome,
+} from '@/lib/payment/mock'
+
+const validOutcomes: MockOutcome[] = ['SUCCEEDED', 'FAILED', 'TIMEOUT']
+
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ ref: string }> }
+) {
+  const { ref } = await params
+  const transaction = isMockGatewayEnabled() ? getMockTransaction(ref) : undefined
+
+  if (!transaction) {
+    return NextResponse.json(
+      { success: false, message: '交易不存在' },
+      { status: 404 }
+    )
+  }
+
+  return NextResponse.json({
+    success: true,
+    data: {
+      ref: transaction.ref,
+      amount: transaction.amount,
+      subject: transaction.subject,
+      status: transaction.status,
+      returnUrl: transaction.returnUrl,
+    },
+  })
+}
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ ref: string }> }
+) {
+  if (!isMockGatewayEnabled()) {
+    return NextResponse.json(
+      { success: false, message: '交易不存在' },
+      { status: 404 }
+    )
+  }
+
+  try {
+    const { ref } = await params
+    const body = await request.json()
+    const { outcome } = body
+
+    if (!validOutcomes.includes(outcome)) {
+      return NextResponse.json(
+        { success: false, message: '无效的操作' },
+        { status: 400 }
+      )
+    }
+
+    const transaction = completeMockTransaction(ref, outcome)
+    if (!transaction) {
+      return NextResponse.json(
+        { success: false, message: '交易不存在或已完成' },
+        { status: 400 }
+      )
+    }
+
+    // 回调失败不影响收银台：结果页会主动查询支付结果作为补偿
+    try {
+      await sendMockCallback(transaction, new URL(request.url).origin)
+    } catch (error) {
+      console.error('模拟网关发送回调失败:', error)
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { status: transaction.status, returnUrl: transaction.returnUrl },
+    })
+  } catch (error) {
+    console.error('模拟支付操作失败:', error)
+    return NextResponse.json(
+      { success: false, message: '操作失败' },
+      { status: 500 }
+    )
+  }
+}
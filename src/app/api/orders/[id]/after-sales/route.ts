@@ -0,0 +1,128 @@
+/**
+ * 订单售后 API
+ * ============================================================
+ *
+ * 【路由】
+ * GET  /api/orders/:id/after-sales → 获取订单商品的可售后数量和实付金额（申请页面使用）
+ * POST /api/orders/:id/after-sales → 对订单中的某个商品项申请售后
+ *
+ * 售后的规则（哪些订单状态可以申请、数量和金额上限）见 lib/after-sale.ts。
+ */
+
+import { NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { afterSaleSchema } from '@/lib/validators'
+import { createAfterSale, getAfterSaleUsage, paidAmountOf, AfterSaleError } from '@/lib/after-sale'
+import { coverImageQuery } from '@/lib/product-image'
+
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await auth()
+  if (!session?.user) {
+    return NextResponse.json(
+      { success: false, message: '请先登录' },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const { id } = await params
+
+    const order = await prisma.order.findFirst({
+      where: {
+        id: parseInt(id),
+        userId: session.user.id, // 只能查看自己的订单
+      },
+      include: {
+        items: {
+          include: {
+            product: { select: { id: true, name: true, images: coverImageQuery } },
+          },
+        },
+      },
+    })
+
+    if (!order) {
+      return NextResponse.json(
+        { success: false, message: '订单不存在' },
+        { status: 404 }
+      )
+    }
+
+    const usage = await getAfterSaleUsage(order.id)
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        id: order.id,
+        orderNo: order.orderNo,
+        status: order.status,
+        items: order.items.map((item) => ({
+          id: item.id,
+          quantity: item.quantity,
+          price: item.price.toString(),
+          variantName: item.variantName,
+          product: item.product,
+          paidAmount: paidAmountOf(item).toString(), // 实付金额，退款金额按它计算
+          used: usage.get(item.id) ?? { quantity: 0, amount: '0' }, // 其他售后已占用的数量和金额
+          availableQuantity: item.quantity - (usage.get(item.id)?.quantity ?? 0),
+        })),
+      },
+    })
+  } catch (error) {
+    console.error('获取售后信息失败:', error)
+    return NextResponse.json(
+      { success: false, message: '获取售后信息失败' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await auth()
+  if (!session?.user) {
+    return NextResponse.json(
+      { success: false, message: '请先登录' },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const { id } = await params
+    const body = await request.json()
+    const result = afterSaleSchema.safeParse(body)
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, message: result.error.issues[0]?.message },
+        { status: 400 }
+      )
+    }
+
+    const afterSale = await createAfterSale(session.user.id, parseInt(id), result.data)
+
+    return NextResponse.json({
+      success: true,
+      message: '售后申请已提交，请等待审核',
+      data: { ...afterSale, amount: afterSale.amount.toString() },
+    })
+  } catch (error) {
+    if (error instanceof AfterSaleError) {
+      return NextResponse.json(
+        { success: false, message: error.message },
+        { status: 400 }
+      )
+    }
+    console.error('申请售后失败:', error)
+    return NextResponse.json(
+      { success: false, message: '申请售后失败' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * 用户取消订单 API
+ * ============================================================
+ *
+ * 【路由】POST /api/orders/:id/cancel
+ *
+ * 用户可以取消自己"待付款"或"已付款但未发货"的订单。
+ * 取消后订单中的商品数量会归还到库存，已付款的订单通过原支付渠道全额退款。
+ *
+ * 【为什么用 POST 而不是 DELETE？】
+ * 取消订单不是删除订单 — 订单记录仍然保留（状态变为 CANCELLED），
+ * 这是一个"动作"，所以用 POST /orders/:id/cancel 表达。
+ */
+
+import { NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { cancelOrder, OrderActionError } from '@/lib/order'
+
+export async function POST(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await auth()
+  if (!session?.user) {
+    return NextResponse.json(
+      { success: false, message: '请先登录' },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const { id } = await params
+
+    // 传入 ownerId，确保只能取消自己的订单
+    const order = await cancelOrder(parseInt(id), {
+      ownerId: session.user.id,
+      operator: { type: 'CUSTOMER', userId: session.user.id },
+    })
+
+    return NextResponse.json({
+      success: true,
+      message: '订单已取消',
+      data: { ...order, totalAmount: order.totalAmount.toString() },
+    })
+  } catch (error) {
+    if (error instanceof OrderActionError) {
+      return NextResponse.json(
+        { success: false, message: error.message },
+        { status: 400 }
+      )
+    }
+    console.error('取消订单失败:', error)
+    return NextResponse.json(
+      { success: false, message: '取消订单失败' },
+      { status: 500 }
+    )
+  }
+}
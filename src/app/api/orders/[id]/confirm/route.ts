@@ -0,0 +1,56 @@
+/**
+ * 用户确认收货 API
+ * ============================================================
+ *
+ * 【路由】POST /api/orders/:id/confirm
+ *
+ * 用户收到商品后确认收货，订单从"已发货"变为"已完成"。
+ * 只能确认自己的订单，状态校验由 transitionOrder() 完成；
+ * 分批发货还有商品没发出时不能确认收货。
+ */
+
+import { NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { transitionOrder, OrderActionError } from '@/lib/order'
+
+export async function POST(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await auth()
+  if (!session?.user) {
+    return NextResponse.json(
+      { success: false, message: '请先登录' },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const { id } = await params
+
+    // 传入 ownerId，确保只能确认自己的订单
+    const order = await transitionOrder(parseInt(id), 'COMPLETED', {
+      ownerId: session.user.id,
+      operator: { type: 'CUSTOMER', userId: session.user.id },
+      note: '用户确认收货',
+    })
+
+    return NextResponse.json({
+      success: true,
+      message: '已确认收货',
+      data: { ...order, totalAmount: order.totalAmount.toString() },
+    })
+  } catch (error) {
+    if (error instanceof OrderActionError) {
+      return NextResponse.json(
+        { success: false, message: error.message },
+        { status: 400 }
+      )
+    }
+    console.error('确认收货失败:', error)
+    return NextResponse.json(
+      { success: false, message: '确认收货失败' },
+      { status: 500 }
+    )
+  }
+}
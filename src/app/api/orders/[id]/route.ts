@@ -4,12 +4,16 @@
  *
  * 【路由】GET /api/orders/:id
  *
- * 获取单个订单的详细信息，包含订单商品列表。
+ * 获取单个订单的详细信息，包含订单商品列表、状态时间线、支付记录、物流信息和售后申请。
+ * 订单详情页（/user/orders/:id）使用这个接口。
  */
 
 import { NextResponse } from 'next/server'
 import { auth } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
+import { getAfterSaleDeadline } from '@/lib/after-sale'
+import { isFullyShipped } from '@/lib/order'
+import { coverImageQuery } from '@/lib/product-image'
 
 export async function GET(
   _request: Request,
@@ -38,11 +42,78 @@ export async function GET(
               select: {
                 id: true,
                 name: true,
-                images: true,
+                images: coverImageQuery,
               },
             },
           },
         },
+        // 享受的促销活动（快照）
+        promotions: { orderBy: { id: 'asc' } },
+        // 状态时间线（不返回操作者 ID，用户端只需要知道操作者类型）
+        statusHistory: {
+          select: {
+            id: true,
+            fromStatus: true,
+            toStatus: true,
+            operatorType: true,
+            note: true,
+            createdAt: true,
+          },
+          orderBy: { createdAt: 'asc' },
+        },
+        // 支付记录（每次支付尝试一条）
+        payments: {
+          select: {
+            paymentNo: true,
+            provider: true,
+            status: true,
+            amount: true,
+            refundedAmount: true,
+            pendingRefundAmount: true, // 退款中的金额（退款失败会自动重试）
+            paidAt: true,
+            createdAt: true,
+          },
+          orderBy: { createdAt: 'desc' },
+        },
+        // 售后申请
+        afterSales: {
+          select: {
+            id: true,
+            orderItemId: true,
+            type: true,
+            status: true,
+            quantity: true,
+            amount: true,
+          },
+          orderBy: { createdAt: 'desc' },
+        },
+        // 物流信息（包裹 + 物流轨迹，轨迹按时间倒序）
+        shipments: {
+          select: {
+            id: true,
+            carrier: true,
+            trackingNo: true,
+            shippedAt: true,
+            items: {
+              select: {
+                id: true,
+                quantity: true,
+                orderItem: { select: { product: { select: { name: true } } } },
+              },
+            },
+            events: {
+              select: {
+                id: true,
+                status: true,
+                description: true,
+                location: true,
+                occurredAt: true,
+              },
+              orderBy: { occurredAt: 'desc' },
+            },
+          },
+          orderBy: { shippedAt: 'asc' },
+        },
       },
     })
 
@@ -58,9 +129,31 @@ export async function GET(
       data: {
         ...order,
         totalAmount: order.totalAmount.toString(),
+        goodsAmount: order.goodsAmount.toString(),
+        shippingFee: order.shippingFee.toString(),
+        discountAmount: order.discountAmount.toString(),
+        promotionDiscount: order.promotionDiscount.toString(),
+        exchangeRate: order.exchangeRate.toString(),
+        promotions: order.promotions.map((promotion) => ({
+          ...promotion,
+          discountAmount: promotion.discountAmount.toString(),
+        })),
+        afterSaleDeadline: getAfterSaleDeadline(order), // 售后截止时间（null 表示不受限制）
+        fullyShipped: isFullyShipped(order, order.shipments.length), // 全部商品已发出，可以确认收货
         items: order.items.map((item) => ({
           ...item,
           price: item.price.toString(),
+          payableAmount: item.payableAmount?.toString() ?? null,
+        })),
+        payments: order.payments.map((payment) => ({
+          ...payment,
+          amount: payment.amount.toString(),
+          refundedAmount: payment.refundedAmount.toString(),
+          pendingRefundAmount: payment.pendingRefundAmount.toString(),
+        })),
+        afterSales: order.afterSales.map((afterSale) => ({
+          ...afterSale,
+          amount: afterSale.amount.toString(),
         })),
       },
     })
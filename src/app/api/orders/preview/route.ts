@@ -0,0 +1,79 @@
+/**
+ * 结算金额预览 API
+ * ============================================================
+ *
+ * 【路由】
+ * POST /api/orders/preview → 计算结算金额（商品金额、促销、优惠券、运费、应付总额），不创建订单
+ *
+ * 请求体和创建订单（POST /api/orders）相同，两者共用 prepareCheckout()，
+ * 所以结算页显示的运费和实际下单时计算的运费一致。
+ * 用户切换收货地址时，结算页重新调用这个接口刷新运费。
+ */
+
+import { NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { prepareCheckout } from '@/lib/checkout'
+import { serializePricing } from '@/lib/promotion'
+import { OrderActionError } from '@/lib/order'
+import { createOrderSchema } from '@/lib/validators'
+
+/**
+ * POST /api/orders/preview - 预览结算金额
+ */
+export async function POST(request: Request) {
+  const session = await auth()
+  if (!session?.user) {
+    return NextResponse.json(
+      { success: false, message: '请先登录' },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const body = await request.json()
+    const result = createOrderSchema.safeParse(body)
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, message: result.error.issues[0]?.message },
+        { status: 400 }
+      )
+    }
+
+    const address = await prisma.address.findFirst({
+      where: { id: result.data.addressId, userId: session.user.id },
+    })
+    if (!address) {
+      return NextResponse.json(
+        { success: false, message: '收货地址不存在' },
+        { status: 400 }
+      )
+    }
+
+    const checkout = await prepareCheckout(session.user.id, result.data, address)
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        goodsAmount: checkout.goodsAmount.toString(),
+        promotionDiscount: checkout.promotionDiscount.toString(),
+        promotions: serializePricing(checkout.promotion).evaluations, // 每个活动是否生效及原因
+        discountAmount: checkout.discountAmount.toString(),
+        shippingFee: checkout.shippingFee.toString(),
+        totalAmount: checkout.totalAmount.toString(),
+      },
+    })
+  } catch (error) {
+    if (error instanceof OrderActionError) {
+      return NextResponse.json(
+        { success: false, message: error.message },
+        { status: 400 }
+      )
+    }
+    console.error('计算结算金额失败:', error)
+    return NextResponse.json(
+      { success: false, message: '计算结算金额失败' },
+      { status: 500 }
+    )
+  }
+}
@@ -4,25 +4,33 @@
  *
  * 【路由】
  * GET  /api/orders → 获取当前用户的订单列表
- * POST /api/orders → 创建新订单（从购物车结算）
+ * POST /api/orders → 创建新订单（结算购物车中勾选的商品，或立即购买单个商品）
  *
  * 【创建订单的核心流程（事务操作）】
- * 1. 获取用户购物车中的商品
- * 2. 验证库存
- * 3. 创建订单 + 订单商品项
- * 4. 扣减库存
- * 5. 清空购物车
+ * 1. 获取要结算的商品（购物车中勾选的商品，或立即购买的那一件商品）
+ * 2. 初步验证库存（快速失败，给用户友好提示），计算商品金额、促销、优惠券和运费
+ * 3. 分配订单号，创建订单 + 订单商品项 + 促销快照（同时设置支付截止时间）
+ * 4. 条件扣减库存和秒杀活动库存（库存不足时整个事务回滚，防止超卖），核销优惠券
+ * 5. 从购物车删除已结算的商品（没勾选的留在购物车；立即购买不影响购物车）
+ *
+ * 订单金额按人民币结算；同时记录下单时的显示币种和汇率（getOrderCurrency），
+ * 订单详情据此显示用户当时看到的外币金额。
  *
  * 以上步骤必须在一个数据库事务（Transaction）中完成！
  * 如果步骤4失败了但步骤3成功了，就会导致数据不一致。
  * 事务保证：要么全部成功，要么全部回滚。
+ * 具体实现见 lib/checkout.ts 的 createOrder()。
  */
 
 import { NextResponse } from 'next/server'
 import { auth } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
+import { getAfterSaleDeadline } from '@/lib/after-sale'
+import { withIdempotency } from '@/lib/idempotency'
+import { createOrder } from '@/lib/checkout'
 import { createOrderSchema } from '@/lib/validators'
-import { generateOrderNo } from '@/lib/utils'
+import { isFullyShipped, OrderActionError } from '@/lib/order'
+import { coverImageQuery } from '@/lib/product-image'
 
 /**
  * GET /api/orders - 获取订单列表
@@ -46,10 +54,49 @@ export async function GET() {
               select: {
                 id: true,
                 name: true,
-                images: true,
+                images: coverImageQuery,
+              },
+            },
+          },
+        },
+        // 状态时间线（不返回操作者 ID，用户端只需要知道操作者类型）
+        statusHistory: {
+          select: {
+            id: true,
+            fromStatus: true,
+            toStatus: true,
+            operatorType: true,
+            note: true,
+            createdAt: true,
+          },
+          orderBy: { createdAt: 'asc' },
+        },
+        // 物流信息（包裹 + 物流轨迹，轨迹按时间倒序）
+        shipments: {
+          select: {
+            id: true,
+            carrier: true,
+            trackingNo: true,
+            shippedAt: true,
+            items: {
+              select: {
+                id: true,
+                quantity: true,
+                orderItem: { select: { product: { select: { name: true } } } },
+              },
+            },
+            events: {
+              select: {
+                id: true,
+                status: true,
+                description: true,
+                location: true,
+                occurredAt: true,
               },
+              orderBy: { occurredAt: 'desc' },
             },
           },
+          orderBy: { shippedAt: 'asc' },
         },
       },
       orderBy: { createdAt: 'desc' },
@@ -59,9 +106,17 @@ export async function GET() {
     const serialized = orders.map((order) => ({
       ...order,
       totalAmount: order.totalAmount.toString(),
+      goodsAmount: order.goodsAmount.toString(),
+      shippingFee: order.shippingFee.toString(),
+      discountAmount: order.discountAmount.toString(),
+      promotionDiscount: order.promotionDiscount.toString(),
+      exchangeRate: order.exchangeRate.toString(),
+      afterSaleDeadline: getAfterSaleDeadline(order), // 售后截止时间（null 表示不受限制）
+      fullyShipped: isFullyShipped(order, order.shipments.length), // 全部商品已发出，可以确认收货
       items: order.items.map((item) => ({
         ...item,
         price: item.price.toString(),
+        payableAmount: item.payableAmount?.toString() ?? null,
       })),
     }))
 
@@ -82,6 +137,18 @@ export async function GET() {
  * prisma.$transaction() 接收一个异步函数，
  * 函数内的所有数据库操作会在同一个事务中执行。
  * 如果其中任何操作失败，所有操作都会回滚。
+ *
+ * 【部分结算】
+ * 请求体带上 cartItemIds 时只结算这些购物车商品，下单后也只删除这些商品；
+ * 不传则结算整个购物车。
+ *
+ * 【立即购买】
+ * 请求体带上 buyNow: { productId, variantId?, quantity } 时只结算这一件商品，
+ * 校验、扣库存、价格快照和购物车结算完全一样，只是不读取也不清空购物车。
+ *
+ * 【幂等】
+ * 支持 Idempotency-Key 请求头：双击、网络重试发出的重复请求
+ * 会返回第一次创建的订单，而不会再创建一个新订单。
  */
 export async function POST(request: Request) {
   const session = await auth()
@@ -92,132 +159,50 @@ export async function POST(request: Request) {
     )
   }
 
-  try {
-    const body = await request.json()
-    const result = createOrderSchema.safeParse(body)
-    if (!result.success) {
-      return NextResponse.json(
-        { success: false, message: result.error.issues[0]?.message },
-        { status: 400 }
-      )
-    }
-
-    // 1. 获取收货地址
-    const address = await prisma.address.findFirst({
-      where: {
-        id: result.data.addressId,
-        userId: session.user.id,
-      },
-    })
-
-    if (!address) {
-      return NextResponse.json(
-        { success: false, message: '收货地址不存在' },
-        { status: 400 }
-      )
-    }
-
-    // 2. 获取购物车商品
-    const cartItems = await prisma.cartItem.findMany({
-      where: { userId: session.user.id },
-      include: { product: true },
-    })
-
-    if (cartItems.length === 0) {
-      return NextResponse.json(
-        { success: false, message: '购物车为空' },
-        { status: 400 }
-      )
-    }
-
-    // 3. 验证库存
-    for (const item of cartItems) {
-      if (item.product.stock < item.quantity) {
-        return NextResponse.json(
-          { success: false, message: `"${item.product.name}" 库存不足` },
-          { status: 400 }
-        )
-      }
-      if (!item.product.isActive) {
+  // 带上 Idempotency-Key 的重复请求会直接返回第一次的结果
+  return withIdempotency(request, { userId: session.user.id, scope: 'orders' }, async () => {
+    try {
+      const body = await request.json()
+      const result = createOrderSchema.safeParse(body)
+      if (!result.success) {
         return NextResponse.json(
-          { success: false, message: `"${item.product.name}" 已下架` },
+          { success: false, message: result.error.issues[0]?.message },
           { status: 400 }
         )
       }
-    }
 
-    // 4. 计算总金额
-    const totalAmount = cartItems.reduce(
-      (sum, item) => sum + Number(item.product.price) * item.quantity,
-      0
-    )
+      const order = await createOrder(session.user.id, result.data)
 
-    // 5. 在事务中创建订单
-    const order = await prisma.$transaction(async (tx) => {
-      // 5a. 创建订单
-      const newOrder = await tx.order.create({
+      return NextResponse.json({
+        success: true,
+        message: '订单创建成功',
         data: {
-          orderNo: generateOrderNo(),
-          userId: session.user.id,
-          totalAmount,
-          // 地址快照：将地址信息序列化为 JSON 存储
-          address: JSON.stringify({
-            name: address.name,
-            phone: address.phone,
-            province: address.province,
-            city: address.city,
-            district: address.district,
-            detail: address.detail,
-          }),
-          // 创建订单商品项
-          items: {
-            create: cartItems.map((item) => ({
-              productId: item.productId,
-              quantity: item.quantity,
-              price: item.product.price, // 价格快照
-            })),
-          },
-        },
-        include: {
-          items: true,
+          ...order,
+          totalAmount: order.totalAmount.toString(),
+          goodsAmount: order.goodsAmount.toString(),
+          shippingFee: order.shippingFee.toString(),
+          discountAmount: order.discountAmount.toString(),
+          promotionDiscount: order.promotionDiscount.toString(),
+          exchangeRate: order.exchangeRate.toString(),
+          items: order.items.map((item) => ({
+            ...item,
+            price: item.price.toString(),
+            payableAmount: item.payableAmount?.toString() ?? null,
+          })),
         },
       })
-
-      // 5b. 扣减库存
-      for (const item of cartItems) {
-        await tx.product.update({
-          where: { id: item.productId },
-          data: {
-            stock: { decrement: item.quantity }, // 原子操作：减少库存
-          },
-        })
+    } catch (error) {
+      if (error instanceof OrderActionError) {
+        return NextResponse.json(
+          { success: false, message: error.message },
+          { status: 400 }
+        )
       }
-
-      // 5c. 清空购物车
-      await tx.cartItem.deleteMany({
-        where: { userId: session.user.id },
-      })
-
-      return newOrder
-    })
-
-    return NextResponse.json({
-      success: true,
-      message: '订单创建成功',
-      data: {
-        ...order,
-        totalAmount: order.totalAmount.toString(),
-        items: order.items.map((item) => ({
-          ...item,
-          price: item.price.toString(),
-        })),
-      },
-    })
-  } catch (error) {
-    console.error('创建订单失败:', error)
-    return NextResponse.json(
-      { success: false, message: '创建订单失败' },
-      { status: 500 }
-    )
-  }
+      console.error('创建订单失败:', error)
+      return NextResponse.json(
+        { success: false, message: '创建订单失败' },
+        { status: 500 }
+      )
+    }
+  })
 }
@@ -0,0 +1,76 @@
+/**
+ * 支付结果查询 API
+ * ============================================================
+ *
+ * 【路由】GET /api/payment/:paymentNo
+ *
+ * 用户从支付渠道页面返回后，结果页轮询这个接口获取支付结果。
+ * 支付结果以支付渠道的回调（/api/payment/webhook/:provider）为准；
+ * 如果回调还没到、支付记录还是"待支付"，会主动向支付渠道查询一次并同步到本地。
+ * 渠道超时或出错时不会报错，而是返回"待支付"，前端稍后继续轮询。
+ */
+
+import { NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { syncPayment, PaymentProviderError } from '@/lib/payment'
+
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ paymentNo: string }> }
+) {
+  const session = await auth()
+  if (!session?.user) {
+    return NextResponse.json(
+      { success: false, message: '请先登录' },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const { paymentNo } = await params
+
+    // 只能查询自己订单的支付记录
+    const payment = await prisma.payment.findFirst({
+      where: {
+        paymentNo,
+        order: { userId: session.user.id },
+      },
+    })
+
+    if (!payment) {
+      return NextResponse.json(
+        { success: false, message: '支付记录不存在' },
+        { status: 404 }
+      )
+    }
+
+    let synced = payment
+    let message: string | undefined
+    try {
+      synced = await syncPayment(payment)
+    } catch (error) {
+      if (!(error instanceof PaymentProviderError)) throw error
+      message = '支付结果确认中，请稍候'
+    }
+
+    return NextResponse.json({
+      success: true,
+      message,
+      data: {
+        paymentNo: synced.paymentNo,
+        orderId: synced.orderId,
+        status: synced.status,
+        amount: synced.amount.toString(),
+        failureReason: synced.failureReason,
+        paidAt: synced.paidAt,
+      },
+    })
+  } catch (error) {
+    console.error('查询支付结果失败:', error)
+    return NextResponse.json(
+      { success: false, message: '查询支付结果失败' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,27 +1,29 @@
 /**
- * 模拟支付 API
+ * 发起支付 API
  * ============================================================
  *
  * 【路由】POST /api/payment
  *
- * 【重要说明】
- * 这是一个模拟支付接口！真实项目中需要对接支付宝、微信支付等第三方支付平台。
+ * 【支付流程】
+ * 1. 前端调用本接口，为订单发起支付（创建一条 Payment 记录）
+ * 2. 后端调用支付渠道（lib/payment）创建支付，拿到支付页面地址 payUrl
+ * 3. 前端跳转到 payUrl，用户在支付渠道的页面完成支付
+ * 4. 支付渠道回调 /api/payment/webhook/:provider，订单状态才会变为"已付款"
+ * 5. 支付渠道把用户带回 /payment/result，结果页查询支付结果
  *
- * 【真实支付流程（了解即可）】
- * 1. 前端调用后端 API 创建支付订单
- * 2. 后端调用支付平台 SDK 生成支付二维码/链接
- * 3. 用户在支付平台完成支付
- * 4. 支付平台通过"回调 URL"通知我们的后端支付结果
- * 5. 后端验证回调签名，更新订单状态
+ * 注意：本接口只负责"发起"支付，不会直接把订单改为已付款！
+ * 默认使用本地模拟网关（lib/payment/mock.ts），可以在收银台页面选择成功/失败/超时。
  *
- * 【本接口的模拟逻辑】
- * 直接将订单状态改为"已支付"，模拟支付成功的效果。
+ * 【幂等】
+ * 支持 Idempotency-Key 请求头，重复的请求会返回第一次创建的支付。
  */
 
 import { NextResponse } from 'next/server'
 import { auth } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
-import { sleep } from '@/lib/utils'
+import { withIdempotency } from '@/lib/idempotency'
+import { isPaymentExpired } from '@/lib/order'
+import { createPayment, PaymentProviderError } from '@/lib/payment'
 
 export async function POST(request: Request) {
   const session = await auth()
@@ -32,55 +34,66 @@ export async function POST(request: Request) {
     )
   }
 
-  try {
-    const body = await request.json()
-    const { orderId } = body
+  // 带上 Idempotency-Key 的重复请求会直接返回第一次的结果
+  return withIdempotency(request, { userId: session.user.id, scope: 'payment' }, async () => {
+    try {
+      const body = await request.json()
+      const { orderId } = body
 
-    if (!orderId) {
-      return NextResponse.json(
-        { success: false, message: '缺少订单ID' },
-        { status: 400 }
-      )
-    }
+      if (!orderId) {
+        return NextResponse.json(
+          { success: false, message: '缺少订单ID' },
+          { status: 400 }
+        )
+      }
 
-    // 查找订单
-    const order = await prisma.order.findFirst({
-      where: {
-        id: orderId,
-        userId: session.user.id,
-        status: 'PENDING', // 只能支付待付款的订单
-      },
-    })
+      // 查找订单
+      const order = await prisma.order.findFirst({
+        where: {
+          id: orderId,
+          userId: session.user.id,
+          status: 'PENDING', // 只能支付待付款的订单
+        },
+      })
 
-    if (!order) {
-      return NextResponse.json(
-        { success: false, message: '订单不存在或已支付' },
-        { status: 400 }
-      )
-    }
+      if (!order) {
+        return NextResponse.json(
+          { success: false, message: '订单不存在或已支付' },
+          { status: 400 }
+        )
+      }
 
-    // 模拟支付处理时间（真实场景中这里会调用第三方支付 SDK）
-    await sleep(1000)
+      // 超过支付截止时间的订单不能再支付（库存即将被释放）
+      if (isPaymentExpired(order)) {
+        return NextResponse.json(
+          { success: false, message: '订单已超时，请重新下单' },
+          { status: 400 }
+        )
+      }
 
-    // 更新订单状态为已支付
-    const updatedOrder = await prisma.order.update({
-      where: { id: orderId },
-      data: { status: 'PAID' },
-    })
+      // 调用支付渠道创建支付
+      const { payment, payUrl } = await createPayment(order)
 
-    return NextResponse.json({
-      success: true,
-      message: '支付成功',
-      data: {
-        ...updatedOrder,
-        totalAmount: updatedOrder.totalAmount.toString(),
-      },
-    })
-  } catch (error) {
-    console.error('支付失败:', error)
-    return NextResponse.json(
-      { success: false, message: '支付失败' },
-      { status: 500 }
-    )
-  }
+      return NextResponse.json({
+        success: true,
+        message: '支付已创建',
+        data: {
+          paymentNo: payment.paymentNo,
+          payUrl,
+        },
+      })
+    } catch (error) {
+      if (error instanceof PaymentProviderError) {
+        return NextResponse.json(
+          { success: false, message: `支付渠道异常：${error.message}` },
+          { status: 502 }
+        )
+      }
+      console.error('发起支付失败:', error)
+      return NextResponse.json(
+        { success: false, message: '发起支付失败' },
+        { status: 500 }
+      )
+    }
+  })
 }
@@ -0,0 +1,67 @@
+/**
+ * 支付回调（Webhook）API
+ * ============================================================
+ *
+ * 【路由】POST /api/payment/webhook/:provider
+ *
+ * 【什么是 Webhook？】
+ * 用户付款后，支付渠道的服务器会主动调用我们的这个接口，告诉我们支付结果。
+ * 和"前端告诉后端支付成功了"不同，这个通知来自支付渠道，是订单改为已付款的依据。
+ *
+ * 【安全】
+ * 这个接口不需要登录（调用方是支付渠道，不是用户），
+ * 所以任何人都能请求它，必须验证签名：
+ * - 签名由支付渠道用密钥计算，伪造的请求算不出正确的签名
+ * - 验签必须使用原始请求体（request.text()），
+ *   先 JSON.parse 再 stringify 可能改变字段顺序和空格，导致验签失败
+ *
+ * 【响应约定】
+ * - 2xx：告诉支付渠道"收到了"，渠道不再重试
+ * - 其他：渠道稍后会重试，所以处理出错时返回 500 就好，不需要自己重试
+ */
+
+import { NextResponse } from 'next/server'
+import { getPaymentProvider, processPaymentEvent, PaymentProviderError } from '@/lib/payment'
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ provider: string }> }
+) {
+  const { provider: providerName } = await params
+
+  let provider
+  try {
+    provider = getPaymentProvider(providerName)
+  } catch (error) {
+    if (!(error instanceof PaymentProviderError)) throw error
+    return NextResponse.json(
+      { success: false, message: '未知的支付渠道' },
+      { status: 404 }
+    )
+  }
+
+  try {
+    const rawBody = await request.text()
+    const event = await provider.verifyCallback(request.headers, rawBody)
+
+    if (!event) {
+      return NextResponse.json(
+        { success: false, message: '签名验证失败' },
+        { status: 401 }
+      )
+    }
+
+    const { duplicate } = await processPaymentEvent(provider, event, rawBody)
+
+    return NextResponse.json({
+      success: true,
+      message: duplicate ? '重复通知，已忽略' : '处理成功',
+    })
+  } catch (error) {
+    console.error('处理支付回调失败:', error)
+    return NextResponse.json(
+      { success: false, message: '处理支付回调失败' },
+      { status: 500 }
+    )
+  }
+}
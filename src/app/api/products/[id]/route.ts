@@ -0,0 +1,89 @@
+/**
+ * 商品详情 API 路由
+ * ============================================================
+ *
+ * 【路由】
+ * GET /api/products/123 → 获取商品的基本信息（名称、价格、库存、图片）
+ *                          秒杀中的商品返回秒杀价（price）和原价（originalPrice）
+ * GET /api/products/123?variantId=5 → 按规格组合的价格、库存、图片返回，并带上规格信息（variant）
+ *
+ * 商品详情页是 Server Component，直接查数据库，不需要这个接口。
+ * 它给客户端页面使用：立即购买时，结算页用它展示要购买的商品。
+ *
+ * 商品信息是公开的，不需要登录；已下架的商品按不存在处理。
+ */
+
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { applyFlashSales } from '@/lib/flash-sale'
+import { applyVariants } from '@/lib/variant'
+import { coverImageQuery } from '@/lib/product-image'
+
+/**
+ * GET /api/products/:id - 获取商品信息
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params
+
+  try {
+    const product = await prisma.product.findUnique({
+      where: { id: parseInt(id) },
+      select: {
+        id: true,
+        name: true,
+        price: true,
+        stock: true,
+        images: coverImageQuery,
+        isActive: true,
+      },
+    })
+
+    if (!product || !product.isActive) {
+      return NextResponse.json(
+        { success: false, message: '商品不存在' },
+        { status: 404 }
+      )
+    }
+
+    const variantId = Number(new URL(request.url).searchParams.get('variantId')) || null
+    const variant = variantId
+      ? await prisma.productVariant.findFirst({
+          where: { id: variantId, productId: product.id, isActive: true },
+          select: { id: true, name: true, price: true, stock: true, image: true },
+        })
+      : null
+    if (variantId && !variant) {
+      return NextResponse.json(
+        { success: false, message: '商品规格不存在' },
+        { status: 404 }
+      )
+    }
+
+    // 和结算时一样，有规格的商品按规格价、秒杀中的商品按秒杀价展示
+    const [variantLine] = applyVariants([{ productId: product.id, product, variant }])
+    const [priced] = await applyFlashSales([variantLine])
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...priced.product,
+        price: priced.product.price.toString(),
+        originalPrice: priced.flashSaleId ? variantLine.product.price.toString() : null,
+        // 规格图片替换主图
+        images: variant?.image
+          ? [{ url: variant.image, thumbnailUrl: null, alt: variant.name }]
+          : product.images,
+        variant: variant && { ...variant, price: variant.price.toString() },
+      },
+    })
+  } catch (error) {
+    console.error('获取商品失败:', error)
+    return NextResponse.json(
+      { success: false, message: '获取商品失败' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * 我的优惠券（券包）API
+ * ============================================================
+ *
+ * 【路由】
+ * GET /api/user/coupons → 获取当前用户领取的所有优惠券
+ *
+ * 每张券附带 expired 字段（已过有效期或已停用），
+ * 结算页只展示未使用且未过期的券。
+ */
+
+import { NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { isCouponAvailable, serializeCoupon } from '@/lib/coupon'
+
+export async function GET() {
+  const session = await auth()
+  if (!session?.user) {
+    return NextResponse.json(
+      { success: false, message: '请先登录' },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const userCoupons = await prisma.userCoupon.findMany({
+      where: { userId: session.user.id },
+      include: {
+        coupon: {
+          include: {
+            categories: { select: { id: true, name: true } },
+            products: { select: { id: true, name: true } },
+          },
+        },
+        order: { select: { id: true, orderNo: true } },
+      },
+      orderBy: { claimedAt: 'desc' },
+    })
+
+    const now = new Date()
+    const serialized = userCoupons.map((userCoupon) => ({
+      ...userCoupon,
+      coupon: serializeCoupon(userCoupon.coupon),
+      // 有效期没开始的券也不能用，和过期一样处理
+      expired: !isCouponAvailable(userCoupon.coupon, now),
+    }))
+
+    return NextResponse.json({ success: true, data: serialized })
+  } catch (error) {
+    console.error('获取优惠券失败:', error)
+    return NextResponse.json(
+      { success: false, message: '获取优惠券失败' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,117 @@
+/**
+ * 模拟支付收银台页面
+ * ============================================================
+ *
+ * 【路由】/mock-pay/:ref
+ *
+ * 这个页面模拟的是"第三方支付公司的收银台"（类似支付宝的付款页面），
+ * 所以放在 app 根目录下，不使用商城的 Header/Footer 布局。
+ *
+ * 可以手动选择支付结果，覆盖所有支付分支：
+ * - 支付成功：订单变为已付款
+ * - 支付失败：订单保持待付款，可以重新支付
+ * - 网关超时：查询支付结果会超时，结果页显示"确认中"
+ */
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useParams, useRouter } from 'next/navigation'
+import { formatPrice } from '@/lib/utils'
+
+type MockTransaction = {
+  ref: string
+  amount: string
+  subject: string
+  status: string
+  returnUrl: string
+}
+
+const outcomes = [
+  { value: 'SUCCEEDED', label: '支付成功', className: 'bg-green-600 hover:bg-green-700' },
+  { value: 'FAILED', label: '支付失败', className: 'bg-red-500 hover:bg-red-600' },
+  { value: 'TIMEOUT', label: '网关超时', className: 'bg-gray-500 hover:bg-gray-600' },
+]
+
+export default function MockPayPage() {
+  const { ref } = useParams<{ ref: string }>()
+  const router = useRouter()
+  const [transaction, setTransaction] = useState<MockTransaction | null>(null)
+  const [error, setError] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+
+  useEffect(() => {
+    fetch(`/api/mock-gateway/${ref}`)
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.success) {
+          setTransaction(data.data)
+        } else {
+          setError(data.message || '交易不存在')
+        }
+      })
+      .catch(() => setError('加载失败'))
+  }, [ref])
+
+  const handleComplete = async (outcome: string) => {
+    setSubmitting(true)
+    try {
+      const res = await fetch(`/api/mock-gateway/${ref}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ outcome }),
+      })
+      const data = await res.json()
+      if (data.success) {
+        // 支付完成，跳回商城的支付结果页
+        router.push(data.data.returnUrl)
+      } else {
+        setError(data.message || '操作失败')
+        setSubmitting(false)
+      }
+    } catch {
+      setError('操作失败')
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-100 flex items-center justify-center px-4">
+      <div className="w-full max-w-md bg-white rounded-xl shadow-sm border p-8">
+        <div className="text-center mb-6">
+          <p className="text-xs text-gray-400 uppercase tracking-wider">Mock Payment Gateway</p>
+          <h1 className="text-xl font-bold text-gray-900 mt-1">模拟收银台</h1>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 text-red-600 rounded-lg text-sm">{error}</div>
+        )}
+
+        {transaction && (
+          <>
+            <div className="text-center border-y py-6 mb-6">
+              <p className="text-sm text-gray-500">{transaction.subject}</p>
+              <p className="text-3xl font-bold text-gray-900 mt-2">{formatPrice(transaction.amount)}</p>
+            </div>
+
+            {transaction.status === 'PENDING' ? (
+              <div className="space-y-3">
+                {outcomes.map((outcome) => (
+                  <button
+                    key={outcome.value}
+                    onClick={() => handleComplete(outcome.value)}
+                    disabled={submitting}
+                    className={`w-full py-3 text-white font-medium rounded-lg disabled:opacity-50 transition-colors ${outcome.className}`}
+                  >
+                    {outcome.label}
+                  </button>
+                ))}
+              </div>
+            ) : (
+              <p className="text-center text-sm text-gray-500">该交易已完成（{transaction.status}）</p>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
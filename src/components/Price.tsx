@@ -0,0 +1,27 @@
+/**
+ * 价格组件
+ * ============================================================
+ *
+ * 按用户在顶部导航选择的显示币种换算并格式化价格。
+ *
+ * 【'use client' 原因】
+ * 显示币种保存在客户端（store/currency.ts），要在浏览器中读取；
+ * 商品卡片等 Server Component 也可以直接嵌入本组件。
+ *
+ * 【使用方式】
+ * <Price amount={product.price} />
+ */
+'use client'
+
+import { formatPrice } from '@/lib/utils'
+import type { MoneyValue } from '@/lib/money'
+import { useCurrencyStore } from '@/store/currency'
+
+type PriceProps = {
+  amount: MoneyValue  // 人民币金额
+}
+
+export default function Price({ amount }: PriceProps) {
+  const display = useCurrencyStore((state) => state.display())
+  return <>{formatPrice(amount, display)}</>
+}
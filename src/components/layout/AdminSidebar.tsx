@@ -14,6 +14,11 @@ const menuItems = [
   { href: '/admin/products', label: '商品管理', icon: '📦', exact: false },
   { href: '/admin/orders', label: '订单管理', icon: '🛒', exact: false },
   { href: '/admin/categories', label: '分类管理', icon: '📁', exact: false },
+  { href: '/admin/shipping', label: '运费模板', icon: '🚚', exact: false },
+  { href: '/admin/coupons', label: '优惠券', icon: '🎟️', exact: false },
+  { href: '/admin/promotions', label: '促销活动', icon: '🏷️', exact: false },
+  { href: '/admin/flash-sales', label: '秒杀活动', icon: '⚡', exact: false },
+  { href: '/admin/exchange-rates', label: '汇率', icon: '💱', exact: false },
   { href: '/admin/users', label: '用户管理', icon: '👥', exact: false },
 ]
 
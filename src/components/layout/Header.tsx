@@ -11,18 +11,31 @@
  * - useSession()：Client Component 中使用，返回 session 和 loading 状态
  * - auth()：Server Component 中使用，直接返回 session（是 async 函数）
  * 因为 Header 需要交互，所以用 useSession()
+ *
+ * 【显示币种】
+ * 右侧的币种选择器切换全站价格的显示币种（store/currency.ts），
+ * 挂载后读取上次选择的币种并获取汇率。
  */
 'use client'
 
 import Link from 'next/link'
 import { useSession, signOut } from 'next-auth/react'
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
+import { useCurrencyStore } from '@/store/currency'
+import { CURRENCIES, isCurrencyCode } from '@/lib/currency-format'
 
 export default function Header() {
   // 获取当前用户的 Session 信息
   // status 可以是: 'loading' | 'authenticated' | 'unauthenticated'
   const { data: session, status } = useSession()
   const [menuOpen, setMenuOpen] = useState(false)
+  const { currency, rates, fetchRates, setCurrency } = useCurrencyStore()
+
+  // 服务端渲染按人民币显示，挂载后再读取 localStorage 中选择的币种（见 store/currency.ts）
+  useEffect(() => {
+    useCurrencyStore.persist.rehydrate()
+    fetchRates()
+  }, [fetchRates])
 
   return (
     <header className="bg-white shadow-sm border-b border-gray-100 sticky top-0 z-50">
@@ -51,6 +64,23 @@ export default function Header() {
 
           {/* ---- 右侧操作区 ---- */}
           <div className="flex items-center space-x-4">
+            {/* 显示币种（只有人民币时不显示） */}
+            {rates.length > 1 && (
+              <select
+                value={currency}
+                onChange={(e) => isCurrencyCode(e.target.value) && setCurrency(e.target.value)}
+                className="text-sm text-gray-700 border border-gray-200 rounded-lg px-2 py-1
+                           focus:outline-none focus:ring-2 focus:ring-blue-500"
+                aria-label="显示币种"
+              >
+                {rates.map((rate) => (
+                  <option key={rate.currency} value={rate.currency}>
+                    {rate.currency} {CURRENCIES[rate.currency].label}
+                  </option>
+                ))}
+              </select>
+            )}
+
             {/* 购物车链接 */}
             <Link
               href="/cart"
@@ -0,0 +1,68 @@
+/**
+ * 订单状态时间线组件
+ * ============================================================
+ *
+ * 【组件职责】
+ * 按时间顺序展示订单的状态变更记录（OrderStatusHistory），
+ * 用于用户端"我的订单"和管理后台订单详情。
+ *
+ * 【Server / Client 通用】
+ * 这是一个纯展示组件，没有 useState / onClick，
+ * 既可以在 Server Component 中使用，也可以被 Client Component 引入。
+ */
+
+import {
+  ORDER_STATUS_LABELS,
+  OPERATOR_TYPE_LABELS,
+  type OrderStatusValue,
+  type OperatorTypeValue,
+} from '@/lib/order-status'
+
+export type OrderTimelineEntry = {
+  id: number
+  fromStatus: OrderStatusValue | null
+  toStatus: OrderStatusValue
+  operatorType: OperatorTypeValue
+  operator?: { name: string } | null // 管理后台会带上操作者姓名
+  note: string | null
+  createdAt: string | Date // Server Component 中是 Date，API 返回后是 string
+}
+
+type OrderTimelineProps = {
+  entries: OrderTimelineEntry[]
+}
+
+export default function OrderTimeline({ entries }: OrderTimelineProps) {
+  if (entries.length === 0) {
+    return <p className="text-sm text-gray-400">暂无状态记录</p>
+  }
+
+  return (
+    <ol className="relative border-l border-gray-200 ml-2 space-y-4">
+      {entries.map((entry, index) => {
+        const isLatest = index === entries.length - 1
+
+        return (
+          <li key={entry.id} className="ml-4">
+            {/* 时间线节点圆点，最新状态高亮 */}
+            <span
+              className={`absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full border-2 border-white ${
+                isLatest ? 'bg-blue-600' : 'bg-gray-300'
+              }`}
+            />
+            <p className={`text-sm font-medium ${isLatest ? 'text-gray-900' : 'text-gray-600'}`}>
+              {entry.fromStatus === null ? '订单创建' : ORDER_STATUS_LABELS[entry.toStatus]}
+            </p>
+            <p className="text-xs text-gray-500 mt-0.5">
+              {new Date(entry.createdAt).toLocaleString('zh-CN')}
+              <span className="mx-1">·</span>
+              {OPERATOR_TYPE_LABELS[entry.operatorType]}
+              {entry.operator && `（${entry.operator.name}）`}
+            </p>
+            {entry.note && <p className="text-xs text-gray-500 mt-0.5">备注：{entry.note}</p>}
+          </li>
+        )
+      })}
+    </ol>
+  )
+}
@@ -0,0 +1,62 @@
+/**
+ * 支付倒计时组件（Client Component）
+ * ============================================================
+ *
+ * 展示待付款订单距离支付截止时间还剩多久，例如"剩余 29:59"。
+ * 倒计时结束时调用 onExpire，父组件可以借此刷新订单列表。
+ *
+ * 【注意】
+ * 倒计时只是给用户的提示，真正的超时判断在服务端：
+ * 支付接口会拒绝超时订单，定时任务会取消它们。
+ */
+'use client'
+
+import { useEffect, useState } from 'react'
+
+type PaymentCountdownProps = {
+  deadline: string   // 支付截止时间（ISO 字符串）
+  onExpire?: () => void
+}
+
+/**
+ * 把毫秒数格式化为 mm:ss（超过 1 小时显示 h:mm:ss）
+ */
+function formatRemaining(ms: number): string {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000))
+  const hours = Math.floor(totalSeconds / 3600)
+  const minutes = Math.floor((totalSeconds % 3600) / 60)
+  const seconds = totalSeconds % 60
+  const mmss = `${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`
+  return hours > 0 ? `${hours}:${mmss}` : mmss
+}
+
+export default function PaymentCountdown({ deadline, onExpire }: PaymentCountdownProps) {
+  const deadlineTime = new Date(deadline).getTime()
+  const [now, setNow] = useState(() => Date.now())
+
+  useEffect(() => {
+    // 每秒更新一次当前时间，到期后停止计时
+    const timer = setInterval(() => {
+      const current = Date.now()
+      setNow(current)
+      if (current >= deadlineTime) {
+        clearInterval(timer)
+        onExpire?.()
+      }
+    }, 1000)
+
+    return () => clearInterval(timer)
+  }, [deadlineTime, onExpire])
+
+  const remaining = deadlineTime - now
+
+  if (remaining <= 0) {
+    return <span className="text-sm text-gray-400">支付已超时</span>
+  }
+
+  return (
+    <span className="text-sm text-orange-500">
+      剩余支付时间 {formatRemaining(remaining)}
+    </span>
+  )
+}
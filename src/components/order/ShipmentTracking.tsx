@@ -0,0 +1,89 @@
+/**
+ * 物流信息组件
+ * ============================================================
+ *
+ * 【组件职责】
+ * 展示订单的包裹列表：快递公司、快递单号、包裹内的商品，以及物流轨迹时间线。
+ * 用于用户端"我的订单"和管理后台订单详情。
+ *
+ * 【Server / Client 通用】
+ * 和 OrderTimeline 一样是纯展示组件，两边都可以引入。
+ */
+
+import {
+  getCarrierLabel,
+  SHIPMENT_EVENT_STATUS_LABELS,
+  type ShipmentEventStatusValue,
+} from '@/lib/shipment-status'
+
+export type ShipmentTrackingEntry = {
+  id: number
+  carrier: string
+  trackingNo: string
+  shippedAt: string | Date
+  items: {
+    id: number
+    quantity: number
+    orderItem: { product: { name: string } }
+  }[]
+  events: {
+    id: number
+    status: string
+    description: string
+    location: string | null
+    occurredAt: string | Date
+  }[] // 按时间倒序（最新的在最前面）
+}
+
+type ShipmentTrackingProps = {
+  shipments: ShipmentTrackingEntry[]
+}
+
+export default function ShipmentTracking({ shipments }: ShipmentTrackingProps) {
+  if (shipments.length === 0) {
+    return <p className="text-sm text-gray-400">暂无物流信息</p>
+  }
+
+  return (
+    <div className="space-y-4">
+      {shipments.map((shipment, index) => (
+        <div key={shipment.id}>
+          <p className="text-sm font-medium text-gray-900">
+            {shipments.length > 1 && `包裹 ${index + 1}：`}
+            {getCarrierLabel(shipment.carrier)} {shipment.trackingNo}
+          </p>
+          <p className="text-xs text-gray-500 mt-0.5">
+            {new Date(shipment.shippedAt).toLocaleString('zh-CN')} 发货 ·{' '}
+            {shipment.items.map((item) => `${item.orderItem.product.name} x${item.quantity}`).join('、')}
+          </p>
+
+          {shipment.events.length === 0 ? (
+            <p className="text-xs text-gray-400 mt-2">等待快递公司更新物流轨迹</p>
+          ) : (
+            <ol className="relative border-l border-gray-200 ml-2 mt-3 space-y-3">
+              {shipment.events.map((event, i) => (
+                <li key={event.id} className="ml-4">
+                  {/* 最新的轨迹高亮 */}
+                  <span
+                    className={`absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full border-2 border-white ${
+                      i === 0 ? 'bg-blue-600' : 'bg-gray-300'
+                    }`}
+                  />
+                  <p className={`text-sm ${i === 0 ? 'text-gray-900 font-medium' : 'text-gray-600'}`}>
+                    {SHIPMENT_EVENT_STATUS_LABELS[event.status as ShipmentEventStatusValue] ?? event.status}
+                    <span className="mx-1">·</span>
+                    {event.description}
+                  </p>
+                  <p className="text-xs text-gray-500 mt-0.5">
+                    {new Date(event.occurredAt).toLocaleString('zh-CN')}
+                    {event.location && ` · ${event.location}`}
+                  </p>
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      ))}
+    </div>
+  )
+}
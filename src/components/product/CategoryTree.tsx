@@ -0,0 +1,92 @@
+/**
+ * 商品列表页的分类树侧边栏
+ * ============================================================
+ *
+ * 【组件职责】
+ * 按层级显示全部分类，有子分类的分类可以展开/收起。
+ * 点击分类跳转到 /products?categoryId=xxx，列表包含该分类及其子孙分类下的商品。
+ *
+ * 【Client Component】
+ * 展开/收起是浏览器中的交互状态，需要 useState。
+ * 分类数据由商品列表页（Server Component）查询并组装成树后传入。
+ *
+ * 默认展开当前选中分类的所有上级分类，刷新或从链接进入时也能看到选中的分类。
+ */
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { ancestorsOf, flattenCategoryTree, type CategoryNode } from '@/lib/category-tree'
+
+type TreeCategory = CategoryNode<{
+  id: number
+  parentId: number | null
+  sortOrder: number
+  name: string
+}>
+
+type CategoryTreeProps = {
+  categories: TreeCategory[] // 顶级分类（含子分类）
+  selectedId?: number        // 当前选中的分类
+  keyword?: string           // 切换分类时保留搜索关键词
+}
+
+export default function CategoryTree({ categories, selectedId, keyword }: CategoryTreeProps) {
+  const [expanded, setExpanded] = useState(() => {
+    if (!selectedId) return new Set<number>()
+    const all = flattenCategoryTree(categories)
+    return new Set(ancestorsOf(all, selectedId).map((category) => category.id))
+  })
+
+  const toggle = (id: number) => {
+    setExpanded((prev) => {
+      const next = new Set(prev)
+      if (next.has(id)) {
+        next.delete(id)
+      } else {
+        next.add(id)
+      }
+      return next
+    })
+  }
+
+  const renderNodes = (nodes: TreeCategory[], depth: number) => (
+    <ul className={depth > 0 ? 'mt-1 space-y-1' : 'space-y-1'}>
+      {nodes.map((node) => {
+        const isOpen = expanded.has(node.id)
+        return (
+          <li key={node.id}>
+            <div className="flex items-center" style={{ paddingLeft: depth * 12 }}>
+              {node.children.length > 0 ? (
+                <button
+                  type="button"
+                  onClick={() => toggle(node.id)}
+                  className="w-5 h-5 flex-shrink-0 text-xs text-gray-400 hover:text-gray-600"
+                  aria-label={isOpen ? `收起${node.name}` : `展开${node.name}`}
+                  aria-expanded={isOpen}
+                >
+                  {isOpen ? '▾' : '▸'}
+                </button>
+              ) : (
+                <span className="w-5 flex-shrink-0" />
+              )}
+              <Link
+                href={`/products?categoryId=${node.id}${keyword ? `&keyword=${keyword}` : ''}`}
+                className={`flex-1 block px-2 py-1.5 rounded-lg text-sm transition-colors ${
+                  selectedId === node.id
+                    ? 'bg-blue-50 text-blue-600 font-medium'
+                    : 'text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                {node.name}
+              </Link>
+            </div>
+            {isOpen && node.children.length > 0 && renderNodes(node.children, depth + 1)}
+          </li>
+        )
+      })}
+    </ul>
+  )
+
+  return renderNodes(categories, 0)
+}
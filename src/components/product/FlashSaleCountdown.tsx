@@ -0,0 +1,56 @@
+/**
+ * 秒杀倒计时组件
+ * ============================================================
+ *
+ * 【组件职责】
+ * 显示距秒杀活动结束还有多久，每秒刷新一次，如 "距结束 01:23:45"。
+ * 超过一天时显示天数，如 "距结束 2天 03:04:05"。
+ *
+ * 【Client Component】
+ * 倒计时需要定时器（setInterval），只能在浏览器中运行。
+ * ProductCard 是 Server Component，可以直接嵌入这个 Client Component。
+ *
+ * 【为什么有 suppressHydrationWarning？】
+ * 服务端渲染和浏览器激活（hydration）时的当前时间不同，
+ * 两边算出的剩余时间可能差一秒，React 会报文本不一致的警告；
+ * 倒计时本来就以浏览器的时间为准，所以忽略这个差异。
+ */
+'use client'
+
+import { useEffect, useState } from 'react'
+
+type FlashSaleCountdownProps = {
+  endsAt: string   // 活动结束时间（ISO 字符串）
+  className?: string
+}
+
+/**
+ * 把剩余毫秒数格式化为 "2天 03:04:05" / "03:04:05"
+ */
+function formatRemaining(ms: number): string {
+  const totalSeconds = Math.max(Math.floor(ms / 1000), 0)
+  const days = Math.floor(totalSeconds / 86400)
+  const pad = (n: number) => String(n).padStart(2, '0')
+  const time = [
+    Math.floor((totalSeconds % 86400) / 3600),
+    Math.floor((totalSeconds % 3600) / 60),
+    totalSeconds % 60,
+  ].map(pad).join(':')
+  return days > 0 ? `${days}天 ${time}` : time
+}
+
+export default function FlashSaleCountdown({ endsAt, className }: FlashSaleCountdownProps) {
+  const [now, setNow] = useState(() => Date.now())
+  const remaining = new Date(endsAt).getTime() - now
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(timer)
+  }, [])
+
+  return (
+    <span className={className} suppressHydrationWarning>
+      {remaining > 0 ? `距结束 ${formatRemaining(remaining)}` : '秒杀已结束'}
+    </span>
+  )
+}
@@ -8,6 +8,9 @@
  * 【Server Component】
  * 这是一个纯展示组件，不需要 'use client'。
  * 它接收 props 并渲染 UI，没有任何客户端交互逻辑。
+ * 秒杀中的商品显示秒杀价、原价（划线）和倒计时，倒计时是嵌入的 Client Component。
+ * 价格按用户选择的显示币种换算（<Price>，同样是嵌入的 Client Component）。
+ * 搜索结果中传入 keyword，商品名称和描述摘要中匹配的部分高亮显示。
  *
  * 【Next.js Image 组件】
  * 使用 next/image 代替原生 <img>，因为它提供：
@@ -17,32 +20,53 @@
  */
 
 import Link from 'next/link'
-import { formatPrice } from '@/lib/utils'
+import Price from '@/components/Price'
+import FlashSaleCountdown from './FlashSaleCountdown'
+import { coverImageOf, type ProductImageView } from '@/lib/product-image-url'
+import { highlightText } from '@/lib/search-highlight'
 
 // ---- 组件 Props 类型定义 ----
 type ProductCardProps = {
   id: number
   name: string
   price: string | number  // Prisma Decimal 序列化后可能是 string
-  images: string          // JSON 字符串，包含图片 URL 数组
+  images: ProductImageView[]  // 商品图片，第一张是封面（列表查询只取这一张）
   category?: {
     name: string
     slug: string
   }
+  flashSale?: {            // 进行中的秒杀活动
+    salePrice: string
+    endsAt: string
+  } | null
+  keyword?: string         // 搜索关键词，匹配的部分高亮
+  snippet?: string | null  // 搜索结果的描述摘要（描述中匹配的位置附近）
 }
 
-export default function ProductCard({ id, name, price, images, category }: ProductCardProps) {
-  // 解析图片 JSON，取第一张作为封面
-  // try-catch 防止 JSON 解析失败（数据异常时）
-  let coverImage = '/placeholder.jpg'
-  try {
-    const imageList = JSON.parse(images)
-    if (Array.isArray(imageList) && imageList.length > 0) {
-      coverImage = imageList[0]
-    }
-  } catch {
-    // JSON 解析失败，使用默认图片
-  }
+/**
+ * 高亮显示匹配的部分
+ */
+function Highlighted({ text, keyword }: { text: string; keyword?: string }) {
+  if (!keyword) return <>{text}</>
+  return (
+    <>
+      {highlightText(text, keyword).map((segment, index) =>
+        segment.highlighted ? (
+          <mark key={index} className="bg-yellow-100 text-inherit rounded-sm">{segment.text}</mark>
+        ) : (
+          segment.text
+        )
+      )}
+    </>
+  )
+}
+
+export default function ProductCard({
+  id, name, price, images, category, flashSale, keyword, snippet,
+}: ProductCardProps) {
+  // 封面使用缩略图，没有图片时显示占位图
+  const cover = images[0]
+  const coverImage = coverImageOf(images)
 
   return (
     <Link href={`/products/${id}`} className="group block">
@@ -53,10 +77,15 @@ export default function ProductCard({ id, name, price, images, category }: Produ
           {/* 生产环境建议使用 next/image 并配置允许的图片域名 */}
           <img
             src={coverImage}
-            alt={name}
+            alt={cover?.alt || name}
             className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-300"
             loading="lazy"
           />
+          {flashSale && (
+            <span className="absolute top-2 left-2 text-xs bg-red-500 text-white px-2 py-1 rounded-full">
+              秒杀
+            </span>
+          )}
         </div>
 
         {/* 商品信息 */}
@@ -70,13 +99,30 @@ export default function ProductCard({ id, name, price, images, category }: Produ
 
           {/* 商品名称 */}
           <h3 className="mt-2 text-sm font-medium text-gray-900 line-clamp-2 group-hover:text-blue-600 transition-colors">
-            {name}
+            <Highlighted text={name} keyword={keyword} />
           </h3>
 
-          {/* 价格 */}
-          <p className="mt-2 text-lg font-bold text-red-500">
-            {formatPrice(price)}
-          </p>
+          {/* 描述摘要（搜索结果） */}
+          {snippet && (
+            <p className="mt-1 text-xs text-gray-500 line-clamp-2">
+              <Highlighted text={snippet} keyword={keyword} />
+            </p>
+          )}
+
+          {/* 价格（秒杀中显示秒杀价和倒计时） */}
+          {flashSale ? (
+            <>
+              <p className="mt-2 text-lg font-bold text-red-500">
+                <Price amount={flashSale.salePrice} />
+                <span className="ml-2 text-xs text-gray-400 line-through font-normal"><Price amount={price} /></span>
+              </p>
+              <FlashSaleCountdown endsAt={flashSale.endsAt} className="text-xs text-red-500" />
+            </>
+          ) : (
+            <p className="mt-2 text-lg font-bold text-red-500">
+              <Price amount={price} />
+            </p>
+          )}
         </div>
       </div>
     </Link>
@@ -12,24 +12,31 @@
  */
 
 import ProductCard from './ProductCard'
+import type { ProductImageView } from '@/lib/product-image-url'
 
 type Product = {
   id: number
   name: string
   price: string | number
-  images: string
+  images: ProductImageView[]
   category?: {
     name: string
     slug: string
   }
+  flashSale?: {
+    salePrice: string
+    endsAt: string
+  } | null
+  snippet?: string | null // 搜索结果的描述摘要
 }
 
 type ProductListProps = {
   products: Product[]
   title?: string
+  keyword?: string // 搜索关键词，商品卡片中高亮匹配的部分
 }
 
-export default function ProductList({ products, title }: ProductListProps) {
+export default function ProductList({ products, title, keyword }: ProductListProps) {
   return (
     <div>
       {/* 标题 */}
@@ -48,6 +55,9 @@ export default function ProductList({ products, title }: ProductListProps) {
               price={product.price}
               images={product.images}
               category={product.category}
+              flashSale={product.flashSale}
+              keyword={keyword}
+              snippet={product.snippet}
             />
           ))}
         </div>
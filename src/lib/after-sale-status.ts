@@ -0,0 +1,121 @@
+/**
+ * 售后规则定义（前后端共用）
+ * ============================================================
+ *
+ * 【售后流程】
+ *
+ *   PENDING ──同意──► APPROVED ──退款成功──► REFUNDED
+ *      │
+ *      └──拒绝──► REJECTED
+ *
+ * 同意后会立即发起退款；退款失败时售后单停留在 APPROVED，管理员可以重试退款。
+ *
+ * 客户端页面用它决定显示哪些按钮，服务端（lib/after-sale.ts）用它做校验。
+ */
+
+import type { OrderStatusValue } from '@/lib/order-status'
+import { fromCents, toCents, type MoneyValue } from '@/lib/money'
+
+export type AfterSaleTypeValue = 'REFUND_ONLY' | 'RETURN_REFUND'
+
+export type AfterSaleStatusValue = 'PENDING' | 'APPROVED' | 'REJECTED' | 'REFUNDED'
+
+/**
+ * 每个售后申请最多上传的凭证图片数
+ */
+export const MAX_AFTER_SALE_IMAGES = 5
+
+/**
+ * 各售后类型允许申请的订单状态
+ * - 仅退款：付款后即可申请（未发货时部分退款，或收到货但不需要退回）
+ * - 退货退款：商品发出之后才有"退货"可言
+ */
+export const AFTER_SALE_ORDER_STATUSES: Record<AfterSaleTypeValue, OrderStatusValue[]> = {
+  REFUND_ONLY: ['PAID', 'SHIPPED', 'COMPLETED'],
+  RETURN_REFUND: ['SHIPPED', 'COMPLETED'],
+}
+
+/**
+ * 售后类型的中文名称
+ */
+export const AFTER_SALE_TYPE_LABELS: Record<AfterSaleTypeValue, string> = {
+  REFUND_ONLY: '仅退款',
+  RETURN_REFUND: '退货退款',
+}
+
+/**
+ * 售后状态的中文名称
+ */
+export const AFTER_SALE_STATUS_LABELS: Record<AfterSaleStatusValue, string> = {
+  PENDING: '待审核',
+  APPROVED: '退款中',
+  REJECTED: '已拒绝',
+  REFUNDED: '已退款',
+}
+
+/**
+ * 判断订单当前状态能否申请某种售后
+ *
+ * @example
+ * canApplyAfterSale('PAID', 'RETURN_REFUND')    // false，还没发货
+ * canApplyAfterSale('COMPLETED', 'REFUND_ONLY') // true
+ */
+export function canApplyAfterSale(orderStatus: OrderStatusValue, type: AfterSaleTypeValue): boolean {
+  return AFTER_SALE_ORDER_STATUSES[type].includes(orderStatus)
+}
+
+/**
+ * 判断订单当前是否还能申请售后（任意类型）
+ *
+ * @param afterSaleDeadline - 售后截止时间（订单接口返回），null 表示不受期限限制
+ */
+export function isAfterSaleOpen(
+  orderStatus: OrderStatusValue,
+  afterSaleDeadline: string | Date | null,
+  now: Date = new Date()
+): boolean {
+  const statusAllowed = Object.values(AFTER_SALE_ORDER_STATUSES).some((statuses) =>
+    statuses.includes(orderStatus)
+  )
+  return statusAllowed && (afterSaleDeadline === null || new Date(afterSaleDeadline) > now)
+}
+
+/**
+ * 商品项已被售后占用的数量和金额（未被拒绝的售后合计）
+ */
+export type AfterSaleUsage = {
+  quantity: number
+  amount: MoneyValue
+}
+
+/**
+ * 计算一次售后最多可以退的金额
+ *
+ * 按商品项的实付金额（扣除了促销和优惠券）计算，而不是单价 × 数量：
+ * - 按申请数量占购买数量的比例计算，向下取整到分
+ * - 退最后剩下的几件时退还剩余的全部实付金额，几次售后的合计正好是实付金额
+ * - 都不超过实付金额减去其他售后已占用的金额
+ *
+ * @param paidAmount - 商品项的实付金额
+ * @param purchased - 购买数量
+ * @param used - 其他售后已占用的数量和金额
+ * @param quantity - 这次申请的数量
+ *
+ * @example
+ * // 3 件共实付 100.00
+ * maxRefundAmount('100.00', 3, { quantity: 0, amount: 0 }, 1)       // "33.33"
+ * maxRefundAmount('100.00', 3, { quantity: 2, amount: '66.66' }, 1) // "33.34"
+ */
+export function maxRefundAmount(
+  paidAmount: MoneyValue,
+  purchased: number,
+  used: AfterSaleUsage,
+  quantity: number
+): string {
+  const paid = toCents(paidAmount)
+  const remaining = Math.max(0, paid - toCents(used.amount))
+  if (used.quantity + quantity >= purchased) {
+    return fromCents(remaining)
+  }
+  return fromCents(Math.min(Math.floor((paid * quantity) / purchased), remaining))
+}
@@ -0,0 +1,332 @@
+/**
+ * 售后服务（服务端）
+ * ============================================================
+ *
+ * 【流程】
+ * 1. 用户针对订单中的某个商品项申请售后（createAfterSale）
+ * 2. 管理员审核：
+ *    - 拒绝（rejectAfterSale）→ 售后结束
+ *    - 同意（approveAfterSale）→ 退货退款的商品归还库存 → 通过支付渠道退款
+ * 3. 退款失败（渠道超时等）时售后单停留在"已同意"，管理员可以重试（refundAfterSale）
+ *
+ * 【售后期限】
+ * 订单完成（确认收货）后 AFTER_SALE_WINDOW_DAYS 天内可以申请售后，
+ * 还没完成的订单（已付款、已发货）不受期限限制。
+ *
+ * 【金额核对】
+ * 所有金额都以 OrderItem.payableAmount（下单时记录的实付金额，扣除了促销和优惠券）为准：
+ * - 单个售后的退款金额 ≤ 实付金额按申请数量分摊的部分（maxRefundAmount，见 after-sale-status.ts）
+ * - 同一商品项所有未被拒绝的售后，数量合计 ≤ 购买数量，金额合计 ≤ 实付金额
+ * 这样同一件商品不会被重复退款，用了优惠的商品也不会按原价退款。
+ * 记录实付金额之前的订单没有 payableAmount，按单价快照 × 数量计算。
+ *
+ * 【使用方式】
+ * import { createAfterSale, AfterSaleError } from '@/lib/after-sale'
+ */
+
+import { prisma } from '@/lib/prisma'
+import { Prisma, type Order, type OrderItem } from '@/generated/prisma/client'
+import { releaseStock } from '@/lib/order'
+import { generateRefundNo, refundPayment } from '@/lib/payment'
+import {
+  canApplyAfterSale,
+  maxRefundAmount,
+  AFTER_SALE_TYPE_LABELS,
+  type AfterSaleUsage,
+} from '@/lib/after-sale-status'
+import type { AfterSaleInput } from '@/lib/validators'
+
+/**
+ * 售后业务错误（与 OrderActionError 相同的用法：API 路由据此返回 400）
+ */
+export class AfterSaleError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'AfterSaleError'
+  }
+}
+
+/**
+ * 确认收货后可以申请售后的天数
+ * 可通过环境变量 AFTER_SALE_WINDOW_DAYS 配置，默认 7 天
+ */
+export const AFTER_SALE_WINDOW_DAYS = Number(process.env.AFTER_SALE_WINDOW_DAYS) || 7
+
+/**
+ * 计算订单的售后截止时间
+ * 只有已完成的订单有截止时间；返回 null 表示不受期限限制
+ */
+export function getAfterSaleDeadline(order: Pick<Order, 'completedAt'>): Date | null {
+  if (!order.completedAt) return null
+  return new Date(order.completedAt.getTime() + AFTER_SALE_WINDOW_DAYS * 24 * 60 * 60 * 1000)
+}
+
+type ReviewOptions = {
+  adminId: string
+  note?: string
+}
+
+/**
+ * 商品项的实付金额（记录实付金额之前的订单按单价快照 × 数量）
+ */
+export function paidAmountOf(item: Pick<OrderItem, 'price' | 'quantity' | 'payableAmount'>): Prisma.Decimal {
+  return item.payableAmount ?? item.price.times(item.quantity)
+}
+
+/**
+ * 查询商品项已占用的售后数量和金额（未被拒绝的售后都算占用）
+ *
+ * @param excludeId - 不计入的售后单（审核时排除正在审核的这一单）
+ */
+async function getItemUsage(
+  tx: Prisma.TransactionClient,
+  orderItemId: number,
+  excludeId?: number
+): Promise<AfterSaleUsage> {
+  const { _sum } = await tx.afterSale.aggregate({
+    where: {
+      orderItemId,
+      status: { not: 'REJECTED' },
+      ...(excludeId !== undefined && { id: { not: excludeId } }),
+    },
+    _sum: { quantity: true, amount: true },
+  })
+  return { quantity: _sum.quantity ?? 0, amount: _sum.amount ?? 0 }
+}
+
+/**
+ * 查询订单各商品项已占用的售后数量和金额
+ * 申请页面用它显示"最多可退 N 件"和最多可退的金额
+ */
+export async function getAfterSaleUsage(orderId: number): Promise<Map<number, AfterSaleUsage>> {
+  const grouped = await prisma.afterSale.groupBy({
+    by: ['orderItemId'],
+    where: { orderId, status: { not: 'REJECTED' } },
+    _sum: { quantity: true, amount: true },
+  })
+  return new Map(grouped.map((g) => [
+    g.orderItemId,
+    { quantity: g._sum.quantity ?? 0, amount: g._sum.amount?.toString() ?? '0' },
+  ]))
+}
+
+/**
+ * 申请售后
+ *
+ * 【并发】
+ * 用户快速连点两次提交，两个请求可能都查到"还可以退 1 件"。
+ * 这里先用 SELECT ... FOR UPDATE 锁住商品项这一行，
+ * 同一商品项的申请在事务内排队执行，第二个请求会看到第一个请求占用的数量。
+ *
+ * @param userId - 申请人，只能对自己的订单申请
+ * @param orderId - 订单 ID
+ * @param input - 申请内容（已通过 afterSaleSchema 校验）
+ * @throws AfterSaleError 订单状态不允许、数量或金额超出时抛出
+ */
+export async function createAfterSale(userId: string, orderId: number, input: AfterSaleInput) {
+  return prisma.$transaction(async (tx) => {
+    await tx.$queryRaw`SELECT id FROM order_items WHERE id = ${input.orderItemId} FOR UPDATE`
+
+    const item = await tx.orderItem.findFirst({
+      where: { id: input.orderItemId, orderId, order: { userId } },
+      include: { order: { select: { status: true, completedAt: true } } },
+    })
+
+    if (!item) {
+      throw new AfterSaleError('订单商品不存在')
+    }
+
+    if (!canApplyAfterSale(item.order.status, input.type)) {
+      throw new AfterSaleError(`当前订单状态不能申请${AFTER_SALE_TYPE_LABELS[input.type]}`)
+    }
+
+    const deadline = getAfterSaleDeadline(item.order)
+    if (deadline && deadline <= new Date()) {
+      throw new AfterSaleError(`已超过售后期限（确认收货后 ${AFTER_SALE_WINDOW_DAYS} 天内可申请）`)
+    }
+
+    const usage = await getItemUsage(tx, item.id)
+    const available = item.quantity - usage.quantity
+    if (input.quantity > available) {
+      throw new AfterSaleError(
+        available > 0 ? `该商品最多还能申请 ${available} 件` : '该商品已申请过售后'
+      )
+    }
+
+    // 按实付金额计算可退金额
+    const maxAmount = new Prisma.Decimal(
+      maxRefundAmount(paidAmountOf(item), item.quantity, usage, input.quantity)
+    )
+    const amount = input.amount !== undefined ? new Prisma.Decimal(input.amount) : maxAmount
+    if (amount.greaterThan(maxAmount)) {
+      throw new AfterSaleError(`退款金额不能超过 ${maxAmount.toFixed(2)}`)
+    }
+
+    return tx.afterSale.create({
+      data: {
+        orderId,
+        orderItemId: item.id,
+        userId,
+        type: input.type,
+        quantity: input.quantity,
+        amount,
+        reason: input.reason,
+        images: {
+          create: (input.images ?? []).map((url) => ({ url })),
+        },
+      },
+    })
+  })
+}
+
+/**
+ * 同意售后并退款（管理员）
+ *
+ * 退货退款会把商品数量归还到库存（和"同意"在同一个事务中）。
+ * 退款在事务提交之后进行：调用支付渠道是网络请求，不应该放在数据库事务里，
+ * 否则渠道响应慢会长时间占用数据库连接和行锁。
+ *
+ * @param amount - 最终退款金额，不传则按用户申请的金额；不能超过实付金额分摊到这次售后的部分
+ * @throws AfterSaleError 售后单不是待审核状态、金额超出时抛出
+ * @throws PaymentProviderError 渠道退款失败时抛出（此时售后单已同意，可重试退款）
+ */
+export async function approveAfterSale(
+  afterSaleId: number,
+  options: ReviewOptions & { amount?: number }
+) {
+  await prisma.$transaction(async (tx) => {
+    const afterSale = await tx.afterSale.findUnique({
+      where: { id: afterSaleId },
+      include: { orderItem: true },
+    })
+
+    if (!afterSale) {
+      throw new AfterSaleError('售后申请不存在')
+    }
+
+    // 和申请售后一样锁住商品项，同一商品项的售后按顺序核对金额
+    await tx.$queryRaw`SELECT id FROM order_items WHERE id = ${afterSale.orderItemId} FOR UPDATE`
+    const usage = await getItemUsage(tx, afterSale.orderItemId, afterSale.id)
+    const maxAmount = new Prisma.Decimal(maxRefundAmount(
+      paidAmountOf(afterSale.orderItem),
+      afterSale.orderItem.quantity,
+      usage,
+      afterSale.quantity
+    ))
+    const amount = options.amount !== undefined ? new Prisma.Decimal(options.amount) : afterSale.amount
+    if (amount.greaterThan(maxAmount)) {
+      throw new AfterSaleError(`退款金额不能超过 ${maxAmount.toFixed(2)}`)
+    }
+
+    // 带状态条件更新，防止两个管理员同时审核
+    const { count } = await tx.afterSale.updateMany({
+      where: { id: afterSale.id, status: 'PENDING' },
+      data: {
+        status: 'APPROVED',
+        amount,
+        handlerId: options.adminId,
+        adminNote: options.note,
+        handledAt: new Date(),
+      },
+    })
+
+    if (count === 0) {
+      throw new AfterSaleError('售后申请已被处理，请刷新后重试')
+    }
+
+    if (afterSale.type === 'RETURN_REFUND') {
+      // 只归还退货的数量，而不是整个商品项的购买数量
+      await releaseStock(tx, [{
+        productId: afterSale.orderItem.productId,
+        variantId: afterSale.orderItem.variantId,
+        quantity: afterSale.quantity,
+      }])
+    }
+  })
+
+  return refundAfterSale(afterSaleId)
+}
+
+/**
+ * 拒绝售后（管理员），必须填写原因
+ */
+export async function rejectAfterSale(afterSaleId: number, options: ReviewOptions) {
+  if (!options.note?.trim()) {
+    throw new AfterSaleError('请填写拒绝原因')
+  }
+
+  const { count } = await prisma.afterSale.updateMany({
+    where: { id: afterSaleId, status: 'PENDING' },
+    data: {
+      status: 'REJECTED',
+      handlerId: options.adminId,
+      adminNote: options.note,
+      handledAt: new Date(),
+    },
+  })
+
+  if (count === 0) {
+    throw new AfterSaleError('售后申请不存在或已被处理')
+  }
+
+  return prisma.afterSale.findUniqueOrThrow({ where: { id: afterSaleId } })
+}
+
+/**
+ * 为已同意的售后发起退款（同意时自动调用，失败后管理员可以重试）
+ *
+ * 【怎么防止重复退款？】
+ * 先把售后单从 APPROVED 改为 REFUNDED（带状态条件，只有一个请求能成功），
+ * 再调用支付渠道退款；退款失败时改回 APPROVED。
+ * 这样即使管理员连点"重试退款"，也只有一个请求会真正发起退款。
+ *
+ * 退款单号和状态写在同一次更新里，退款失败改回 APPROVED 时保留，重试沿用同一个单号：
+ * 渠道超时但其实已经退款成功时，重试会被渠道按单号去重，不会退两次。
+ *
+ * @throws AfterSaleError 售后单不是"已同意"状态、找不到可退款的支付记录时抛出
+ * @throws PaymentProviderError 渠道退款失败时抛出
+ */
+export async function refundAfterSale(afterSaleId: number) {
+  const afterSale = await prisma.afterSale.findUnique({ where: { id: afterSaleId } })
+  if (!afterSale || afterSale.status !== 'APPROVED') {
+    throw new AfterSaleError('只有已同意的售后可以退款')
+  }
+
+  // 找一笔剩余可退金额足够的成功支付（被自动全额退款的重复支付会被跳过，待退款的金额也不算）
+  const payments = await prisma.payment.findMany({
+    where: { orderId: afterSale.orderId, status: 'SUCCEEDED' },
+    orderBy: { paidAt: 'asc' },
+  })
+  const payment = payments.find((p) =>
+    p.amount.minus(p.refundedAmount).minus(p.pendingRefundAmount).greaterThanOrEqualTo(afterSale.amount)
+  )
+  if (!payment) {
+    throw new AfterSaleError('没有可退款的支付记录，请线下处理')
+  }
+
+  const refundNo = afterSale.refundNo ?? generateRefundNo()
+  const { count } = await prisma.afterSale.updateMany({
+    where: { id: afterSale.id, status: 'APPROVED' },
+    data: { status: 'REFUNDED', refundedAt: new Date(), refundNo },
+  })
+  if (count === 0) {
+    throw new AfterSaleError('售后申请已被处理，请刷新后重试')
+  }
+
+  try {
+    await refundPayment(
+      payment,
+      afterSale.amount.toFixed(2),
+      refundNo,
+      `售后退款（售后单 ${afterSale.id}）`
+    )
+  } catch (error) {
+    await prisma.afterSale.update({
+      where: { id: afterSale.id },
+      data: { status: 'APPROVED', refundedAt: null },
+    })
+    throw error
+  }
+
+  return prisma.afterSale.findUniqueOrThrow({ where: { id: afterSale.id } })
+}
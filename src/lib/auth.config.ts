@@ -57,7 +57,7 @@ export const authConfig: NextAuthConfig = {
       }
 
       // 需要登录的页面
-      const protectedPaths = ['/user', '/checkout']
+      const protectedPaths = ['/user', '/checkout', '/payment']
       if (!isLoggedIn && protectedPaths.some((p) => pathname.startsWith(p))) {
         return false // NextAuth 会自动重定向到登录页
       }
@@ -0,0 +1,131 @@
+/**
+ * 分类树（前后端共用）
+ * ============================================================
+ *
+ * 数据库里的分类是扁平的：每个分类记录自己的 parentId，parentId 为空的是顶级分类。
+ * 分类数量不多（几十到几百个），一次查出全部分类，在内存中组装成树，
+ * 比按层级递归查询数据库简单得多。
+ *
+ * 移动、删除分类等数据库操作在服务端（lib/category.ts）。
+ */
+
+/**
+ * 组装分类树需要的字段
+ */
+export type CategoryLike = {
+  id: number
+  parentId: number | null
+  sortOrder: number
+}
+
+/**
+ * 分类树节点：分类本身的字段 + 按顺序排好的子分类
+ */
+export type CategoryNode<T extends CategoryLike = CategoryLike> = T & {
+  children: CategoryNode<T>[]
+}
+
+/**
+ * 同级分类的排序：按 sortOrder，相同时按创建顺序（id）
+ */
+export function compareCategoryOrder(a: CategoryLike, b: CategoryLike): number {
+  return a.sortOrder - b.sortOrder || a.id - b.id
+}
+
+/**
+ * 扁平的分类列表组装成树（同级按 sortOrder、再按 id 排序）
+ *
+ * 父分类不在列表中的分类当作顶级分类，数据异常时也不会丢失分类。
+ *
+ * @example
+ * buildCategoryTree([
+ *   { id: 1, parentId: null, sortOrder: 0 },
+ *   { id: 2, parentId: 1, sortOrder: 0 },
+ * ])
+ * // [{ id: 1, ..., children: [{ id: 2, ..., children: [] }] }]
+ */
+export function buildCategoryTree<T extends CategoryLike>(categories: T[]): CategoryNode<T>[] {
+  const nodes = new Map<number, CategoryNode<T>>()
+  for (const category of categories) {
+    nodes.set(category.id, { ...category, children: [] })
+  }
+
+  const roots: CategoryNode<T>[] = []
+  for (const node of nodes.values()) {
+    const parent = node.parentId === null ? undefined : nodes.get(node.parentId)
+    if (parent) {
+      parent.children.push(node)
+    } else {
+      roots.push(node)
+    }
+  }
+
+  const sort = (list: CategoryNode<T>[]) => {
+    list.sort(compareCategoryOrder)
+    list.forEach((node) => sort(node.children))
+  }
+  sort(roots)
+  return roots
+}
+
+/**
+ * 分类树按显示顺序展开成列表，带上层级（顶级为 0），用于下拉框缩进显示
+ */
+export function flattenCategoryTree<T extends CategoryLike>(
+  tree: CategoryNode<T>[],
+  depth = 0
+): (CategoryNode<T> & { depth: number })[] {
+  return tree.flatMap((node) => [
+    { ...node, depth },
+    ...flattenCategoryTree(node.children, depth + 1),
+  ])
+}
+
+/**
+ * 分类自身及其所有子孙分类的 ID
+ *
+ * 浏览某个分类时，子分类下的商品也要显示（"电子产品"包含"手机"下的商品）。
+ *
+ * @example
+ * descendantIdsOf(categories, 1) // [1, 2, 5, 6]
+ */
+export function descendantIdsOf(categories: CategoryLike[], id: number): number[] {
+  const ids = [id]
+  // 广度优先，ids 在遍历过程中不断追加；visited 防止脏数据中的环导致死循环
+  const visited = new Set(ids)
+  for (let i = 0; i < ids.length; i++) {
+    for (const category of categories) {
+      if (category.parentId === ids[i] && !visited.has(category.id)) {
+        visited.add(category.id)
+        ids.push(category.id)
+      }
+    }
+  }
+  return ids
+}
+
+/**
+ * 多个分类及其所有子孙分类的 ID
+ *
+ * 优惠券、促销活动按分类限定范围时，子分类下的商品也适用（适用"电子产品"，"手机"下的商品也能用）。
+ */
+export function expandCategoryIds(categories: CategoryLike[], ids: number[]): Set<number> {
+  return new Set(ids.flatMap((id) => descendantIdsOf(categories, id)))
+}
+
+/**
+ * 从顶级分类到该分类的路径，用于面包屑导航
+ *
+ * @example
+ * ancestorsOf(categories, 6) // [电子产品, 手机, 智能手机]
+ */
+export function ancestorsOf<T extends CategoryLike>(categories: T[], id: number): T[] {
+  const byId = new Map(categories.map((category) => [category.id, category]))
+  const path: T[] = []
+  let current = byId.get(id)
+  while (current && !path.includes(current)) {
+    path.unshift(current)
+    current = current.parentId === null ? undefined : byId.get(current.parentId)
+  }
+  return path
+}
@@ -0,0 +1,275 @@
+/**
+ * 多级分类（服务端）
+ * ============================================================
+ *
+ * 【数据结构】
+ * Category.parentId 指向上级分类（为空是顶级分类），层级不限；
+ * 同级分类按 sortOrder 排序。组装成树、查找子孙分类等纯计算在 lib/category-tree.ts。
+ *
+ * 【流程】
+ * 1. 后台创建分类时可以选择上级分类，新分类排在同级的最后（createCategory）
+ * 2. 后台拖拽分类调整层级和顺序（moveCategory），不能移到自身或自己的子分类下
+ * 3. 删除有子分类或商品的分类时，必须选择把它们移到哪里（deleteCategory）
+ *    定义了商品属性的分类不能删除，要先删除属性
+ * 4. 前台浏览某个分类时，包含子孙分类下的商品（descendantIdsOf）
+ *
+ * 【为什么移动和删除要先锁住整棵分类树？】
+ * 判断"目标是不是自己的子分类"需要整棵树。事务中普通的 SELECT 不加锁，
+ * 两个管理员同时拖拽（A 移到 B 下，同时 B 移到 A 下）时，两个事务读到的都是移动之前的树，
+ * 检查都能通过，提交后形成环。所以先用 SELECT ... FOR UPDATE 锁住所有分类（lockCategoryTree），
+ * 移动、删除分类的事务排队执行，后执行的事务读到的是前一个事务提交之后的树。
+ *
+ * 【移动分类为什么可能被拒绝？】
+ * 商品属性定义在分类上，对子孙分类的商品生效（见 product-attribute.ts）。
+ * 分类移到别的上级分类下之后，原来从上级分类继承的属性不再适用，商品已经填写的这些属性值
+ * 既不显示也不能筛选，编辑商品时也改不了。所以移动、删除分类会导致这种情况时直接拒绝（assertAttributeValuesKept），
+ * 由管理员先处理商品的属性值。
+ *
+ * 【使用方式】
+ * import { moveCategory, deleteCategory } from '@/lib/category'
+ */
+
+import { prisma } from '@/lib/prisma'
+import { Prisma } from '@/generated/prisma/client'
+import {
+  ancestorsOf,
+  compareCategoryOrder,
+  descendantIdsOf,
+  type CategoryLike,
+} from '@/lib/category-tree'
+import type {
+  CategoryInput,
+  DeleteCategoryInput,
+  MoveCategoryInput,
+} from '@/lib/validators'
+
+/**
+ * 分类业务错误（上级分类不存在、移动形成环、删除时没有选择迁移目标等，API 路由据此返回 400）
+ */
+export class CategoryError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'CategoryError'
+  }
+}
+
+/**
+ * 组装分类树只需要的字段
+ */
+const treeSelect = {
+  id: true,
+  parentId: true,
+  sortOrder: true,
+} satisfies Prisma.CategorySelect
+
+/**
+ * 锁住所有分类，再读取整棵分类树（必须在事务中调用）
+ * 锁一直持有到事务结束，同时移动、删除分类的其他事务要等待
+ */
+async function lockCategoryTree(tx: Prisma.TransactionClient) {
+  await tx.$queryRaw`SELECT id FROM categories FOR UPDATE`
+  return tx.category.findMany({ select: treeSelect })
+}
+
+/**
+ * 检查分类树调整后，商品已填写的属性值是否仍然适用
+ *
+ * @param tree - 调整后的分类树
+ * @param categoryIds - 上级分类发生变化的分类，检查这些分类下的商品
+ * @throws CategoryError 有商品的属性值将不再适用时抛出
+ */
+async function assertAttributeValuesKept(
+  tx: Prisma.TransactionClient,
+  tree: CategoryLike[],
+  categoryIds: number[]
+) {
+  if (categoryIds.length === 0) return
+
+  // 商品适用的属性：调整后从顶级分类到商品所在分类，每一级定义的属性
+  const orphaned = await tx.productAttributeValue.count({
+    where: {
+      OR: categoryIds.map((categoryId) => ({
+        product: { categoryId },
+        attribute: { categoryId: { notIn: ancestorsOf(tree, categoryId).map((c) => c.id) } },
+      })),
+    },
+  })
+  if (orphaned > 0) {
+    throw new CategoryError(
+      `有 ${orphaned} 个商品属性值来自原来的上级分类，调整后将不再适用，请先修改商品的属性或删除这些属性`
+    )
+  }
+}
+
+/**
+ * 同级分类中排在最后的位置
+ */
+async function nextSortOrder(tx: Prisma.TransactionClient, parentId: number | null) {
+  const last = await tx.category.findFirst({
+    where: { parentId },
+    orderBy: { sortOrder: 'desc' },
+  })
+  return last ? last.sortOrder + 1 : 0
+}
+
+/**
+ * 创建分类，排在同级分类的最后
+ *
+ * @throws CategoryError 上级分类不存在时抛出
+ */
+export async function createCategory(input: CategoryInput) {
+  const parentId = input.parentId ?? null
+
+  return prisma.$transaction(async (tx) => {
+    if (parentId !== null) {
+      const parent = await tx.category.findUnique({ where: { id: parentId } })
+      if (!parent) {
+        throw new CategoryError('上级分类不存在')
+      }
+    }
+
+    return tx.category.create({
+      data: {
+        name: input.name,
+        slug: input.slug,
+        image: input.image || null,
+        parentId,
+        sortOrder: await nextSortOrder(tx, parentId),
+      },
+    })
+  })
+}
+
+/**
+ * 移动分类：调整上级分类和在同级中的位置
+ *
+ * 新的同级分类按顺序重新编号（0, 1, 2...），原来的同级分类之间顺序不变，不需要改动。
+ *
+ * @throws CategoryError 分类或上级分类不存在、移到自身或子分类下、商品的属性值将不再适用时抛出
+ */
+export async function moveCategory(id: number, input: MoveCategoryInput) {
+  return prisma.$transaction(async (tx) => {
+    const categories = await lockCategoryTree(tx)
+    const category = categories.find((c) => c.id === id)
+    if (!category) {
+      throw new CategoryError('分类不存在')
+    }
+
+    if (input.parentId !== null) {
+      if (!categories.some((c) => c.id === input.parentId)) {
+        throw new CategoryError('上级分类不存在')
+      }
+      if (descendantIdsOf(categories, id).includes(input.parentId)) {
+        throw new CategoryError('不能移动到自身或自己的子分类下')
+      }
+    }
+
+    if (input.parentId !== category.parentId) {
+      const tree = categories.map((c) => (c.id === id ? { ...c, parentId: input.parentId } : c))
+      await assertAttributeValuesKept(tx, tree, descendantIdsOf(categories, id))
+    }
+
+    const siblings = categories
+      .filter((c) => c.parentId === input.parentId && c.id !== id)
+      .sort(compareCategoryOrder)
+    siblings.splice(Math.min(input.index, siblings.length), 0, category)
+
+    for (const [sortOrder, sibling] of siblings.entries()) {
+      if (sibling.id === id) {
+        await tx.category.update({
+          where: { id },
+          data: { parentId: input.parentId, sortOrder },
+        })
+      } else if (sibling.sortOrder !== sortOrder) {
+        await tx.category.update({ where: { id: sibling.id }, data: { sortOrder } })
+      }
+    }
+  })
+}
+
+/**
+ * 删除分类
+ *
+ * - 有子分类时，子分类（连同它们的子孙分类）整体移到 childrenParentId 下，排在最后
+ * - 有商品时，商品移到 productsCategoryId（可以是被删除分类的子分类，子分类会保留下来）
+ *
+ * 优惠券、促销活动的适用分类是多对多关系，删除分类时关联记录会自动删除。
+ * 商品属性不会随分类删除：分类上还定义了属性时拒绝删除；
+ * 子分类、商品移动后，商品从上级分类继承的属性值不再适用时也拒绝删除。
+ *
+ * @throws CategoryError 分类不存在、还定义了商品属性、没有选择迁移目标、迁移目标不合法、
+ *   商品的属性值将不再适用时抛出
+ */
+export async function deleteCategory(id: number, input: DeleteCategoryInput) {
+  return prisma.$transaction(async (tx) => {
+    const categories = await lockCategoryTree(tx)
+    if (!categories.some((c) => c.id === id)) {
+      throw new CategoryError('分类不存在')
+    }
+
+    const attributeCount = await tx.categoryAttribute.count({ where: { categoryId: id } })
+    if (attributeCount > 0) {
+      throw new CategoryError(`该分类还定义了 ${attributeCount} 个商品属性，请先删除这些属性`)
+    }
+
+    const children = categories
+      .filter((c) => c.parentId === id)
+      .sort(compareCategoryOrder)
+    if (children.length > 0) {
+      const parentId = input.childrenParentId
+      if (parentId === undefined) {
+        throw new CategoryError(`该分类下还有 ${children.length} 个子分类，请选择子分类移动到哪里`)
+      }
+      if (parentId !== null) {
+        if (!categories.some((c) => c.id === parentId)) {
+          throw new CategoryError('子分类要移动到的分类不存在')
+        }
+        if (descendantIdsOf(categories, id).includes(parentId)) {
+          throw new CategoryError('子分类不能移动到被删除的分类或其子分类下')
+        }
+      }
+
+      const start = await nextSortOrder(tx, parentId)
+      for (const [index, child] of children.entries()) {
+        await tx.category.update({
+          where: { id: child.id },
+          data: { parentId, sortOrder: start + index },
+        })
+      }
+    }
+
+    // 上级分类可能变化的分类：被删除分类的子孙分类、商品移到的分类
+    const affected = new Set(descendantIdsOf(categories, id).filter((c) => c !== id))
+
+    const productCount = await tx.product.count({ where: { categoryId: id } })
+    if (productCount > 0) {
+      const categoryId = input.productsCategoryId
+      if (categoryId === undefined) {
+        throw new CategoryError(`该分类下还有 ${productCount} 个商品，请选择商品移动到哪个分类`)
+      }
+      if (categoryId === id || !categories.some((c) => c.id === categoryId)) {
+        throw new CategoryError('商品要移动到的分类不存在')
+      }
+      await tx.product.updateMany({ where: { categoryId: id }, data: { categoryId } })
+      affected.add(categoryId)
+    }
+
+    // 商品已经移到新的分类（上面的 updateMany），按调整后的分类树检查
+    const tree = categories
+      .filter((c) => c.id !== id)
+      .map((c) => (c.parentId === id ? { ...c, parentId: input.childrenParentId ?? null } : c))
+    await assertAttributeValuesKept(tx, tree, [...affected])
+
+    await tx.category.delete({ where: { id } })
+  })
+}
+
+/**
+ * 从顶级分类到该分类的路径（商品详情页、分类页的面包屑导航）
+ */
+export async function getCategoryPath(id: number) {
+  const categories = await prisma.category.findMany({
+    select: { ...treeSelect, name: true, slug: true },
+  })
+  return ancestorsOf(categories, id)
+}
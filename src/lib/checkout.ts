@@ -0,0 +1,362 @@
+/**
+ * 结算（服务端）
+ * ============================================================
+ *
+ * 下单（POST /api/orders）和结算页的金额预览（POST /api/orders/preview）
+ * 共用这里的逻辑，保证结算页显示的金额和实际下单的金额一致。
+ *
+ * 【prepareCheckout 做了什么？】
+ * 1. 确定要结算的商品：立即购买的那一件商品，或购物车中勾选的商品
+ * 2. 初步验证库存和上架状态（快速失败，给用户友好提示）
+ *    有规格的商品按规格组合的价格和库存计算（lib/variant.ts），
+ *    秒杀商品改用秒杀价，并检查活动库存和每人限购（lib/flash-sale.ts）
+ * 3. 计算促销活动优惠（lib/promotion.ts）
+ * 4. 校验选择的优惠券，按促销后的金额计算优惠金额（lib/coupon.ts）
+ * 5. 计算运费和应付总额：应付 = 商品金额 - 促销优惠 - 优惠券 + 运费
+ * 6. 计算每个商品的实付金额：满减和优惠券是订单级优惠，按各商品的金额分摊（lib/money.ts 的 allocateMoney），
+ *    下单时记录到 OrderItem.payableAmount，售后退款按它计算
+ *
+ * prepareCheckout 不扣库存、不写数据库；下单（createOrder）时在事务中扣减库存（reserveStock、reserveFlashSaleStock），
+ * 那里才是防止超卖的真正保证。
+ *
+ * 【使用方式】
+ * import { prepareCheckout, createOrder } from '@/lib/checkout'
+ */
+
+import { prisma } from '@/lib/prisma'
+import { Prisma, type Address, type Product, type ProductVariant } from '@/generated/prisma/client'
+import { getPaymentDeadline, OrderActionError, reserveStock } from '@/lib/order'
+import { generateOrderNo, withOrderNoRetry } from '@/lib/order-no'
+import { getCheckoutCoupon, redeemCoupon } from '@/lib/coupon'
+import { getOrderCurrency } from '@/lib/currency'
+import { applyFlashSales, checkFlashSaleLimits, reserveFlashSaleStock } from '@/lib/flash-sale'
+import { calculatePromotions, type PricingResult } from '@/lib/promotion'
+import { calculateShippingFee } from '@/lib/shipping'
+import { applyVariants } from '@/lib/variant'
+import { allocateMoney } from '@/lib/money'
+import type { CreateOrderInput } from '@/lib/validators'
+
+/**
+ * 结算的一行商品
+ */
+export type CheckoutLine = {
+  productId: number
+  variantId: number | null      // 购买的规格组合（没有规格的商品为空）
+  quantity: number
+  product: Product              // 有规格的商品 price / stock 已换成规格组合的，秒杀商品的 price 已换成秒杀价
+  variant: ProductVariant | null
+  flashSaleId: number | null    // 以秒杀价购买时的秒杀活动
+}
+
+export type CheckoutSummary = {
+  lines: CheckoutLine[]
+  cartItemIds: number[]           // 本次结算用到的购物车项，下单成功后从购物车删除
+  goodsAmount: Prisma.Decimal     // 商品金额
+  promotion: PricingResult        // 促销计算结果（每个活动是否生效及原因）
+  promotionDiscount: Prisma.Decimal // 促销活动优惠金额
+  discountAmount: Prisma.Decimal  // 优惠券抵扣金额
+  shippingFee: Prisma.Decimal     // 运费
+  coupon: { userCouponId: number; couponId: number } | null // 使用的优惠券
+  totalAmount: Prisma.Decimal     // 应付总额
+  linePayables: Prisma.Decimal[]  // 每个商品的实付金额（扣除促销和优惠券，和 lines 一一对应）
+}
+
+/**
+ * 确定要结算的商品
+ */
+async function getCheckoutLines(
+  userId: string,
+  input: Pick<CreateOrderInput, 'buyNow' | 'cartItemIds'>
+): Promise<{ lines: Omit<CheckoutLine, 'flashSaleId'>[]; cartItemIds: number[] }> {
+  const { buyNow, cartItemIds } = input
+
+  if (buyNow) {
+    // 立即购买：直接结算指定商品，不经过购物车
+    const product = await prisma.product.findUnique({
+      where: { id: buyNow.productId },
+    })
+    if (!product) {
+      throw new OrderActionError('商品不存在')
+    }
+    const variant = buyNow.variantId
+      ? await prisma.productVariant.findFirst({
+          where: { id: buyNow.variantId, productId: product.id },
+        })
+      : null
+    if (buyNow.variantId && !variant) {
+      throw new OrderActionError('商品规格不存在')
+    }
+    return {
+      lines: [{
+        productId: product.id,
+        variantId: variant?.id ?? null,
+        quantity: buyNow.quantity,
+        product,
+        variant,
+      }],
+      cartItemIds: [],
+    }
+  }
+
+  // 购物车结算：只取勾选的商品（没传 cartItemIds 则取全部）
+  const cartItems = await prisma.cartItem.findMany({
+    where: {
+      userId,
+      ...(cartItemIds && { id: { in: cartItemIds } }),
+    },
+    include: { product: true, variant: true },
+  })
+
+  if (cartItems.length === 0) {
+    throw new OrderActionError(cartItemIds ? '请选择要结算的商品' : '购物车为空')
+  }
+
+  // 勾选的商品在其他页面被删除了
+  if (cartItemIds && cartItems.length !== new Set(cartItemIds).size) {
+    throw new OrderActionError('购物车已变化，请刷新后重新结算')
+  }
+
+  return {
+    lines: cartItems,
+    cartItemIds: cartItems.map((item) => item.id),
+  }
+}
+
+/**
+ * 把优惠券抵扣金额分摊到商品上
+ *
+ * 按分摊满减之后的金额，分摊到适用范围内的商品上。
+ * 满减也分摊到了适用的商品上，剩下的金额可能不够抵扣，不够的部分再分摊到其他商品，
+ * 保证每个商品的实付金额不会是负数。
+ */
+function allocateCouponDiscount(
+  discount: Prisma.Decimal,
+  payables: Prisma.Decimal[],
+  eligible: boolean[]
+): Prisma.Decimal[] {
+  const eligiblePayables = payables.map((payable, index) => (eligible[index] ? payable : 0))
+  const eligibleAmount = payables.reduce(
+    (sum, payable, index) => (eligible[index] ? sum.plus(payable) : sum),
+    new Prisma.Decimal(0)
+  )
+  const onEligible = Prisma.Decimal.min(discount, eligibleAmount)
+  const shares = allocateMoney(onEligible, eligiblePayables).map((share) => new Prisma.Decimal(share))
+  const overflow = allocateMoney(
+    discount.minus(onEligible),
+    payables.map((payable, index) => payable.minus(shares[index]))
+  )
+  return shares.map((share, index) => share.plus(overflow[index]))
+}
+
+/**
+ * 准备结算：确定商品、校验库存、计算金额
+ *
+ * @param userId - 下单用户
+ * @param input - 下单参数（立即购买 / 勾选的购物车项 / 使用的优惠券）
+ * @param address - 收货地址（按省份计算运费）
+ * @throws OrderActionError 没有可结算的商品、库存不足、已下架、优惠券不可用、地区不配送时抛出
+ */
+export async function prepareCheckout(
+  userId: string,
+  input: Pick<CreateOrderInput, 'buyNow' | 'cartItemIds' | 'userCouponId'>,
+  address: Pick<Address, 'province'>
+): Promise<CheckoutSummary> {
+  const { lines: checkoutLines, cartItemIds } = await getCheckoutLines(userId, input)
+
+  // 有规格的商品按规格组合的价格和库存计算
+  const originalLines = applyVariants(checkoutLines)
+
+  // 有规格却没有选择规格的商品（如加入购物车之后商品才添加了规格）
+  const productsWithVariants = new Set(
+    (await prisma.productVariant.findMany({
+      where: { productId: { in: originalLines.map((item) => item.productId) }, isActive: true },
+      select: { productId: true },
+    })).map((variant) => variant.productId)
+  )
+
+  // 初步验证库存
+  // 注意：这里的检查不能防止并发超卖（两个请求可能同时通过检查），
+  // 真正的保证在下单事务中的 reserveStock()
+  for (const item of originalLines) {
+    if (!item.product.isActive) {
+      throw new OrderActionError(`"${item.product.name}" 已下架`)
+    }
+    if (item.variant && !item.variant.isActive) {
+      throw new OrderActionError(`"${item.product.name}（${item.variant.name}）" 已停售`)
+    }
+    if (!item.variant && productsWithVariants.has(item.productId)) {
+      throw new OrderActionError(`"${item.product.name}" 请选择商品规格`)
+    }
+    if (item.product.stock < item.quantity) {
+      throw new OrderActionError(`"${item.product.name}${item.variant ? `（${item.variant.name}）` : ''}" 库存不足`)
+    }
+  }
+
+  // 秒杀商品按秒杀价计算
+  const lines = await applyFlashSales(originalLines)
+  await checkFlashSaleLimits(userId, lines)
+
+  const goodsAmount = lines.reduce(
+    (sum, item) => sum.plus(item.product.price.times(item.quantity)),
+    new Prisma.Decimal(0)
+  )
+
+  // 先计算促销，再在促销后的金额上使用优惠券
+  const promotion = await calculatePromotions(lines)
+
+  // 满减不属于某个商品，按各商品促销后的金额分摊，各商品实付金额之和等于促销后的商品金额
+  const orderDiscountShares = allocateMoney(
+    promotion.orderDiscount,
+    promotion.lines.map((line) => line.payable)
+  )
+  const promotionPayables = promotion.lines.map((line, index) => line.payable.minus(orderDiscountShares[index]))
+
+  // 优惠券只抵扣商品金额，门槛和折扣按满减分摊之后的金额计算
+  let discountAmount = new Prisma.Decimal(0)
+  let coupon: CheckoutSummary['coupon'] = null
+  let couponShares = lines.map(() => new Prisma.Decimal(0))
+  if (input.userCouponId) {
+    const couponLines = lines.map((line, index) => ({ ...line, amount: promotionPayables[index] }))
+    const checkoutCoupon = await getCheckoutCoupon(userId, input.userCouponId, couponLines)
+    // 满减之后剩余的金额可能比优惠券面额还少
+    discountAmount = Prisma.Decimal.min(checkoutCoupon.discount, promotion.payableAmount)
+    coupon = {
+      userCouponId: checkoutCoupon.userCoupon.id,
+      couponId: checkoutCoupon.userCoupon.couponId,
+    }
+    couponShares = allocateCouponDiscount(discountAmount, promotionPayables, checkoutCoupon.eligible)
+  }
+  const linePayables = promotionPayables.map((payable, index) => payable.minus(couponShares[index]))
+
+  // 包邮门槛按优惠后的商品金额判断
+  const payableGoods = promotion.payableAmount.minus(discountAmount)
+  const shippingFee = await calculateShippingFee(lines, payableGoods, address.province)
+
+  return {
+    lines,
+    cartItemIds,
+    goodsAmount,
+    promotion,
+    promotionDiscount: promotion.promotionDiscount,
+    discountAmount,
+    shippingFee,
+    coupon,
+    totalAmount: payableGoods.plus(shippingFee),
+    linePayables,
+  }
+}
+
+/**
+ * 下单（POST /api/orders）
+ *
+ * 1. 确认收货地址属于当前用户，prepareCheckout 计算金额
+ * 2. 分配订单号，在一个事务中：扣减秒杀活动库存 → 创建订单、订单商品项、促销快照
+ *    → 条件扣减库存 → 核销优惠券 → 从购物车删除已结算的商品
+ *
+ * 任何一步失败整个事务回滚：库存不足时不会留下订单，也不会超卖。
+ * 订单号冲突或死锁时自动重试（withOrderNoRetry）。
+ *
+ * @throws OrderActionError 收货地址不存在、商品库存不足、优惠券不可用等情况时抛出
+ */
+export async function createOrder(userId: string, input: CreateOrderInput) {
+  const address = await prisma.address.findFirst({
+    where: { id: input.addressId, userId },
+  })
+  if (!address) {
+    throw new OrderActionError('收货地址不存在')
+  }
+
+  // 确定要结算的商品，验证库存，计算商品金额、运费和应付总额
+  const checkout = await prepareCheckout(userId, input, address)
+  const orderCurrency = await getOrderCurrency(input.currency)
+
+  return withOrderNoRetry(async () => {
+    // 订单号在下单事务之前单独分配，不占用序号行锁（见 lib/order-no.ts）
+    const orderNo = await generateOrderNo()
+
+    return prisma.$transaction(async (tx) => {
+      // 秒杀商品：扣减活动库存、校验每人限购
+      // 必须在创建订单商品项之前，否则统计"已购买数量"时会把这个订单也算进去
+      await reserveFlashSaleStock(tx, userId, checkout.lines)
+
+      const order = await tx.order.create({
+        data: {
+          orderNo,
+          userId,
+          goodsAmount: checkout.goodsAmount,
+          shippingFee: checkout.shippingFee,
+          promotionDiscount: checkout.promotionDiscount,
+          discountAmount: checkout.discountAmount,
+          couponId: checkout.coupon?.couponId,
+          totalAmount: checkout.totalAmount,
+          // 显示币种快照：之后修改汇率不影响已下单的订单
+          displayCurrency: orderCurrency.displayCurrency,
+          exchangeRate: orderCurrency.exchangeRate,
+          // 超过截止时间未支付，订单会被定时任务自动取消并归还库存
+          paymentDeadline: getPaymentDeadline(),
+          // 地址快照：将地址信息序列化为 JSON 存储
+          address: JSON.stringify({
+            name: address.name,
+            phone: address.phone,
+            province: address.province,
+            city: address.city,
+            district: address.district,
+            detail: address.detail,
+          }),
+          // 创建订单商品项
+          items: {
+            create: checkout.lines.map((item, index) => ({
+              productId: item.productId,
+              variantId: item.variantId,
+              variantName: item.variant?.name, // 规格名称快照
+              quantity: item.quantity,
+              price: item.product.price, // 价格快照（规格价，秒杀商品为秒杀价）
+              flashSaleId: item.flashSaleId,
+              payableAmount: checkout.linePayables[index], // 实付金额快照（售后退款按它计算）
+            })),
+          },
+          // 促销快照：只记录生效的活动
+          promotions: {
+            create: checkout.promotion.evaluations
+              .filter((evaluation) => evaluation.applied)
+              .map((evaluation) => ({
+                promotionId: evaluation.promotionId,
+                name: evaluation.name,
+                type: evaluation.type,
+                discountAmount: evaluation.discount,
+                description: evaluation.description,
+              })),
+          },
+          // 记录第一条状态历史：订单创建
+          statusHistory: {
+            create: {
+              toStatus: 'PENDING',
+              operatorType: 'CUSTOMER',
+              operatorId: userId,
+            },
+          },
+        },
+        include: {
+          items: true,
+        },
+      })
+
+      // 条件扣减库存：任一商品库存不足都会抛错，订单创建一并回滚
+      await reserveStock(tx, checkout.lines)
+
+      // 核销优惠券（券已被其他订单使用时整个事务回滚）
+      if (checkout.coupon) {
+        await redeemCoupon(tx, checkout.coupon.userCouponId, userId, order.id)
+      }
+
+      // 从购物车删除已结算的商品（立即购买没有用到购物车，不删除）
+      if (checkout.cartItemIds.length > 0) {
+        await tx.cartItem.deleteMany({
+          where: { userId, id: { in: checkout.cartItemIds } },
+        })
+      }
+
+      return order
+    })
+  })
+}
@@ -0,0 +1,63 @@
+/**
+ * 优惠券相关定义（前后端共用）
+ * ============================================================
+ *
+ * 优惠券类型、适用范围、状态的中文名称，以及优惠内容的文字描述。
+ * 优惠金额的计算在服务端（lib/coupon.ts）。
+ */
+
+export type CouponTypeValue = 'FIXED_AMOUNT' | 'PERCENTAGE'
+
+export type CouponScopeValue = 'ALL' | 'CATEGORY' | 'PRODUCT'
+
+export type UserCouponStatusValue = 'UNUSED' | 'USED'
+
+/**
+ * 优惠券类型的中文名称
+ */
+export const COUPON_TYPE_LABELS: Record<CouponTypeValue, string> = {
+  FIXED_AMOUNT: '满减券',
+  PERCENTAGE: '折扣券',
+}
+
+/**
+ * 适用范围的中文名称
+ */
+export const COUPON_SCOPE_LABELS: Record<CouponScopeValue, string> = {
+  ALL: '全场通用',
+  CATEGORY: '指定分类',
+  PRODUCT: '指定商品',
+}
+
+/**
+ * 用户优惠券状态的中文名称
+ */
+export const USER_COUPON_STATUS_LABELS: Record<UserCouponStatusValue, string> = {
+  UNUSED: '未使用',
+  USED: '已使用',
+}
+
+/**
+ * 生成优惠内容的文字描述
+ *
+ * @example
+ * describeCoupon({ type: 'FIXED_AMOUNT', value: '20', minSpend: '100', maxDiscount: null }) // '满100减20'
+ * describeCoupon({ type: 'PERCENTAGE', value: '15', minSpend: '0', maxDiscount: '50' })     // '无门槛8.5折，最多减50'
+ */
+export function describeCoupon(coupon: {
+  type: CouponTypeValue
+  value: string
+  minSpend: string
+  maxDiscount: string | null
+}): string {
+  const minSpend = Number(coupon.minSpend)
+  const threshold = minSpend > 0 ? `满${minSpend}` : '无门槛'
+
+  if (coupon.type === 'FIXED_AMOUNT') {
+    return `${threshold}减${Number(coupon.value)}`
+  }
+
+  const discount = `${(100 - Number(coupon.value)) / 10}折`
+  const cap = coupon.maxDiscount ? `，最多减${Number(coupon.maxDiscount)}` : ''
+  return `${threshold}${discount}${cap}`
+}
@@ -0,0 +1,244 @@
+/**
+ * 优惠券（服务端）
+ * ============================================================
+ *
+ * 【流程】
+ * 1. 管理员创建优惠券（createCoupon）
+ * 2. 用户在领券中心领取到自己的券包（claimCoupon）
+ * 3. 结算时选择一张券，计算优惠金额（getCheckoutCoupon，由 lib/checkout.ts 调用）
+ * 4. 下单时在同一个事务中把券标记为已使用（redeemCoupon）
+ * 5. 订单取消时券退回券包（lib/order.ts 中 CANCELLED 的状态副作用）
+ *
+ * 【优惠金额怎么算？】
+ * 只有适用范围内的商品参与计算（按促销后的金额，适用分类包括它的子孙分类）：
+ * - 适用商品金额 < 使用门槛 → 不能用
+ * - 满减券：减 value 元（不超过适用商品金额）
+ * - 折扣券：减 适用商品金额 × value%（不超过 maxDiscount），保留两位小数（舍去）
+ * 优惠只抵扣商品金额，不抵扣运费。
+ *
+ * 【使用方式】
+ * import { claimCoupon, CouponError } from '@/lib/coupon'
+ */
+
+import { prisma } from '@/lib/prisma'
+import { Prisma, type Coupon, type Product } from '@/generated/prisma/client'
+import { OrderActionError } from '@/lib/order'
+import { percentOfMoney } from '@/lib/money'
+import { expandCategoryIds, type CategoryLike } from '@/lib/category-tree'
+import type { CouponInput } from '@/lib/validators'
+
+/**
+ * 优惠券业务错误（领取失败等，API 路由据此返回 400）
+ */
+export class CouponError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'CouponError'
+  }
+}
+
+type CouponWithScope = Coupon & {
+  categories: { id: number }[]
+  products: { id: number }[]
+}
+
+/**
+ * 参与优惠计算的商品
+ */
+export type CouponLine = {
+  quantity: number
+  product: Pick<Product, 'id' | 'categoryId' | 'price'>
+  amount?: Prisma.Decimal // 促销后的金额，含满减分摊（没有时按 单价 × 数量）
+}
+
+/**
+ * 优惠券当前是否在有效期内且未停用
+ */
+export function isCouponAvailable(
+  coupon: Pick<Coupon, 'isActive' | 'startsAt' | 'endsAt'>,
+  now: Date = new Date()
+): boolean {
+  return coupon.isActive && coupon.startsAt <= now && coupon.endsAt > now
+}
+
+/**
+ * 每个商品是否在优惠券的适用范围内（和 lines 一一对应）
+ *
+ * @param categories - 全部分类，适用分类的子孙分类也在适用范围内
+ */
+function eligibleLinesOf(coupon: CouponWithScope, lines: CouponLine[], categories: CategoryLike[]): boolean[] {
+  const categoryIds = expandCategoryIds(categories, coupon.categories.map((c) => c.id))
+  const productIds = new Set(coupon.products.map((p) => p.id))
+
+  return lines.map((line) => {
+    if (coupon.scope === 'CATEGORY') return categoryIds.has(line.product.categoryId)
+    if (coupon.scope === 'PRODUCT') return productIds.has(line.product.id)
+    return true
+  })
+}
+
+/**
+ * 计算优惠金额（纯函数，不查数据库）
+ *
+ * @param categories - 全部分类，适用分类的子孙分类也在适用范围内
+ * @throws OrderActionError 没有适用的商品或未达到使用门槛时抛出
+ */
+export function computeCouponDiscount(
+  coupon: CouponWithScope,
+  lines: CouponLine[],
+  categories: CategoryLike[]
+): Prisma.Decimal {
+  const eligibleLines = eligibleLinesOf(coupon, lines, categories)
+  const eligible = lines.filter((_, index) => eligibleLines[index])
+  if (eligible.length === 0) {
+    throw new OrderActionError('该优惠券不适用于所选商品')
+  }
+
+  const eligibleAmount = eligible.reduce(
+    (sum, line) => sum.plus(line.amount ?? line.product.price.times(line.quantity)),
+    new Prisma.Decimal(0)
+  )
+  if (eligibleAmount.lessThan(coupon.minSpend)) {
+    throw new OrderActionError(`未达到优惠券使用门槛（适用商品满 ${coupon.minSpend.toFixed(2)} 元可用）`)
+  }
+
+  if (coupon.type === 'FIXED_AMOUNT') {
+    return Prisma.Decimal.min(coupon.value, eligibleAmount)
+  }
+
+  // 按百分比计算的优惠向下取整到分（lib/money.ts 的取整规则）
+  const discount = new Prisma.Decimal(percentOfMoney(eligibleAmount, coupon.value))
+  return coupon.maxDiscount ? Prisma.Decimal.min(discount, coupon.maxDiscount) : discount
+}
+
+/**
+ * 校验结算时选择的优惠券并计算优惠金额
+ *
+ * @param userId - 下单用户，只能使用自己券包中的券
+ * @param userCouponId - 券包中的券
+ * @param lines - 结算的商品
+ * @throws OrderActionError 券不存在、已使用、不在有效期、不满足使用条件时抛出
+ */
+export async function getCheckoutCoupon(userId: string, userCouponId: number, lines: CouponLine[]) {
+  const [userCoupon, categories] = await Promise.all([
+    prisma.userCoupon.findFirst({
+      where: { id: userCouponId, userId },
+      include: {
+        coupon: {
+          include: {
+            categories: { select: { id: true } },
+            products: { select: { id: true } },
+          },
+        },
+      },
+    }),
+    prisma.category.findMany({ select: { id: true, parentId: true, sortOrder: true } }),
+  ])
+
+  if (!userCoupon) {
+    throw new OrderActionError('优惠券不存在')
+  }
+  if (userCoupon.status !== 'UNUSED') {
+    throw new OrderActionError('优惠券已被使用')
+  }
+  if (!isCouponAvailable(userCoupon.coupon)) {
+    throw new OrderActionError('优惠券不在有效期内')
+  }
+
+  return {
+    userCoupon,
+    discount: computeCouponDiscount(userCoupon.coupon, lines, categories),
+    // 每个商品是否适用（和 lines 一一对应），优惠金额只分摊到适用的商品上
+    eligible: eligibleLinesOf(userCoupon.coupon, lines, categories),
+  }
+}
+
+/**
+ * 核销优惠券（下单事务中调用）
+ *
+ * 带状态条件更新：同一张券被两个订单同时使用时，只有一个能成功，
+ * 另一个抛错回滚整个下单事务。
+ *
+ * @throws OrderActionError 券已被其他订单使用时抛出
+ */
+export async function redeemCoupon(
+  tx: Prisma.TransactionClient,
+  userCouponId: number,
+  userId: string,
+  orderId: number
+) {
+  const { count } = await tx.userCoupon.updateMany({
+    where: { id: userCouponId, userId, status: 'UNUSED' },
+    data: { status: 'USED', orderId, usedAt: new Date() },
+  })
+  if (count === 0) {
+    throw new OrderActionError('优惠券已被使用，请重新选择')
+  }
+}
+
+/**
+ * 领取优惠券
+ *
+ * 【并发】
+ * 先用 SELECT ... FOR UPDATE 锁住优惠券这一行，领取请求排队执行，
+ * 保证"已领取数量"不会超过发放总量，同一用户也不会超领。
+ *
+ * @throws CouponError 券不存在、已停用、不在有效期、已领完、超过每人限领时抛出
+ */
+export async function claimCoupon(userId: string, couponId: number) {
+  return prisma.$transaction(async (tx) => {
+    await tx.$queryRaw`SELECT id FROM coupons WHERE id = ${couponId} FOR UPDATE`
+
+    const coupon = await tx.coupon.findUnique({ where: { id: couponId } })
+    if (!coupon || !coupon.isActive) {
+      throw new CouponError('优惠券不存在或已停用')
+    }
+    if (!isCouponAvailable(coupon)) {
+      throw new CouponError('不在优惠券的领取时间内')
+    }
+    if (coupon.totalLimit !== null && coupon.claimedCount >= coupon.totalLimit) {
+      throw new CouponError('优惠券已被领完')
+    }
+
+    const claimed = await tx.userCoupon.count({ where: { userId, couponId } })
+    if (claimed >= coupon.perUserLimit) {
+      throw new CouponError(`每人限领 ${coupon.perUserLimit} 张`)
+    }
+
+    await tx.coupon.update({
+      where: { id: couponId },
+      data: { claimedCount: { increment: 1 } },
+    })
+    return tx.userCoupon.create({ data: { userId, couponId } })
+  })
+}
+
+/**
+ * 创建优惠券（管理员）
+ */
+export async function createCoupon(input: CouponInput) {
+  const { categoryIds, productIds, ...data } = input
+  return prisma.coupon.create({
+    data: {
+      ...data,
+      maxDiscount: data.type === 'PERCENTAGE' ? data.maxDiscount ?? null : null,
+      // 只保存和适用范围对应的分类 / 商品
+      categories:
+        input.scope === 'CATEGORY' ? { connect: (categoryIds ?? []).map((id) => ({ id })) } : undefined,
+      products:
+        input.scope === 'PRODUCT' ? { connect: (productIds ?? []).map((id) => ({ id })) } : undefined,
+    },
+  })
+}
+
+/**
+ * 序列化优惠券（Decimal 转字符串），供 API 返回
+ */
+export function serializeCoupon<T extends Coupon>(coupon: T) {
+  return {
+    ...coupon,
+    value: coupon.value.toString(),
+    maxDiscount: coupon.maxDiscount?.toString() ?? null,
+    minSpend: coupon.minSpend.toString(),
+  }
+}
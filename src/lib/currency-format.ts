@@ -0,0 +1,45 @@
+/**
+ * 币种相关定义（前后端共用）
+ * ============================================================
+ *
+ * 商品价格和订单金额都以人民币（基准币种）存储和结算，
+ * 其他币种只用于显示：按汇率换算后的价格（lib/money.ts 的 convertMoney）。
+ * 汇率的维护和下单时的快照在服务端（lib/currency.ts）。
+ */
+
+export type CurrencyCode = 'CNY' | 'HKD' | 'USD' | 'EUR'
+
+/**
+ * 基准币种：商品价格、订单金额、支付都使用该币种
+ */
+export const BASE_CURRENCY: CurrencyCode = 'CNY'
+
+/**
+ * 支持的币种：中文名称和格式化金额时使用的地区
+ */
+export const CURRENCIES: Record<CurrencyCode, { label: string; locale: string }> = {
+  CNY: { label: '人民币', locale: 'zh-CN' },
+  HKD: { label: '港币', locale: 'zh-HK' },
+  USD: { label: '美元', locale: 'en-US' },
+  EUR: { label: '欧元', locale: 'de-DE' },
+}
+
+export const CURRENCY_CODES = Object.keys(CURRENCIES) as CurrencyCode[]
+
+/**
+ * 显示币种和汇率（1 人民币 = rate 单位的该币种）
+ */
+export type DisplayCurrency = {
+  currency: CurrencyCode
+  rate: string
+}
+
+export const BASE_DISPLAY_CURRENCY: DisplayCurrency = { currency: BASE_CURRENCY, rate: '1' }
+
+/**
+ * 是否是支持的币种
+ * 用 Object.hasOwn 而不是 in：'toString'、'constructor' 等原型链上的属性名不能算作币种
+ */
+export function isCurrencyCode(value: string): value is CurrencyCode {
+  return Object.hasOwn(CURRENCIES, value)
+}
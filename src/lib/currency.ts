@@ -0,0 +1,85 @@
+/**
+ * 汇率（服务端）
+ * ============================================================
+ *
+ * 【流程】
+ * 1. 管理员在后台设置各币种的汇率并启用（saveExchangeRate）
+ * 2. 前台顶部导航选择显示币种，价格按启用的汇率换算显示（GET /api/exchange-rates）
+ * 3. 下单时按服务端当前的汇率快照显示币种（getOrderCurrency），
+ *    订单金额仍然是人民币，支付、退款也都按人民币
+ *
+ * 【为什么下单时不直接使用客户端传来的汇率？】
+ * 客户端的汇率可能是几小时前获取的，也可能被篡改；
+ * 客户端只传币种，汇率以服务端数据库中的为准。
+ *
+ * 【使用方式】
+ * import { getActiveExchangeRates, getOrderCurrency } from '@/lib/currency'
+ */
+
+import { prisma } from '@/lib/prisma'
+import { Prisma, type ExchangeRate } from '@/generated/prisma/client'
+import {
+  BASE_CURRENCY,
+  BASE_DISPLAY_CURRENCY,
+  isCurrencyCode,
+  type CurrencyCode,
+  type DisplayCurrency,
+} from '@/lib/currency-format'
+import type { ExchangeRateInput } from '@/lib/validators'
+
+/**
+ * 前台可以选择的币种和汇率（基准币种排在第一个）
+ */
+export async function getActiveExchangeRates(): Promise<DisplayCurrency[]> {
+  const rates = await prisma.exchangeRate.findMany({
+    where: { isActive: true },
+    orderBy: { currency: 'asc' },
+  })
+  return [
+    BASE_DISPLAY_CURRENCY,
+    ...rates
+      .filter((rate) => isCurrencyCode(rate.currency))
+      .map((rate) => ({ currency: rate.currency as CurrencyCode, rate: rate.rate.toString() })),
+  ]
+}
+
+/**
+ * 下单时的显示币种快照
+ *
+ * 币种没有启用（或者刚被停用）时按人民币记录，不影响下单。
+ *
+ * @param currency - 用户选择的显示币种
+ */
+export async function getOrderCurrency(
+  currency?: string
+): Promise<{ displayCurrency: string; exchangeRate: Prisma.Decimal }> {
+  const base = { displayCurrency: BASE_CURRENCY, exchangeRate: new Prisma.Decimal(1) }
+  if (!currency || currency === BASE_CURRENCY) return base
+
+  const rate = await prisma.exchangeRate.findFirst({
+    where: { currency, isActive: true },
+  })
+  if (!rate) return base
+  return { displayCurrency: rate.currency, exchangeRate: rate.rate }
+}
+
+/**
+ * 设置币种的汇率（管理员），币种第一次设置时创建
+ */
+export async function saveExchangeRate(currency: CurrencyCode, input: ExchangeRateInput) {
+  return prisma.exchangeRate.upsert({
+    where: { currency },
+    update: { rate: input.rate, isActive: input.isActive },
+    create: { currency, rate: input.rate, isActive: input.isActive ?? true },
+  })
+}
+
+/**
+ * 序列化汇率（Decimal 转字符串），供 API 返回
+ */
+export function serializeExchangeRate(rate: ExchangeRate) {
+  return {
+    ...rate,
+    rate: rate.rate.toString(),
+  }
+}
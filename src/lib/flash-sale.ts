@@ -0,0 +1,302 @@
+/**
+ * 秒杀活动（服务端）
+ * ============================================================
+ *
+ * 【流程】
+ * 1. 管理员创建秒杀活动：商品、秒杀价、活动库存、每人限购、活动时间（createFlashSale）
+ * 2. 活动期间，商品卡片和商品详情页显示秒杀价和倒计时
+ * 3. 购物车、结算和下单时，秒杀商品按秒杀价计算（applyFlashSales）
+ * 4. 下单事务中扣减活动库存并校验每人限购（reserveFlashSaleStock）
+ * 5. 订单取消时归还活动库存（lib/order.ts 中 CANCELLED 的状态副作用）
+ *
+ * 【活动库存为什么不会超卖？】
+ * 和商品库存一样使用条件更新：
+ *   UPDATE flash_sales SET remainingStock = remainingStock - 2 WHERE id = 1 AND remainingStock >= 2
+ * 影响行数为 0 说明库存不够，抛错回滚整个下单事务。
+ *
+ * 【每人限购为什么要加锁？】
+ * 同一个用户同时发出两个下单请求时，两个请求查到的"已购买数量"都是 0，
+ * 都会通过限购检查。下单事务中先用 SELECT ... FOR UPDATE 锁住活动这一行，
+ * 同一个活动的下单请求排队执行，后到的请求能看到先到的请求买了多少。
+ *
+ * 【使用方式】
+ * import { applyFlashSales, reserveFlashSaleStock } from '@/lib/flash-sale'
+ */
+
+import { prisma } from '@/lib/prisma'
+import { Prisma, type FlashSale, type Product } from '@/generated/prisma/client'
+import { OrderActionError } from '@/lib/order'
+import type { FlashSaleInput } from '@/lib/validators'
+
+/**
+ * 秒杀活动业务错误（创建活动时时间冲突等，API 路由据此返回 400）
+ */
+export class FlashSaleError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'FlashSaleError'
+  }
+}
+
+/**
+ * 进行中的秒杀活动的查询条件
+ *
+ * @example
+ * prisma.product.findMany({
+ *   include: { flashSales: { where: activeFlashSaleWhere(), take: 1 } },
+ * })
+ */
+export function activeFlashSaleWhere(now: Date = new Date()): Prisma.FlashSaleWhereInput {
+  return {
+    isActive: true,
+    startsAt: { lte: now },
+    endsAt: { gt: now },
+  }
+}
+
+/**
+ * 商品卡片、详情页展示用的秒杀信息（金额为字符串）
+ */
+export type FlashSaleBadge = {
+  id: number
+  salePrice: string
+  endsAt: string
+  remainingStock: number
+  perUserLimit: number
+}
+
+/**
+ * 取出商品当前进行中的秒杀活动（查询时用 activeFlashSaleWhere 过滤过），转成展示用的结构
+ */
+export function toFlashSaleBadge(flashSales: FlashSale[]): FlashSaleBadge | null {
+  const sale = flashSales[0]
+  if (!sale) return null
+  return {
+    id: sale.id,
+    salePrice: sale.salePrice.toString(),
+    endsAt: sale.endsAt.toISOString(),
+    remainingStock: sale.remainingStock,
+    perUserLimit: sale.perUserLimit,
+  }
+}
+
+/**
+ * 需要按秒杀价计算的商品行（购物车项、结算商品）
+ */
+type FlashSaleLine = {
+  productId: number
+  product: Pick<Product, 'price'>
+}
+
+/**
+ * 秒杀商品改用秒杀价
+ *
+ * 商品有进行中、且还有活动库存的秒杀活动时，把 product.price 换成秒杀价，
+ * 并记录 flashSaleId；之后的促销、优惠券、价格快照都按秒杀价计算。
+ * 活动库存已经抢光的商品恢复原价。
+ */
+export async function applyFlashSales<L extends FlashSaleLine>(
+  lines: L[]
+): Promise<(L & { flashSaleId: number | null })[]> {
+  const sales = await prisma.flashSale.findMany({
+    where: {
+      ...activeFlashSaleWhere(),
+      productId: { in: lines.map((line) => line.productId) },
+      remainingStock: { gt: 0 },
+    },
+    orderBy: { endsAt: 'asc' },
+  })
+
+  return lines.map((line) => {
+    const sale = sales.find((s) => s.productId === line.productId)
+    if (!sale) return { ...line, flashSaleId: null }
+    return {
+      ...line,
+      product: { ...line.product, price: sale.salePrice },
+      flashSaleId: sale.id,
+    }
+  })
+}
+
+/**
+ * 用户在某个秒杀活动中已经购买的件数（已取消的订单不算）
+ */
+async function getPurchasedQuantity(
+  db: Prisma.TransactionClient,
+  userId: string,
+  flashSaleId: number
+): Promise<number> {
+  const result = await db.orderItem.aggregate({
+    where: {
+      flashSaleId,
+      order: { userId, status: { not: 'CANCELLED' } },
+    },
+    _sum: { quantity: true },
+  })
+  return result._sum.quantity ?? 0
+}
+
+/**
+ * 检查秒杀活动的库存和每人限购（结算时调用，快速失败）
+ *
+ * 和 prepareCheckout 中的库存检查一样，不能防止并发，
+ * 真正的保证在下单事务中的 reserveFlashSaleStock()。
+ *
+ * @throws OrderActionError 活动库存不足或超过每人限购时抛出
+ */
+export async function checkFlashSaleLimits(
+  userId: string,
+  lines: { quantity: number; flashSaleId: number | null; product: Pick<Product, 'name'> }[]
+) {
+  for (const [flashSaleId, line] of sumByFlashSale(lines)) {
+    const sale = await prisma.flashSale.findUniqueOrThrow({ where: { id: flashSaleId } })
+    assertFlashSaleQuantity(sale, line, await getPurchasedQuantity(prisma, userId, sale.id))
+  }
+}
+
+/**
+ * 按秒杀活动汇总购买件数
+ *
+ * 同一个秒杀商品的多个规格（如不同颜色）在购物车里是多行，
+ * 限购和活动库存都要按活动的总件数检查，不能逐行检查。
+ */
+function sumByFlashSale(
+  lines: { quantity: number; flashSaleId: number | null; product: Pick<Product, 'name'> }[]
+): Map<number, { quantity: number; product: Pick<Product, 'name'> }> {
+  const totals = new Map<number, { quantity: number; product: Pick<Product, 'name'> }>()
+  for (const line of lines) {
+    if (!line.flashSaleId) continue
+    const total = totals.get(line.flashSaleId)
+    totals.set(line.flashSaleId, {
+      quantity: (total?.quantity ?? 0) + line.quantity,
+      product: line.product,
+    })
+  }
+  return totals
+}
+
+function assertFlashSaleQuantity(
+  sale: FlashSale,
+  line: { quantity: number; product: Pick<Product, 'name'> },
+  purchased: number
+) {
+  if (purchased + line.quantity > sale.perUserLimit) {
+    const left = Math.max(sale.perUserLimit - purchased, 0)
+    throw new OrderActionError(
+      `"${line.product.name}" 秒杀每人限购 ${sale.perUserLimit} 件${left > 0 ? `，还能买 ${left} 件` : '，你已买满'}`
+    )
+  }
+  if (sale.remainingStock < line.quantity) {
+    throw new OrderActionError(`"${line.product.name}" 秒杀库存不足，仅剩 ${sale.remainingStock} 件`)
+  }
+}
+
+/**
+ * 扣减秒杀活动库存（下单事务中调用，在创建订单商品项之前）
+ *
+ * @throws OrderActionError 活动已结束、活动库存不足、超过每人限购时抛出（事务整体回滚）
+ */
+export async function reserveFlashSaleStock(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  lines: { quantity: number; flashSaleId: number | null; product: Pick<Product, 'name'> }[]
+) {
+  // 按活动 ID 排序加锁，多个活动的下单请求不会互相等待对方的锁（死锁）
+  const totals = [...sumByFlashSale(lines)].sort(([a], [b]) => a - b)
+
+  for (const [flashSaleId, line] of totals) {
+    // 锁住活动这一行，同一个活动的下单请求排队执行
+    await tx.$queryRaw`SELECT id FROM flash_sales WHERE id = ${flashSaleId} FOR UPDATE`
+
+    const sale = await tx.flashSale.findUniqueOrThrow({ where: { id: flashSaleId } })
+    const now = new Date()
+    if (!sale.isActive || sale.startsAt > now || sale.endsAt <= now) {
+      throw new OrderActionError(`"${line.product.name}" 秒杀活动已结束，请重新结算`)
+    }
+    assertFlashSaleQuantity(sale, line, await getPurchasedQuantity(tx, userId, sale.id))
+
+    // 条件扣减：活动库存足够才扣减（同一个活动的所有规格合计扣减一次）
+    const { count } = await tx.flashSale.updateMany({
+      where: { id: sale.id, remainingStock: { gte: line.quantity } },
+      data: { remainingStock: { decrement: line.quantity } },
+    })
+    if (count === 0) {
+      throw new OrderActionError(`"${line.product.name}" 秒杀库存不足`)
+    }
+  }
+}
+
+/**
+ * 检查同一商品是否已有时间重叠的启用中的秒杀活动
+ *
+ * @throws FlashSaleError 时间重叠时抛出
+ */
+async function assertNoOverlap(
+  sale: Pick<FlashSale, 'productId' | 'startsAt' | 'endsAt'>,
+  excludeId?: number
+) {
+  const overlapping = await prisma.flashSale.findFirst({
+    where: {
+      id: excludeId ? { not: excludeId } : undefined,
+      productId: sale.productId,
+      isActive: true,
+      startsAt: { lt: sale.endsAt },
+      endsAt: { gt: sale.startsAt },
+    },
+  })
+  if (overlapping) {
+    throw new FlashSaleError('该商品在这段时间已有秒杀活动')
+  }
+}
+
+/**
+ * 创建秒杀活动（管理员）
+ *
+ * 同一商品的秒杀活动时间不能重叠，否则无法确定按哪个秒杀价出售。
+ *
+ * @throws FlashSaleError 商品不存在或活动时间重叠时抛出
+ */
+export async function createFlashSale(input: FlashSaleInput) {
+  const product = await prisma.product.findUnique({ where: { id: input.productId } })
+  if (!product) {
+    throw new FlashSaleError('商品不存在')
+  }
+  if (product.price.lessThanOrEqualTo(input.salePrice)) {
+    throw new FlashSaleError('秒杀价必须低于商品原价')
+  }
+
+  await assertNoOverlap(input)
+
+  return prisma.flashSale.create({
+    data: {
+      ...input,
+      remainingStock: input.saleStock,
+    },
+  })
+}
+
+/**
+ * 启用 / 停用秒杀活动（管理员）
+ *
+ * @throws FlashSaleError 活动不存在，或重新启用时和其他活动时间重叠时抛出
+ */
+export async function setFlashSaleActive(id: number, isActive: boolean) {
+  const sale = await prisma.flashSale.findUnique({ where: { id } })
+  if (!sale) {
+    throw new FlashSaleError('秒杀活动不存在')
+  }
+  if (isActive) {
+    await assertNoOverlap(sale, id)
+  }
+  return prisma.flashSale.update({ where: { id }, data: { isActive } })
+}
+
+/**
+ * 序列化秒杀活动（Decimal 转字符串），供 API 返回
+ */
+export function serializeFlashSale<T extends FlashSale>(flashSale: T) {
+  return {
+    ...flashSale,
+    salePrice: flashSale.salePrice.toString(),
+  }
+}
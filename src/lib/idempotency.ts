@@ -0,0 +1,151 @@
+/**
+ * 幂等请求处理
+ * ============================================================
+ *
+ * 【什么是幂等？】
+ * 同一个操作执行一次和执行多次的效果相同，就叫"幂等"。
+ * GET 请求天然幂等，但"创建订单""支付"这类 POST 请求不是：
+ * 双击按钮、网络重试都可能导致重复下单、重复扣款。
+ *
+ * 【使用方式】
+ * 客户端在请求头中带上 Idempotency-Key（每次"提交动作"生成一个 UUID，重试时复用）：
+ *   fetch('/api/orders', { headers: { 'Idempotency-Key': key }, ... })
+ *
+ * 服务端用 withIdempotency 包裹处理函数：
+ *   return withIdempotency(request, { userId, scope: 'orders' }, () => createOrder(...))
+ *
+ * 【处理规则】
+ * - 没有 Idempotency-Key 请求头 → 直接执行（兼容旧客户端）
+ * - 第一次收到该 key → 执行处理函数，成功（2xx）的响应会被保存
+ * - 再次收到该 key 且已有保存的响应 → 直接返回保存的响应，不再执行
+ * - 再次收到该 key 但第一次请求还在处理中 → 返回 409，让客户端稍后重试
+ * - 同一个 key 但请求体不同 → 返回 422（key 被误用）
+ * - 处理失败（非 2xx）→ 删除记录，允许用同一个 key 重试
+ *   失败的请求没有产生副作用（事务已回滚），重试是安全的
+ */
+
+import { createHash } from 'crypto'
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { Prisma } from '@/generated/prisma/client'
+
+export const IDEMPOTENCY_HEADER = 'Idempotency-Key'
+
+// 处理中的记录超过这个时间仍未完成，视为处理进程已崩溃，允许重新执行
+const STALE_LOCK_MS = 60 * 1000
+
+type IdempotencyOptions = {
+  userId: string
+  scope: string // 接口范围，如 'orders'、'payment'
+}
+
+/**
+ * 以幂等方式执行请求处理函数
+ *
+ * @param request - 原始请求（用于读取 Idempotency-Key 和计算请求体哈希）
+ * @param options - 用户 ID 和接口范围
+ * @param handler - 真正的处理函数
+ */
+export async function withIdempotency(
+  request: Request,
+  options: IdempotencyOptions,
+  handler: () => Promise<NextResponse>
+): Promise<NextResponse> {
+  const key = request.headers.get(IDEMPOTENCY_HEADER)
+  if (!key) {
+    return handler()
+  }
+
+  if (key.length > 100) {
+    return NextResponse.json(
+      { success: false, message: 'Idempotency-Key 过长' },
+      { status: 400 }
+    )
+  }
+
+  // clone() 后再读取请求体，原请求体留给 handler 使用
+  const bodyText = await request.clone().text()
+  const requestHash = createHash('sha256').update(bodyText).digest('hex')
+  const where = {
+    userId_scope_key: { userId: options.userId, scope: options.scope, key },
+  }
+
+  // 1. 尝试"占位"：插入一条处理中的记录
+  //    唯一索引保证并发的两个相同请求只有一个能插入成功
+  try {
+    await prisma.idempotencyKey.create({
+      data: { userId: options.userId, scope: options.scope, key, requestHash },
+    })
+  } catch (error) {
+    if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002')) {
+      throw error
+    }
+
+    // 2. 插入失败 → 该 key 已存在
+    const existing = await prisma.idempotencyKey.findUnique({ where })
+    if (!existing) {
+      // 刚好被删除（上一次请求失败），让客户端重试
+      return NextResponse.json(
+        { success: false, message: '请求正在处理中，请稍后重试' },
+        { status: 409 }
+      )
+    }
+
+    if (existing.requestHash !== requestHash) {
+      return NextResponse.json(
+        { success: false, message: 'Idempotency-Key 已被用于其他请求' },
+        { status: 422 }
+      )
+    }
+
+    // 2a. 已完成 → 返回保存的响应（重放）
+    if (existing.statusCode !== null && existing.responseBody !== null) {
+      return NextResponse.json(JSON.parse(existing.responseBody), {
+        status: existing.statusCode,
+        headers: { 'Idempotent-Replayed': 'true' },
+      })
+    }
+
+    // 2b. 仍在处理中
+    if (Date.now() - existing.createdAt.getTime() < STALE_LOCK_MS) {
+      return NextResponse.json(
+        { success: false, message: '请求正在处理中，请稍后重试' },
+        { status: 409 }
+      )
+    }
+
+    // 2c. 处理中的记录已过期（上次处理时进程崩溃），接管这条记录重新执行
+    const { count } = await prisma.idempotencyKey.updateMany({
+      where: { id: existing.id, statusCode: null, createdAt: existing.createdAt },
+      data: { createdAt: new Date() },
+    })
+    if (count === 0) {
+      return NextResponse.json(
+        { success: false, message: '请求正在处理中，请稍后重试' },
+        { status: 409 }
+      )
+    }
+  }
+
+  // 3. 执行真正的处理函数
+  let response: NextResponse
+  try {
+    response = await handler()
+  } catch (error) {
+    await prisma.idempotencyKey.delete({ where }).catch(() => {})
+    throw error
+  }
+
+  // 4. 成功 → 保存响应；失败 → 删除记录，允许重试
+  if (response.ok) {
+    const body = await response.clone().json()
+    await prisma.idempotencyKey.update({
+      where,
+      data: { statusCode: response.status, responseBody: JSON.stringify(body) },
+    })
+  } else {
+    await prisma.idempotencyKey.delete({ where }).catch(() => {})
+  }
+
+  return response
+}
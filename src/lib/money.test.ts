@@ -0,0 +1,139 @@
+/**
+ * 金额计算测试
+ */
+
+import { describe, expect, it } from 'vitest'
+import {
+  addMoney,
+  allocateMoney,
+  compareMoney,
+  convertMoney,
+  fromCents,
+  multiplyMoney,
+  percentOfMoney,
+  subtractMoney,
+  sumLineAmounts,
+  toCents,
+} from '@/lib/money'
+
+describe('toCents', () => {
+  it('超过两位小数时四舍五入，不受浮点误差影响', () => {
+    expect(toCents('1.005')).toBe(101)
+    expect(toCents(1.005)).toBe(101)
+    expect(toCents('19.90')).toBe(1990)
+    expect(toCents('1.004')).toBe(100)
+  })
+
+  it('0.1 + 0.2 按 0.30 计算', () => {
+    expect(toCents(0.1 + 0.2)).toBe(30)
+    expect(compareMoney('0.30', 0.1 + 0.2)).toBe(0)
+  })
+
+  it('负数按绝对值四舍五入', () => {
+    expect(toCents('-2.345')).toBe(-235)
+    expect(toCents('-0.004')).toBe(0)
+    expect(toCents(-19.9)).toBe(-1990)
+  })
+
+  it('接受 Prisma.Decimal 等能转成字符串的值、科学计数法和省略整数部分的写法', () => {
+    expect(toCents({ toString: () => '88.88' })).toBe(8888)
+    expect(toCents(1e-7)).toBe(0)
+    expect(toCents('.5')).toBe(50)
+    expect(toCents(' 3 ')).toBe(300)
+  })
+
+  it('不是合法金额时抛出 RangeError', () => {
+    expect(() => toCents('abc')).toThrow(RangeError)
+    expect(() => toCents('')).toThrow(RangeError)
+    expect(() => toCents('.')).toThrow(RangeError)
+    expect(() => toCents('1.2.3')).toThrow(RangeError)
+    expect(() => toCents(Number.NaN)).toThrow(RangeError)
+    expect(() => toCents('99999999999999999')).toThrow(RangeError)
+  })
+})
+
+describe('fromCents', () => {
+  it('转成两位小数的字符串', () => {
+    expect(fromCents(1990)).toBe('19.90')
+    expect(fromCents(5)).toBe('0.05')
+    expect(fromCents(0)).toBe('0.00')
+    expect(fromCents(-5)).toBe('-0.05')
+    expect(fromCents(-12345)).toBe('-123.45')
+  })
+})
+
+describe('加减乘', () => {
+  it('addMoney / subtractMoney 精确计算', () => {
+    expect(addMoney('0.1', '0.2')).toBe('0.30')
+    expect(addMoney('19.90', '5.00', 0.05)).toBe('24.95')
+    expect(addMoney()).toBe('0.00')
+    expect(subtractMoney('100.00', '99.99')).toBe('0.01')
+    expect(subtractMoney('1.00', '2.50')).toBe('-1.50')
+  })
+
+  it('multiplyMoney 数量必须是整数', () => {
+    expect(multiplyMoney('19.90', 3)).toBe('59.70')
+    expect(multiplyMoney('-0.10', 3)).toBe('-0.30')
+    expect(() => multiplyMoney('19.90', 1.5)).toThrow(RangeError)
+  })
+
+  it('sumLineAmounts 合计单价 × 数量', () => {
+    expect(sumLineAmounts([{ price: '19.90', quantity: 3 }, { price: '0.10', quantity: 2 }])).toBe('59.90')
+    expect(sumLineAmounts([])).toBe('0.00')
+  })
+})
+
+describe('percentOfMoney', () => {
+  it('按百分比计算优惠，向下取整到分', () => {
+    expect(percentOfMoney('99.99', 15)).toBe('14.99')
+    expect(percentOfMoney('0.05', 50)).toBe('0.02')
+    expect(percentOfMoney('200.00', 12.5)).toBe('25.00')
+    expect(percentOfMoney('0.01', 99)).toBe('0.00')
+    expect(percentOfMoney('100.00', 100)).toBe('100.00')
+  })
+
+  it('负数向零取整（优惠金额的绝对值不会多算）', () => {
+    expect(percentOfMoney('-99.99', 15)).toBe('-14.99')
+  })
+})
+
+describe('convertMoney', () => {
+  it('按汇率换算，四舍五入到分', () => {
+    expect(convertMoney('100.00', '1.085')).toBe('108.50')
+    expect(convertMoney('19.90', '0.138249')).toBe('2.75')
+    expect(convertMoney('0.01', '0.5')).toBe('0.01')
+    expect(convertMoney('0.01', '0.499999')).toBe('0.00')
+  })
+
+  it('最大金额 × 六位小数汇率超出 number 安全整数范围时仍然精确（BigInt）', () => {
+    // 9999999999 分 × 999999 / 10^6，用 number 计算会丢失精度
+    expect(convertMoney('99999999.99', '0.999999')).toBe('99999899.99')
+    expect(convertMoney('99999999.99', '1.000001')).toBe('100000099.99')
+  })
+
+  it('负数按绝对值四舍五入', () => {
+    expect(convertMoney('-19.90', '0.138249')).toBe('-2.75')
+  })
+
+  it('汇率不是合法数字时抛出 RangeError', () => {
+    expect(() => convertMoney('1.00', 'x')).toThrow(RangeError)
+  })
+})
+
+describe('allocateMoney', () => {
+  it('分摊结果之和等于总额，余下的分按舍去部分从大到小补', () => {
+    expect(allocateMoney('10.00', [1, 1, 1])).toEqual(['3.34', '3.33', '3.33'])
+    expect(allocateMoney('20.00', ['59.70', '40.30'])).toEqual(['11.94', '8.06'])
+    expect(allocateMoney('0.02', [1, 0, 1, 1])).toEqual(['0.01', '0.00', '0.01', '0.00'])
+  })
+
+  it('权重为 0 的项不分摊', () => {
+    expect(allocateMoney('5.00', [0, '10.00'])).toEqual(['0.00', '5.00'])
+    expect(allocateMoney(0, [0, 0])).toEqual(['0.00', '0.00'])
+  })
+
+  it('权重为负数或全部为 0 时抛出 RangeError', () => {
+    expect(() => allocateMoney('1.00', [1, -1])).toThrow(RangeError)
+    expect(() => allocateMoney('1.00', [0, 0])).toThrow(RangeError)
+  })
+})
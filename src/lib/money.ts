@@ -0,0 +1,225 @@
+/**
+ * 金额计算（前后端共用）
+ * ============================================================
+ *
+ * 【为什么不能直接用 number 计算金额？】
+ * JavaScript 的 number 是二进制浮点数，很多十进制小数无法精确表示：
+ *   0.1 + 0.2          // 0.30000000000000004
+ *   19.9 * 3           // 59.699999999999996
+ *   parseFloat('1.005') * 100 // 100.49999999999999
+ * 数据库用 @db.Decimal(10, 2) 精确存储金额，计算时如果转成 number，误差又回来了。
+ *
+ * 【解决方法：按"分"用整数计算】
+ * 金额先转成整数"分"（19.90 → 1990），整数的加减乘在安全范围内是精确的，
+ * 算完再转回两位小数的字符串（1990 → "19.90"）。
+ * Decimal(10, 2) 的最大值 99999999.99 元 = 9999999999 分，远小于 Number.MAX_SAFE_INTEGER。
+ *
+ * 【取整规则】
+ * - 解析金额：超过两位小数时四舍五入到分（"1.005" → 1.01）
+ * - 按百分比计算的优惠（折扣券、分类折扣）：向下取整到分，优惠宁少一分不多一分
+ *
+ * 服务端的金额是 Prisma.Decimal（本身是精确的十进制），也可以直接传给这里的函数；
+ * 不依赖 Prisma，客户端组件（购物车、结算页）也可以引入。
+ *
+ * 【使用方式】
+ * import { addMoney, multiplyMoney } from '@/lib/money'
+ */
+
+/**
+ * 金额：字符串（API 返回的金额）、number，或 Prisma.Decimal 等能转成字符串的十进制数
+ */
+export type MoneyValue = string | number | { toString(): string }
+
+const MONEY_PATTERN = /^([+-])?(\d*)(?:\.(\d*))?$/
+
+/**
+ * 十进制数转成放大 10^scale 倍的整数（多出的小数位四舍五入）
+ *
+ * 直接解析十进制字符串，不经过浮点数乘法，所以 "1.005" 不会变成 100.49999999999999 分。
+ */
+function toScaledInteger(value: MoneyValue, scale: number): number {
+  let text = typeof value === 'number' ? String(value) : value.toString().trim()
+  // 很小或很大的数会被转成科学计数法（如 1e-7），先展开成普通小数
+  if (/e/i.test(text)) {
+    text = Number(text).toFixed(20)
+  }
+
+  const match = MONEY_PATTERN.exec(text)
+  if (!match || (!match[2] && !match[3])) {
+    throw new RangeError(`无效的金额：${text}`)
+  }
+
+  const [, sign, integerPart = '', fractionPart = ''] = match
+  const digits = fractionPart.padEnd(scale + 1, '0')
+  let scaled = Number(integerPart || '0') * 10 ** scale + Number(digits.slice(0, scale) || '0')
+  if (Number(digits[scale]) >= 5) scaled += 1 // 下一位小数四舍五入
+  if (!Number.isSafeInteger(scaled)) {
+    throw new RangeError(`金额超出范围：${text}`)
+  }
+  return sign === '-' && scaled !== 0 ? -scaled : scaled
+}
+
+/**
+ * 金额转成整数"分"（超过两位小数时四舍五入）
+ *
+ * @throws RangeError 不是合法金额时抛出
+ *
+ * @example
+ * toCents('19.90')  // 1990
+ * toCents(0.1 + 0.2) // 30
+ * toCents('1.005')  // 101
+ * toCents('-2.345') // -235
+ */
+export function toCents(value: MoneyValue): number {
+  return toScaledInteger(value, 2)
+}
+
+/**
+ * 整数"分"转成两位小数的金额字符串
+ *
+ * @example
+ * fromCents(1990) // "19.90"
+ * fromCents(-5)   // "-0.05"
+ */
+export function fromCents(cents: number): string {
+  const abs = Math.abs(cents)
+  const yuan = Math.floor(abs / 100)
+  const fen = String(abs % 100).padStart(2, '0')
+  return `${cents < 0 ? '-' : ''}${yuan}.${fen}`
+}
+
+/**
+ * 金额相加
+ *
+ * @example
+ * addMoney('0.1', '0.2')          // "0.30"
+ * addMoney('19.90', '5.00', 0.05) // "24.95"
+ */
+export function addMoney(...values: MoneyValue[]): string {
+  return fromCents(values.reduce<number>((sum, value) => sum + toCents(value), 0))
+}
+
+/**
+ * 金额相减
+ *
+ * @example
+ * subtractMoney('100.00', '99.99') // "0.01"
+ */
+export function subtractMoney(amount: MoneyValue, subtrahend: MoneyValue): string {
+  return fromCents(toCents(amount) - toCents(subtrahend))
+}
+
+/**
+ * 单价 × 数量
+ *
+ * @example
+ * multiplyMoney('19.90', 3) // "59.70"（number 计算是 59.699999999999996）
+ */
+export function multiplyMoney(price: MoneyValue, quantity: number): string {
+  if (!Number.isInteger(quantity)) {
+    throw new RangeError(`数量必须是整数：${quantity}`)
+  }
+  return fromCents(toCents(price) * quantity)
+}
+
+/**
+ * 商品金额合计：Σ 单价 × 数量
+ *
+ * @example
+ * sumLineAmounts([{ price: '19.90', quantity: 3 }, { price: '0.10', quantity: 2 }]) // "59.90"
+ */
+export function sumLineAmounts(lines: { price: MoneyValue; quantity: number }[]): string {
+  return fromCents(
+    lines.reduce<number>((sum, line) => sum + toCents(multiplyMoney(line.price, line.quantity)), 0)
+  )
+}
+
+/**
+ * 按百分比计算优惠金额（向下取整到分）
+ *
+ * 百分比最多两位小数（如 15.5 表示 15.5%），转成万分比后用整数计算。
+ *
+ * @example
+ * percentOfMoney('99.99', 15)   // "14.99"（14.9985 向下取整）
+ * percentOfMoney('0.05', 50)    // "0.02"
+ * percentOfMoney('200.00', 12.5) // "25.00"
+ */
+export function percentOfMoney(amount: MoneyValue, percent: MoneyValue): string {
+  const basisPoints = toCents(percent) // 15.5% → 1550（万分之一）
+  return fromCents(Math.trunc((toCents(amount) * basisPoints) / 10000))
+}
+
+/**
+ * 比较两个金额：a < b 返回负数，相等返回 0，a > b 返回正数
+ *
+ * @example
+ * compareMoney('0.30', 0.1 + 0.2) // 0
+ */
+export function compareMoney(a: MoneyValue, b: MoneyValue): number {
+  return toCents(a) - toCents(b)
+}
+
+/**
+ * 按汇率换算金额（四舍五入到分）
+ *
+ * 汇率最多六位小数（ExchangeRate.rate 是 Decimal(12, 6)），
+ * 分 × 百万分之一汇率可能超出 number 的安全整数范围，所以用 BigInt 计算。
+ *
+ * @param amount - 基准币种（人民币）金额
+ * @param rate - 1 单位基准币种 = rate 单位目标币种
+ *
+ * @example
+ * convertMoney('100.00', '1.085')    // "108.50"
+ * convertMoney('19.90', '0.138249')  // "2.75"（2.7511551 四舍五入）
+ */
+export function convertMoney(amount: MoneyValue, rate: MoneyValue): string {
+  const product = BigInt(toCents(amount)) * BigInt(toScaledInteger(rate, 6))
+  const negative = product < BigInt(0)
+  const abs = negative ? -product : product
+  const cents = (abs + BigInt(500000)) / BigInt(1000000) // 四舍五入
+  return fromCents(Number(negative ? -cents : cents))
+}
+
+/**
+ * 按比例分摊金额（按分计算，分摊结果之和正好等于总额）
+ *
+ * 先按比例向下取整到分，剩下的几分钱按舍去部分从大到小每项补一分（最大余数法），
+ * 舍去部分相同时补给前面的项。用于把订单级优惠（满减、优惠券）分摊到每个商品上。
+ *
+ * @param total - 要分摊的金额
+ * @param weights - 每一项的权重（如各商品的金额），不能为负数
+ * @throws RangeError 权重为负数，或总额不为 0 而权重全部为 0 时抛出
+ *
+ * @example
+ * allocateMoney('10.00', [1, 1, 1])          // ["3.34", "3.33", "3.33"]
+ * allocateMoney('20.00', ['59.70', '40.30']) // ["11.94", "8.06"]
+ */
+export function allocateMoney(total: MoneyValue, weights: MoneyValue[]): string[] {
+  const totalCents = toCents(total)
+  const weightCents = weights.map((weight) => BigInt(toCents(weight)))
+  if (weightCents.some((weight) => weight < BigInt(0))) {
+    throw new RangeError('分摊权重不能为负数')
+  }
+  const weightSum = weightCents.reduce((sum, weight) => sum + weight, BigInt(0))
+  if (weightSum === BigInt(0)) {
+    if (totalCents !== 0) throw new RangeError(`没有可分摊的项：${total}`)
+    return weights.map(() => fromCents(0))
+  }
+
+  // 分 × 分可能超出 number 的安全整数范围，和 convertMoney 一样用 BigInt 计算
+  const abs = BigInt(Math.abs(totalCents))
+  const shares = weightCents.map((weight) => (abs * weight) / weightSum)
+  const remainders = weightCents.map((weight) => (abs * weight) % weightSum)
+  let left = Number(abs - shares.reduce((sum, share) => sum + share, BigInt(0)))
+
+  const order = remainders
+    .map((remainder, index) => ({ remainder, index }))
+    .sort((a, b) => (a.remainder === b.remainder ? a.index - b.index : a.remainder > b.remainder ? -1 : 1))
+  for (const { index } of order) {
+    if (left <= 0) break
+    shares[index] += BigInt(1)
+    left -= 1
+  }
+
+  return shares.map((share) => fromCents(totalCents < 0 ? -Number(share) : Number(share)))
+}
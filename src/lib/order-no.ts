@@ -0,0 +1,96 @@
+/**
+ * 订单号生成器
+ * ============================================================
+ *
+ * 【生成规则】
+ * 前缀 + 年月日 + 当日序号
+ * 例如：ORD20240315000001、ORD20240315000002 ……
+ *
+ * 【配置（环境变量）】
+ * - ORDER_NO_PREFIX：订单号前缀，默认 "ORD"
+ * - ORDER_NO_SEQUENCE_DIGITS：序号位数（不足补 0），默认 6
+ *   当日订单超过位数上限时序号会自动变长，依然唯一
+ *
+ * 【为什么不用随机数？】
+ * 随机数在高并发下可能重复（生日悖论），而 orderNo 有唯一约束，
+ * 重复会导致下单失败。这里用数据库中的每日计数器（OrderSequence 表）分配序号，
+ * 数据库的行锁保证并发请求拿到的序号一定不同。
+ *
+ * 【为什么不在下单事务中分配？】
+ * 当天的计数器只有一行，更新它会加行锁，直到事务提交才释放。
+ * 如果和创建订单放在同一个事务里，所有下单请求都要排队等前一个订单的
+ * 扣库存、核销优惠券等步骤全部完成，下单变成串行的。
+ * 所以订单号在下单事务之前用单独的短事务分配，分配完立即提交释放行锁。
+ * 代价是下单失败（库存不足等）时序号不回收，订单号会有空号；订单号只要求唯一，不要求连续。
+ */
+
+import { prisma } from '@/lib/prisma'
+import { Prisma } from '@/generated/prisma/client'
+
+const ORDER_NO_PREFIX = process.env.ORDER_NO_PREFIX || 'ORD'
+const SEQUENCE_DIGITS = Number(process.env.ORDER_NO_SEQUENCE_DIGITS) || 6
+
+/**
+ * 生成订单号（在下单事务之前调用）
+ *
+ * 【原理】
+ * INSERT ... ON DUPLICATE KEY UPDATE 是 MySQL 的原子"插入或更新"：
+ * - 当天第一单：插入 value = 1
+ * - 之后：value = value + 1
+ * 更新会给这一行加锁，直到这个短事务提交，其他请求只能排队等待，
+ * 所以随后读到的 value 就是本次独占的序号。
+ *
+ * @param now - 下单时间，默认当前时间
+ */
+export async function generateOrderNo(now: Date = new Date()): Promise<string> {
+  const dateStr = now.toISOString().slice(0, 10).replace(/-/g, '') // 20240315
+
+  const sequence = await prisma.$transaction(async (tx) => {
+    await tx.$executeRaw`
+      INSERT INTO order_sequences (date, value) VALUES (${dateStr}, 1)
+      ON DUPLICATE KEY UPDATE value = value + 1
+    `
+    return tx.orderSequence.findUniqueOrThrow({
+      where: { date: dateStr },
+    })
+  })
+
+  return `${ORDER_NO_PREFIX}${dateStr}${String(sequence.value).padStart(SEQUENCE_DIGITS, '0')}`
+}
+
+/**
+ * 判断错误是否可以通过重试解决
+ * - P2002 且冲突字段是 orderNo：订单号重复（例如序列表被手动清空过）
+ * - P2034：事务写冲突或死锁，MySQL 会回滚其中一个事务，重试即可
+ */
+function isRetryableOrderError(error: unknown): boolean {
+  if (!(error instanceof Prisma.PrismaClientKnownRequestError)) return false
+  if (error.code === 'P2034') return true
+  return error.code === 'P2002' && JSON.stringify(error.meta ?? {}).includes('orderNo')
+}
+
+/**
+ * 带重试地执行"创建订单"事务
+ *
+ * 订单号冲突或死锁时，整个事务已经回滚（库存、购物车都没有变化），
+ * 重新执行一遍是安全的；其他错误（如库存不足）直接抛出。
+ * 每次重试都要重新分配订单号，所以 generateOrderNo 放在 fn 里面。
+ *
+ * @example
+ * const order = await withOrderNoRetry(async () => {
+ *   const orderNo = await generateOrderNo()
+ *   return prisma.$transaction(async (tx) => {
+ *     // ...
+ *   })
+ * })
+ */
+export async function withOrderNoRetry<T>(fn: () => Promise<T>, maxAttempts: number = 3): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn()
+    } catch (error) {
+      if (attempt >= maxAttempts || !isRetryableOrderError(error)) throw error
+      console.warn(`创建订单冲突，第 ${attempt} 次重试:`, error)
+    }
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * 订单状态机定义（前后端共用）
+ * ============================================================
+ *
+ * 【什么是状态机？】
+ * 订单在任意时刻只处于一个状态，并且只能按照预先定义好的"边"流转：
+ *
+ *   PENDING ──支付──► PAID ──发货──► SHIPPED ──收货──► COMPLETED
+ *      │                │
+ *      └──取消──► CANCELLED ◄──取消──┘
+ *
+ * COMPLETED 和 CANCELLED 是"终态"，不能再流转到其他状态。
+ *
+ * 【为什么单独放一个文件？】
+ * 这个文件不依赖 Prisma（不访问数据库），可以同时被：
+ * - 服务端：lib/order.ts 用来拒绝非法的状态变更
+ * - 客户端：OrderStatusActions.tsx 用来决定显示哪些按钮
+ * 共用同一份规则，避免前后端规则不一致。
+ *
+ * 其他标注"前后端共用"的模块（coupon-status.ts、category-tree.ts、currency-format.ts 等）
+ * 都遵循同样的约定：不依赖 Prisma，客户端组件可以直接引入；访问数据库的部分放在对应的服务端模块中。
+ *
+ * 注意：前端的规则只用于展示，真正的校验必须在服务端做！
+ */
+
+export type OrderStatusValue = 'PENDING' | 'PAID' | 'SHIPPED' | 'COMPLETED' | 'CANCELLED'
+
+export type OperatorTypeValue = 'CUSTOMER' | 'ADMIN' | 'SYSTEM'
+
+/**
+ * 合法的状态流转表
+ * key 是当前状态，value 是允许流转到的下一个状态列表
+ */
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatusValue, OrderStatusValue[]> = {
+  PENDING: ['PAID', 'CANCELLED'],
+  PAID: ['SHIPPED', 'CANCELLED'],
+  SHIPPED: ['COMPLETED'],
+  COMPLETED: [],
+  CANCELLED: [],
+}
+
+/**
+ * 订单状态的中文名称
+ */
+export const ORDER_STATUS_LABELS: Record<OrderStatusValue, string> = {
+  PENDING: '待付款',
+  PAID: '已付款',
+  SHIPPED: '已发货',
+  COMPLETED: '已完成',
+  CANCELLED: '已取消',
+}
+
+/**
+ * 操作者类型的中文名称
+ */
+export const OPERATOR_TYPE_LABELS: Record<OperatorTypeValue, string> = {
+  CUSTOMER: '用户',
+  ADMIN: '管理员',
+  SYSTEM: '系统',
+}
+
+/**
+ * 判断状态流转是否合法
+ *
+ * @example
+ * canTransitionOrder('PAID', 'SHIPPED')      // true
+ * canTransitionOrder('COMPLETED', 'PENDING') // false
+ */
+export function canTransitionOrder(from: OrderStatusValue, to: OrderStatusValue): boolean {
+  return ORDER_STATUS_TRANSITIONS[from]?.includes(to) ?? false
+}
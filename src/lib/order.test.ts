@@ -0,0 +1,79 @@
+/**
+ * 并发下单扣库存的测试（需要数据库）
+ *
+ * 模拟多个请求同时抢购同一件商品：N 个 createOrder()（POST /api/orders 调用的下单函数）并发执行，
+ * 库存少于 N，必须正好创建"库存数量"个订单，库存不能变成负数（reserveStock 的条件更新）。
+ *
+ * 会在测试数据库中创建测试用的用户、收货地址、分类、商品和订单，结束后删除。
+ * 没有配置 TEST_DATABASE_URL 时跳过，测试库的准备步骤见 README 的"测试"一节。
+ */
+
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import { prisma } from '@/lib/prisma'
+import { createOrder } from '@/lib/checkout'
+import { OrderActionError } from '@/lib/order'
+
+const STOCK = 3
+const CHECKOUTS = 10
+
+describe.skipIf(!process.env.TEST_DATABASE_URL)('createOrder 并发下单', () => {
+  const tag = `stock-test-${Date.now()}`
+  let userId: string
+  let addressId: number
+  let categoryId: number
+  let productId: number
+
+  beforeAll(async () => {
+    const user = await prisma.user.create({
+      data: { name: tag, email: `${tag}@example.com`, password: '-' },
+    })
+    const address = await prisma.address.create({
+      data: {
+        userId: user.id,
+        name: tag,
+        phone: '13800000000',
+        province: '北京市',
+        city: '北京市',
+        district: '朝阳区',
+        detail: tag,
+      },
+    })
+    const category = await prisma.category.create({ data: { name: tag, slug: tag } })
+    const product = await prisma.product.create({
+      data: { name: tag, description: tag, price: '9.90', stock: STOCK, categoryId: category.id },
+    })
+    userId = user.id
+    addressId = address.id
+    categoryId = category.id
+    productId = product.id
+  })
+
+  afterAll(async () => {
+    await prisma.order.deleteMany({ where: { userId } })
+    await prisma.product.deleteMany({ where: { id: productId } })
+    await prisma.category.deleteMany({ where: { id: categoryId } })
+    await prisma.user.deleteMany({ where: { id: userId } })
+    await prisma.$disconnect()
+  })
+
+  it(`${CHECKOUTS} 个并发下单抢 ${STOCK} 件库存，只有 ${STOCK} 个成功`, async () => {
+    // 立即购买：不经过购物车，每个请求都结算同一件商品
+    const results = await Promise.allSettled(
+      Array.from({ length: CHECKOUTS }, () =>
+        createOrder(userId, { addressId, buyNow: { productId, quantity: 1 } })
+      )
+    )
+
+    const fulfilled = results.filter((result) => result.status === 'fulfilled')
+    const rejected = results.filter((result) => result.status === 'rejected')
+    expect(fulfilled).toHaveLength(STOCK)
+    for (const result of rejected) {
+      expect(result.reason).toBeInstanceOf(OrderActionError)
+    }
+
+    // 失败的事务整体回滚，没有留下订单
+    expect(await prisma.order.count({ where: { userId } })).toBe(STOCK)
+    const product = await prisma.product.findUniqueOrThrow({ where: { id: productId } })
+    expect(product.stock).toBe(0)
+  })
+})
@@ -0,0 +1,494 @@
+/**
+ * 订单生命周期（服务端）
+ * ============================================================
+ *
+ * 【为什么把订单操作抽到 lib 里？】
+ * 订单状态会被多个入口修改：
+ * - 用户支付（/api/payment）、用户取消（/api/orders/:id/cancel）
+ * - 管理员发货、完成、取消（/api/admin/orders/:id）
+ * 如果每个 API 各写一份，很容易出现"一个入口归还了库存，另一个忘了"的 bug。
+ * 所有状态变更都必须走 transitionOrder()，它负责：
+ * 1. 按 order-status.ts 中的状态机校验流转是否合法
+ * 2. 执行该状态对应的副作用（如取消时归还库存）
+ * 3. 写入一条状态历史记录
+ * 以上步骤在同一个事务中完成。
+ *
+ * 【使用方式】
+ * import { transitionOrder, OrderActionError } from '@/lib/order'
+ *
+ * try {
+ *   await transitionOrder(orderId, 'SHIPPED', {
+ *     operator: { type: 'ADMIN', userId: session.user.id },
+ *   })
+ * } catch (error) {
+ *   if (error instanceof OrderActionError) {
+ *     // 业务错误：返回 400 + error.message
+ *   }
+ * }
+ */
+
+import { prisma } from '@/lib/prisma'
+import type { Prisma, Order, OrderItem, OrderStatus, OperatorType } from '@/generated/prisma/client'
+import { canTransitionOrder, ORDER_STATUS_LABELS } from '@/lib/order-status'
+import { settleOrderRefunds } from '@/lib/payment'
+
+/**
+ * 订单支付超时时间（分钟）
+ * 可通过环境变量 ORDER_PAYMENT_TIMEOUT_MINUTES 配置，默认 30 分钟
+ */
+export const PAYMENT_TIMEOUT_MINUTES =
+  Number(process.env.ORDER_PAYMENT_TIMEOUT_MINUTES) || 30
+
+/**
+ * 发货后自动确认收货的天数
+ * 可通过环境变量 ORDER_AUTO_COMPLETE_DAYS 配置，默认 10 天
+ */
+export const AUTO_COMPLETE_DAYS =
+  Number(process.env.ORDER_AUTO_COMPLETE_DAYS) || 10
+
+/**
+ * 计算新订单的支付截止时间
+ */
+export function getPaymentDeadline(from: Date = new Date()): Date {
+  return new Date(from.getTime() + PAYMENT_TIMEOUT_MINUTES * 60 * 1000)
+}
+
+/**
+ * 判断订单是否已超过支付截止时间
+ * 没有截止时间的历史订单视为不过期
+ */
+export function isPaymentExpired(order: Pick<Order, 'paymentDeadline'>, now: Date = new Date()): boolean {
+  return order.paymentDeadline !== null && order.paymentDeadline <= now
+}
+
+/**
+ * 订单的商品是否已经全部发出（全部发出后才能确认收货）
+ *
+ * 分批发货之前发货的历史订单没有包裹记录，视为已全部发出。
+ *
+ * @param shipmentCount - 订单的包裹数量
+ */
+export function isFullyShipped(order: Pick<Order, 'fullyShippedAt'>, shipmentCount: number): boolean {
+  return order.fullyShippedAt !== null || shipmentCount === 0
+}
+
+/**
+ * 订单业务错误
+ *
+ * 【为什么要自定义错误类？】
+ * 在事务中抛出错误会让整个事务回滚。
+ * API 路由可以用 instanceof 区分"业务错误"（返回 400 + 提示信息）
+ * 和"系统错误"（数据库挂了等，返回 500）。
+ */
+export class OrderActionError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'OrderActionError'
+  }
+}
+
+/**
+ * 状态变更的操作者
+ * SYSTEM 类型（定时任务等）没有 userId
+ */
+export type OrderOperator = {
+  type: OperatorType
+  userId?: string
+}
+
+type TransitionOptions = {
+  operator: OrderOperator
+  ownerId?: string // 传入时只能操作该用户自己的订单（用户端）
+  note?: string    // 备注，会写入状态历史
+}
+
+type OrderWithItems = Order & { items: OrderItem[] }
+
+/**
+ * 扣减库存（下单时调用，必须在事务中）
+ *
+ * 【为什么不能"先查库存再 decrement"？】
+ * 两个用户同时购买最后 1 件商品：
+ *   请求 A 查询 stock = 1 ✅ → 请求 B 查询 stock = 1 ✅
+ *   请求 A 扣减 → stock = 0   → 请求 B 扣减 → stock = -1 ❌ 超卖！
+ * 检查和扣减之间有时间差，这就是典型的"竞态条件"（Race Condition）。
+ *
+ * 【解决方法：条件更新】
+ * 把"库存足够"作为 UPDATE 的 WHERE 条件：
+ *   UPDATE products SET stock = stock - 2 WHERE id = 1 AND stock >= 2
+ * 数据库对同一行的更新是串行的，后到的请求看到的是已扣减后的库存，
+ * 条件不满足时影响行数为 0，我们据此抛错让整个事务回滚。
+ *
+ * 【有规格的商品】
+ * 先用同样的条件更新扣减规格组合的库存，再扣减商品的库存（商品库存是各规格库存之和）。
+ *
+ * @param tx - 事务客户端
+ * @param items - 要扣减的商品（及规格组合）和数量
+ * @throws OrderActionError 任一商品库存不足或已下架时抛出（事务整体回滚）
+ */
+export async function reserveStock(
+  tx: Prisma.TransactionClient,
+  items: { productId: number; variantId?: number | null; quantity: number }[]
+) {
+  for (const item of items) {
+    if (item.variantId) {
+      const { count } = await tx.productVariant.updateMany({
+        where: {
+          id: item.variantId,
+          isActive: true,
+          stock: { gte: item.quantity },
+        },
+        data: {
+          stock: { decrement: item.quantity },
+        },
+      })
+
+      if (count === 0) {
+        const variant = await tx.productVariant.findUnique({
+          where: { id: item.variantId },
+          select: { name: true, stock: true, isActive: true, product: { select: { name: true } } },
+        })
+        const name = `${variant?.product.name ?? '商品'}（${variant?.name ?? '规格'}）`
+        if (!variant || !variant.isActive) {
+          throw new OrderActionError(`"${name}" 已停售`)
+        }
+        throw new OrderActionError(`"${name}" 库存不足，仅剩 ${variant.stock} 件`)
+      }
+    }
+
+    const { count } = await tx.product.updateMany({
+      where: {
+        id: item.productId,
+        isActive: true,
+        stock: { gte: item.quantity }, // 关键：库存足够才扣减
+      },
+      data: {
+        stock: { decrement: item.quantity },
+      },
+    })
+
+    if (count === 0) {
+      // 扣减失败，查询当前库存给出明确的提示
+      const product = await tx.product.findUnique({
+        where: { id: item.productId },
+        select: { name: true, stock: true, isActive: true },
+      })
+      if (!product || !product.isActive) {
+        throw new OrderActionError(`"${product?.name ?? '商品'}" 已下架`)
+      }
+      throw new OrderActionError(`"${product.name}" 库存不足，仅剩 ${product.stock} 件`)
+    }
+  }
+}
+
+/**
+ * 归还库存（取消订单时调用，必须在事务中）
+ *
+ * 有规格的商品同时归还规格组合的库存（规格已停用也归还，重新启用后库存是准确的）。
+ */
+export async function releaseStock(
+  tx: Prisma.TransactionClient,
+  items: { productId: number; variantId?: number | null; quantity: number }[]
+) {
+  for (const item of items) {
+    if (item.variantId) {
+      await tx.productVariant.update({
+        where: { id: item.variantId },
+        data: { stock: { increment: item.quantity } },
+      })
+    }
+    await tx.product.update({
+      where: { id: item.productId },
+      data: {
+        stock: { increment: item.quantity }, // 原子操作：增加库存
+      },
+    })
+  }
+}
+
+/**
+ * 状态副作用
+ *
+ * 【设计思路】
+ * key 是"进入"的目标状态，value 是进入该状态时需要执行的额外操作。
+ * 副作用函数接收事务客户端 tx，所以它的数据库操作和状态更新在同一个事务中，
+ * 任何一步失败都会整体回滚。
+ * 以后新增副作用（如退款、释放优惠券）只需在这里添加一项。
+ */
+const transitionEffects: Partial<
+  Record<OrderStatus, (tx: Prisma.TransactionClient, order: OrderWithItems) => Promise<void>>
+> = {
+  /**
+   * 发货 → 记录第一个包裹的发货时间（全部发出的时间由 lib/shipment.ts 记录）
+   */
+  SHIPPED: async (tx, order) => {
+    await tx.order.update({
+      where: { id: order.id },
+      data: { shippedAt: new Date() },
+    })
+  },
+
+  /**
+   * 完成 → 记录完成时间（售后期限从这里开始计算）
+   */
+  COMPLETED: async (tx, order) => {
+    await tx.order.update({
+      where: { id: order.id },
+      data: { completedAt: new Date() },
+    })
+  },
+
+  /**
+   * 取消订单 → 归还库存（含秒杀活动库存）、退回优惠券、关闭待支付的支付单、已付款的订单退款
+   * 下单时已经扣减了库存（相当于"预占"），取消时必须把库存还回去，
+   * 否则会出现订单已取消但库存没恢复（库存永久泄漏）的问题。
+   */
+  CANCELLED: async (tx, order) => {
+    await releaseStock(tx, order.items)
+    // 以秒杀价购买的商品，归还秒杀活动库存
+    for (const item of order.items) {
+      if (item.flashSaleId) {
+        await tx.flashSale.update({
+          where: { id: item.flashSaleId },
+          data: { remainingStock: { increment: item.quantity } },
+        })
+      }
+    }
+    // 使用的优惠券退回券包（订单上的 couponId、discountAmount 保留作为记录）
+    await tx.userCoupon.updateMany({
+      where: { orderId: order.id, status: 'USED' },
+      data: { status: 'UNUSED', orderId: null, usedAt: null },
+    })
+    // 关闭还在等待支付的支付单；如果之后仍收到支付成功的结果，会自动退款
+    await tx.payment.updateMany({
+      where: { orderId: order.id, status: 'PENDING' },
+      data: { status: 'CLOSED' },
+    })
+    // 已付款的订单：成功的支付单记下待退款金额（剩余未退的部分），
+    // 调用支付渠道是网络请求，不能放在事务里，由 transitionOrder 在事务提交后发起退款
+    if (order.status === 'PAID') {
+      const payments = await tx.payment.findMany({
+        where: { orderId: order.id, status: 'SUCCEEDED' },
+      })
+      for (const payment of payments) {
+        const refundable = payment.amount.minus(payment.refundedAmount).minus(payment.pendingRefundAmount)
+        if (refundable.greaterThan(0)) {
+          await tx.payment.update({
+            where: { id: payment.id },
+            data: {
+              pendingRefundAmount: { increment: refundable },
+              refundReason: '订单取消，全额退款',
+            },
+          })
+        }
+      }
+    }
+  },
+}
+
+/**
+ * 变更订单状态（所有状态变更的唯一入口）
+ *
+ * 【为什么用 updateMany + status 条件？】
+ * 如果两个请求同时变更同一个订单（比如用户连点两次取消），
+ * 先查询再更新的写法会让两个请求都通过检查，库存被归还两次。
+ * updateMany 的 where 中带上当前状态条件，数据库保证只有一个请求能更新成功，
+ * 另一个请求 count 为 0，直接报错回滚。
+ * 这种写法叫做"乐观锁"（Optimistic Locking）。
+ *
+ * 【取消已付款的订单】
+ * 事务中只记下待退款金额，事务提交后再调用支付渠道退款。
+ * 退款失败不影响取消结果（订单已经取消），待退款金额保留，由定时任务 /api/cron/retry-refunds 重试。
+ *
+ * @param orderId - 订单 ID
+ * @param toStatus - 目标状态
+ * @param options - 操作者、订单归属、备注
+ * @returns 变更后的订单
+ */
+export async function transitionOrder(
+  orderId: number,
+  toStatus: OrderStatus,
+  options: TransitionOptions
+) {
+  const order = await prisma.$transaction((tx) => applyOrderTransition(tx, orderId, toStatus, options))
+
+  if (toStatus === 'CANCELLED') {
+    await settleOrderRefunds(order.id)
+  }
+
+  return order
+}
+
+/**
+ * 在已有事务中变更订单状态
+ *
+ * 当状态变更需要和其他数据库操作一起提交时使用（比如支付成功时
+ * "更新支付记录"和"订单改为已付款"必须同时成功）。
+ * 规则与 transitionOrder 完全相同。
+ */
+export async function applyOrderTransition(
+  tx: Prisma.TransactionClient,
+  orderId: number,
+  toStatus: OrderStatus,
+  options: TransitionOptions
+) {
+  const order = await tx.order.findFirst({
+    where: { id: orderId, userId: options.ownerId },
+    include: { items: true },
+  })
+
+  if (!order) {
+    throw new OrderActionError('订单不存在')
+  }
+
+  // 1. 状态机校验
+  if (!canTransitionOrder(order.status, toStatus)) {
+    throw new OrderActionError(
+      `订单${ORDER_STATUS_LABELS[order.status]}，不能变更为${ORDER_STATUS_LABELS[toStatus]}`
+    )
+  }
+
+  // 分批发货的订单要等全部商品发出后才能完成（确认收货、自动确认收货、管理员操作都一样）
+  if (toStatus === 'COMPLETED') {
+    const shipmentCount = await tx.shipment.count({ where: { orderId: order.id } })
+    if (!isFullyShipped(order, shipmentCount)) {
+      throw new OrderActionError('订单还有商品未发货，全部发出后才能确认收货')
+    }
+  }
+
+  // 2. 带状态条件更新，防止并发重复变更
+  const { count } = await tx.order.updateMany({
+    where: { id: order.id, status: order.status },
+    data: { status: toStatus },
+  })
+
+  if (count === 0) {
+    throw new OrderActionError('订单状态已变化，请刷新后重试')
+  }
+
+  // 3. 执行副作用
+  await transitionEffects[toStatus]?.(tx, order)
+
+  // 4. 记录状态历史
+  await tx.orderStatusHistory.create({
+    data: {
+      orderId: order.id,
+      fromStatus: order.status,
+      toStatus,
+      operatorType: options.operator.type,
+      operatorId: options.operator.userId,
+      note: options.note,
+    },
+  })
+
+  return tx.order.findUniqueOrThrow({ where: { id: order.id } })
+}
+
+/**
+ * 取消订单并归还库存
+ *
+ * 只有待付款（PENDING）和已付款未发货（PAID）的订单可以取消，
+ * 由状态机保证；已发货的订单只能走售后流程。
+ * 已付款的订单取消后全额退款（见 transitionOrder）。
+ */
+export async function cancelOrder(
+  orderId: number,
+  options: TransitionOptions
+) {
+  return transitionOrder(orderId, 'CANCELLED', options)
+}
+
+/**
+ * 自动取消超时未支付的订单
+ *
+ * 【调用方式】
+ * 由定时任务调用 /api/cron/expire-orders 触发（见该路由的说明）。
+ *
+ * 【为什么逐个调用 transitionOrder 而不是一条 updateMany 批量更新？】
+ * 取消订单需要归还库存、记录状态历史，这些副作用都在 transitionOrder 中。
+ * 逐个处理还有一个好处：某个订单恰好在扫描期间被支付了，
+ * transitionOrder 会因为状态已变化而失败，只跳过这一个，不影响其他订单。
+ *
+ * @param limit - 单次最多处理的订单数，避免一次任务执行过久
+ * @returns 本次成功取消的订单数
+ */
+export async function expireUnpaidOrders(limit: number = 100): Promise<number> {
+  const expiredOrders = await prisma.order.findMany({
+    where: {
+      status: 'PENDING',
+      paymentDeadline: { lte: new Date() },
+    },
+    select: { id: true },
+    orderBy: { paymentDeadline: 'asc' },
+    take: limit,
+  })
+
+  let cancelled = 0
+  for (const order of expiredOrders) {
+    try {
+      await cancelOrder(order.id, {
+        operator: { type: 'SYSTEM' },
+        note: '超时未支付，系统自动取消',
+      })
+      cancelled++
+    } catch (error) {
+      // 订单在扫描期间已被支付或取消，跳过即可
+      if (!(error instanceof OrderActionError)) throw error
+    }
+  }
+
+  return cancelled
+}
+
+/**
+ * 自动确认收货
+ *
+ * 【为什么需要自动确认？】
+ * 很多用户收到货后不会去点"确认收货"，订单会一直停在"已发货"。
+ * 全部商品发出超过 AUTO_COMPLETE_DAYS 天的订单由系统自动确认收货。
+ * 分批发货还有商品没发出的订单不会自动完成（fullyShippedAt 为空）。
+ *
+ * 有售后正在处理（待审核、退款中）的订单先不自动完成，等售后处理完再说。
+ *
+ * 【调用方式】
+ * 由定时任务调用 /api/cron/complete-orders 触发。
+ *
+ * @param limit - 单次最多处理的订单数
+ * @returns 本次自动完成的订单数
+ */
+export async function autoCompleteShippedOrders(limit: number = 100): Promise<number> {
+  const shippedBefore = new Date(Date.now() - AUTO_COMPLETE_DAYS * 24 * 60 * 60 * 1000)
+
+  const orders = await prisma.order.findMany({
+    where: {
+      status: 'SHIPPED',
+      OR: [
+        { fullyShippedAt: { lte: shippedBefore } },
+        // 分批发货之前发货的历史订单没有包裹记录，按发货时间计时；
+        // 更早的订单也没有 shippedAt，用最后更新时间代替
+        { shipments: { none: {} }, shippedAt: { lte: shippedBefore } },
+        { shipments: { none: {} }, shippedAt: null, updatedAt: { lte: shippedBefore } },
+      ],
+      afterSales: { none: { status: { in: ['PENDING', 'APPROVED'] } } },
+    },
+    select: { id: true },
+    orderBy: { fullyShippedAt: 'asc' },
+    take: limit,
+  })
+
+  let completed = 0
+  for (const order of orders) {
+    try {
+      await transitionOrder(order.id, 'COMPLETED', {
+        operator: { type: 'SYSTEM' },
+        note: `发货超过 ${AUTO_COMPLETE_DAYS} 天，系统自动确认收货`,
+      })
+      completed++
+    } catch (error) {
+      // 订单在扫描期间已被用户确认收货，跳过即可
+      if (!(error instanceof OrderActionError)) throw error
+    }
+  }
+
+  return completed
+}
@@ -0,0 +1,487 @@
+/**
+ * 支付服务
+ * ============================================================
+ *
+ * 【分层】
+ * - types.ts：PaymentProvider 接口（每个支付渠道要实现的方法）
+ * - mock.ts：本地模拟网关（开发测试用）
+ * - index.ts（当前文件）：支付业务逻辑，只依赖接口，不关心具体是哪个渠道
+ *
+ * 【支付流程】
+ * 1. createPayment()：创建 Payment 记录 → 调用渠道创建支付 → 返回支付页面地址
+ * 2. 用户在支付渠道的页面完成支付
+ * 3. 支付渠道回调 /api/payment/webhook/:provider
+ *    → processPaymentEvent() → applyPaymentResult() 更新支付记录和订单状态
+ * 4. 如果回调迟迟没到（丢失、延迟），syncPayment() 主动向渠道查询作为补偿
+ *
+ * 【待退款】
+ * 需要退款的场景（已付款的订单被取消等）先在数据库事务中记下待退款金额（Payment.pendingRefundAmount），
+ * 事务提交后再调用 settlePendingRefund() 向渠道退款；退款失败时待退款金额保留，
+ * 由定时任务 /api/cron/retry-refunds 调用 retryPendingRefunds() 重试，钱不会"忘了退"。
+ * 退款单号在第一次调用渠道之前保存（Payment.pendingRefundNo），重试时沿用，
+ * 渠道超时但其实已经退款成功时，重试也不会再退一次。
+ *
+ * 订单只会根据支付渠道给出的结果（回调或主动查询）变为已付款，
+ * 浏览器的任何请求都不能直接把订单改为已付款。
+ *
+ * 【使用方式】
+ * import { createPayment, syncPayment } from '@/lib/payment'
+ */
+
+import { randomUUID } from 'crypto'
+import { prisma } from '@/lib/prisma'
+import { Prisma, type Order, type Payment } from '@/generated/prisma/client'
+import { applyOrderTransition, OrderActionError } from '@/lib/order'
+import { mockPaymentProvider } from './mock'
+import {
+  PaymentProviderError,
+  type PaymentCallbackEvent,
+  type PaymentProvider,
+  type QueryPaymentResult,
+} from './types'
+
+export * from './types'
+
+/**
+ * 已注册的支付渠道
+ * 接入新渠道时，实现 PaymentProvider 接口并在这里注册即可
+ */
+const providers: Record<string, PaymentProvider> = {
+  [mockPaymentProvider.name]: mockPaymentProvider,
+}
+
+// 默认支付渠道，可通过环境变量 PAYMENT_PROVIDER 切换
+const DEFAULT_PROVIDER = process.env.PAYMENT_PROVIDER || 'mock'
+
+// 调用支付渠道的超时时间：渠道迟迟不响应时不能让用户一直等待
+const PROVIDER_TIMEOUT_MS = 5 * 1000
+
+// 支付完成后，支付渠道把用户带回的结果页
+export const PAYMENT_RESULT_PATH = '/payment/result'
+
+/**
+ * 获取支付渠道
+ * @throws PaymentProviderError 渠道未注册时抛出
+ */
+export function getPaymentProvider(name: string = DEFAULT_PROVIDER): PaymentProvider {
+  const provider = providers[name]
+  if (!provider) {
+    throw new PaymentProviderError(`未知的支付渠道：${name}`)
+  }
+  return provider
+}
+
+/**
+ * 给渠道调用加上超时保护
+ *
+ * Promise.race：多个 Promise 谁先完成就用谁的结果。
+ * 渠道在超时时间内没有响应，就由定时器抛出超时错误。
+ */
+async function withTimeout<T>(promise: Promise<T>, ms: number = PROVIDER_TIMEOUT_MS): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new PaymentProviderError('支付渠道响应超时')), ms)
+  })
+  try {
+    return await Promise.race([promise, timeout])
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
+/**
+ * 生成唯一单号（支付单号、退款单号）
+ * 使用 UUID，不需要数据库序列也能保证唯一
+ */
+function generateNo(prefix: string): string {
+  return `${prefix}${randomUUID().replace(/-/g, '').toUpperCase()}`
+}
+
+/**
+ * 为订单发起一次支付
+ *
+ * 每次调用都会创建一条新的 Payment 记录（一次支付尝试），
+ * 同时关闭该订单之前还未完成的支付尝试。
+ *
+ * @returns 支付记录和支付页面地址
+ */
+export async function createPayment(order: Pick<Order, 'id' | 'orderNo' | 'totalAmount'>) {
+  const provider = getPaymentProvider()
+  const paymentNo = generateNo('PAY')
+
+  // 之前的支付尝试作废（如果之后仍然支付成功，applyPaymentResult 会自动处理）
+  await prisma.payment.updateMany({
+    where: { orderId: order.id, status: 'PENDING' },
+    data: { status: 'CLOSED' },
+  })
+
+  const payment = await prisma.payment.create({
+    data: {
+      paymentNo,
+      orderId: order.id,
+      provider: provider.name,
+      amount: order.totalAmount,
+    },
+  })
+
+  try {
+    const intent = await withTimeout(
+      provider.createIntent({
+        paymentNo,
+        amount: order.totalAmount.toFixed(2),
+        subject: `NextShop 订单 ${order.orderNo}`,
+        returnUrl: `${PAYMENT_RESULT_PATH}?paymentNo=${paymentNo}`,
+      })
+    )
+
+    const updated = await prisma.payment.update({
+      where: { id: payment.id },
+      data: { providerRef: intent.providerRef },
+    })
+
+    return { payment: updated, payUrl: intent.payUrl }
+  } catch (error) {
+    // 渠道下单失败：记录失败原因，方便排查
+    await prisma.payment.update({
+      where: { id: payment.id },
+      data: {
+        status: 'FAILED',
+        failureReason: error instanceof Error ? error.message : '创建支付失败',
+      },
+    })
+    throw error
+  }
+}
+
+/**
+ * 向支付渠道查询结果并同步到本地
+ *
+ * 已经是最终状态的支付记录直接返回，不再查询渠道。
+ * @throws PaymentProviderError 渠道超时或出错时抛出（本地记录保持不变）
+ */
+export async function syncPayment(payment: Payment): Promise<Payment> {
+  if (payment.status !== 'PENDING' || !payment.providerRef) {
+    return payment
+  }
+
+  const provider = getPaymentProvider(payment.provider)
+  const result = await withTimeout(provider.query(payment.providerRef))
+  if (result.status === 'PENDING') {
+    return payment
+  }
+
+  return applyPaymentResult(payment.paymentNo, { ...result, status: result.status })
+}
+
+/**
+ * 把支付渠道返回的结果应用到本地（支付记录 + 订单状态）
+ *
+ * 【需要处理的情况】
+ * - 支付失败 → 支付记录标记为失败，订单保持待付款，用户可以重新支付
+ * - 支付成功，但金额和订单金额不一致 → 标记为失败，需要人工核查
+ * - 支付成功，订单仍是待付款 → 支付记录标记成功 + 订单改为已付款（同一事务）
+ * - 支付成功，但订单已取消或已被另一次支付付清 → 钱已经扣了，自动全额退款
+ *
+ * 【自动退款】
+ * 在同一个事务中把支付记录标记为成功并记下待退款金额，提交后再调用渠道退款。
+ * 退款失败时回调返回 500，支付渠道重试回调；重试时支付记录已经是成功状态，
+ * 但待退款金额还在，所以仍然会再次发起退款（定时任务也会重试）。
+ *
+ * 【重复和乱序】
+ * 同一个结果重复应用（比如重复查询、重复通知）不会产生副作用。
+ * 通知的顺序也不可靠，可能先收到"失败"、后收到"成功"，所以规则是：
+ * - 已成功的支付记录不再变化（钱已经到账，"失败"通知一定是过时的）
+ * - 已失败的支付记录仍可以被"成功"覆盖（以钱是否真的到账为准）
+ */
+export async function applyPaymentResult(
+  paymentNo: string,
+  result: Omit<QueryPaymentResult, 'status'> & { status: 'SUCCEEDED' | 'FAILED' }
+): Promise<Payment> {
+  const payment = await prisma.$transaction(async (tx) => {
+    const { order, ...payment } = await tx.payment.findUniqueOrThrow({
+      where: { paymentNo },
+      include: { order: { select: { totalAmount: true } } },
+    })
+
+    // 已成功，或重复收到失败结果 → 幂等跳过（之前没退成功的待退款金额在事务提交后重试）
+    if (
+      payment.status === 'SUCCEEDED' ||
+      (payment.status === 'FAILED' && result.status === 'FAILED')
+    ) {
+      return payment
+    }
+
+    // 以订单金额为准核对实付金额（Decimal 比较，避免浮点误差）
+    const isAmountMatched = new Prisma.Decimal(result.amount).equals(order.totalAmount)
+    const failureReason =
+      result.status === 'FAILED'
+        ? result.failureReason ?? '支付失败'
+        : !isAmountMatched
+          ? `支付金额 ${result.amount} 与订单金额 ${order.totalAmount.toFixed(2)} 不一致`
+          : null
+
+    // 带状态条件更新，防止并发重复处理
+    const { count } = await tx.payment.updateMany({
+      where: { id: payment.id, status: payment.status },
+      data: failureReason
+        ? { status: 'FAILED', failureReason }
+        : { status: 'SUCCEEDED', paidAt: result.paidAt ?? new Date(), failureReason: null },
+    })
+    const updated = await tx.payment.findUniqueOrThrow({ where: { id: payment.id } })
+
+    if (count === 0 || failureReason) {
+      return updated
+    }
+
+    // 支付成功 → 订单改为已付款
+    try {
+      await applyOrderTransition(tx, payment.orderId, 'PAID', {
+        operator: { type: 'SYSTEM' },
+        note: `支付成功（${payment.provider}：${payment.providerRef ?? payment.paymentNo}）`,
+      })
+      return updated
+    } catch (error) {
+      // 订单已取消或已付款：不能再改为已付款，记下待退款金额，提交后自动退款
+      if (!(error instanceof OrderActionError)) throw error
+      return tx.payment.update({
+        where: { id: payment.id },
+        data: {
+          pendingRefundAmount: updated.amount,
+          refundReason: '订单已取消或已支付，自动退款',
+        },
+      })
+    }
+  })
+
+  if (payment.pendingRefundAmount.greaterThan(0)) {
+    return settlePendingRefund(payment.id)
+  }
+
+  return payment
+}
+
+/**
+ * 处理支付渠道的回调事件（验签通过之后调用）
+ *
+ * 【去重】
+ * 先以 (provider, eventId) 写入一条 PaymentEvent：
+ * - 写入成功 → 新事件，继续处理
+ * - 唯一索引冲突 → 收到过这个事件：已处理完的直接忽略；
+ *   上次处理到一半失败了（processedAt 为空）就再处理一次，
+ *   applyPaymentResult 本身是幂等的，重复处理不会有副作用
+ *
+ * @param provider - 支付渠道
+ * @param event - 验签后解析出的事件
+ * @param rawBody - 原始报文，存档用
+ * @returns duplicate 表示该事件之前已经处理过
+ */
+export async function processPaymentEvent(
+  provider: PaymentProvider,
+  event: PaymentCallbackEvent,
+  rawBody: string
+): Promise<{ duplicate: boolean; payment: Payment | null }> {
+  let record
+  try {
+    record = await prisma.paymentEvent.create({
+      data: {
+        provider: provider.name,
+        eventId: event.eventId,
+        paymentNo: event.paymentNo,
+        payload: rawBody,
+      },
+    })
+  } catch (error) {
+    if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002')) {
+      throw error
+    }
+    record = await prisma.paymentEvent.findUniqueOrThrow({
+      where: { provider_eventId: { provider: provider.name, eventId: event.eventId } },
+    })
+    if (record.processedAt) {
+      return { duplicate: true, payment: null }
+    }
+  }
+
+  // 事件中的渠道和交易流水号必须与我方记录一致，防止用 A 渠道的通知改 B 渠道的支付
+  const payment = await prisma.payment.findUnique({ where: { paymentNo: event.paymentNo } })
+  const isOwnPayment =
+    payment !== null &&
+    payment.provider === provider.name &&
+    (!payment.providerRef || payment.providerRef === event.providerRef)
+
+  const updated = isOwnPayment
+    ? await applyPaymentResult(event.paymentNo, {
+        status: event.status,
+        amount: event.amount,
+        paidAt: event.occurredAt,
+        failureReason: event.failureReason,
+      })
+    : null
+
+  if (!isOwnPayment) {
+    console.warn(`支付回调与支付记录不匹配，已忽略：${provider.name} ${event.eventId}`)
+  }
+
+  await prisma.paymentEvent.update({
+    where: { id: record.id },
+    data: { processedAt: new Date() },
+  })
+
+  return { duplicate: false, payment: updated }
+}
+
+/**
+ * 生成退款单号
+ *
+ * 调用方要在第一次调用 refundPayment() 之前把单号保存下来，重试时传同一个单号：
+ * 渠道超时的时候退款可能已经成功，换一个新单号重试就会退两次。
+ */
+export function generateRefundNo(): string {
+  return generateNo('RF')
+}
+
+/**
+ * 退款（全额或部分）
+ *
+ * @param payment - 支付成功的支付记录
+ * @param amount - 退款金额，不能超过剩余可退金额
+ * @param refundNo - 退款单号（generateRefundNo() 生成并已保存），同一笔退款重试时必须相同
+ * @param reason - 退款原因
+ * @throws PaymentProviderError 渠道退款失败时抛出
+ */
+export async function refundPayment(
+  payment: Payment,
+  amount: string,
+  refundNo: string,
+  reason?: string
+): Promise<Payment> {
+  if (payment.status !== 'SUCCEEDED' || !payment.providerRef) {
+    throw new PaymentProviderError('只能对支付成功的记录退款')
+  }
+
+  // 已经记为待退款的金额要留给 settlePendingRefund，不能再退
+  const refundable = payment.amount.minus(payment.refundedAmount).minus(payment.pendingRefundAmount)
+  if (new Prisma.Decimal(amount).greaterThan(refundable)) {
+    throw new PaymentProviderError(`退款金额超过可退金额 ${refundable.toFixed(2)}`)
+  }
+
+  const provider = getPaymentProvider(payment.provider)
+  const result = await withTimeout(
+    provider.refund({
+      providerRef: payment.providerRef,
+      refundNo,
+      amount,
+      reason,
+    })
+  )
+
+  if (!result.success) {
+    throw new PaymentProviderError(result.failureReason ?? '退款失败')
+  }
+
+  return prisma.payment.update({
+    where: { id: payment.id },
+    data: { refundedAmount: { increment: amount } },
+  })
+}
+
+/**
+ * 退还支付记录的待退款金额
+ *
+ * 【怎么防止重复退款？】
+ * 和售后退款（refundAfterSale）一样，先带条件把待退款金额清零（"认领"，只有一个请求能成功），
+ * 再调用支付渠道退款；退款失败时把金额加回去，等待下次重试。
+ * 这样事务提交后的退款、定时任务的重试同时执行，也只会退一次。
+ *
+ * 退款单号和认领写在同一次更新里，退款失败时保留，下次重试沿用；
+ * 渠道超时但其实已经退款成功的情况，重试时渠道按单号去重，不会再退一次。
+ *
+ * @throws PaymentProviderError 渠道退款失败时抛出（待退款金额已恢复，可重试）
+ */
+export async function settlePendingRefund(paymentId: number): Promise<Payment> {
+  const payment = await prisma.payment.findUniqueOrThrow({ where: { id: paymentId } })
+  const amount = payment.pendingRefundAmount
+  if (!amount.greaterThan(0)) {
+    return payment
+  }
+
+  const refundNo = payment.pendingRefundNo ?? generateRefundNo()
+  const { count } = await prisma.payment.updateMany({
+    where: { id: payment.id, pendingRefundAmount: amount },
+    data: { pendingRefundAmount: 0, pendingRefundNo: refundNo },
+  })
+  if (count === 0) {
+    // 另一个请求正在退款
+    return prisma.payment.findUniqueOrThrow({ where: { id: payment.id } })
+  }
+
+  try {
+    await refundPayment(
+      { ...payment, pendingRefundAmount: new Prisma.Decimal(0) },
+      amount.toFixed(2),
+      refundNo,
+      payment.refundReason ?? undefined
+    )
+  } catch (error) {
+    await prisma.payment.update({
+      where: { id: payment.id },
+      data: { pendingRefundAmount: { increment: amount } },
+    })
+    throw error
+  }
+
+  // 这笔退款已完成，下一笔待退款要用新的单号
+  return prisma.payment.update({
+    where: { id: payment.id },
+    data: { pendingRefundNo: null },
+  })
+}
+
+/**
+ * 退还订单所有支付记录的待退款金额（取消订单的事务提交后调用）
+ *
+ * 退款失败只记录日志，不抛出：订单状态已经变更成功，失败的退款由定时任务重试。
+ */
+export async function settleOrderRefunds(orderId: number): Promise<void> {
+  const payments = await prisma.payment.findMany({
+    where: { orderId, pendingRefundAmount: { gt: 0 } },
+    select: { id: true },
+  })
+
+  for (const payment of payments) {
+    try {
+      await settlePendingRefund(payment.id)
+    } catch (error) {
+      console.error(`支付记录 ${payment.id} 退款失败，等待定时任务重试:`, error)
+    }
+  }
+}
+
+/**
+ * 重试所有待退款（由定时任务 /api/cron/retry-refunds 调用）
+ *
+ * 逐个处理，某一笔退款失败不影响其他支付记录，下次任务再重试。
+ *
+ * @param limit - 单次最多处理的支付记录数
+ * @returns 本次退款成功的支付记录数
+ */
+export async function retryPendingRefunds(limit: number = 100): Promise<number> {
+  const payments = await prisma.payment.findMany({
+    where: { pendingRefundAmount: { gt: 0 } },
+    select: { id: true },
+    orderBy: { updatedAt: 'asc' },
+    take: limit,
+  })
+
+  let refunded = 0
+  for (const payment of payments) {
+    try {
+      await settlePendingRefund(payment.id)
+      refunded++
+    } catch (error) {
+      console.error(`支付记录 ${payment.id} 退款失败，下次重试:`, error)
+    }
+  }
+
+  return refunded
+}
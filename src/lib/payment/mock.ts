@@ -0,0 +1,246 @@
+/**
+ * 本地模拟支付网关（Mock Gateway）
+ * ============================================================
+ *
+ * 【用途】
+ * 开发和测试时不可能每次都真的付钱，也很难让真实支付渠道"按需失败"。
+ * 模拟网关实现了和真实渠道相同的 PaymentProvider 接口，
+ * 并提供一个"收银台"页面（/mock-pay/:ref），可以手动选择：
+ * - 支付成功
+ * - 支付失败
+ * - 网关超时（之后查询该交易会一直超时，用于测试超时处理）
+ * 选择成功或失败后，模拟网关会像真实渠道一样，
+ * 向 /api/payment/webhook/mock 发送一条带签名的回调通知。
+ *
+ * 【数据存在哪里？】
+ * 模拟网关代表的是"第三方支付公司"的系统，它的数据不应该放在我们的业务表里。
+ * 这里简单地保存在内存中（globalThis，开发环境热更新不会丢失），
+ * 服务重启后模拟交易会丢失，这对于本地开发来说足够了。
+ *
+ * 【安全】
+ * 模拟网关只在开发环境或显式设置 PAYMENT_MOCK_ENABLED=true 时可用，
+ * 否则任何人都可以通过收银台页面把订单"支付成功"。
+ * 未启用时回调验签一律失败，不接受任何模拟回调。
+ * 签名密钥没有写死的默认值：未配置 MOCK_PAYMENT_SECRET 时每次启动随机生成，
+ * 源码公开也无法伪造签名（只有同一个服务进程发出的回调能通过验签）。
+ */
+
+import { createHmac, randomBytes, randomUUID, timingSafeEqual } from 'crypto'
+import { Prisma } from '@/generated/prisma/client'
+import { sleep } from '@/lib/utils'
+import {
+  PaymentProviderError,
+  type PaymentCallbackEvent,
+  type PaymentProvider,
+} from './types'
+
+/**
+ * 模拟交易的结果
+ * TIMEOUT 表示网关"卡住了"：查询该交易会超时
+ */
+export type MockOutcome = 'SUCCEEDED' | 'FAILED' | 'TIMEOUT'
+
+export type MockTransaction = {
+  ref: string
+  paymentNo: string
+  amount: string
+  subject: string
+  returnUrl: string
+  status: 'PENDING' | MockOutcome
+  paidAt?: Date
+  refunds: { refundNo: string; amount: string }[]
+}
+
+// 模拟网关在超时模式下的响应延迟，应大于 lib/payment 中的渠道调用超时时间
+const MOCK_TIMEOUT_DELAY_MS = 10 * 1000
+
+export const MOCK_SIGNATURE_HEADER = 'x-mock-signature'
+
+// 回调通知地址，真实渠道一般在商户后台配置
+const MOCK_WEBHOOK_PATH = '/api/payment/webhook/mock'
+
+// 使用 globalThis 保存模拟交易，避免开发环境热更新时丢失（与 lib/prisma.ts 相同的做法）
+const globalForMock = globalThis as unknown as {
+  mockGatewayStore: Map<string, MockTransaction> | undefined
+  mockGatewaySecret: string | undefined
+}
+const store = globalForMock.mockGatewayStore ?? new Map<string, MockTransaction>()
+globalForMock.mockGatewayStore = store
+
+// 回调签名密钥，真实渠道由支付公司分配
+// 未配置时随机生成，同样保存在 globalThis 中：发送回调和验签的路由必须使用同一个密钥
+const MOCK_SECRET =
+  process.env.MOCK_PAYMENT_SECRET || globalForMock.mockGatewaySecret || randomBytes(32).toString('hex')
+globalForMock.mockGatewaySecret = MOCK_SECRET
+
+/**
+ * 模拟网关是否可用
+ */
+export function isMockGatewayEnabled(): boolean {
+  return process.env.NODE_ENV !== 'production' || process.env.PAYMENT_MOCK_ENABLED === 'true'
+}
+
+/**
+ * 对回调内容签名（HMAC-SHA256）
+ *
+ * 【什么是 HMAC 签名？】
+ * 用双方共享的密钥对消息内容计算一个哈希值。
+ * 收到消息的一方用同样的密钥再算一遍，结果一致就说明：
+ * 1. 消息确实来自持有密钥的一方（不是伪造的）
+ * 2. 消息内容没有被篡改
+ */
+export function signMockPayload(rawBody: string): string {
+  return createHmac('sha256', MOCK_SECRET).update(rawBody).digest('hex')
+}
+
+/**
+ * 查询模拟交易（供收银台页面使用）
+ */
+export function getMockTransaction(ref: string): MockTransaction | undefined {
+  return store.get(ref)
+}
+
+/**
+ * 在收银台上完成模拟交易
+ * 只有待支付的交易可以操作，重复操作返回 undefined
+ */
+export function completeMockTransaction(ref: string, outcome: MockOutcome): MockTransaction | undefined {
+  const transaction = store.get(ref)
+  if (!transaction || transaction.status !== 'PENDING') {
+    return undefined
+  }
+
+  transaction.status = outcome
+  if (outcome === 'SUCCEEDED') {
+    transaction.paidAt = new Date()
+  }
+  return transaction
+}
+
+/**
+ * 向我方发送支付结果回调（模拟支付渠道的异步通知）
+ *
+ * @param transaction - 已完成的模拟交易（超时模式不发送回调）
+ * @param origin - 我方站点地址，如 http://localhost:3000
+ * @throws PaymentProviderError 我方没有返回 2xx 时抛出
+ */
+export async function sendMockCallback(transaction: MockTransaction, origin: string) {
+  if (transaction.status !== 'SUCCEEDED' && transaction.status !== 'FAILED') {
+    return
+  }
+
+  const event: PaymentCallbackEvent = {
+    eventId: `EVT${randomUUID().replace(/-/g, '')}`,
+    paymentNo: transaction.paymentNo,
+    providerRef: transaction.ref,
+    status: transaction.status,
+    amount: transaction.amount,
+    occurredAt: transaction.paidAt ?? new Date(),
+    failureReason: transaction.status === 'FAILED' ? '用户在模拟收银台选择了支付失败' : undefined,
+  }
+  const rawBody = JSON.stringify(event)
+
+  const res = await fetch(new URL(MOCK_WEBHOOK_PATH, origin), {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      [MOCK_SIGNATURE_HEADER]: signMockPayload(rawBody),
+    },
+    body: rawBody,
+  })
+
+  if (!res.ok) {
+    throw new PaymentProviderError(`回调通知失败：HTTP ${res.status}`)
+  }
+}
+
+/**
+ * 模拟支付渠道
+ */
+export const mockPaymentProvider: PaymentProvider = {
+  name: 'mock',
+
+  async createIntent(input) {
+    if (!isMockGatewayEnabled()) {
+      throw new PaymentProviderError('模拟支付网关未启用')
+    }
+
+    const ref = `MOCK${randomUUID().replace(/-/g, '')}`
+    store.set(ref, {
+      ref,
+      paymentNo: input.paymentNo,
+      amount: input.amount,
+      subject: input.subject,
+      returnUrl: input.returnUrl,
+      status: 'PENDING',
+      refunds: [],
+    })
+
+    return { providerRef: ref, payUrl: `/mock-pay/${ref}` }
+  },
+
+  async query(providerRef) {
+    const transaction = store.get(providerRef)
+    if (!transaction) {
+      throw new PaymentProviderError('模拟交易不存在（服务重启后模拟交易会丢失）')
+    }
+
+    // 超时模式：故意让请求卡住，调用方应该有超时保护
+    if (transaction.status === 'TIMEOUT') {
+      await sleep(MOCK_TIMEOUT_DELAY_MS)
+      throw new PaymentProviderError('模拟网关超时')
+    }
+
+    if (transaction.status === 'FAILED') {
+      return { status: 'FAILED', amount: transaction.amount, failureReason: '用户在模拟收银台选择了支付失败' }
+    }
+
+    return {
+      status: transaction.status,
+      amount: transaction.amount,
+      paidAt: transaction.paidAt,
+    }
+  },
+
+  async refund(input) {
+    const transaction = store.get(input.providerRef)
+    if (!transaction || transaction.status !== 'SUCCEEDED') {
+      return { success: false, failureReason: '交易不存在或未支付成功' }
+    }
+
+    // 同一个退款单号重复提交，直接返回成功（渠道侧的幂等）
+    if (transaction.refunds.some((r) => r.refundNo === input.refundNo)) {
+      return { success: true, refundRef: input.refundNo }
+    }
+
+    // 累计退款金额不能超过支付金额
+    const refunded = transaction.refunds.reduce(
+      (sum, r) => sum.plus(r.amount),
+      new Prisma.Decimal(0)
+    )
+    if (refunded.plus(input.amount).greaterThan(transaction.amount)) {
+      return { success: false, failureReason: '退款金额超过可退金额' }
+    }
+
+    transaction.refunds.push({ refundNo: input.refundNo, amount: input.amount })
+    return { success: true, refundRef: input.refundNo }
+  },
+
+  async verifyCallback(headers, rawBody) {
+    // 模拟网关未启用（生产环境）时不接受任何回调，否则可以伪造"支付成功"
+    if (!isMockGatewayEnabled()) return null
+
+    const signature = headers.get(MOCK_SIGNATURE_HEADER)
+    if (!signature) return null
+
+    // timingSafeEqual：按固定时间比较，防止通过响应时间差逐位猜出签名（时序攻击）
+    const expected = Buffer.from(signMockPayload(rawBody))
+    const actual = Buffer.from(signature)
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+      return null
+    }
+
+    const payload = JSON.parse(rawBody) as Omit<PaymentCallbackEvent, 'occurredAt'> & { occurredAt: string }
+    return { ...payload, occurredAt: new Date(payload.occurredAt) }
+  },
+}
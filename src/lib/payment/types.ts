@@ -0,0 +1,111 @@
+/**
+ * 支付渠道抽象
+ * ============================================================
+ *
+ * 【为什么要定义一个接口？】
+ * 真实项目可能同时对接支付宝、微信支付、Stripe……
+ * 每家的 SDK 用法都不一样，但业务需要的能力是相同的：
+ * 1. 创建支付（拿到支付链接/二维码）
+ * 2. 查询支付结果
+ * 3. 退款
+ * 4. 验证支付渠道的回调通知
+ *
+ * 业务代码只依赖 PaymentProvider 这个"形状"，
+ * 新增一个支付渠道只需要实现这几个方法，不用改动订单和支付的业务逻辑。
+ * 这就是"面向接口编程"（依赖倒置原则）。
+ *
+ * 【金额为什么用 string？】
+ * 金额来自数据库的 Decimal 字段，用字符串传递可以避免浮点数精度问题，
+ * 各渠道的 SDK 也通常要求字符串或"分"为单位的整数。
+ */
+
+/**
+ * 支付渠道返回的交易状态
+ */
+export type ProviderPaymentStatus = 'PENDING' | 'SUCCEEDED' | 'FAILED'
+
+/**
+ * 创建支付的参数
+ */
+export type CreateIntentInput = {
+  paymentNo: string // 我方支付单号
+  amount: string    // 支付金额，如 "199.00"
+  subject: string   // 支付标题，显示在支付页面上
+  returnUrl: string // 用户在支付页面完成操作后跳回的地址
+}
+
+/**
+ * 创建支付的结果
+ */
+export type CreateIntentResult = {
+  providerRef: string // 支付渠道的交易流水号
+  payUrl: string      // 支付页面地址，前端跳转过去完成支付
+}
+
+/**
+ * 查询支付的结果
+ */
+export type QueryPaymentResult = {
+  status: ProviderPaymentStatus
+  amount: string        // 实际支付金额
+  paidAt?: Date         // 支付成功时间
+  failureReason?: string
+}
+
+/**
+ * 退款参数
+ */
+export type RefundInput = {
+  providerRef: string
+  refundNo: string // 我方退款单号，重复提交同一个退款单号不会重复退款
+  amount: string
+  reason?: string
+}
+
+/**
+ * 退款结果
+ */
+export type RefundResult = {
+  success: boolean
+  refundRef?: string // 支付渠道的退款流水号
+  failureReason?: string
+}
+
+/**
+ * 支付渠道的回调通知（验签通过后解析出的内容）
+ */
+export type PaymentCallbackEvent = {
+  eventId: string     // 通知 ID（同一事件可能重复通知，用于去重）
+  paymentNo: string
+  providerRef: string
+  status: Exclude<ProviderPaymentStatus, 'PENDING'>
+  amount: string
+  occurredAt: Date
+  failureReason?: string
+}
+
+/**
+ * 支付渠道接口
+ * 每个支付渠道（mock、alipay、wechat……）都实现这个接口
+ */
+export type PaymentProvider = {
+  name: string
+  createIntent: (input: CreateIntentInput) => Promise<CreateIntentResult>
+  query: (providerRef: string) => Promise<QueryPaymentResult>
+  refund: (input: RefundInput) => Promise<RefundResult>
+  /**
+   * 验证回调通知的签名
+   * @returns 验签通过返回解析后的事件；签名不正确返回 null
+   */
+  verifyCallback: (headers: Headers, rawBody: string) => Promise<PaymentCallbackEvent | null>
+}
+
+/**
+ * 支付渠道错误（网络错误、超时、渠道返回异常等）
+ */
+export class PaymentProviderError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'PaymentProviderError'
+  }
+}
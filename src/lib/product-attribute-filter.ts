@@ -0,0 +1,113 @@
+/**
+ * 商品属性定义（前后端共用）
+ * ============================================================
+ *
+ * 属性定义在分类上（如 电子产品：品牌；手机：存储容量、屏幕尺寸），
+ * 对该分类及其子孙分类的商品生效。商品填写属性值后：
+ * - 商品详情页显示规格参数表
+ * - 商品列表页选择分类后，可以按属性值筛选，每个值后面显示商品数
+ *
+ * 【筛选条件在 URL 中的格式】
+ * 和 keyword、categoryId 一样是普通的查询参数，参数名是 attr_属性ID，
+ * 同一属性选择多个值时重复出现（多个值之间是"或"，不同属性之间是"且"）：
+ *   /products?categoryId=5&attr_1=Apple&attr_1=华为&attr_3=256
+ *
+ * 保存属性值、统计筛选项在服务端（lib/product-attribute.ts）。
+ */
+
+export type AttributeTypeValue = 'TEXT' | 'NUMBER' | 'ENUM'
+
+/**
+ * 属性类型的中文名称
+ */
+export const ATTRIBUTE_TYPE_LABELS: Record<AttributeTypeValue, string> = {
+  TEXT: '文本',
+  NUMBER: '数字',
+  ENUM: '枚举（从可选值中选择）',
+}
+
+/**
+ * 展示用的属性定义（可选值已从 JSON 字符串解析成数组）
+ */
+export type CategoryAttributeView = {
+  id: number
+  categoryId: number
+  name: string
+  type: AttributeTypeValue
+  unit: string | null
+  options: string[] // 枚举类型的可选值，其他类型为空数组
+  isFilterable: boolean
+  sortOrder: number
+}
+
+/**
+ * 属性筛选条件：属性 ID → 选中的值
+ */
+export type AttributeFilters = Record<number, string[]>
+
+const ATTRIBUTE_PARAM_PATTERN = /^attr_(\d+)$/
+
+/**
+ * 属性值加上单位显示，如 "256" + "GB" → "256GB"
+ */
+export function formatAttributeValue(value: string, unit: string | null): string {
+  return unit ? `${value}${unit}` : value
+}
+
+/**
+ * 从 URL 查询参数中解析属性筛选条件
+ *
+ * @example
+ * parseAttributeFilters({ categoryId: '5', attr_1: ['Apple', '华为'], attr_3: '256' })
+ * // { 1: ['Apple', '华为'], 3: ['256'] }
+ */
+export function parseAttributeFilters(
+  params: Record<string, string | string[] | undefined>
+): AttributeFilters {
+  const filters: AttributeFilters = {}
+  for (const [key, raw] of Object.entries(params)) {
+    const match = ATTRIBUTE_PARAM_PATTERN.exec(key)
+    if (!match || raw === undefined) continue
+    const values = [...new Set((Array.isArray(raw) ? raw : [raw]).filter(Boolean))]
+    if (values.length > 0) {
+      filters[Number(match[1])] = values
+    }
+  }
+  return filters
+}
+
+/**
+ * 属性筛选条件转成查询参数字符串（以 & 开头，方便拼接在其他参数后面）
+ *
+ * @example
+ * toAttributeQuery({ 1: ['Apple', '华为'] }) // "&attr_1=Apple&attr_1=%E5%8D%8E%E4%B8%BA"
+ */
+export function toAttributeQuery(filters: AttributeFilters): string {
+  return Object.entries(filters)
+    .flatMap(([id, values]) =>
+      values.map((value) => `&attr_${id}=${encodeURIComponent(value)}`)
+    )
+    .join('')
+}
+
+/**
+ * 选中 / 取消选中某个属性值，返回新的筛选条件（不修改原对象）
+ */
+export function toggleAttributeFilter(
+  filters: AttributeFilters,
+  attributeId: number,
+  value: string
+): AttributeFilters {
+  const current = filters[attributeId] ?? []
+  const values = current.includes(value)
+    ? current.filter((v) => v !== value)
+    : [...current, value]
+
+  const next = { ...filters }
+  if (values.length > 0) {
+    next[attributeId] = values
+  } else {
+    delete next[attributeId]
+  }
+  return next
+}
@@ -0,0 +1,361 @@
+/**
+ * 商品属性（服务端）
+ * ============================================================
+ *
+ * 【数据结构】
+ * - CategoryAttribute：属性定义（名称、类型、单位、可选值），定义在分类上，
+ *   对该分类及其所有子孙分类的商品生效（子分类"继承"上级分类的属性）
+ * - ProductAttributeValue：商品的属性值，每个商品的每个属性一个值
+ *
+ * 【流程】
+ * 1. 管理员在分类管理页面为分类定义属性（createCategoryAttribute 等）
+ * 2. 商品表单按所选分类显示适用的属性，随商品一起保存属性值（saveProductAttributes）
+ * 3. 商品详情页显示规格参数表（getProductSpecs）
+ * 4. 商品列表页选择分类后显示属性筛选项和商品数（getAttributeFacets）
+ *
+ * 【筛选项的商品数怎么算？】
+ * 某个属性的各个值的商品数，按"除这个属性以外的其他筛选条件"统计：
+ * 已经选了 品牌=Apple 时，品牌下的 华为 仍然显示满足其他条件的华为商品数（选上后是"或"的关系），
+ * 存储容量下的各个值则只统计 Apple 的商品。这是电商筛选的常见做法。
+ *
+ * 【使用方式】
+ * import { saveProductAttributes, getAttributeFacets } from '@/lib/product-attribute'
+ */
+
+import { prisma } from '@/lib/prisma'
+import { Prisma, type CategoryAttribute } from '@/generated/prisma/client'
+import { ancestorsOf } from '@/lib/category-tree'
+import type {
+  AttributeFilters,
+  AttributeTypeValue,
+  CategoryAttributeView,
+} from '@/lib/product-attribute-filter'
+import type {
+  CategoryAttributeInput,
+  ProductAttributesInput,
+} from '@/lib/validators'
+
+/**
+ * 商品属性业务错误（属性名重复、属性值不符合类型、可选值仍在使用等，API 路由据此返回 400）
+ */
+export class ProductAttributeError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ProductAttributeError'
+  }
+}
+
+// 数字类型的属性值：整数或小数，可以是负数
+const NUMBER_PATTERN = /^-?\d+(\.\d+)?$/
+
+/**
+ * 属性定义转成展示用的结构（可选值是 JSON 字符串）
+ */
+export function toAttributeView(attribute: CategoryAttribute): CategoryAttributeView {
+  return {
+    id: attribute.id,
+    categoryId: attribute.categoryId,
+    name: attribute.name,
+    type: attribute.type as AttributeTypeValue,
+    unit: attribute.unit,
+    options: attribute.options ? JSON.parse(attribute.options) : [],
+    isFilterable: attribute.isFilterable,
+    sortOrder: attribute.sortOrder,
+  }
+}
+
+/**
+ * 查询多个分类上定义的属性，按分类在 categoryIds 中的顺序、再按 sortOrder 排序
+ *
+ * categoryIds 传入从顶级分类到当前分类的路径时，上级分类的属性（如 品牌）排在前面。
+ */
+async function findAttributes(
+  db: Prisma.TransactionClient,
+  categoryIds: number[]
+): Promise<CategoryAttribute[]> {
+  const attributes = await db.categoryAttribute.findMany({
+    where: { categoryId: { in: categoryIds } },
+    orderBy: [{ sortOrder: 'asc' }, { id: 'asc' }],
+  })
+  // sort 是稳定排序，同一分类内保持数据库返回的顺序
+  return attributes.sort(
+    (a, b) => categoryIds.indexOf(a.categoryId) - categoryIds.indexOf(b.categoryId)
+  )
+}
+
+/**
+ * 分类适用的全部属性：从顶级分类到该分类，每一级定义的属性
+ */
+export async function getCategoryAttributes(
+  categoryId: number,
+  db: Prisma.TransactionClient = prisma
+): Promise<CategoryAttributeView[]> {
+  const categories = await db.category.findMany({
+    select: { id: true, parentId: true, sortOrder: true },
+  })
+  const path = ancestorsOf(categories, categoryId).map((category) => category.id)
+  return (await findAttributes(db, path)).map(toAttributeView)
+}
+
+/**
+ * 全部分类的属性定义（后台商品表单按所选分类筛选）
+ */
+export async function getAllCategoryAttributes(): Promise<CategoryAttributeView[]> {
+  const attributes = await prisma.categoryAttribute.findMany({
+    orderBy: [{ sortOrder: 'asc' }, { id: 'asc' }],
+  })
+  return attributes.map(toAttributeView)
+}
+
+/**
+ * 属性定义的表单数据转成数据库字段
+ *
+ * 只有数字类型有单位，只有枚举类型有可选值。
+ */
+function toAttributeData(input: CategoryAttributeInput) {
+  return {
+    name: input.name,
+    type: input.type,
+    unit: input.type === 'NUMBER' ? input.unit || null : null,
+    options: input.type === 'ENUM' ? JSON.stringify(input.options) : null,
+    isFilterable: input.isFilterable ?? true,
+    sortOrder: input.sortOrder ?? 0,
+  }
+}
+
+/**
+ * 为分类定义属性（管理员）
+ *
+ * @throws ProductAttributeError 分类不存在、同一分类下属性名重复时抛出
+ */
+export async function createCategoryAttribute(categoryId: number, input: CategoryAttributeInput) {
+  const category = await prisma.category.findUnique({ where: { id: categoryId } })
+  if (!category) {
+    throw new ProductAttributeError('分类不存在')
+  }
+
+  const existing = await prisma.categoryAttribute.findUnique({
+    where: { categoryId_name: { categoryId, name: input.name } },
+  })
+  if (existing) {
+    throw new ProductAttributeError(`属性"${input.name}"已存在`)
+  }
+
+  const attribute = await prisma.categoryAttribute.create({
+    data: { ...toAttributeData(input), categoryId },
+  })
+  return toAttributeView(attribute)
+}
+
+/**
+ * 修改属性定义（管理员）
+ *
+ * 已经有商品填写的属性：
+ * - 不能修改类型（已填写的值可能不符合新类型）
+ * - 枚举类型不能删除正在使用的可选值
+ *
+ * @throws ProductAttributeError 属性不存在、属性名重复、类型或可选值不能修改时抛出
+ */
+export async function updateCategoryAttribute(
+  categoryId: number,
+  id: number,
+  input: CategoryAttributeInput
+) {
+  return prisma.$transaction(async (tx) => {
+    const attribute = await tx.categoryAttribute.findFirst({ where: { id, categoryId } })
+    if (!attribute) {
+      throw new ProductAttributeError('属性不存在')
+    }
+
+    const duplicate = await tx.categoryAttribute.findFirst({
+      where: { categoryId, name: input.name, id: { not: id } },
+    })
+    if (duplicate) {
+      throw new ProductAttributeError(`属性"${input.name}"已存在`)
+    }
+
+    // 按值统计正在使用的商品数
+    const used = await tx.productAttributeValue.groupBy({
+      by: ['value'],
+      where: { attributeId: id },
+      _count: { _all: true },
+    })
+    if (used.length > 0 && input.type !== attribute.type) {
+      throw new ProductAttributeError('已有商品填写了该属性，不能修改类型')
+    }
+    if (input.type === 'ENUM') {
+      const removed = used.find((group) => !input.options?.includes(group.value))
+      if (removed) {
+        throw new ProductAttributeError(
+          `可选值"${removed.value}"已被 ${removed._count._all} 个商品使用，不能删除`
+        )
+      }
+    }
+
+    const updated = await tx.categoryAttribute.update({
+      where: { id },
+      data: toAttributeData(input),
+    })
+    return toAttributeView(updated)
+  })
+}
+
+/**
+ * 删除属性定义（管理员），商品的该属性值一并删除
+ *
+ * @throws ProductAttributeError 属性不存在时抛出
+ */
+export async function deleteCategoryAttribute(categoryId: number, id: number) {
+  const { count } = await prisma.categoryAttribute.deleteMany({ where: { id, categoryId } })
+  if (count === 0) {
+    throw new ProductAttributeError('属性不存在')
+  }
+}
+
+/**
+ * 保存商品属性值（管理员，在事务中和商品信息一起保存）
+ *
+ * 按提交的值整体替换：
+ * - 值为空的属性不保存（没有填写）
+ * - 只能填写商品所在分类适用的属性（分类及其上级分类定义的属性）
+ * - 数字类型必须是数字（保存规范化后的值，如 "256.0" → "256"），枚举类型必须是可选值之一
+ *
+ * 必须在商品的分类更新之后调用，按新的分类校验。
+ *
+ * @throws ProductAttributeError 属性不适用于该分类、值不符合属性类型时抛出
+ */
+export async function saveProductAttributes(
+  tx: Prisma.TransactionClient,
+  productId: number,
+  input: ProductAttributesInput
+) {
+  const product = await tx.product.findUniqueOrThrow({ where: { id: productId } })
+  const attributes = await getCategoryAttributes(product.categoryId, tx)
+
+  const data = input
+    .filter((item) => item.value !== '')
+    .map((item) => {
+      const attribute = attributes.find((a) => a.id === item.attributeId)
+      if (!attribute) {
+        throw new ProductAttributeError('商品属性不属于该商品的分类')
+      }
+
+      let value = item.value
+      if (attribute.type === 'NUMBER') {
+        if (!NUMBER_PATTERN.test(value)) {
+          throw new ProductAttributeError(`"${attribute.name}"必须是数字`)
+        }
+        value = String(Number(value))
+      } else if (attribute.type === 'ENUM' && !attribute.options.includes(value)) {
+        throw new ProductAttributeError(`"${attribute.name}"的值不在可选值中`)
+      }
+      return { productId, attributeId: attribute.id, value }
+    })
+
+  if (new Set(data.map((item) => item.attributeId)).size !== data.length) {
+    throw new ProductAttributeError('同一属性只能填写一个值')
+  }
+
+  await tx.productAttributeValue.deleteMany({ where: { productId } })
+  await tx.productAttributeValue.createMany({ data })
+}
+
+/**
+ * 商品的规格参数表（商品详情页）
+ *
+ * 按分类路径上各级分类的属性顺序排列，没有填写的属性不显示。
+ *
+ * @param categoryIds - 从顶级分类到商品所在分类的路径
+ */
+export async function getProductSpecs(productId: number, categoryIds: number[]) {
+  const [attributes, values] = await Promise.all([
+    findAttributes(prisma, categoryIds),
+    prisma.productAttributeValue.findMany({ where: { productId } }),
+  ])
+
+  return attributes.flatMap((attribute) => {
+    const value = values.find((v) => v.attributeId === attribute.id)
+    return value
+      ? [{ id: attribute.id, name: attribute.name, value: value.value, unit: attribute.unit }]
+      : []
+  })
+}
+
+/**
+ * 属性筛选条件转成商品查询条件（每个属性一个条件，组合时用 AND）
+ */
+export function attributeFiltersWhere(filters: AttributeFilters): Prisma.ProductWhereInput[] {
+  return Object.entries(filters).map(([attributeId, values]) => ({
+    attributeValues: { some: { attributeId: Number(attributeId), value: { in: values } } },
+  }))
+}
+
+/**
+ * 属性筛选项：属性和它的各个值（带商品数）
+ */
+export type AttributeFacet = {
+  attribute: CategoryAttributeView
+  values: { value: string; count: number; selected: boolean }[]
+}
+
+/**
+ * 统计商品列表页的属性筛选项
+ *
+ * 每个可筛选的属性一次分组查询（按值统计商品数），
+ * 统计条件是 baseWhere（关键词、分类等）+ 除该属性以外的其他属性筛选条件。
+ * 没有任何商品填写、也没有被选中的属性不显示。
+ *
+ * @param categoryIds - 属性来源的分类：当前分类的路径（上级分类的属性）和子孙分类
+ * @param baseWhere - 除属性筛选以外的商品查询条件
+ * @param filters - 当前的属性筛选条件
+ */
+export async function getAttributeFacets(
+  categoryIds: number[],
+  baseWhere: Prisma.ProductWhereInput,
+  filters: AttributeFilters
+): Promise<AttributeFacet[]> {
+  const attributes = (await findAttributes(prisma, categoryIds))
+    .filter((attribute) => attribute.isFilterable)
+    .map(toAttributeView)
+
+  const facets = await Promise.all(
+    attributes.map(async (attribute): Promise<AttributeFacet> => {
+      const { [attribute.id]: selected = [], ...otherFilters } = filters
+      const groups = await prisma.productAttributeValue.groupBy({
+        by: ['value'],
+        where: {
+          attributeId: attribute.id,
+          product: { AND: [baseWhere, ...attributeFiltersWhere(otherFilters)] },
+        },
+        _count: { _all: true },
+      })
+
+      const counts = new Map(groups.map((group) => [group.value, group._count._all]))
+      // 选中的值即使没有商品也要显示，用户才能取消选择
+      for (const value of selected) {
+        if (!counts.has(value)) counts.set(value, 0)
+      }
+
+      const values = [...counts.entries()].map(([value, count]) => ({
+        value,
+        count,
+        selected: selected.includes(value),
+      }))
+      // 枚举按可选值的顺序，数字按大小，文本按商品数从多到少
+      if (attribute.type === 'ENUM') {
+        const order = (value: string) => {
+          const index = attribute.options.indexOf(value)
+          return index === -1 ? attribute.options.length : index
+        }
+        values.sort((a, b) => order(a.value) - order(b.value))
+      } else if (attribute.type === 'NUMBER') {
+        values.sort((a, b) => Number(a.value) - Number(b.value))
+      } else {
+        values.sort((a, b) => b.count - a.count || a.value.localeCompare(b.value))
+      }
+      return { attribute, values }
+    })
+  )
+
+  return facets.filter((facet) => facet.values.length > 0)
+}
@@ -0,0 +1,42 @@
+/**
+ * 商品图片相关定义（前后端共用）
+ * ============================================================
+ *
+ * 商品图片的展示结构、上传限制和封面的取法。
+ * 图片的上传、缩略图生成和保存在服务端（lib/product-image.ts）。
+ */
+
+/**
+ * 商品图片（按 sortOrder 排好序，第一张是封面）
+ */
+export type ProductImageView = {
+  url: string                  // 原图地址
+  thumbnailUrl: string | null  // 缩略图地址（外部图片没有缩略图）
+  alt: string                  // 替代文字
+}
+
+// 没有图片时显示的占位图
+export const PLACEHOLDER_IMAGE = '/placeholder.jpg'
+
+// 每个商品最多的图片数量
+export const MAX_PRODUCT_IMAGES = 10
+
+// 上传图片的大小上限（5 MB）
+export const MAX_PRODUCT_IMAGE_SIZE = 5 * 1024 * 1024
+
+// 允许上传的图片格式
+export const PRODUCT_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif']
+
+/**
+ * 封面图地址：第一张图片的缩略图，没有缩略图时用原图，没有图片时用占位图
+ *
+ * @param original - 为 true 时返回原图（商品详情页的大图）
+ */
+export function coverImageOf(
+  images: Pick<ProductImageView, 'url' | 'thumbnailUrl'>[],
+  original = false
+): string {
+  const cover = images[0]
+  if (!cover) return PLACEHOLDER_IMAGE
+  return (original ? cover.url : cover.thumbnailUrl) || cover.url
+}
@@ -0,0 +1,146 @@
+/**
+ * 商品图片（服务端）
+ * ============================================================
+ *
+ * 【上传流程】
+ * 1. 后台商品表单选择图片 → POST /api/admin/uploads（multipart/form-data）
+ * 2. uploadProductImage()：校验格式和大小 → 用 sharp 读取图片（顺便确认确实是图片）
+ *    → 通过存储服务保存原图，并生成正方形缩略图
+ * 3. 表单拿到原图和缩略图地址，填写替代文字、调整顺序后随商品一起提交
+ * 4. saveProductImages()：按提交的顺序整体替换该商品的图片记录
+ *
+ * 上传和保存商品是两步：新建商品时还没有商品 ID，
+ * 所以上传接口只负责存文件，图片和商品的关联在保存商品时建立。
+ *
+ * 【为什么要生成缩略图？】
+ * 原图可能有几 MB，商品列表、购物车里只显示 100~300 像素的小图，
+ * 直接加载原图既慢又浪费流量。
+ *
+ * 【使用方式】
+ * import { uploadProductImage, saveProductImages } from '@/lib/product-image'
+ */
+
+import { randomUUID } from 'crypto'
+import sharp from 'sharp'
+import { Prisma } from '@/generated/prisma/client'
+import { getStorage } from '@/lib/storage'
+import {
+  MAX_PRODUCT_IMAGE_SIZE,
+  PRODUCT_IMAGE_TYPES,
+  type ProductImageView,
+} from '@/lib/product-image-url'
+import type { ProductInput } from '@/lib/validators'
+
+// 缩略图边长（像素），列表页的商品卡片在高分屏上也足够清晰
+const THUMBNAIL_SIZE = 400
+
+// 原图的最大边长，超过时等比缩小（手机拍的照片可能有 4000 多像素）
+const MAX_IMAGE_DIMENSION = 1600
+
+/**
+ * 商品图片业务错误（格式不支持、文件太大等，API 路由据此返回 400）
+ */
+export class ProductImageError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ProductImageError'
+  }
+}
+
+/**
+ * 查询商品时带上的图片（按顺序，只取展示需要的字段）
+ *
+ * @example
+ * prisma.product.findMany({ include: { images: productImagesQuery } })
+ */
+export const productImagesQuery = {
+  select: { url: true, thumbnailUrl: true, alt: true },
+  orderBy: { sortOrder: 'asc' },
+} satisfies Prisma.Product$imagesArgs
+
+/**
+ * 只需要封面图时（商品卡片、购物车、订单列表）只取第一张
+ */
+export const coverImageQuery = {
+  ...productImagesQuery,
+  take: 1,
+} satisfies Prisma.Product$imagesArgs
+
+/**
+ * 上传商品图片：保存原图并生成缩略图
+ *
+ * @throws ProductImageError 格式不支持、文件太大、不是有效的图片时抛出
+ */
+export async function uploadProductImage(
+  file: File
+): Promise<Pick<ProductImageView, 'url' | 'thumbnailUrl'>> {
+  if (!PRODUCT_IMAGE_TYPES.includes(file.type)) {
+    throw new ProductImageError('只支持 JPG、PNG、WebP、GIF 格式的图片')
+  }
+  if (file.size > MAX_PRODUCT_IMAGE_SIZE) {
+    throw new ProductImageError(`图片不能超过 ${MAX_PRODUCT_IMAGE_SIZE / 1024 / 1024}MB`)
+  }
+
+  const input = Buffer.from(await file.arrayBuffer())
+
+  // 按实际内容处理图片，而不是相信浏览器上报的格式；内容损坏时 sharp 会抛出错误
+  // rotate() 不传参数时按照片的 EXIF 方向信息摆正（手机竖拍的照片）
+  let original: { data: Buffer; format: string }
+  let thumbnail: Buffer
+  try {
+    const { data, info } = await sharp(input)
+      .rotate()
+      .resize(MAX_IMAGE_DIMENSION, MAX_IMAGE_DIMENSION, { fit: 'inside', withoutEnlargement: true })
+      .toBuffer({ resolveWithObject: true })
+    original = { data, format: info.format }
+    thumbnail = await sharp(data)
+      .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'cover' })
+      .webp({ quality: 80 })
+      .toBuffer()
+  } catch {
+    throw new ProductImageError('无法识别的图片文件')
+  }
+
+  // 按年月分目录，文件名用 UUID，不使用用户上传的文件名（可能重名或包含特殊字符）
+  const now = new Date()
+  const dir = `products/${now.getFullYear()}/${String(now.getMonth() + 1).padStart(2, '0')}`
+  const name = randomUUID()
+  const extension = original.format === 'jpeg' ? 'jpg' : original.format
+
+  const storage = getStorage()
+  const url = await storage.put({
+    key: `${dir}/${name}.${extension}`,
+    body: original.data,
+    contentType: `image/${original.format}`,
+  })
+  const thumbnailUrl = await storage.put({
+    key: `${dir}/${name}-thumb.webp`,
+    body: thumbnail,
+    contentType: 'image/webp',
+  })
+
+  return { url, thumbnailUrl }
+}
+
+/**
+ * 保存商品图片（管理员，在事务中和商品信息一起保存）
+ *
+ * 按提交的顺序整体替换：第一张是封面。
+ * 被移除的图片文件不会立即删除（规格图片可能引用同一个地址），只删除数据库记录。
+ */
+export async function saveProductImages(
+  tx: Prisma.TransactionClient,
+  productId: number,
+  images: ProductInput['images']
+) {
+  await tx.productImage.deleteMany({ where: { productId } })
+  await tx.productImage.createMany({
+    data: images.map((image, index) => ({
+      productId,
+      url: image.url,
+      thumbnailUrl: image.thumbnailUrl || null,
+      alt: image.alt ?? '',
+      sortOrder: index,
+    })),
+  })
+}
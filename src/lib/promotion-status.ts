@@ -0,0 +1,79 @@
+/**
+ * 促销活动相关定义（前后端共用）
+ * ============================================================
+ *
+ * 促销类型的中文名称、活动规则的文字描述，以及促销计算结果（API 返回的结构）。
+ * 和 coupon-status.ts 一样不依赖 Prisma，客户端组件也可以引入；
+ * 促销的计算在服务端（lib/promotion.ts）。
+ */
+
+export type PromotionTypeValue = 'SPEND_AND_SAVE' | 'CATEGORY_DISCOUNT' | 'BUY_X_GET_Y'
+
+/**
+ * 促销类型的中文名称
+ */
+export const PROMOTION_TYPE_LABELS: Record<PromotionTypeValue, string> = {
+  SPEND_AND_SAVE: '满减',
+  CATEGORY_DISCOUNT: '分类折扣',
+  BUY_X_GET_Y: '买赠',
+}
+
+/**
+ * 促销活动计算结果中的一项（金额为字符串）
+ *
+ * 每个进行中的活动都会有一项：applied 表示是否生效，
+ * reason 说明生效的情况或没有生效的原因（如 "还差 20.00 元"）。
+ */
+export type PromotionEvaluationView = {
+  promotionId: number
+  name: string
+  type: PromotionTypeValue
+  applied: boolean
+  discount: string
+  description: string // 活动规则，如 "满300减50"
+  reason: string
+}
+
+/**
+ * 促销计算结果（金额为字符串），购物车和结算页据此展示优惠
+ */
+export type PromotionPricingView = {
+  lines: {
+    productId: number
+    variantId: number | null    // 规格组合（同一商品的不同规格是不同的行）
+    amount: string              // 原价金额（单价 × 数量）
+    discount: string            // 商品级促销的优惠
+    payable: string             // 优惠后的金额
+    promotionId: number | null  // 生效的商品级促销
+  }[]
+  goodsAmount: string       // 商品金额（原价）
+  promotionDiscount: string // 促销优惠合计（商品级 + 订单级）
+  payableAmount: string     // 促销后的商品金额
+  evaluations: PromotionEvaluationView[]
+}
+
+/**
+ * 生成活动规则的文字描述
+ *
+ * @example
+ * describePromotion({ type: 'SPEND_AND_SAVE', threshold: '300', amount: '50' })  // '满300减50'
+ * describePromotion({ type: 'CATEGORY_DISCOUNT', percentOff: '20' })             // '指定分类8折'
+ * describePromotion({ type: 'BUY_X_GET_Y', buyQuantity: 2, freeQuantity: 1 })   // '买2送1'
+ */
+export function describePromotion(promotion: {
+  type: PromotionTypeValue
+  threshold?: string | null
+  amount?: string | null
+  percentOff?: string | null
+  buyQuantity?: number | null
+  freeQuantity?: number | null
+}): string {
+  switch (promotion.type) {
+    case 'SPEND_AND_SAVE':
+      return `满${Number(promotion.threshold)}减${Number(promotion.amount)}`
+    case 'CATEGORY_DISCOUNT':
+      return `指定分类${(100 - Number(promotion.percentOff)) / 10}折`
+    case 'BUY_X_GET_Y':
+      return `买${promotion.buyQuantity}送${promotion.freeQuantity}`
+  }
+}
@@ -0,0 +1,355 @@
+/**
+ * 促销活动计算引擎（服务端）
+ * ============================================================
+ *
+ * 促销活动不需要领取，满足条件自动生效。购物车（GET /api/cart）、
+ * 结算页金额预览和下单（lib/checkout.ts）都调用这里，保证三处看到的优惠一致。
+ *
+ * 【计算顺序】
+ * 1. 商品级促销（分类折扣、买 X 送 Y）：逐个商品计算，
+ *    同一商品命中多个活动时只取优惠最大的一个（活动之间不叠加）；
+ *    分类折扣也适用于所选分类的子孙分类
+ * 2. 订单级促销（满减）：按商品级优惠之后的金额判断门槛，
+ *    多个满减活动只取优惠最大的一个
+ * 3. 优惠券在促销之后使用（lib/coupon.ts），门槛按促销后的金额判断
+ *
+ * 【为什么要返回"没有生效的原因"？】
+ * 用户看到"满300减50"却没有减钱时，需要知道是"还差 20 元"还是"商品不参与"，
+ * 所以每个进行中的活动都会返回一项计算结果（evaluations），生效或不生效都有说明。
+ *
+ * 【使用方式】
+ * import { calculatePromotions, serializePricing } from '@/lib/promotion'
+ */
+
+import { prisma } from '@/lib/prisma'
+import { Prisma, type Product, type Promotion } from '@/generated/prisma/client'
+import { percentOfMoney } from '@/lib/money'
+import { describePromotion, type PromotionPricingView } from '@/lib/promotion-status'
+import { expandCategoryIds, type CategoryLike } from '@/lib/category-tree'
+import type { PromotionInput } from '@/lib/validators'
+
+type PromotionWithScope = Promotion & {
+  categories: { id: number }[]
+  products: { id: number }[]
+}
+
+/**
+ * 参与促销计算的商品
+ */
+export type PricingLine = {
+  productId: number
+  variantId?: number | null
+  quantity: number
+  product: Pick<Product, 'id' | 'categoryId' | 'price'>
+}
+
+/**
+ * 单个活动的计算结果
+ */
+export type PromotionEvaluation = {
+  promotionId: number
+  name: string
+  type: Promotion['type']
+  applied: boolean
+  discount: Prisma.Decimal
+  description: string
+  reason: string
+}
+
+/**
+ * 单个商品的促销结果
+ */
+export type LinePricing = {
+  productId: number
+  variantId: number | null
+  amount: Prisma.Decimal      // 原价金额
+  discount: Prisma.Decimal    // 商品级促销的优惠
+  payable: Prisma.Decimal     // 优惠后的金额
+  promotionId: number | null  // 生效的商品级促销
+}
+
+export type PricingResult = {
+  lines: LinePricing[]
+  goodsAmount: Prisma.Decimal
+  lineDiscount: Prisma.Decimal       // 商品级促销优惠合计
+  orderDiscount: Prisma.Decimal      // 订单级促销（满减）优惠
+  promotionDiscount: Prisma.Decimal  // 促销优惠合计
+  payableAmount: Prisma.Decimal      // 促销后的商品金额
+  evaluations: PromotionEvaluation[]
+}
+
+const ZERO = new Prisma.Decimal(0)
+
+/**
+ * 活动当前是否进行中
+ */
+export function isPromotionAvailable(
+  promotion: Pick<Promotion, 'isActive' | 'startsAt' | 'endsAt'>,
+  now: Date = new Date()
+): boolean {
+  return promotion.isActive && promotion.startsAt <= now && promotion.endsAt > now
+}
+
+/**
+ * 活动规则的文字描述（Decimal 转成字符串后复用前端的描述函数）
+ */
+function describe(promotion: Promotion): string {
+  return describePromotion({
+    type: promotion.type,
+    threshold: promotion.threshold?.toString(),
+    amount: promotion.amount?.toString(),
+    percentOff: promotion.percentOff?.toString(),
+    buyQuantity: promotion.buyQuantity,
+    freeQuantity: promotion.freeQuantity,
+  })
+}
+
+/**
+ * 商品级促销对单个商品的优惠金额，不适用时返回 null
+ *
+ * @param categoryIds - 活动适用的分类（已包含子孙分类）
+ */
+function lineDiscountOf(
+  promotion: PromotionWithScope,
+  line: PricingLine,
+  categoryIds: Set<number>
+): Prisma.Decimal | null {
+  const amount = line.product.price.times(line.quantity)
+
+  if (promotion.type === 'CATEGORY_DISCOUNT') {
+    if (!categoryIds.has(line.product.categoryId)) return null
+    // 按百分比计算的优惠向下取整到分（lib/money.ts 的取整规则）
+    return new Prisma.Decimal(percentOfMoney(amount, promotion.percentOff ?? 0))
+  }
+
+  if (promotion.type === 'BUY_X_GET_Y') {
+    if (!promotion.products.some((p) => p.id === line.productId)) return null
+    // 每 X + Y 件为一组，每组 Y 件免费
+    const groupSize = (promotion.buyQuantity ?? 0) + (promotion.freeQuantity ?? 0)
+    const freeCount = Math.floor(line.quantity / groupSize) * (promotion.freeQuantity ?? 0)
+    return line.product.price.times(freeCount)
+  }
+
+  return null
+}
+
+/**
+ * 计算促销优惠（纯函数，不查数据库）
+ *
+ * @param promotions - 进行中的促销活动
+ * @param lines - 参与计算的商品
+ * @param categories - 全部分类，用于找出活动适用分类的子孙分类
+ */
+export function applyPromotions(
+  promotions: PromotionWithScope[],
+  lines: PricingLine[],
+  categories: CategoryLike[]
+): PricingResult {
+  const linePromotions = promotions.filter((p) => p.type !== 'SPEND_AND_SAVE')
+  const orderPromotions = promotions.filter((p) => p.type === 'SPEND_AND_SAVE')
+  const scopes = new Map(linePromotions.map((promotion) => [
+    promotion.id,
+    expandCategoryIds(categories, promotion.categories.map((c) => c.id)),
+  ]))
+
+  // ---- 1. 商品级促销：每个商品取优惠最大的活动 ----
+  const matched = new Map<number, number>() // 活动 ID → 命中的商品数
+  const won = new Map<number, Prisma.Decimal>() // 活动 ID → 生效的优惠合计
+
+  const linePricing: LinePricing[] = lines.map((line) => {
+    const amount = line.product.price.times(line.quantity)
+    let best: { promotionId: number; discount: Prisma.Decimal } | null = null
+
+    for (const promotion of linePromotions) {
+      const discount = lineDiscountOf(promotion, line, scopes.get(promotion.id)!)
+      if (discount === null) continue
+      matched.set(promotion.id, (matched.get(promotion.id) ?? 0) + 1)
+      if (discount.greaterThan(0) && (!best || discount.greaterThan(best.discount))) {
+        best = { promotionId: promotion.id, discount }
+      }
+    }
+
+    if (best) {
+      won.set(best.promotionId, (won.get(best.promotionId) ?? ZERO).plus(best.discount))
+    }
+    const discount = best?.discount ?? ZERO
+    return {
+      productId: line.productId,
+      variantId: line.variantId ?? null,
+      amount,
+      discount,
+      payable: amount.minus(discount),
+      promotionId: best?.promotionId ?? null,
+    }
+  })
+
+  const goodsAmount = linePricing.reduce((sum, line) => sum.plus(line.amount), ZERO)
+  const lineDiscount = linePricing.reduce((sum, line) => sum.plus(line.discount), ZERO)
+  const afterLine = goodsAmount.minus(lineDiscount)
+
+  const evaluations: PromotionEvaluation[] = linePromotions.map((promotion) => {
+    const discount = won.get(promotion.id)
+    const base = {
+      promotionId: promotion.id,
+      name: promotion.name,
+      type: promotion.type,
+      description: describe(promotion),
+    }
+    if (discount) {
+      return { ...base, applied: true, discount, reason: `已优惠 ${discount.toFixed(2)} 元` }
+    }
+
+    let reason: string
+    if (!matched.has(promotion.id)) {
+      reason = promotion.type === 'CATEGORY_DISCOUNT' ? '没有该分类的商品' : '没有参与活动的商品'
+    } else if (promotion.type === 'BUY_X_GET_Y') {
+      const groupSize = (promotion.buyQuantity ?? 0) + (promotion.freeQuantity ?? 0)
+      const reachedGroup = lines.some(
+        (line) => promotion.products.some((p) => p.id === line.productId) && line.quantity >= groupSize
+      )
+      reason = reachedGroup
+        ? '同一商品只享受优惠最大的一个活动'
+        : `同一商品买满 ${groupSize} 件才能享受`
+    } else {
+      reason = '同一商品只享受优惠最大的一个活动'
+    }
+    return { ...base, applied: false, discount: ZERO, reason }
+  })
+
+  // ---- 2. 订单级促销（满减）：取优惠最大的一个 ----
+  let bestOrder: { promotionId: number; discount: Prisma.Decimal } | null = null
+  for (const promotion of orderPromotions) {
+    if (promotion.threshold && afterLine.lessThan(promotion.threshold)) continue
+    const discount = Prisma.Decimal.min(promotion.amount ?? 0, afterLine)
+    if (discount.greaterThan(0) && (!bestOrder || discount.greaterThan(bestOrder.discount))) {
+      bestOrder = { promotionId: promotion.id, discount }
+    }
+  }
+
+  for (const promotion of orderPromotions) {
+    const base = {
+      promotionId: promotion.id,
+      name: promotion.name,
+      type: promotion.type,
+      description: describe(promotion),
+    }
+    if (bestOrder?.promotionId === promotion.id) {
+      evaluations.push({
+        ...base,
+        applied: true,
+        discount: bestOrder.discount,
+        reason: `已减 ${bestOrder.discount.toFixed(2)} 元`,
+      })
+      continue
+    }
+    const threshold = promotion.threshold ?? ZERO
+    const reason = afterLine.lessThan(threshold)
+      ? `还差 ${threshold.minus(afterLine).toFixed(2)} 元`
+      : '只能享受优惠最大的一个满减活动'
+    evaluations.push({ ...base, applied: false, discount: ZERO, reason })
+  }
+
+  const orderDiscount = bestOrder?.discount ?? ZERO
+  const promotionDiscount = lineDiscount.plus(orderDiscount)
+
+  return {
+    lines: linePricing,
+    goodsAmount,
+    lineDiscount,
+    orderDiscount,
+    promotionDiscount,
+    payableAmount: goodsAmount.minus(promotionDiscount),
+    evaluations,
+  }
+}
+
+/**
+ * 获取进行中的促销活动
+ */
+export async function getActivePromotions(now: Date = new Date()): Promise<PromotionWithScope[]> {
+  return prisma.promotion.findMany({
+    where: {
+      isActive: true,
+      startsAt: { lte: now },
+      endsAt: { gt: now },
+    },
+    include: {
+      categories: { select: { id: true } },
+      products: { select: { id: true } },
+    },
+    orderBy: { id: 'asc' },
+  })
+}
+
+/**
+ * 按进行中的促销活动计算优惠
+ */
+export async function calculatePromotions(lines: PricingLine[]): Promise<PricingResult> {
+  const [promotions, categories] = await Promise.all([
+    getActivePromotions(),
+    prisma.category.findMany({ select: { id: true, parentId: true, sortOrder: true } }),
+  ])
+  return applyPromotions(promotions, lines, categories)
+}
+
+/**
+ * 序列化促销计算结果（Decimal 转字符串），供 API 返回
+ */
+export function serializePricing(pricing: PricingResult): PromotionPricingView {
+  return {
+    lines: pricing.lines.map((line) => ({
+      productId: line.productId,
+      variantId: line.variantId,
+      amount: line.amount.toString(),
+      discount: line.discount.toString(),
+      payable: line.payable.toString(),
+      promotionId: line.promotionId,
+    })),
+    goodsAmount: pricing.goodsAmount.toString(),
+    promotionDiscount: pricing.promotionDiscount.toString(),
+    payableAmount: pricing.payableAmount.toString(),
+    evaluations: pricing.evaluations.map((evaluation) => ({
+      ...evaluation,
+      discount: evaluation.discount.toString(),
+    })),
+  }
+}
+
+/**
+ * 创建促销活动（管理员）
+ *
+ * 只保存和类型对应的字段，其他字段置空。
+ */
+export async function createPromotion(input: PromotionInput) {
+  const { categoryIds, productIds, ...data } = input
+  return prisma.promotion.create({
+    data: {
+      name: data.name,
+      type: data.type,
+      startsAt: data.startsAt,
+      endsAt: data.endsAt,
+      isActive: data.isActive,
+      threshold: data.type === 'SPEND_AND_SAVE' ? data.threshold : null,
+      amount: data.type === 'SPEND_AND_SAVE' ? data.amount : null,
+      percentOff: data.type === 'CATEGORY_DISCOUNT' ? data.percentOff : null,
+      buyQuantity: data.type === 'BUY_X_GET_Y' ? data.buyQuantity : null,
+      freeQuantity: data.type === 'BUY_X_GET_Y' ? data.freeQuantity : null,
+      categories:
+        data.type === 'CATEGORY_DISCOUNT' ? { connect: (categoryIds ?? []).map((id) => ({ id })) } : undefined,
+      products:
+        data.type === 'BUY_X_GET_Y' ? { connect: (productIds ?? []).map((id) => ({ id })) } : undefined,
+    },
+  })
+}
+
+/**
+ * 序列化促销活动（Decimal 转字符串），供 API 返回
+ */
+export function serializePromotion<T extends Promotion>(promotion: T) {
+  return {
+    ...promotion,
+    threshold: promotion.threshold?.toString() ?? null,
+    amount: promotion.amount?.toString() ?? null,
+    percentOff: promotion.percentOff?.toString() ?? null,
+  }
+}
@@ -0,0 +1,127 @@
+/**
+ * 商品搜索：关键词拆分与高亮（前后端共用）
+ * ============================================================
+ *
+ * 搜索在服务端执行（lib/search.ts，MySQL 全文索引 + ngram 分词），
+ * 这里是搜索结果页显示用的工具函数：把商品名称、描述中匹配的部分标记出来高亮显示。
+ *
+ * 【怎样算"匹配"？】
+ * 和 ngram 分词的匹配方式保持一致：
+ * - 关键词按空格拆成多个词，每个词单独匹配
+ * - 词完整出现时高亮整个词（搜"蓝牙耳机"，高亮"蓝牙耳机"）
+ * - 没有完整出现时，高亮出现的相邻两个字（搜"蓝牙耳麦"，商品名"蓝牙耳机"中高亮"蓝牙耳"）
+ * 英文不区分大小写。
+ */
+
+/**
+ * ngram 分词的长度，和 MySQL 的 ngram_token_size 一致（默认 2）
+ * 短于这个长度的词无法用全文索引搜索，服务端会改用模糊匹配
+ */
+export const NGRAM_TOKEN_SIZE = 2
+
+/**
+ * 高亮片段：按顺序拼接起来就是原文
+ */
+export type HighlightSegment = {
+  text: string
+  highlighted: boolean
+}
+
+/**
+ * 关键词按空格（包括全角空格）拆成多个词，去掉重复的词
+ *
+ * @example
+ * splitSearchTerms(' 苹果　手机 苹果 ') // ['苹果', '手机']
+ */
+export function splitSearchTerms(keyword: string): string[] {
+  return [...new Set(keyword.split(/\s+/).filter(Boolean))]
+}
+
+/**
+ * 按字符（不是 UTF-16 编码单元）切出相邻的 n 个字
+ *
+ * @example
+ * ngramsOf('蓝牙耳机') // ['蓝牙', '牙耳', '耳机']
+ */
+function ngramsOf(term: string, size = NGRAM_TOKEN_SIZE): string[] {
+  const chars = Array.from(term)
+  if (chars.length <= size) return [term]
+  return Array.from({ length: chars.length - size + 1 }, (_, i) => chars.slice(i, i + size).join(''))
+}
+
+/**
+ * 转义正则表达式中的特殊字符，按字面匹配关键词
+ */
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * 找出文本中所有匹配的区间 [开始, 结束)，重叠或相邻的区间已合并
+ *
+ * 直接在原文上用不区分大小写的正则匹配，而不是先转小写再查找：
+ * 有些字符转小写后长度会变（如 'İ'.toLowerCase() 是两个字符），小写文本中的位置和原文对不上。
+ */
+function matchRanges(text: string, keyword: string): [number, number][] {
+  const ranges: [number, number][] = []
+
+  for (const term of splitSearchTerms(keyword)) {
+    const pieces = new RegExp(escapeRegExp(term), 'iu').test(text) ? [term] : ngramsOf(term)
+    for (const piece of pieces) {
+      const pattern = new RegExp(escapeRegExp(piece), 'giu')
+      for (let match = pattern.exec(text); match; match = pattern.exec(text)) {
+        ranges.push([match.index, match.index + match[0].length])
+        pattern.lastIndex = match.index + 1 // 允许重叠的匹配（"aa" 在 "aaa" 中出现两次）
+      }
+    }
+  }
+
+  ranges.sort((a, b) => a[0] - b[0])
+  const merged: [number, number][] = []
+  for (const [start, end] of ranges) {
+    const last = merged[merged.length - 1]
+    if (last && start <= last[1]) {
+      last[1] = Math.max(last[1], end)
+    } else {
+      merged.push([start, end])
+    }
+  }
+  return merged
+}
+
+/**
+ * 把文本拆成高亮 / 不高亮的片段
+ *
+ * @example
+ * highlightText('Apple iPhone 15', 'iphone')
+ * // [{ text: 'Apple ', highlighted: false }, { text: 'iPhone', highlighted: true }, { text: ' 15', highlighted: false }]
+ */
+export function highlightText(text: string, keyword: string): HighlightSegment[] {
+  const segments: HighlightSegment[] = []
+  let cursor = 0
+  for (const [start, end] of matchRanges(text, keyword)) {
+    if (start > cursor) {
+      segments.push({ text: text.slice(cursor, start), highlighted: false })
+    }
+    segments.push({ text: text.slice(start, end), highlighted: true })
+    cursor = end
+  }
+  if (cursor < text.length) {
+    segments.push({ text: text.slice(cursor), highlighted: false })
+  }
+  return segments
+}
+
+/**
+ * 截取第一个匹配位置附近的一段文字，用于在搜索结果中显示描述摘要
+ * 没有匹配时返回 null，截断的地方加省略号
+ */
+export function searchSnippet(text: string, keyword: string, length = 60): string | null {
+  const first = matchRanges(text, keyword)[0]
+  if (!first) return null
+
+  // 匹配位置前面留大约四分之一的长度作为上下文
+  const start = Math.max(0, first[0] - Math.floor(length / 4))
+  const end = Math.min(text.length, start + length)
+  return `${start > 0 ? '…' : ''}${text.slice(start, end)}${end < text.length ? '…' : ''}`
+}
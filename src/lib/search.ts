@@ -0,0 +1,139 @@
+/**
+ * 商品搜索（服务端）
+ * ============================================================
+ *
+ * 【为什么不用 contains？】
+ * name contains 关键词 OR description contains 关键词 对应 SQL 的 LIKE '%关键词%'，
+ * 每次搜索都要扫描整张商品表，结果也没有先后之分。
+ * 这里改用 MySQL 的全文索引（FULLTEXT），按相关度排序。
+ *
+ * 【ngram 分词器】
+ * MySQL 默认的全文分词器按空格、标点分词，中文句子没有空格，整句话会被当成一个词。
+ * ngram 分词器把文本切成相邻的两个字（ngram_token_size = 2）：
+ *   "蓝牙耳机" → "蓝牙" "牙耳" "耳机"
+ * 搜索词也按同样的方式切分，所以任意两个字以上的片段都能搜到，
+ * 搜索词中有一个字写错（"蓝牙耳麦"）也能按其余的片段搜到"蓝牙耳机"，只是相关度低一些。
+ * 索引由 npm run db:search-index 创建（prisma/create-search-index.ts），
+ * 同时关闭了停用词（默认停用词表中有 a、i、on 等，会让 "iphone" 这样的英文单词搜不到）。
+ *
+ * 【排序规则】
+ * 1. 名称匹配的商品排在只有描述匹配的商品前面
+ * 2. 同一组内按相关度（MATCH ... AGAINST 的得分）从高到低
+ * 相关度低于最高得分 RELEVANCE_CUTOFF 倍的结果丢弃（只匹配到一两个常见片段的商品）。
+ *
+ * 【降级为模糊匹配】
+ * - 关键词中没有两个字以上的词（如 "表"），全文索引无法搜索，改用 contains
+ * - 全文索引不存在（还没运行 db:search-index）时查询会报错，记录日志后改用 contains
+ * 模糊匹配同样把名称匹配的商品排在前面。
+ *
+ * 【和列表页其他条件组合】
+ * 搜索只返回按相关度排好序的商品 ID（最多 SEARCH_RESULT_LIMIT 个），
+ * 列表页把它作为 id in [...] 条件，和分类、属性筛选、上架状态等条件组合查询。
+ *
+ * 【使用方式】
+ * const search = await searchProducts('蓝牙耳机')
+ * prisma.product.findMany({ where: { id: { in: search.ids }, ... } })
+ */
+
+import { prisma } from '@/lib/prisma'
+import { NGRAM_TOKEN_SIZE, splitSearchTerms } from '@/lib/search-highlight'
+
+/**
+ * 最多返回的商品数量（按相关度取前 N 个）
+ */
+const SEARCH_RESULT_LIMIT = 500
+
+/**
+ * 相关度低于最高得分的这个比例时丢弃
+ */
+const RELEVANCE_CUTOFF = 0.2
+
+/**
+ * 关键词最长长度，超出部分忽略
+ */
+const MAX_KEYWORD_LENGTH = 100
+
+export type ProductSearchResult = {
+  mode: 'fulltext' | 'like' // 全文索引 / 模糊匹配（降级）
+  ids: number[]             // 匹配的商品 ID，按相关度从高到低
+}
+
+/**
+ * 搜索商品，返回按相关度排序的商品 ID（不区分上下架，由调用方过滤）
+ */
+export async function searchProducts(keyword: string): Promise<ProductSearchResult> {
+  const query = keyword.trim().slice(0, MAX_KEYWORD_LENGTH)
+  const searchable = splitSearchTerms(query).some(
+    (term) => Array.from(term).length >= NGRAM_TOKEN_SIZE
+  )
+
+  if (searchable) {
+    try {
+      return { mode: 'fulltext', ids: await fullTextSearch(query) }
+    } catch (error) {
+      console.error('全文搜索失败，改用模糊匹配（是否已运行 npm run db:search-index？）:', error)
+    }
+  }
+  return { mode: 'like', ids: await likeSearch(query) }
+}
+
+/**
+ * 全文索引搜索
+ * MATCH(name) 用于判断名称是否匹配，MATCH(name, description) 是综合相关度，
+ * 两者分别对应 products_name_ft、products_name_description_ft 两个全文索引（列必须完全一致）
+ */
+async function fullTextSearch(query: string): Promise<number[]> {
+  const rows = await prisma.$queryRaw<{ id: number; nameScore: number; score: number }[]>`
+    SELECT id,
+      MATCH(name) AGAINST(${query} IN NATURAL LANGUAGE MODE) AS nameScore,
+      MATCH(name, description) AGAINST(${query} IN NATURAL LANGUAGE MODE) AS score
+    FROM products
+    WHERE MATCH(name, description) AGAINST(${query} IN NATURAL LANGUAGE MODE)
+    ORDER BY score DESC, id DESC
+    LIMIT ${SEARCH_RESULT_LIMIT}
+  `
+
+  const maxScore = Math.max(0, ...rows.map((row) => Number(row.score)))
+  const relevant = rows.filter((row) => Number(row.score) >= maxScore * RELEVANCE_CUTOFF)
+  // 名称匹配的排在前面，两组内部保持相关度顺序
+  const nameMatched = relevant.filter((row) => Number(row.nameScore) > 0)
+  const descriptionOnly = relevant.filter((row) => Number(row.nameScore) <= 0)
+  return [...nameMatched, ...descriptionOnly].map((row) => Number(row.id))
+}
+
+/**
+ * 模糊匹配（降级）：名称匹配的排在前面，同一组内新商品在前
+ */
+async function likeSearch(query: string): Promise<number[]> {
+  if (!query) return []
+
+  const products = await prisma.product.findMany({
+    where: {
+      OR: [
+        { name: { contains: query } },
+        { description: { contains: query } },
+      ],
+    },
+    select: { id: true, name: true },
+    orderBy: { createdAt: 'desc' },
+    take: SEARCH_RESULT_LIMIT,
+  })
+
+  // 数据库的排序规则不区分大小写，这里也一样
+  const lower = query.toLowerCase()
+  const nameMatched = products.filter((p) => p.name.toLowerCase().includes(lower))
+  const descriptionOnly = products.filter((p) => !p.name.toLowerCase().includes(lower))
+  return [...nameMatched, ...descriptionOnly].map((p) => p.id)
+}
+
+/**
+ * 按搜索结果的相关度顺序排列商品（不在搜索结果中的排在最后）
+ */
+export function orderByRelevance<T extends { id: number }>(
+  items: T[],
+  search: ProductSearchResult
+): T[] {
+  const rank = new Map(search.ids.map((id, index) => [id, index]))
+  const last = search.ids.length
+  return [...items].sort((a, b) => (rank.get(a.id) ?? last) - (rank.get(b.id) ?? last))
+}
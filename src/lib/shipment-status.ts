@@ -0,0 +1,45 @@
+/**
+ * 物流相关定义（前后端共用）
+ * ============================================================
+ *
+ * 快递公司编码和物流轨迹状态。
+ */
+
+/**
+ * 支持的快递公司（编码 → 名称）
+ * 编码会存入 Shipment.carrier，导入物流轨迹时也使用这些编码
+ */
+export const CARRIER_LABELS: Record<string, string> = {
+  SF: '顺丰速运',
+  JD: '京东物流',
+  EMS: '中国邮政 EMS',
+  ZTO: '中通快递',
+  YTO: '圆通速递',
+  STO: '申通快递',
+  YD: '韵达快递',
+}
+
+export type ShipmentEventStatusValue =
+  | 'PICKED_UP'
+  | 'IN_TRANSIT'
+  | 'OUT_FOR_DELIVERY'
+  | 'DELIVERED'
+  | 'EXCEPTION'
+
+/**
+ * 物流轨迹状态的中文名称
+ */
+export const SHIPMENT_EVENT_STATUS_LABELS: Record<ShipmentEventStatusValue, string> = {
+  PICKED_UP: '已揽收',
+  IN_TRANSIT: '运输中',
+  OUT_FOR_DELIVERY: '派送中',
+  DELIVERED: '已签收',
+  EXCEPTION: '异常',
+}
+
+/**
+ * 获取快递公司名称，未知编码原样返回
+ */
+export function getCarrierLabel(carrier: string): string {
+  return CARRIER_LABELS[carrier] ?? carrier
+}
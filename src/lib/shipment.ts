@@ -0,0 +1,240 @@
+/**
+ * 发货与物流轨迹（服务端）
+ * ============================================================
+ *
+ * 【发货】
+ * 管理员发货时必须填写快递公司和快递单号（createShipment），
+ * 可以只发部分商品（分批发货），每次发货生成一个包裹（Shipment）。
+ * 第一个包裹发出时，订单从"已付款"变为"已发货"（走 applyOrderTransition，
+ * 同样会记录状态历史）；之后的包裹只追加发货记录，订单状态不变。
+ * 全部商品都发出时记录 fullyShippedAt，之后订单才能确认收货（包括自动确认收货），
+ * 避免只发了一部分商品的订单就变成"已完成"。
+ *
+ * 【物流轨迹】
+ * 快递公司的轨迹通过 API 推送或 CSV 批量导入（ingestTrackingEvents），
+ * 按"快递公司 + 快递单号"找到对应的包裹，重复导入的轨迹会被自动跳过。
+ *
+ * 【使用方式】
+ * import { createShipment, ingestTrackingEvents } from '@/lib/shipment'
+ */
+
+import { prisma } from '@/lib/prisma'
+import { Prisma } from '@/generated/prisma/client'
+import { applyOrderTransition, OrderActionError } from '@/lib/order'
+import { ORDER_STATUS_LABELS } from '@/lib/order-status'
+import { getCarrierLabel } from '@/lib/shipment-status'
+import type { CreateShipmentInput, TrackingEventInput } from '@/lib/validators'
+
+/**
+ * 查询订单各商品项已发货的数量
+ */
+export async function getShippedQuantities(
+  orderId: number,
+  tx: Prisma.TransactionClient = prisma
+): Promise<Map<number, number>> {
+  const grouped = await tx.shipmentItem.groupBy({
+    by: ['orderItemId'],
+    where: { shipment: { orderId } },
+    _sum: { quantity: true },
+  })
+  return new Map(grouped.map((g) => [g.orderItemId, g._sum.quantity ?? 0]))
+}
+
+/**
+ * 发货（管理员）
+ *
+ * 【并发】
+ * 先用 SELECT ... FOR UPDATE 锁住订单行，同一订单的发货请求排队执行，
+ * 避免两个管理员同时发货导致同一件商品被发两次。
+ *
+ * @param orderId - 订单 ID
+ * @param input - 快递公司、单号、要发货的商品（不传则发出全部未发货商品）
+ * @param adminId - 操作的管理员
+ * @throws OrderActionError 订单状态不能发货、数量超出、单号重复时抛出
+ */
+export async function createShipment(orderId: number, input: CreateShipmentInput, adminId: string) {
+  try {
+    return await prisma.$transaction(async (tx) => {
+      await tx.$queryRaw`SELECT id FROM orders WHERE id = ${orderId} FOR UPDATE`
+
+      const order = await tx.order.findUnique({
+        where: { id: orderId },
+        include: { items: true },
+      })
+
+      if (!order) {
+        throw new OrderActionError('订单不存在')
+      }
+
+      if (order.status !== 'PAID' && order.status !== 'SHIPPED') {
+        throw new OrderActionError(`订单${ORDER_STATUS_LABELS[order.status]}，不能发货`)
+      }
+
+      // 计算每个商品项还有多少件没发
+      const shipped = await getShippedQuantities(order.id, tx)
+      const remaining = new Map(
+        order.items.map((item) => [item.id, item.quantity - (shipped.get(item.id) ?? 0)])
+      )
+
+      const items =
+        input.items ??
+        [...remaining]
+          .filter(([, quantity]) => quantity > 0)
+          .map(([orderItemId, quantity]) => ({ orderItemId, quantity }))
+
+      if (items.length === 0) {
+        throw new OrderActionError('订单商品已全部发货')
+      }
+
+      for (const item of items) {
+        const left = remaining.get(item.orderItemId)
+        if (left === undefined) {
+          throw new OrderActionError('发货商品不属于该订单')
+        }
+        if (item.quantity > left) {
+          throw new OrderActionError(`发货数量超过未发货数量（剩余 ${left} 件）`)
+        }
+        remaining.set(item.orderItemId, left - item.quantity)
+      }
+
+      const shipment = await tx.shipment.create({
+        data: {
+          orderId: order.id,
+          carrier: input.carrier,
+          trackingNo: input.trackingNo,
+          createdById: adminId,
+          items: { create: items },
+        },
+      })
+
+      // 第一个包裹发出 → 订单变为已发货
+      if (order.status === 'PAID') {
+        await applyOrderTransition(tx, order.id, 'SHIPPED', {
+          operator: { type: 'ADMIN', userId: adminId },
+          note: `${getCarrierLabel(input.carrier)} ${input.trackingNo}`,
+        })
+      }
+
+      // 全部商品都已发出 → 可以确认收货
+      if ([...remaining.values()].every((quantity) => quantity === 0)) {
+        await tx.order.update({
+          where: { id: order.id },
+          data: { fullyShippedAt: new Date() },
+        })
+      }
+
+      return shipment
+    })
+  } catch (error) {
+    // 唯一索引冲突：同一快递公司的单号只能用一次
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      throw new OrderActionError('该快递单号已被使用')
+    }
+    throw error
+  }
+}
+
+/**
+ * 导入物流轨迹
+ *
+ * createMany + skipDuplicates：遇到唯一索引冲突的行（已导入过的轨迹）直接跳过，
+ * 所以同一份数据重复导入是安全的。
+ *
+ * @returns imported 新增的轨迹数；duplicates 跳过的重复轨迹数；
+ *          unknown 找不到包裹的快递单号（可能是单号填错了）
+ */
+export async function ingestTrackingEvents(events: TrackingEventInput[]) {
+  const shipments = await prisma.shipment.findMany({
+    where: {
+      OR: events.map((e) => ({ carrier: e.carrier, trackingNo: e.trackingNo })),
+    },
+    select: { id: true, carrier: true, trackingNo: true },
+  })
+  const shipmentIds = new Map(shipments.map((s) => [`${s.carrier}:${s.trackingNo}`, s.id]))
+
+  const unknown = new Set<string>()
+  const data: Prisma.ShipmentEventCreateManyInput[] = []
+  for (const event of events) {
+    const shipmentId = shipmentIds.get(`${event.carrier}:${event.trackingNo}`)
+    if (!shipmentId) {
+      unknown.add(`${event.carrier} ${event.trackingNo}`)
+      continue
+    }
+    data.push({
+      shipmentId,
+      status: event.status,
+      description: event.description,
+      location: event.location,
+      occurredAt: event.occurredAt,
+    })
+  }
+
+  const { count } = data.length > 0
+    ? await prisma.shipmentEvent.createMany({ data, skipDuplicates: true })
+    : { count: 0 }
+
+  return {
+    imported: count,
+    duplicates: data.length - count,
+    unknown: [...unknown],
+  }
+}
+
+/**
+ * 解析物流轨迹 CSV
+ *
+ * 第一行是表头，列名与 trackingEventSchema 的字段一致：
+ *   carrier,trackingNo,status,description,location,occurredAt
+ *   SF,SF1234567890,IN_TRANSIT,"快件已到达【深圳转运中心】",深圳,2024-01-01 12:00:00
+ *
+ * 支持用双引号包裹含逗号的字段，字段内的双引号写成两个（""）。
+ *
+ * @returns 每一行解析成 { 列名: 值 } 对象（未做校验，调用方用 trackingEventSchema 校验）
+ */
+export function parseTrackingCsv(text: string): Record<string, string>[] {
+  const lines = text
+    .replace(/^\uFEFF/, '') // 去掉 Excel 导出时带的 BOM
+    .split(/\r?\n/)
+    .filter((line) => line.trim() !== '')
+  if (lines.length === 0) return []
+
+  const headers = parseCsvLine(lines[0]).map((h) => h.trim())
+  return lines.slice(1).map((line) => {
+    const values = parseCsvLine(line)
+    return Object.fromEntries(
+      headers.map((header, i) => [header, values[i]?.trim() ?? ''])
+    )
+  })
+}
+
+/**
+ * 解析 CSV 的一行
+ */
+function parseCsvLine(line: string): string[] {
+  const fields: string[] = []
+  let current = ''
+  let inQuotes = false
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]
+    if (inQuotes) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"' // 转义的双引号
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        current += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      fields.push(current)
+      current = ''
+    } else {
+      current += char
+    }
+  }
+  fields.push(current)
+  return fields
+}
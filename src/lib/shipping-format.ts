@@ -0,0 +1,41 @@
+/**
+ * 运费相关定义（前后端共用）
+ * ============================================================
+ *
+ * 运费模板的计费方式和单位。
+ * 运费的计算在服务端（lib/shipping.ts）。
+ */
+
+export type ShippingChargeTypeValue = 'WEIGHT' | 'ITEM_COUNT'
+
+/**
+ * 计费方式的中文名称
+ */
+export const SHIPPING_CHARGE_TYPE_LABELS: Record<ShippingChargeTypeValue, string> = {
+  WEIGHT: '按重量',
+  ITEM_COUNT: '按件数',
+}
+
+/**
+ * 首量 / 续量的单位
+ */
+export const SHIPPING_UNIT_LABELS: Record<ShippingChargeTypeValue, string> = {
+  WEIGHT: '克',
+  ITEM_COUNT: '件',
+}
+
+/**
+ * 统一省份名称：去掉"省""市""自治区"等后缀
+ *
+ * 收货地址的省份是用户手动填写的，可能写"广东"也可能写"广东省"，
+ * 运费规则匹配省份前先统一成简称。
+ *
+ * @example
+ * normalizeProvince('广东省')           // '广东'
+ * normalizeProvince('新疆维吾尔自治区') // '新疆'
+ */
+export function normalizeProvince(name: string): string {
+  return name
+    .trim()
+    .replace(/(壮族自治区|回族自治区|维吾尔自治区|自治区|特别行政区|省|市)$/, '')
+}
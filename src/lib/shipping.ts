@@ -0,0 +1,184 @@
+/**
+ * 运费计算（服务端）
+ * ============================================================
+ *
+ * 【计算步骤】
+ * 1. 取启用的运费模板（没有启用的模板 → 包邮）
+ * 2. 商品金额达到模板的包邮门槛 → 包邮
+ * 3. 按收货省份找规则：先找列出了该省份的规则，找不到再用默认规则
+ *    （两者都没有 → 该地区不配送）
+ * 4. 按计费方式统计总量：按重量 = Σ 商品重量 × 数量；按件数 = Σ 数量
+ * 5. 运费 = 首费 + ⌈(总量 - 首量) / 续量⌉ × 续费（总量不超过首量时只收首费）
+ *
+ * 金额全部用 Decimal 计算，避免浮点数误差。
+ *
+ * 【使用方式】
+ * import { calculateShippingFee, saveShippingTemplate } from '@/lib/shipping'
+ */
+
+import { prisma } from '@/lib/prisma'
+import { Prisma, type ShippingRule, type ShippingTemplate } from '@/generated/prisma/client'
+import { OrderActionError } from '@/lib/order'
+import { normalizeProvince } from '@/lib/shipping-format'
+import type { ShippingTemplateInput } from '@/lib/validators'
+
+export type ShippingTemplateWithRules = ShippingTemplate & { rules: ShippingRule[] }
+
+/**
+ * 参与运费计算的商品
+ */
+export type ShippingLine = {
+  quantity: number
+  product: { weight: number }
+}
+
+/**
+ * 解析规则适用的省份（JSON 数组）
+ */
+export function parseRuleProvinces(rule: Pick<ShippingRule, 'provinces'>): string[] {
+  try {
+    const provinces = JSON.parse(rule.provinces)
+    return Array.isArray(provinces) ? provinces.map(String) : []
+  } catch {
+    return []
+  }
+}
+
+/**
+ * 找到收货省份适用的运费规则，没有则返回 null（不配送）
+ */
+export function findShippingRule(
+  template: ShippingTemplateWithRules,
+  province: string
+): ShippingRule | null {
+  const target = normalizeProvince(province)
+  const matched = template.rules.find((rule) =>
+    parseRuleProvinces(rule).some((p) => normalizeProvince(p) === target)
+  )
+  return matched ?? template.rules.find((rule) => parseRuleProvinces(rule).length === 0) ?? null
+}
+
+/**
+ * 按模板计算运费（纯函数，不查数据库）
+ *
+ * @param template - 运费模板（含规则）
+ * @param lines - 结算的商品和数量
+ * @param goodsAmount - 商品金额，用于判断是否达到包邮门槛
+ * @param province - 收货省份
+ * @throws OrderActionError 收货地区不在配送范围内时抛出
+ */
+export function computeShippingFee(
+  template: ShippingTemplateWithRules,
+  lines: ShippingLine[],
+  goodsAmount: Prisma.Decimal,
+  province: string
+): Prisma.Decimal {
+  if (template.freeThreshold && goodsAmount.greaterThanOrEqualTo(template.freeThreshold)) {
+    return new Prisma.Decimal(0)
+  }
+
+  const rule = findShippingRule(template, province)
+  if (!rule) {
+    throw new OrderActionError(`收货地址所在地区（${province}）暂不配送`)
+  }
+
+  const total = lines.reduce(
+    (sum, line) =>
+      sum + (template.chargeType === 'WEIGHT' ? line.product.weight * line.quantity : line.quantity),
+    0
+  )
+
+  if (total <= rule.firstUnit) {
+    return rule.firstFee
+  }
+  const additionalCount = Math.ceil((total - rule.firstUnit) / rule.additionalUnit)
+  return rule.firstFee.plus(rule.additionalFee.times(additionalCount))
+}
+
+/**
+ * 获取当前启用的运费模板
+ */
+export async function getActiveShippingTemplate(): Promise<ShippingTemplateWithRules | null> {
+  return prisma.shippingTemplate.findFirst({
+    where: { isActive: true },
+    include: { rules: { orderBy: { id: 'asc' } } },
+  })
+}
+
+/**
+ * 计算订单运费（使用启用的运费模板，没有启用的模板时包邮）
+ *
+ * @throws OrderActionError 收货地区不在配送范围内时抛出
+ */
+export async function calculateShippingFee(
+  lines: ShippingLine[],
+  goodsAmount: Prisma.Decimal,
+  province: string
+): Promise<Prisma.Decimal> {
+  const template = await getActiveShippingTemplate()
+  if (!template) {
+    return new Prisma.Decimal(0)
+  }
+  return computeShippingFee(template, lines, goodsAmount, province)
+}
+
+/**
+ * 保存运费模板（管理员新增或编辑）
+ *
+ * 规则整体替换：删除旧规则，再按提交的内容重新创建。
+ * 启用一个模板时，其他模板自动停用（同一时间只有一个模板生效）。
+ *
+ * @param input - 模板内容（已通过 shippingTemplateSchema 校验）
+ * @param templateId - 编辑时传入模板 ID，不传则新建
+ */
+export async function saveShippingTemplate(input: ShippingTemplateInput, templateId?: number) {
+  const data = {
+    name: input.name,
+    chargeType: input.chargeType,
+    freeThreshold: input.freeThreshold ?? null,
+    isActive: input.isActive ?? false,
+  }
+  const rules = input.rules.map((rule) => ({
+    ...rule,
+    provinces: JSON.stringify(rule.provinces),
+  }))
+
+  return prisma.$transaction(async (tx) => {
+    if (data.isActive) {
+      await tx.shippingTemplate.updateMany({
+        where: { isActive: true, ...(templateId && { id: { not: templateId } }) },
+        data: { isActive: false },
+      })
+    }
+
+    if (templateId) {
+      await tx.shippingRule.deleteMany({ where: { templateId } })
+      return tx.shippingTemplate.update({
+        where: { id: templateId },
+        data: { ...data, rules: { create: rules } },
+        include: { rules: true },
+      })
+    }
+
+    return tx.shippingTemplate.create({
+      data: { ...data, rules: { create: rules } },
+      include: { rules: true },
+    })
+  })
+}
+
+/**
+ * 序列化运费模板（Decimal 转字符串，省份解析为数组），供 API 返回
+ */
+export function serializeShippingTemplate(template: ShippingTemplateWithRules) {
+  return {
+    ...template,
+    freeThreshold: template.freeThreshold?.toString() ?? null,
+    rules: template.rules.map((rule) => ({
+      ...rule,
+      provinces: parseRuleProvinces(rule),
+      firstFee: rule.firstFee.toString(),
+      additionalFee: rule.additionalFee.toString(),
+    })),
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * 文件存储服务
+ * ============================================================
+ *
+ * 【分层】
+ * - types.ts：StorageDriver 接口（每种存储方式要实现的方法）
+ * - local.ts：本地磁盘存储（默认）
+ * - index.ts（当前文件）：按配置选择存储驱动
+ *
+ * 【使用方式】
+ * import { getStorage } from '@/lib/storage'
+ *
+ * const url = await getStorage().put({ key, body, contentType })
+ */
+
+import { localStorageDriver } from './local'
+import { StorageError, type StorageDriver } from './types'
+
+export * from './types'
+
+/**
+ * 已注册的存储驱动
+ * 接入 S3 兼容的对象存储时，实现 StorageDriver 接口并在这里注册即可
+ */
+const drivers: Record<string, StorageDriver> = {
+  [localStorageDriver.name]: localStorageDriver,
+}
+
+// 默认存储驱动，可通过环境变量 STORAGE_DRIVER 切换
+const DEFAULT_DRIVER = process.env.STORAGE_DRIVER || 'local'
+
+/**
+ * 获取存储驱动
+ * @throws StorageError 驱动未注册时抛出
+ */
+export function getStorage(name: string = DEFAULT_DRIVER): StorageDriver {
+  const driver = drivers[name]
+  if (!driver) {
+    throw new StorageError(`未知的存储驱动：${name}`)
+  }
+  return driver
+}
@@ -0,0 +1,49 @@
+/**
+ * 本地磁盘存储
+ * ============================================================
+ *
+ * 文件保存在 public/uploads 目录下，Next.js 会把 public 目录作为静态文件对外提供，
+ * 所以 public/uploads/products/a.webp 的访问地址就是 /uploads/products/a.webp。
+ *
+ * 【注意】
+ * - 只适合开发环境和单台服务器部署：多台服务器之间的磁盘不共享，
+ *   Serverless 平台（如 Vercel）的磁盘是只读或临时的
+ * - 生产环境（next start）只会提供构建时已经存在的 public 文件，
+ *   运行中上传的文件需要由 Nginx 等直接提供，或者换成对象存储
+ * - public/uploads 已加入 .gitignore，上传的文件不会提交到仓库
+ */
+
+import { mkdir, rm, writeFile } from 'fs/promises'
+import path from 'path'
+import { StorageError, type StorageDriver } from './types'
+
+// 本地存储的根目录和对应的访问地址前缀
+const UPLOAD_ROOT = path.join(process.cwd(), 'public', 'uploads')
+const PUBLIC_PATH = '/uploads'
+
+/**
+ * 文件路径转成磁盘上的绝对路径
+ * 防止 "../" 之类的路径写到上传目录之外
+ */
+function resolveKey(key: string): string {
+  const filePath = path.resolve(UPLOAD_ROOT, key)
+  if (!filePath.startsWith(UPLOAD_ROOT + path.sep)) {
+    throw new StorageError(`无效的文件路径：${key}`)
+  }
+  return filePath
+}
+
+export const localStorageDriver: StorageDriver = {
+  name: 'local',
+
+  async put({ key, body }) {
+    const filePath = resolveKey(key)
+    await mkdir(path.dirname(filePath), { recursive: true })
+    await writeFile(filePath, body)
+    return `${PUBLIC_PATH}/${key}`
+  },
+
+  async delete(key) {
+    await rm(resolveKey(key), { force: true })
+  },
+}
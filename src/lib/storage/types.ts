@@ -0,0 +1,49 @@
+/**
+ * 文件存储抽象
+ * ============================================================
+ *
+ * 【为什么要定义一个接口？】
+ * 开发时图片直接保存在本地磁盘（public/uploads）就够了；
+ * 部署到多台服务器或 Serverless 环境后，本地磁盘不再可靠，要换成
+ * S3、阿里云 OSS、腾讯云 COS 这类对象存储。
+ *
+ * 业务代码（上传商品图片等）只依赖 StorageDriver 这个"形状"，
+ * 接入对象存储时实现这几个方法并在 lib/storage/index.ts 注册即可，
+ * 和支付渠道的做法一样（见 lib/payment/types.ts）。
+ */
+
+/**
+ * 保存文件的参数
+ */
+export type PutObjectInput = {
+  key: string          // 文件路径，如 "products/2026/10/xxx.webp"
+  body: Buffer         // 文件内容
+  contentType: string  // MIME 类型，如 "image/webp"
+}
+
+/**
+ * 存储驱动接口
+ * 每种存储方式（local、s3……）都实现这个接口
+ */
+export type StorageDriver = {
+  name: string
+  /**
+   * 保存文件
+   * @returns 文件的访问地址（浏览器可以直接打开）
+   */
+  put: (input: PutObjectInput) => Promise<string>
+  /**
+   * 删除文件（文件不存在时不报错）
+   */
+  delete: (key: string) => Promise<void>
+}
+
+/**
+ * 存储错误（驱动未注册、写入失败等）
+ */
+export class StorageError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'StorageError'
+  }
+}
@@ -6,6 +6,9 @@
  * 这些函数与业务逻辑无关，可以在前后端共用。
  */
 
+import { convertMoney, toCents, type MoneyValue } from '@/lib/money'
+import { BASE_DISPLAY_CURRENCY, CURRENCIES, type DisplayCurrency } from '@/lib/currency-format'
+
 /**
  * 合并 CSS 类名（简化版）
  *
@@ -26,41 +29,27 @@ export function cn(...classes: (string | undefined | null | false)[]): string {
  * 【为什么需要这个函数？】
  * 数据库中存储的价格是 Decimal 类型（如 199.00），
  * 显示给用户时需要加上货币符号和千分位格式化。
+ * 先按 lib/money.ts 的规则四舍五入到分，再格式化，
+ * 所以 "1.005" 显示为 ¥1.01，而不是浮点误差导致的 ¥1.00。
+ *
+ * 【其他币种】
+ * 传入显示币种和汇率时，先把人民币金额按汇率换算，再按该币种所在地区的格式显示。
+ * 客户端组件一般不直接传这个参数，而是使用 <Price> 组件（读取用户选择的币种）。
  *
- * @param price - 价格数值（number 或 string 类型都支持）
+ * @param price - 人民币价格（number、string 或 Prisma.Decimal 都支持）
+ * @param display - 显示币种和汇率，默认人民币
  * @returns 格式化后的价格字符串，如 "¥199.00"
  *
  * @example
  * formatPrice(1999.5)  // "¥1,999.50"
  * formatPrice("99")    // "¥99.00"
+ * formatPrice("100", { currency: 'HKD', rate: '1.085' }) // "HK$108.50"
  */
-export function formatPrice(price: number | string): string {
-  const num = typeof price === 'string' ? parseFloat(price) : price
-  return new Intl.NumberFormat('zh-CN', {
+export function formatPrice(price: MoneyValue, display: DisplayCurrency = BASE_DISPLAY_CURRENCY): string {
+  return new Intl.NumberFormat(CURRENCIES[display.currency].locale, {
     style: 'currency',
-    currency: 'CNY',
-  }).format(num)
-}
-
-/**
- * 生成订单编号
- *
- * 【生成规则】
- * ORD + 年月日 + 6位随机数
- * 例如：ORD20240315123456
- *
- * 【注意】
- * 在高并发场景下，这种方式可能会重复。
- * 生产环境建议使用：雪花算法（Snowflake）或数据库自增序列。
- * 这里为了学习简单，使用时间戳 + 随机数。
- */
-export function generateOrderNo(): string {
-  const now = new Date()
-  const dateStr = now.toISOString().slice(0, 10).replace(/-/g, '') // 20240315
-  const random = Math.floor(Math.random() * 1000000)
-    .toString()
-    .padStart(6, '0') // 6位随机数
-  return `ORD${dateStr}${random}`
+    currency: display.currency,
+  }).format(toCents(convertMoney(price, display.rate)) / 100)
 }
 
 /**
@@ -24,6 +24,9 @@
  */
 
 import { z } from 'zod'
+import { MAX_AFTER_SALE_IMAGES } from '@/lib/after-sale-status'
+import { MAX_PRODUCT_IMAGES } from '@/lib/product-image-url'
+import { CARRIER_LABELS } from '@/lib/shipment-status'
 
 // ==================== 用户认证相关 ====================
 
@@ -87,16 +90,99 @@ export const productSchema = z.object({
     .number()
     .int('库存必须是整数')
     .min(0, '库存不能为负数'),
+  weight: z
+    .number()
+    .int('重量必须是整数（克）')
+    .min(0, '重量不能为负数')
+    .optional(),
   categoryId: z
     .number()
     .int()
     .positive('请选择商品分类'),
+  // 商品图片（按顺序，第一张是封面）：上传后得到的地址，或手动填写的外部图片地址
   images: z
-    .string()
-    .min(1, '请上传至少一张商品图片'),
+    .array(
+      z.object({
+        url: z
+          .string()
+          .trim()
+          .max(500, '图片地址最多500个字符')
+          .regex(/^(https?:\/\/|\/)/, '图片地址无效'),
+        thumbnailUrl: z.string().max(500).nullable().optional(),
+        alt: z.string().trim().max(100, '图片描述最多100个字符').optional(),
+      })
+    )
+    .min(1, '请上传至少一张商品图片')
+    .max(MAX_PRODUCT_IMAGES, `最多${MAX_PRODUCT_IMAGES}张商品图片`),
   isActive: z.boolean().optional(),
 })
 
+/**
+ * 商品规格验证规则（规格项 + 规格组合）
+ *
+ * 规格组合的取值是否都在规格项的可选值中、组合是否重复，
+ * 在保存时校验（lib/variant.ts 的 saveProductVariants）。
+ * options 传空数组表示取消规格，商品恢复按自身的价格和库存出售。
+ */
+export const productVariantsSchema = z
+  .object({
+    options: z
+      .array(
+        z.object({
+          name: z.string().trim().min(1, '请输入规格名').max(20, '规格名最多20个字符'),
+          values: z
+            .array(z.string().trim().min(1, '规格值不能为空').max(30, '规格值最多30个字符'))
+            .min(1, '每个规格至少要有一个可选值'),
+        })
+      )
+      .max(3, '最多3个规格项'),
+    variants: z
+      .array(
+        z.object({
+          options: z.record(z.string(), z.string()),
+          price: z
+            .number()
+            .positive('规格价格必须大于0')
+            .max(99999999.99, '价格超出范围'),
+          stock: z
+            .number()
+            .int('库存必须是整数')
+            .min(0, '库存不能为负数'),
+          sku: z.string().trim().max(64, '商家编码最多64个字符').optional(),
+          image: z.string().trim().max(500, '图片地址过长').optional(),
+        })
+      )
+      .max(200, '规格组合最多200个'),
+  })
+  .refine((data) => new Set(data.options.map((o) => o.name)).size === data.options.length, {
+    message: '规格名不能重复',
+    path: ['options'],
+  })
+  .refine((data) => data.options.every((o) => new Set(o.values).size === o.values.length), {
+    message: '同一规格的可选值不能重复',
+    path: ['options'],
+  })
+  .refine((data) => data.options.length === 0 || data.variants.length > 0, {
+    message: '请至少保留一个规格组合',
+    path: ['variants'],
+  })
+
+/**
+ * 商品属性值验证规则
+ *
+ * 属性是否属于商品所在的分类、值是否符合属性类型（数字、可选值），
+ * 在保存时校验（lib/product-attribute.ts 的 saveProductAttributes）。
+ * 值为空字符串表示不填写该属性。
+ */
+export const productAttributesSchema = z
+  .array(
+    z.object({
+      attributeId: z.number().int().positive('无效的商品属性'),
+      value: z.string().trim().max(200, '属性值最多200个字符'),
+    })
+  )
+  .max(100, '商品属性最多100个')
+
 // ==================== 购物车相关 ====================
 
 /**
@@ -104,6 +190,8 @@ export const productSchema = z.object({
  */
 export const addToCartSchema = z.object({
   productId: z.number().int().positive('无效的商品ID'),
+  // 有规格的商品必须选择规格组合
+  variantId: z.number().int().positive('无效的商品规格').optional(),
   quantity: z.number().int().min(1, '数量至少为1').max(99, '数量最多99'),
 })
 
@@ -121,6 +209,258 @@ export const updateCartSchema = z.object({
  */
 export const createOrderSchema = z.object({
   addressId: z.number().int().positive('请选择收货地址'),
+  // 部分结算：只结算这些购物车商品，不传则结算整个购物车
+  cartItemIds: z.array(z.number().int().positive()).min(1, '请选择要结算的商品').optional(),
+  // 立即购买：只结算这一件商品，不经过购物车（购物车保持不变）
+  buyNow: addToCartSchema.optional(),
+  // 使用的优惠券（券包中的 UserCoupon ID）
+  userCouponId: z.number().int().positive('无效的优惠券').optional(),
+  // 下单时选择的显示币种（只做快照，订单仍以人民币结算）
+  currency: z.string().max(3).optional(),
+})
+
+// ==================== 发货相关 ====================
+
+const carrierField = z
+  .string()
+  .refine((carrier) => Object.hasOwn(CARRIER_LABELS, carrier), '请选择快递公司')
+
+const trackingNoField = z
+  .string()
+  .trim()
+  .min(1, '请输入快递单号')
+  .max(50, '快递单号最多50个字符')
+  .regex(/^[A-Za-z0-9-]+$/, '快递单号只能包含字母、数字和连字符')
+
+/**
+ * 发货验证规则（管理员）
+ * items 不传时发出所有未发货的商品
+ */
+export const createShipmentSchema = z.object({
+  carrier: carrierField,
+  trackingNo: trackingNoField,
+  items: z
+    .array(
+      z.object({
+        orderItemId: z.number().int().positive('无效的订单商品'),
+        quantity: z.number().int().min(1, '发货数量至少为1'),
+      })
+    )
+    .min(1, '请选择要发货的商品')
+    .optional(),
+})
+
+/**
+ * 物流轨迹验证规则（API 推送和 CSV 导入共用）
+ * occurredAt 使用 z.coerce.date()，可以接受 ISO 字符串或 "2024-01-01 12:00:00" 格式
+ */
+export const trackingEventSchema = z.object({
+  carrier: carrierField,
+  trackingNo: trackingNoField,
+  status: z.enum(['PICKED_UP', 'IN_TRANSIT', 'OUT_FOR_DELIVERY', 'DELIVERED', 'EXCEPTION'], {
+    message: '无效的轨迹状态',
+  }),
+  description: z.string().trim().min(1, '请输入轨迹描述').max(255, '轨迹描述最多255个字符'),
+  location: z.string().trim().max(100, '地点最多100个字符').optional(),
+  occurredAt: z.coerce.date({ message: '无效的轨迹时间' }),
+})
+
+// ==================== 售后相关 ====================
+
+/**
+ * 申请售后验证规则
+ * amount 不传时按实付金额分摊到申请数量的部分全额退款
+ */
+export const afterSaleSchema = z.object({
+  orderItemId: z.number().int().positive('请选择售后商品'),
+  type: z.enum(['REFUND_ONLY', 'RETURN_REFUND'], { message: '请选择售后类型' }),
+  quantity: z.number().int().min(1, '数量至少为1'),
+  amount: z
+    .number()
+    .positive('退款金额必须大于0')
+    .multipleOf(0.01, '退款金额最多两位小数')
+    .optional(),
+  reason: z.string().min(1, '请填写申请原因').max(500, '申请原因最多500个字符'),
+  images: z
+    .array(z.string().url('图片地址无效'))
+    .max(MAX_AFTER_SALE_IMAGES, `最多上传${MAX_AFTER_SALE_IMAGES}张图片`)
+    .optional(),
+})
+
+/**
+ * 审核售后验证规则（管理员）
+ * - approve：同意并退款，可以用 amount 调低退款金额
+ * - reject：拒绝，必须填写 note 说明原因
+ * - refund：退款失败后重试
+ */
+export const reviewAfterSaleSchema = z.object({
+  action: z.enum(['approve', 'reject', 'refund'], { message: '无效的操作' }),
+  amount: z
+    .number()
+    .positive('退款金额必须大于0')
+    .multipleOf(0.01, '退款金额最多两位小数')
+    .optional(),
+  note: z.string().max(500, '备注最多500个字符').optional(),
+})
+
+// ==================== 运费相关 ====================
+
+const shippingFeeField = z
+  .number()
+  .min(0, '运费不能为负数')
+  .max(99999999.99, '运费超出范围')
+  .multipleOf(0.01, '运费最多两位小数')
+
+/**
+ * 运费规则验证规则
+ * provinces 为空数组表示默认规则（适用于其他省份）
+ */
+export const shippingRuleSchema = z.object({
+  provinces: z.array(z.string().trim().min(1)).max(40, '省份过多'),
+  firstUnit: z.number().int().min(1, '首重/首件至少为1'),
+  firstFee: shippingFeeField,
+  additionalUnit: z.number().int().min(1, '续重/续件至少为1'),
+  additionalFee: shippingFeeField,
+})
+
+/**
+ * 运费模板验证规则（管理员）
+ */
+export const shippingTemplateSchema = z.object({
+  name: z.string().trim().min(1, '请输入模板名称').max(50, '模板名称最多50个字符'),
+  chargeType: z.enum(['WEIGHT', 'ITEM_COUNT'], { message: '请选择计费方式' }),
+  freeThreshold: shippingFeeField.nullable().optional(),
+  isActive: z.boolean().optional(),
+  rules: z
+    .array(shippingRuleSchema)
+    .min(1, '至少添加一条运费规则')
+    .refine(
+      (rules) => rules.filter((rule) => rule.provinces.length === 0).length <= 1,
+      '只能有一条默认规则'
+    ),
+})
+
+// ==================== 优惠券相关 ====================
+
+const couponAmountField = z
+  .number()
+  .positive('金额必须大于0')
+  .max(99999999.99, '金额超出范围')
+  .multipleOf(0.01, '金额最多两位小数')
+
+/**
+ * 优惠券验证规则（管理员创建）
+ * - 满减券 value 是减免金额；折扣券 value 是减免百分比（1 ~ 99）
+ * - 指定分类 / 指定商品时必须选择适用的分类 / 商品
+ */
+export const couponSchema = z
+  .object({
+    name: z.string().trim().min(1, '请输入优惠券名称').max(50, '优惠券名称最多50个字符'),
+    type: z.enum(['FIXED_AMOUNT', 'PERCENTAGE'], { message: '请选择优惠券类型' }),
+    value: couponAmountField,
+    maxDiscount: couponAmountField.nullable().optional(),
+    minSpend: z.number().min(0, '使用门槛不能为负数').multipleOf(0.01, '金额最多两位小数').optional(),
+    scope: z.enum(['ALL', 'CATEGORY', 'PRODUCT'], { message: '请选择适用范围' }),
+    categoryIds: z.array(z.number().int().positive()).optional(),
+    productIds: z.array(z.number().int().positive()).optional(),
+    startsAt: z.coerce.date({ message: '无效的开始时间' }),
+    endsAt: z.coerce.date({ message: '无效的结束时间' }),
+    totalLimit: z.number().int().min(1, '发放总量至少为1').nullable().optional(),
+    perUserLimit: z.number().int().min(1, '每人限领至少为1').optional(),
+    isActive: z.boolean().optional(),
+  })
+  .refine((data) => data.type !== 'PERCENTAGE' || data.value < 100, {
+    message: '折扣券的减免百分比必须小于100',
+    path: ['value'],
+  })
+  .refine((data) => data.endsAt > data.startsAt, {
+    message: '结束时间必须晚于开始时间',
+    path: ['endsAt'],
+  })
+  .refine((data) => data.scope !== 'CATEGORY' || (data.categoryIds?.length ?? 0) > 0, {
+    message: '请选择适用的分类',
+    path: ['categoryIds'],
+  })
+  .refine((data) => data.scope !== 'PRODUCT' || (data.productIds?.length ?? 0) > 0, {
+    message: '请选择适用的商品',
+    path: ['productIds'],
+  })
+
+// ==================== 促销活动相关 ====================
+
+/**
+ * 促销活动验证规则（管理员创建）
+ * - 满减：需要门槛和减免金额
+ * - 分类折扣：需要减免百分比（1 ~ 99）和适用分类
+ * - 买 X 送 Y：需要 X、Y 和适用商品
+ */
+export const promotionSchema = z
+  .object({
+    name: z.string().trim().min(1, '请输入活动名称').max(50, '活动名称最多50个字符'),
+    type: z.enum(['SPEND_AND_SAVE', 'CATEGORY_DISCOUNT', 'BUY_X_GET_Y'], { message: '请选择活动类型' }),
+    threshold: couponAmountField.optional(),
+    amount: couponAmountField.optional(),
+    percentOff: z.number().min(1, '减免百分比至少为1').max(99, '减免百分比最多为99').multipleOf(0.01).optional(),
+    buyQuantity: z.number().int().min(1, '购买件数至少为1').optional(),
+    freeQuantity: z.number().int().min(1, '赠送件数至少为1').optional(),
+    categoryIds: z.array(z.number().int().positive()).optional(),
+    productIds: z.array(z.number().int().positive()).optional(),
+    startsAt: z.coerce.date({ message: '无效的开始时间' }),
+    endsAt: z.coerce.date({ message: '无效的结束时间' }),
+    isActive: z.boolean().optional(),
+  })
+  .refine((data) => data.endsAt > data.startsAt, {
+    message: '结束时间必须晚于开始时间',
+    path: ['endsAt'],
+  })
+  .refine((data) => data.type !== 'SPEND_AND_SAVE' || (data.threshold && data.amount), {
+    message: '请输入满减门槛和减免金额',
+    path: ['amount'],
+  })
+  .refine((data) => data.type !== 'SPEND_AND_SAVE' || !data.threshold || !data.amount || data.amount <= data.threshold, {
+    message: '减免金额不能超过门槛',
+    path: ['amount'],
+  })
+  .refine((data) => data.type !== 'CATEGORY_DISCOUNT' || (data.percentOff && (data.categoryIds?.length ?? 0) > 0), {
+    message: '请输入减免百分比并选择适用的分类',
+    path: ['categoryIds'],
+  })
+  .refine((data) => data.type !== 'BUY_X_GET_Y' || (data.buyQuantity && data.freeQuantity && (data.productIds?.length ?? 0) > 0), {
+    message: '请输入买几送几并选择适用的商品',
+    path: ['productIds'],
+  })
+
+// ==================== 秒杀活动相关 ====================
+
+/**
+ * 秒杀活动验证规则（管理员创建）
+ */
+export const flashSaleSchema = z
+  .object({
+    productId: z.number().int().positive('请选择商品'),
+    salePrice: couponAmountField,
+    saleStock: z.number().int().min(1, '活动库存至少为1'),
+    perUserLimit: z.number().int().min(1, '每人限购至少为1'),
+    startsAt: z.coerce.date({ message: '无效的开始时间' }),
+    endsAt: z.coerce.date({ message: '无效的结束时间' }),
+  })
+  .refine((data) => data.endsAt > data.startsAt, {
+    message: '结束时间必须晚于开始时间',
+    path: ['endsAt'],
+  })
+
+// ==================== 汇率相关 ====================
+
+/**
+ * 汇率验证规则（管理员设置，币种在 URL 中）
+ * rate 表示 1 人民币可以换多少单位的该币种（数据库保留六位小数）
+ */
+export const exchangeRateSchema = z.object({
+  rate: z
+    .number()
+    .positive('汇率必须大于0')
+    .max(999999, '汇率超出范围'),
+  isActive: z.boolean().optional(),
 })
 
 // ==================== 收货地址相关 ====================
@@ -152,6 +492,56 @@ export const categorySchema = z.object({
     .min(1, '请输入分类标识')
     .regex(/^[a-z0-9-]+$/, '标识只能包含小写字母、数字和连字符'),
   image: z.string().optional(),
+  // 上级分类，为空时是顶级分类（只在创建时使用，之后通过拖拽移动）
+  parentId: z.number().int().positive('无效的上级分类').nullable().optional(),
+})
+
+/**
+ * 分类属性验证规则
+ *
+ * 枚举类型必须有可选值；其他类型的可选值会被忽略。
+ */
+export const categoryAttributeSchema = z
+  .object({
+    name: z.string().trim().min(1, '请输入属性名').max(50, '属性名最多50个字符'),
+    type: z.enum(['TEXT', 'NUMBER', 'ENUM'], { message: '请选择属性类型' }),
+    unit: z.string().trim().max(20, '单位最多20个字符').optional(),
+    options: z
+      .array(z.string().trim().min(1, '可选值不能为空').max(50, '可选值最多50个字符'))
+      .max(100, '可选值最多100个')
+      .optional(),
+    isFilterable: z.boolean().optional(),
+    sortOrder: z.number().int().min(0, '排序不能为负数').optional(),
+  })
+  .refine((data) => data.type !== 'ENUM' || (data.options?.length ?? 0) > 0, {
+    message: '枚举类型至少要有一个可选值',
+    path: ['options'],
+  })
+  .refine((data) => new Set(data.options ?? []).size === (data.options?.length ?? 0), {
+    message: '可选值不能重复',
+    path: ['options'],
+  })
+
+/**
+ * 移动分类验证规则（后台拖拽调整层级和顺序）
+ *
+ * index 是移动后在新的同级分类中的位置（从 0 开始，不算被移动的分类本身）
+ */
+export const moveCategorySchema = z.object({
+  parentId: z.number().int().positive('无效的上级分类').nullable(),
+  index: z.number().int().min(0, '无效的位置'),
+})
+
+/**
+ * 删除分类验证规则
+ *
+ * 分类下有子分类或商品时，必须选择把它们移到哪里：
+ * - childrenParentId：子分类的新上级分类，null 表示移为顶级分类
+ * - productsCategoryId：商品的新分类
+ */
+export const deleteCategorySchema = z.object({
+  childrenParentId: z.number().int().positive('无效的分类').nullable().optional(),
+  productsCategoryId: z.number().int().positive('无效的分类').optional(),
 })
 
 // ==================== 导出类型 ====================
@@ -161,8 +551,22 @@ export const categorySchema = z.object({
 export type LoginInput = z.infer<typeof loginSchema>
 export type RegisterInput = z.infer<typeof registerSchema>
 export type ProductInput = z.infer<typeof productSchema>
+export type ProductVariantsInput = z.infer<typeof productVariantsSchema>
+export type ProductAttributesInput = z.infer<typeof productAttributesSchema>
 export type AddToCartInput = z.infer<typeof addToCartSchema>
 export type UpdateCartInput = z.infer<typeof updateCartSchema>
 export type CreateOrderInput = z.infer<typeof createOrderSchema>
+export type CreateShipmentInput = z.infer<typeof createShipmentSchema>
+export type TrackingEventInput = z.infer<typeof trackingEventSchema>
+export type AfterSaleInput = z.infer<typeof afterSaleSchema>
+export type ReviewAfterSaleInput = z.infer<typeof reviewAfterSaleSchema>
+export type CouponInput = z.infer<typeof couponSchema>
+export type PromotionInput = z.infer<typeof promotionSchema>
+export type FlashSaleInput = z.infer<typeof flashSaleSchema>
+export type ExchangeRateInput = z.infer<typeof exchangeRateSchema>
+export type ShippingTemplateInput = z.infer<typeof shippingTemplateSchema>
 export type AddressInput = z.infer<typeof addressSchema>
 export type CategoryInput = z.infer<typeof categorySchema>
+export type CategoryAttributeInput = z.infer<typeof categoryAttributeSchema>
+export type MoveCategoryInput = z.infer<typeof moveCategorySchema>
+export type DeleteCategoryInput = z.infer<typeof deleteCategorySchema>
@@ -0,0 +1,71 @@
+/**
+ * 商品规格相关定义（前后端共用）
+ * ============================================================
+ *
+ * 规格项（如 颜色、尺码）和规格组合（SKU）的展示结构，以及规格组合的命名、查找。
+ * 规格的保存和库存扣减在服务端（lib/variant.ts）。
+ */
+
+/**
+ * 规格项，如 { name: '颜色', values: ['黑色', '白色'] }
+ */
+export type ProductOptionView = {
+  name: string
+  values: string[]
+}
+
+/**
+ * 规格组合（金额为字符串）
+ */
+export type ProductVariantView = {
+  id: number
+  sku: string | null
+  name: string                     // 如 "黑色 / M"
+  options: Record<string, string>  // 如 { 颜色: '黑色', 尺码: 'M' }
+  price: string
+  stock: number
+  image: string | null
+}
+
+/**
+ * 规格组合的名称：各规格值按规格项的顺序拼接
+ *
+ * @example
+ * variantNameOf([{ name: '颜色', values: [...] }, { name: '尺码', values: [...] }], { 尺码: 'M', 颜色: '黑色' })
+ * // '黑色 / M'
+ */
+export function variantNameOf(
+  options: Pick<ProductOptionView, 'name'>[],
+  selection: Record<string, string>
+): string {
+  return options.map((option) => selection[option.name]).join(' / ')
+}
+
+/**
+ * 所有规格值的组合（笛卡尔积），后台商品表单据此生成规格矩阵
+ *
+ * @example
+ * combineOptions([{ name: '颜色', values: ['黑色', '白色'] }, { name: '尺码', values: ['S', 'M'] }])
+ * // [{ 颜色: '黑色', 尺码: 'S' }, { 颜色: '黑色', 尺码: 'M' }, { 颜色: '白色', 尺码: 'S' }, { 颜色: '白色', 尺码: 'M' }]
+ */
+export function combineOptions(options: ProductOptionView[]): Record<string, string>[] {
+  return options.reduce<Record<string, string>[]>(
+    (combinations, option) =>
+      combinations.flatMap((combination) =>
+        option.values.map((value) => ({ ...combination, [option.name]: value }))
+      ),
+    [{}]
+  )
+}
+
+/**
+ * 按选中的规格值查找规格组合，还没选完或该组合不存在时返回 undefined
+ */
+export function findVariant<V extends Pick<ProductVariantView, 'options'>>(
+  variants: V[],
+  selection: Record<string, string>
+): V | undefined {
+  return variants.find((variant) =>
+    Object.entries(variant.options).every(([name, value]) => selection[name] === value)
+  )
+}
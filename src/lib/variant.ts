@@ -0,0 +1,232 @@
+/**
+ * 商品规格（服务端）
+ * ============================================================
+ *
+ * 【数据结构】
+ * - ProductOption：规格项及其可选值，如 颜色：黑色 / 白色，尺码：S / M / L
+ * - ProductVariant：规格组合（SKU），如 "黑色 / M"，有自己的价格、库存和图片
+ *
+ * 【流程】
+ * 1. 管理员在商品表单中编辑规格项和规格矩阵（saveProductVariants）
+ * 2. 商品详情页选择规格后加入购物车 / 立即购买，购物车项和订单商品项都记录 variantId
+ * 3. 购物车、结算和下单时，有规格的商品按规格组合的价格和库存计算（applyVariants）
+ * 4. 下单扣减、取消归还的是规格组合的库存（lib/order.ts 的 reserveStock / releaseStock）
+ *
+ * 【Product 上的 price / stock 还有用吗？】
+ * 有。保存规格时把 Product.price 设为最低的规格价、Product.stock 设为规格库存之和，
+ * 下单和取消时两边同时扣减、归还，商品列表、秒杀、促销等只看 Product 的地方不需要改动。
+ *
+ * 【使用方式】
+ * import { applyVariants, saveProductVariants } from '@/lib/variant'
+ */
+
+import { prisma } from '@/lib/prisma'
+import {
+  Prisma,
+  type Product,
+  type ProductOption,
+  type ProductVariant,
+} from '@/generated/prisma/client'
+import {
+  variantNameOf,
+  type ProductOptionView,
+  type ProductVariantView,
+} from '@/lib/variant-options'
+import type { ProductVariantsInput } from '@/lib/validators'
+
+/**
+ * 商品规格业务错误（规格矩阵不合法、规格已停售等，API 路由据此返回 400）
+ */
+export class ProductVariantError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ProductVariantError'
+  }
+}
+
+/**
+ * 带规格组合的商品行（购物车项、结算商品）
+ */
+type VariantLine = {
+  product: Pick<Product, 'price' | 'stock'>
+  variant: Pick<ProductVariant, 'price' | 'stock'> | null
+}
+
+/**
+ * 有规格的商品改用规格组合的价格和库存
+ *
+ * 之后的库存检查、秒杀、促销、价格快照都按规格组合计算，不需要再区分有没有规格。
+ */
+export function applyVariants<L extends VariantLine>(lines: L[]): L[] {
+  return lines.map((line) => {
+    if (!line.variant) return line
+    return {
+      ...line,
+      product: { ...line.product, price: line.variant.price, stock: line.variant.stock },
+    }
+  })
+}
+
+/**
+ * 查找要加入购物车的规格组合
+ *
+ * @returns 没有规格的商品返回 null
+ * @throws ProductVariantError 有规格的商品没有选择规格，或选择的规格已停售时抛出
+ */
+export async function findPurchasableVariant(
+  productId: number,
+  variantId?: number
+): Promise<ProductVariant | null> {
+  if (variantId) {
+    const variant = await prisma.productVariant.findFirst({
+      where: { id: variantId, productId, isActive: true },
+    })
+    if (!variant) {
+      throw new ProductVariantError('该规格已停售，请重新选择')
+    }
+    return variant
+  }
+
+  const count = await prisma.productVariant.count({ where: { productId, isActive: true } })
+  if (count > 0) {
+    throw new ProductVariantError('请选择商品规格')
+  }
+  return null
+}
+
+/**
+ * 保存商品规格（管理员，必须在事务中，和商品信息一起保存）
+ *
+ * - 规格项整体替换
+ * - 规格组合按名称（如 "黑色 / M"）匹配：已有的更新价格和库存，新的创建，
+ *   不再出现的停用（历史订单仍然引用）
+ * - 购物车中已停用规格和没有选规格的该商品一并移除
+ * - 商品价格更新为最低的规格价，库存更新为规格库存之和
+ *
+ * options 为空数组时取消规格：停用全部规格组合，商品按自身的价格和库存出售。
+ *
+ * @throws ProductVariantError 规格组合的取值不在可选值中、组合重复、商家编码重复时抛出
+ */
+export async function saveProductVariants(
+  tx: Prisma.TransactionClient,
+  productId: number,
+  input: ProductVariantsInput
+) {
+  const existing = await tx.productVariant.findMany({ where: { productId } })
+
+  await tx.productOption.deleteMany({ where: { productId } })
+
+  if (input.options.length === 0) {
+    await tx.productVariant.updateMany({ where: { productId }, data: { isActive: false } })
+    await tx.cartItem.deleteMany({ where: { productId, variantId: { not: null } } })
+    return
+  }
+
+  // 校验每个规格组合的取值，算出组合名称
+  const names = new Set<string>()
+  const variants = input.variants.map((variant) => {
+    for (const option of input.options) {
+      const value = variant.options[option.name]
+      if (value === undefined || !option.values.includes(value)) {
+        throw new ProductVariantError(`规格组合缺少"${option.name}"或取值不在可选值中`)
+      }
+    }
+    if (Object.keys(variant.options).length !== input.options.length) {
+      throw new ProductVariantError('规格组合包含不存在的规格项')
+    }
+    const name = variantNameOf(input.options, variant.options)
+    if (names.has(name)) {
+      throw new ProductVariantError(`规格组合"${name}"重复`)
+    }
+    names.add(name)
+    return { ...variant, name, sku: variant.sku || null, image: variant.image || null }
+  })
+
+  // 商家编码全局唯一，提前检查给出明确的提示
+  const skus = variants.flatMap((variant) => (variant.sku ? [variant.sku] : []))
+  if (new Set(skus).size !== skus.length) {
+    throw new ProductVariantError('商家编码不能重复')
+  }
+  const taken = await tx.productVariant.findFirst({
+    where: { sku: { in: skus }, productId: { not: productId } },
+  })
+  if (taken) {
+    throw new ProductVariantError(`商家编码 ${taken.sku} 已被其他商品使用`)
+  }
+
+  await tx.productOption.createMany({
+    data: input.options.map((option, index) => ({
+      productId,
+      name: option.name,
+      values: JSON.stringify(option.values),
+      sortOrder: index,
+    })),
+  })
+
+  // 先清空本商品规格的商家编码，避免规格之间互换编码时触发唯一约束
+  await tx.productVariant.updateMany({ where: { productId }, data: { sku: null } })
+
+  const keptIds: number[] = []
+  for (const variant of variants) {
+    const data = {
+      name: variant.name,
+      options: JSON.stringify(variant.options),
+      price: variant.price,
+      stock: variant.stock,
+      sku: variant.sku,
+      image: variant.image,
+      isActive: true,
+    }
+    const match = existing.find((v) => v.name === variant.name)
+    if (match) {
+      await tx.productVariant.update({ where: { id: match.id }, data })
+      keptIds.push(match.id)
+    } else {
+      const created = await tx.productVariant.create({ data: { ...data, productId } })
+      keptIds.push(created.id)
+    }
+  }
+
+  await tx.productVariant.updateMany({
+    where: { productId, id: { notIn: keptIds } },
+    data: { isActive: false },
+  })
+  await tx.cartItem.deleteMany({
+    where: {
+      productId,
+      OR: [{ variantId: null }, { variantId: { notIn: keptIds } }],
+    },
+  })
+
+  await tx.product.update({
+    where: { id: productId },
+    data: {
+      price: Prisma.Decimal.min(...variants.map((variant) => variant.price)),
+      stock: variants.reduce((sum, variant) => sum + variant.stock, 0),
+    },
+  })
+}
+
+/**
+ * 规格项转成展示用的结构（可选值是 JSON 字符串）
+ */
+export function toOptionViews(options: ProductOption[]): ProductOptionView[] {
+  return [...options]
+    .sort((a, b) => a.sortOrder - b.sortOrder)
+    .map((option) => ({ name: option.name, values: JSON.parse(option.values) }))
+}
+
+/**
+ * 规格组合转成展示用的结构（Decimal 转字符串，取值是 JSON 字符串）
+ */
+export function toVariantView(variant: ProductVariant): ProductVariantView {
+  return {
+    id: variant.id,
+    sku: variant.sku,
+    name: variant.name,
+    options: JSON.parse(variant.options),
+    price: variant.price.toString(),
+    stock: variant.stock,
+    image: variant.image,
+  }
+}
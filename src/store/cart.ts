@@ -18,6 +18,10 @@
  * 1. 先调用 API 存入数据库（持久化）
  * 2. 同时更新 Zustand 状态（UI 实时更新）
  *
+ * 【勾选结算】
+ * 购物车页面可以勾选要结算的商品（selectedIds），没勾选的商品下单后仍留在购物车。
+ * totalPrice 只统计勾选的商品；新加入购物车的商品默认勾选。
+ *
  * 【使用方式】
  * import { useCartStore } from '@/store/cart'
  *
@@ -28,39 +32,55 @@
  */
 
 import { create } from 'zustand'
+import { sumLineAmounts } from '@/lib/money'
+import type { ProductImageView } from '@/lib/product-image-url'
 
 // ---- 类型定义 ----
 
 type CartProduct = {
   id: number
   name: string
-  price: string
+  price: string                 // 实际售价（秒杀商品为秒杀价）
+  originalPrice?: string | null // 秒杀商品的原价
   stock: number
-  images: string
+  images: ProductImageView[]    // 只有封面图
+}
+
+// 购物车项选择的规格组合（价格、库存已经体现在 product 上）
+type CartVariant = {
+  id: number
+  name: string          // 如 "黑色 / M"
+  image: string | null
 }
 
 type CartItem = {
   id: number
   quantity: number
   product: CartProduct
+  variant: CartVariant | null
 }
 
 // Store 的类型定义（包含状态和方法）
 type CartStore = {
   // ---- 状态 ----
   items: CartItem[]         // 购物车商品列表
+  selectedIds: number[]     // 勾选要结算的购物车项 ID
   loading: boolean          // 加载状态
 
   // ---- 计算属性（getter）----
   // Zustand 没有内置 computed，用方法代替
   totalItems: () => number  // 购物车总商品数
-  totalPrice: () => number  // 购物车总金额
+  totalPrice: () => string  // 勾选商品的总金额（两位小数的字符串，按分精确计算）
+  selectedItems: () => CartItem[]  // 勾选的商品
 
   // ---- 方法（actions）----
   fetchCart: () => Promise<void>                    // 从服务器获取购物车数据
-  addItem: (productId: number, quantity: number) => Promise<boolean>  // 添加商品
+  addItem: (productId: number, quantity: number, variantId?: number | null) => Promise<boolean>  // 添加商品（有规格的商品要带上规格）
   updateQuantity: (itemId: number, quantity: number) => Promise<void>  // 更新数量
   removeItem: (itemId: number) => Promise<void>     // 删除商品
+  toggleSelect: (itemId: number) => void            // 切换单个商品的勾选
+  selectAll: (selected: boolean) => void            // 全选 / 全不选
+  removeSelected: () => void                        // 移除勾选的商品（本地，下单后调用）
   clearCart: () => void                             // 清空购物车（本地）
 }
 
@@ -73,6 +93,7 @@ type CartStore = {
 export const useCartStore = create<CartStore>((set, get) => ({
   // ---- 初始状态 ----
   items: [],
+  selectedIds: [],
   loading: false,
 
   // ---- 计算属性 ----
@@ -82,12 +103,17 @@ export const useCartStore = create<CartStore>((set, get) => ({
   },
 
   totalPrice: () => {
-    return get().items.reduce(
-      (sum, item) => sum + parseFloat(item.product.price) * item.quantity,
-      0
+    // 不能用 parseFloat 累加（0.1 + 0.2 ≠ 0.3），按分计算
+    return sumLineAmounts(
+      get().selectedItems().map((item) => ({ price: item.product.price, quantity: item.quantity }))
     )
   },
 
+  selectedItems: () => {
+    const { items, selectedIds } = get()
+    return items.filter((item) => selectedIds.includes(item.id))
+  },
+
   // ---- 从服务器获取购物车 ----
   fetchCart: async () => {
     set({ loading: true })
@@ -95,7 +121,16 @@ export const useCartStore = create<CartStore>((set, get) => ({
       const response = await fetch('/api/cart')
       const data = await response.json()
       if (data.success) {
-        set({ items: data.data })
+        const items: CartItem[] = data.data.items
+        // 保留已有商品的勾选状态，新出现的商品默认勾选
+        const { items: previous, selectedIds } = get()
+        const known = new Set(previous.map((item) => item.id))
+        set({
+          items,
+          selectedIds: items
+            .filter((item) => !known.has(item.id) || selectedIds.includes(item.id))
+            .map((item) => item.id),
+        })
       }
     } catch (error) {
       console.error('获取购物车失败:', error)
@@ -105,12 +140,12 @@ export const useCartStore = create<CartStore>((set, get) => ({
   },
 
   // ---- 添加商品到购物车 ----
-  addItem: async (productId, quantity) => {
+  addItem: async (productId, quantity, variantId) => {
     try {
       const response = await fetch('/api/cart', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ productId, quantity }),
+        body: JSON.stringify({ productId, quantity, variantId: variantId ?? undefined }),
       })
       const data = await response.json()
       if (data.success) {
@@ -157,6 +192,7 @@ export const useCartStore = create<CartStore>((set, get) => ({
         // 从本地状态中移除
         set({
           items: get().items.filter((item) => item.id !== itemId),
+          selectedIds: get().selectedIds.filter((id) => id !== itemId),
         })
       }
     } catch (error) {
@@ -164,8 +200,31 @@ export const useCartStore = create<CartStore>((set, get) => ({
     }
   },
 
+  // ---- 勾选 ----
+  toggleSelect: (itemId) => {
+    const { selectedIds } = get()
+    set({
+      selectedIds: selectedIds.includes(itemId)
+        ? selectedIds.filter((id) => id !== itemId)
+        : [...selectedIds, itemId],
+    })
+  },
+
+  selectAll: (selected) => {
+    set({ selectedIds: selected ? get().items.map((item) => item.id) : [] })
+  },
+
+  // ---- 移除勾选的商品（本地状态，服务端在下单时已删除）----
+  removeSelected: () => {
+    const { items, selectedIds } = get()
+    set({
+      items: items.filter((item) => !selectedIds.includes(item.id)),
+      selectedIds: [],
+    })
+  },
+
   // ---- 清空购物车（本地状态）----
   clearCart: () => {
-    set({ items: [] })
+    set({ items: [], selectedIds: [] })
   },
 }))
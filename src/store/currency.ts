@@ -0,0 +1,79 @@
+/**
+ * Zustand 显示币种状态管理
+ * ============================================================
+ *
+ * 【状态】
+ * - currency：用户选择的显示币种，保存在 localStorage，下次访问仍然生效
+ * - rates：前台可以选择的币种和汇率（GET /api/exchange-rates）
+ *
+ * 价格组件（components/Price.tsx）按 display() 换算显示价格；
+ * 商品价格、订单金额本身都是人民币，切换币种只影响显示。
+ *
+ * 【为什么要 skipHydration？】
+ * 服务端渲染时拿不到 localStorage，页面先按人民币渲染；
+ * 如果客户端一加载就读取 localStorage，首屏 HTML 和客户端渲染结果不一致（hydration 报错）。
+ * 所以由 Header 在挂载后调用 persist.rehydrate() 再读取。
+ *
+ * 【使用方式】
+ * import { useCurrencyStore } from '@/store/currency'
+ *
+ * const display = useCurrencyStore((state) => state.display())
+ */
+
+import { create } from 'zustand'
+import { persist } from 'zustand/middleware'
+import {
+  BASE_CURRENCY,
+  BASE_DISPLAY_CURRENCY,
+  type CurrencyCode,
+  type DisplayCurrency,
+} from '@/lib/currency-format'
+
+type CurrencyStore = {
+  // ---- 状态 ----
+  currency: CurrencyCode        // 用户选择的显示币种
+  rates: DisplayCurrency[]      // 可以选择的币种和汇率（人民币排在第一个）
+
+  // ---- 计算属性 ----
+  display: () => DisplayCurrency  // 当前的显示币种和汇率（选择的币种已停用时按人民币）
+
+  // ---- 方法 ----
+  fetchRates: () => Promise<void>             // 从服务器获取汇率
+  setCurrency: (currency: CurrencyCode) => void  // 切换显示币种
+}
+
+export const useCurrencyStore = create<CurrencyStore>()(
+  persist(
+    (set, get) => ({
+      currency: BASE_CURRENCY,
+      rates: [BASE_DISPLAY_CURRENCY],
+
+      display: () => {
+        const { currency, rates } = get()
+        // 返回 rates 中的对象本身（引用不变），组件用作 selector 时不会重复渲染
+        return rates.find((rate) => rate.currency === currency) ?? BASE_DISPLAY_CURRENCY
+      },
+
+      fetchRates: async () => {
+        try {
+          const response = await fetch('/api/exchange-rates')
+          const data = await response.json()
+          if (data.success) {
+            set({ rates: data.data })
+          }
+        } catch (error) {
+          console.error('获取汇率失败:', error)
+        }
+      },
+
+      setCurrency: (currency) => {
+        set({ currency })
+      },
+    }),
+    {
+      name: 'display-currency',
+      partialize: (state) => ({ currency: state.currency }),  // 只保存选择的币种，汇率每次重新获取
+      skipHydration: true,
+    }
+  )
+)
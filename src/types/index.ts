@@ -13,6 +13,8 @@
  * - 这里统一使用 type 保持一致性
  */
 
+import type { ProductImageView } from '@/lib/product-image-url'
+
 // ==================== API 响应类型 ====================
 
 /**
@@ -72,7 +74,8 @@ export type ProductWithCategory = {
   description: string
   price: string     // Decimal 在 JSON 序列化后变成 string
   stock: number
-  images: string
+  weight: number    // 重量（克）
+  images: ProductImageView[] // 商品图片（第一张是封面）
   isActive: boolean
   categoryId: number
   createdAt: Date
@@ -97,7 +100,7 @@ export type CartItemWithProduct = {
     name: string
     price: string
     stock: number
-    images: string
+    images: ProductImageView[]
     isActive: boolean
   }
 }
@@ -110,23 +113,43 @@ export type CartItemWithProduct = {
 export type OrderWithItems = {
   id: number
   orderNo: string
-  totalAmount: string
+  totalAmount: string // 应付总额 = 商品金额 - 促销优惠 - 优惠券 + 运费
+  goodsAmount: string // 商品金额
+  promotionDiscount: string // 促销活动优惠金额
+  discountAmount: string // 优惠券抵扣金额
+  shippingFee: string // 运费
   status: 'PENDING' | 'PAID' | 'SHIPPED' | 'COMPLETED' | 'CANCELLED'
   address: string
+  paymentDeadline: Date | null // 支付截止时间
   createdAt: Date
   updatedAt: Date
   items: {
     id: number
     quantity: number
     price: string
+    variantId: number | null   // 购买的规格组合
+    variantName: string | null // 规格名称快照，如 "黑色 / M"
     product: {
       id: number
       name: string
-      images: string
+      images: ProductImageView[]
     }
   }[]
 }
 
+/**
+ * 收货地址快照的结构（下单时 JSON.stringify 存入 Order.address）
+ * 用户之后修改或删除收货地址，不会影响已下单的订单
+ */
+export type AddressSnapshot = {
+  name: string
+  phone: string
+  province: string
+  city: string
+  district: string
+  detail: string
+}
+
 // ==================== 搜索与筛选类型 ====================
 
 /**
@@ -139,7 +162,7 @@ export type ProductSearchParams = {
   maxPrice?: number     // 最高价格
   page?: number         // 页码
   pageSize?: number     // 每页条数
-  sortBy?: 'price' | 'createdAt' | 'name' // 排序字段
+  sortBy?: 'relevance' | 'price' | 'createdAt' | 'name' // 排序字段（relevance：按搜索相关度）
   sortOrder?: 'asc' | 'desc'              // 排序方向
 }
 
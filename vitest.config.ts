@@ -0,0 +1,16 @@
+import { fileURLToPath } from 'node:url'
+import { defineConfig } from 'vitest/config'
+
+export default defineConfig({
+  resolve: {
+    // 和 tsconfig.json 的 paths 保持一致
+    alias: { '@': fileURLToPath(new URL('./src', import.meta.url)) },
+  },
+  test: {
+    environment: 'node',
+    env: {
+      // 需要数据库的测试只连接 TEST_DATABASE_URL，不会误写开发数据库；没有配置时这些测试跳过
+      DATABASE_URL: process.env.TEST_DATABASE_URL ?? '',
+    },
+  },
+})